@@ -7,11 +7,56 @@
  * - Every verb execution emits a full NounEvent to the immutable event log
  *   with conjugation, before/after state, and monotonic sequence
  * - Events are dispatched to registered subscriptions (webhook/websocket/code)
+ * - WebSocket subscribers (hibernatable, via fetch()) receive events matching
+ *   their Type.verb patterns live, after replaying from an event cursor
  * - Entities use {type}_{sqid} IDs
- * - Soft-delete: entities are marked $deletedAt, never physically removed
- * - Hooks are stored as registrations but runtime code execution is disabled for security
- * - Time travel: entity state can be reconstructed at any version or timestamp
- * - CDC: Server-Sent Events stream for external consumers
+ * - Writes are validated against the noun schema (422 with per-field errors);
+ *   declared defaults are applied on create before validation
+ * - `#` / `##` fields get partial expression indexes; `##` duplicates return 409
+ * - Verbs may declare state transitions (`close: 'Negotiation => Closed'`);
+ *   executeVerb rejects other source states with 409 and sets the target state
+ * - Verbs may declare typed inputs (`'close.reason': 'string!'`); payloads are
+ *   validated against them, recorded as the event data, and only inputs named
+ *   after a field are written to the entity (a verb without inputs writes none
+ *   of its payload)
+ * - Before/after hooks run in an isolated Worker (Worker Loader, no network,
+ *   CPU + wall-clock budget); before hooks can veto or rewrite the payload,
+ *   after hooks can emit follow-up verbs; failures are logged as Hook.fail events
+ * - executeVerb stamps `<event>At` / `<event>By` on the entity, creates and
+ *   updates stamp `createdBy` / `updatedBy` (opt out per noun with
+ *   `options: { stampVerbs: false }`)
+ * - listEntities pages by offset or by an opaque keyset cursor (meta.nextCursor);
+ *   `count: false` skips the COUNT(*) for cheap infinite scroll
+ * - batch() commits many create/update/delete/verb operations in one
+ *   transactionSync (atomic or best-effort); events publish after commit
+ * - transaction() groups verbs, writes and relationship links atomically;
+ *   its events (links as Relationship.relate / unrelate) share a correlationId
+ * - Full-text search: text, markdown and indexed string fields are kept in an
+ *   FTS5 index on every write; listEntities takes `q`, search() ranks across nouns
+ * - aggregateEntities() computes count/sum/avg/min/max/count_distinct in SQLite,
+ *   grouped by fields or date buckets, with the listEntities filter syntax
+ * - Reads support `fields` projection and `expand` of declared relationships
+ *   (relationship fields, backrefs and _rels edges), skipping soft-deleted targets
+ * - upsertEntity() creates or updates by unique field; creates and verbs
+ *   accept an Idempotency-Key whose successful response is replayed for 24h
+ * - revertEntity() writes the state of an earlier $version back as a new version
+ *   (a `revert` event); reverting across a delete requires `restore`
+ * - Soft-delete: entities are marked $deletedAt; restoreEntity() undoes it and
+ *   `includeDeleted` lists them. Only the admin purge removes rows (and can
+ *   redact the entity's event payloads)
+ * - GDPR: exportSubject() bundles a data subject's entities, events, relationships
+ *   and dispatch log; eraseSubject() redacts them, listing removed fields under $redacted
+ * - Time travel: entity state can be reconstructed at any version or timestamp,
+ *   and listEntities can rebuild a whole collection `asOf` a timestamp
+ * - Snapshots of replayed entity state (every SNAPSHOT_INTERVAL events or on
+ *   demand) bound time-travel replay; older ones can be offloaded to R2
+ * - Retention: with a policy set, the alarm archives events and dispatch log
+ *   past the hot window to gzip NDJSON segments in R2 (indexed in SQLite);
+ *   event queries, history and time travel read through to them
+ * - Events record the actor of each write; entityBlame() names the event
+ *   (verb, time, actor, version) that last changed each field
+ * - CDC: Server-Sent Events stream for external consumers; replays from a
+ *   cursor (since / Last-Event-ID), then tails newly committed events live
  *
  * Public methods are the RPC interface — route handlers call them directly
  * via the DO stub, bypassing HTTP fetch.
@@ -20,6 +65,18 @@
 import { DurableObject } from 'cloudflare:workers'
 import { DB, R2Backend } from '@dotdo/db'
 import { parseNounDefinition } from '../lib/parse'
+import { validateFields, formatFieldErrors, type FieldError } from '../lib/validate'
+import { applyDefaults, invalidDefaults } from '../lib/defaults'
+import { jsonField, jsonPath, sqlIdentifier, sqlLiteral, sqlValue, isUniqueViolation } from '../lib/sql'
+import { ANONYMOUS_ACTOR } from '../lib/actor'
+import { compileFilter, type CompiledFilter } from '../lib/filter'
+import { decodeCursor, encodeCursor, keysetCondition, type Cursor } from '../lib/cursor'
+import { parsePathList, includeExpanded, projectFields, MAX_EXPAND_DEPTH, type PathTree } from '../lib/projection'
+import { runHook, type HookContext, type HookOutcome } from '../lib/hook-runner'
+import { containsValue, redactState, type RedactionNeedle } from '../lib/redact'
+import { compileAggregation, parseGroupBy, parseMetrics, type CompiledAggregation } from '../lib/aggregate'
+import { highlightSnippet, parseSearchQuery, searchDocument, searchableFields, SNIPPET_CLOSE, SNIPPET_OPEN } from '../lib/search'
+import { decodeSegment, encodeSegment, MAX_SEGMENT_ROWS, parseRetentionPolicy, retentionCutoff, segmentKey } from '../lib/archive'
 import { toPastParticiple, toGerund } from '../lib/linguistic'
 import {
   BUILTIN_HOOKS,
@@ -34,7 +91,26 @@ import {
 import { createRels } from '../../../do/core/src/rels'
 import { EventEmitter } from '../../../events/core/src/emitter'
 import type { PipelineLike } from '../../../events/core/src/types'
-import type { StoredNounSchema, NounInstance, VerbEvent, VerbConjugation, Hook } from '../types'
+import type {
+  StoredNounSchema,
+  NounInstance,
+  VerbEvent,
+  VerbConjugation,
+  Hook,
+  ParsedProperty,
+  BatchOperation,
+  BatchMode,
+  BatchResult,
+  TransactionStep,
+  TransactionResult,
+  DataSubject,
+  SubjectExport,
+  SearchHit,
+  FieldBlame,
+  RetentionPolicy,
+  ArchiveSegment,
+  ListEntitiesParams,
+} from '../types'
 import type { Relationship } from '../../../do/core/src/rels'
 
 // ---------------------------------------------------------------------------
@@ -53,6 +129,10 @@ export interface FullEvent {
   after: Record<string, unknown> | null
   sequence: number
   timestamp: string
+  /** Shared by all events of one transaction */
+  correlationId?: string
+  /** Who made the write (absent on system events and events logged before actors were recorded) */
+  actor?: string
 }
 
 interface StoredSubscription {
@@ -87,6 +167,10 @@ function generateEventId(): string {
   return `evt_${generateSqid(12)}`
 }
 
+function generateCorrelationId(): string {
+  return `corr_${generateSqid(12)}`
+}
+
 function generateSubscriptionId(): string {
   return `sub_${generateSqid(12)}`
 }
@@ -108,6 +192,274 @@ function conjugateVerb(verb: string): { action: string; activity: string; event:
   }
 }
 
+// ---------------------------------------------------------------------------
+// Hooks
+// ---------------------------------------------------------------------------
+
+/** Maximum chain of verbs emitted by after hooks (hook → verb → hook → ...) */
+const MAX_HOOK_DEPTH = 3
+
+/** Hex SHA-256 digest of a string */
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+// ---------------------------------------------------------------------------
+// Idempotency
+// ---------------------------------------------------------------------------
+
+/** How long the response to an Idempotency-Key is kept for replay */
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000
+
+/** How long a key stays reserved without renewal, so a request cut short by an eviction frees it */
+const IDEMPOTENCY_LEASE_MS = 60 * 1000
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+/** Events between automatic entity snapshots, unless SNAPSHOT_INTERVAL overrides it */
+const DEFAULT_SNAPSHOT_INTERVAL = 100
+
+// ---------------------------------------------------------------------------
+// Archival
+// ---------------------------------------------------------------------------
+
+/** How often the alarm archives events that left the hot window */
+const ARCHIVE_INTERVAL_MS = 60 * 60 * 1000
+
+/** Delay before the next run when a run stopped at MAX_SEGMENTS_PER_RUN */
+const ARCHIVE_BACKLOG_DELAY_MS = 60 * 1000
+
+/** Most segments one archive run writes */
+const MAX_SEGMENTS_PER_RUN = 10
+
+// ---------------------------------------------------------------------------
+// Event streams (SSE and WebSocket subscriptions)
+// ---------------------------------------------------------------------------
+
+/** Interval between heartbeat comments on an open event stream */
+const STREAM_HEARTBEAT_MS = 15 * 1000
+
+/** Events replayed per pull while a stream catches up to the log */
+const STREAM_REPLAY_PAGE = 100
+
+/** Messages queued for one client before it counts as too slow and is closed */
+const STREAM_QUEUE_LIMIT = 1000
+
+/** A connected getEventStream() client */
+interface EventStreamClient {
+  controller: ReadableStreamDefaultController<Uint8Array>
+  types: string[] | null
+  verbs: string[] | null
+  /** Set once the replay has caught up; from then on publishEvent() pushes to it */
+  live: boolean
+  heartbeat: ReturnType<typeof setInterval>
+}
+
+/** Most events replayed to a WebSocket per subscribe; the client resumes from the cursor it is sent */
+const SOCKET_REPLAY_LIMIT = 1000
+
+/** Close codes that only report a closure (no status, abnormal, TLS failure) and that close() rejects */
+const RESERVED_CLOSE_CODES = new Set([1005, 1006, 1015])
+
+/**
+ * What a hibernatable WebSocket is subscribed to. Kept in the socket's
+ * attachment, so it survives the DO hibernating between events.
+ */
+interface SocketSubscription {
+  /** Type.verb patterns, matched like webhook subscriptions */
+  patterns: string[]
+  /** Set when the socket connected to a stored websocket-mode subscription */
+  subscriptionId: string | null
+}
+
+/** An event as one SSE message; its id is the resume cursor */
+function sseMessage(event: FullEvent): string {
+  return `id: ${event.$id}\nevent: ${event.$type}\ndata: ${JSON.stringify(event)}\n\n`
+}
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+/** A write rejected before anything was stored */
+interface WriteFailure {
+  success: false
+  error: string
+  meta?: { errors?: FieldError[]; field?: string; conflictId?: string; currentVersion?: number; expectedVersion?: number; hookId?: number }
+  etag?: string
+  status: number
+}
+
+/**
+ * A validated entity write. Planning only reads; commitWrite() stores it in
+ * SQLite and logs its event, and mirrorWrite() copies it to R2.
+ */
+interface PlannedWrite {
+  type: string
+  id: string
+  /** 'create', 'update', 'delete' or a custom verb */
+  verb: string
+  noun: StoredNounSchema | undefined
+  before: NounInstance | null
+  /** Entity after the write (carrying $deletedAt for deletes) */
+  after: NounInstance
+  /** Event data */
+  data: Record<string, unknown> | null
+  now: string
+  /** Who made the write, recorded on its event */
+  actor?: string
+}
+
+/** Maximum operations in one batch */
+const MAX_BATCH_OPERATIONS = 1000
+
+const BATCH_OPS = new Set(['create', 'update', 'delete', 'verb'])
+
+/** A write committed inside a batch or transaction, with its event */
+interface AppliedWrite {
+  write: PlannedWrite
+  event: FullEvent
+}
+
+/** Thrown inside transactionSync() to roll back an atomic batch or transaction */
+class TransactionRollback extends Error {}
+
+/**
+ * Check the shape of a batch operation, which arrives as untrusted JSON.
+ */
+function batchOperationError(operation: unknown): string | null {
+  if (typeof operation !== 'object' || operation === null || Array.isArray(operation)) return 'Operation must be an object'
+  const o = operation as Record<string, unknown>
+  if (typeof o.op !== 'string' || !BATCH_OPS.has(o.op)) return 'op must be one of: create, update, delete, verb'
+  if (typeof o.type !== 'string' || !o.type) return 'type is required'
+  if (o.op !== 'create' && (typeof o.id !== 'string' || !o.id)) return `id is required for ${o.op}`
+  if (o.op === 'verb' && (typeof o.verb !== 'string' || !o.verb)) return 'verb is required for verb operations'
+  if ((o.op === 'create' || o.op === 'update') && o.data === undefined) return `data is required for ${o.op}`
+  if (o.data !== undefined && (typeof o.data !== 'object' || o.data === null || Array.isArray(o.data))) return 'data must be an object'
+  if (o.ifMatch !== undefined && typeof o.ifMatch !== 'string') return 'ifMatch must be a string'
+  return null
+}
+
+const STEP_ALIAS_REGEX = /^[a-zA-Z_]\w*$/
+
+/**
+ * Check the shape of a transaction step; entity steps use the batch rules.
+ */
+function transactionStepError(step: unknown): string | null {
+  if (typeof step !== 'object' || step === null || Array.isArray(step)) return 'Step must be an object'
+  const s = step as Record<string, unknown>
+  if (s.op === 'relate') {
+    for (const key of ['type', 'id', 'relationship', 'targetType', 'targetId']) {
+      if (typeof s[key] !== 'string' || !s[key]) return `${key} is required for relate`
+    }
+    return null
+  }
+  if (s.op === 'unrelate') {
+    return typeof s.relationshipId === 'string' && s.relationshipId ? null : 'relationshipId is required for unrelate'
+  }
+  if (s.as !== undefined && (s.op !== 'create' || typeof s.as !== 'string' || !STEP_ALIAS_REGEX.test(s.as))) {
+    return 'as must be an identifier and is only allowed on create steps'
+  }
+  const error = batchOperationError(step)
+  return error === 'op must be one of: create, update, delete, verb' ? 'op must be one of: create, update, delete, verb, relate, unrelate' : error
+}
+
+/**
+ * Replace `$name` references to earlier create steps with their entity IDs.
+ */
+function resolveStepRefs(step: TransactionStep, refs: Map<string, string>): TransactionStep {
+  if (refs.size === 0 || typeof step !== 'object' || step === null) return step
+  const resolve = (value: unknown) => (typeof value === 'string' && value.startsWith('$') && refs.has(value.slice(1)) ? refs.get(value.slice(1))! : value)
+  const resolved: Record<string, unknown> = { ...step }
+  for (const key of ['id', 'targetId']) {
+    if (key in resolved) resolved[key] = resolve(resolved[key])
+  }
+  const data = resolved.data
+  if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
+    resolved.data = Object.fromEntries(Object.entries(data).map(([k, v]) => [k, resolve(v)]))
+  }
+  return resolved as TransactionStep
+}
+
+// ---------------------------------------------------------------------------
+// Expansion
+// ---------------------------------------------------------------------------
+
+/** Parsed `fields` / `expand` request params */
+interface EntityShape {
+  fields: PathTree | null
+  expand: PathTree | null
+}
+
+/** Entity ID from a _rels key (`{Type}_{entityId}`) */
+function relKeyEntityId(key: string): string {
+  return key.slice(key.indexOf('_') + 1)
+}
+
+// ---------------------------------------------------------------------------
+// Data subjects
+// ---------------------------------------------------------------------------
+
+/** A data subject's entities and the values that identify it */
+interface ResolvedSubject {
+  entities: { type: string; id: string; entity: NounInstance }[]
+  /** Field value the subject was looked up by, if any */
+  value?: RedactionNeedle
+  /** Entity IDs plus the lookup value — what events are searched for */
+  needles: RedactionNeedle[]
+}
+
+// ---------------------------------------------------------------------------
+// OpenAPI Helpers
+// ---------------------------------------------------------------------------
+
+/** JSON Schema type for each noun field type (unlisted types map to string) */
+const OPENAPI_TYPES: Record<string, string> = {
+  string: 'string',
+  number: 'number',
+  int: 'integer',
+  float: 'number',
+  boolean: 'boolean',
+  date: 'string',
+  datetime: 'string',
+  json: 'object',
+  url: 'string',
+  email: 'string',
+  text: 'string',
+  markdown: 'string',
+}
+
+/**
+ * JSON Schema for a field or enum property.
+ */
+function propertySchema(prop: ParsedProperty): Record<string, unknown> {
+  if (prop.kind === 'enum' && prop.enumValues) {
+    return { type: 'string', enum: prop.enumValues }
+  }
+  return { type: OPENAPI_TYPES[prop.type ?? 'string'] ?? 'string' }
+}
+
+/**
+ * JSON Schema for a verb request body — declared inputs, or any object.
+ */
+function verbInputSchema(inputs: Record<string, ParsedProperty> | undefined): Record<string, unknown> {
+  if (!inputs) return { type: 'object' }
+  const required = Object.values(inputs)
+    .filter((prop) => prop.modifiers?.required)
+    .map((prop) => prop.name)
+  return {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(inputs).map(([name, prop]) => [name, propertySchema(prop)])),
+    ...(required.length > 0 ? { required } : {}),
+    additionalProperties: false,
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Durable Object
 // ---------------------------------------------------------------------------
@@ -127,6 +479,12 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
   /** Batched CDC event emitter — sends events via Pipeline with alarm-based retry */
   private emitter: EventEmitter
 
+  /** Open batch/transaction: its events share a correlation id and are published once it commits */
+  private openTransaction: { correlationId: string | null; events: { event: FullEvent; contextUrl: string }[] } | null = null
+
+  /** Open SSE streams (in memory; clients reconnect with Last-Event-ID after an eviction) */
+  private eventStreams = new Set<EventStreamClient>()
+
   constructor(ctx: DurableObjectState, env: Cloudflare.Env) {
     super(ctx, env)
     this.sql = ctx.storage.sql
@@ -150,14 +508,16 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
     const bucket = envAny.BUCKET as ConstructorParameters<typeof R2Backend>[0] | undefined
     if (!bucket) return
 
-    // Scope R2 prefix by tenant ID (stored in tenant_meta), fall back to DO ID
-    const tenantRow = this.sql.exec("SELECT value FROM tenant_meta WHERE key = 'tenantId'").toArray()[0]
-    const prefix = tenantRow ? `${tenantRow.value as string}/` : `${this.ctx.id.toString()}/`
-
-    const storage = new R2Backend(bucket, { prefix })
+    const storage = new R2Backend(bucket, { prefix: this.r2Prefix() })
     this.db = DB({ schema: 'flexible' }, { storage })
   }
 
+  /** Scope R2 keys by tenant ID (stored in tenant_meta), falling back to the DO ID */
+  private r2Prefix(): string {
+    const tenantRow = this.sql.exec("SELECT value FROM tenant_meta WHERE key = 'tenantId'").toArray()[0]
+    return tenantRow ? `${tenantRow.value as string}/` : `${this.ctx.id.toString()}/`
+  }
+
   /** Get a @dotdo/db collection for a given entity type */
   private getCollection(type: string): Record<string, (...args: unknown[]) => unknown> {
     if (!this.db) throw new Error('Database not initialized — missing BUCKET binding')
@@ -214,7 +574,9 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
         before_state TEXT,
         after_state TEXT,
         sequence INTEGER NOT NULL DEFAULT 0,
-        timestamp TEXT NOT NULL DEFAULT (datetime('now'))
+        timestamp TEXT NOT NULL DEFAULT (datetime('now')),
+        correlation_id TEXT,
+        actor TEXT
       )
     `)
 
@@ -289,6 +651,86 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
     this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_dispatch_event ON dispatch_log(event_id)`)
     this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_dispatch_timestamp ON dispatch_log(timestamp)`)
 
+    // Idempotency keys — stored responses for replayed creates and verbs
+    // (response is NULL while the first request is still running)
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        key TEXT PRIMARY KEY,
+        scope TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        response TEXT,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      )
+    `)
+
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_idempotency_expires ON idempotency_keys(expires_at)`)
+
+    // Full-text search — one FTS5 document per live entity with searchable
+    // fields (see lib/search). search_docs maps entities to stable FTS rowids.
+    const hadSearchIndex = this.sql.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'search_docs'").toArray().length > 0
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS search_docs (
+        doc_id INTEGER PRIMARY KEY,
+        entity_id TEXT NOT NULL UNIQUE,
+        type TEXT NOT NULL
+      )
+    `)
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_search_docs_type ON search_docs(type)`)
+    this.sql.exec(`CREATE VIRTUAL TABLE IF NOT EXISTS entities_fts USING fts5(body, tokenize = 'porter unicode61')`)
+
+    // Entity snapshots — the replayed state after event `sequence`, so time
+    // travel replays from the nearest snapshot instead of sequence 1. state is
+    // NULL once the snapshot has been offloaded to R2 under r2_key.
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS snapshots (
+        entity_type TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        sequence INTEGER NOT NULL,
+        timestamp TEXT NOT NULL,
+        state TEXT,
+        r2_key TEXT,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (entity_type, entity_id, sequence)
+      )
+    `)
+
+    // Event log archival — the tenant's retention policy, and an index of the
+    // R2 segments holding archived events and dispatch log rows (see lib/archive).
+    // cutoff is the start of the hot window when the segment was written;
+    // archive_segment_entities records which entity sequences each segment holds.
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS retention_policy (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        hot_days INTEGER NOT NULL,
+        dispatch_log_days INTEGER NOT NULL,
+        next_run_at TEXT
+      )
+    `)
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS archive_segments (
+        id INTEGER PRIMARY KEY,
+        kind TEXT NOT NULL,
+        r2_key TEXT NOT NULL,
+        min_timestamp TEXT NOT NULL,
+        max_timestamp TEXT NOT NULL,
+        count INTEGER NOT NULL,
+        cutoff TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `)
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_archive_segments_kind ON archive_segments(kind, max_timestamp)`)
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS archive_segment_entities (
+        segment_id INTEGER NOT NULL,
+        entity_type TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        min_sequence INTEGER NOT NULL,
+        max_sequence INTEGER NOT NULL,
+        PRIMARY KEY (entity_type, entity_id, segment_id)
+      )
+    `)
+
     // Migration: add new columns to existing events table if they don't exist.
     // SQLite doesn't have IF NOT EXISTS for ALTER TABLE, so we catch errors.
     try {
@@ -305,6 +747,24 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
         // Columns already exist or table was just created with them
       }
     }
+
+    try {
+      this.sql.exec('SELECT correlation_id FROM events LIMIT 0')
+    } catch {
+      this.sql.exec('ALTER TABLE events ADD COLUMN correlation_id TEXT')
+    }
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_events_correlation ON events(correlation_id)`)
+
+    try {
+      this.sql.exec('SELECT actor FROM events LIMIT 0')
+    } catch {
+      this.sql.exec('ALTER TABLE events ADD COLUMN actor TEXT')
+    }
+
+    // Index entities written before full-text search existed
+    if (!hadSearchIndex) {
+      for (const noun of this.loadNouns().values()) this.reindexSearch(noun)
+    }
   }
 
   // =========================================================================
@@ -332,7 +792,7 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
 
   // ---- Nouns ----
 
-  defineNoun(body: { name: string; definition: Record<string, string | null> }): { success: boolean; data?: StoredNounSchema; error?: string; status: number } {
+  defineNoun(body: { name: string; definition: Record<string, string | null>; options?: { stampVerbs?: boolean } }): { success: boolean; data?: StoredNounSchema; error?: string; status: number } {
     if (!body.name || typeof body.name !== 'string') {
       return { success: false, error: 'Missing or invalid name', status: 400 }
     }
@@ -343,12 +803,42 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
       return { success: false, error: 'Noun name must be PascalCase (e.g., Contact, BlogPost)', status: 400 }
     }
 
-    const schema = parseNounDefinition(body.name, body.definition)
+    let schema: StoredNounSchema
+    try {
+      schema = parseNounDefinition(body.name, body.definition)
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : 'Invalid definition', status: 400 }
+    }
+
+    if (body.options?.stampVerbs === false) {
+      schema.stampVerbs = false
+    }
+
+    const badDefaults = invalidDefaults(schema.fields)
+    if (badDefaults.length > 0) {
+      return { success: false, error: `Invalid default value for: ${badDefaults.join(', ')}`, status: 400 }
+    }
+
+    // Existing data must satisfy new unique constraints before the index can be built
+    for (const field of this.uniqueFields(schema)) {
+      const duplicate = this.findDuplicateValue(schema.name, field.name)
+      if (duplicate !== undefined) {
+        return { success: false, error: `Cannot make ${schema.name}.${field.name} unique: duplicate value ${JSON.stringify(duplicate)} exists`, status: 409 }
+      }
+    }
+
+    this.syncFieldIndexes(schema)
+    const previous = this.getNoun(schema.name)
+
     const schemaJson = JSON.stringify(schema)
 
     this.sql.exec("INSERT OR REPLACE INTO nouns (name, schema, created_at) VALUES (?, ?, datetime('now'))", schema.name, schemaJson)
     this.nounCache = null
 
+    if (!previous || searchableFields(previous).join() !== searchableFields(schema).join()) {
+      this.reindexSearch(schema)
+    }
+
     return { success: true, data: schema, status: 201 }
   }
 
@@ -432,66 +922,122 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
   async createEntity(
     type: string,
     data: Record<string, unknown>,
-    opts?: { tenantId?: string; contextUrl?: string },
-  ): Promise<{ success: boolean; data?: NounInstance; error?: string; meta?: { eventId: string }; status: number }> {
-    const noun = this.getNoun(type)
-    if (!noun) {
-      return { success: false, error: `Noun '${type}' is not defined. Define it first via POST /nouns`, status: 400 }
-    }
+    opts?: { tenantId?: string; contextUrl?: string; idempotencyKey?: string; actor?: string },
+  ): Promise<{
+    success: boolean
+    data?: NounInstance
+    error?: string
+    meta?: { eventId?: string; errors?: FieldError[]; field?: string; conflictId?: string }
+    replayed?: boolean
+    status: number
+  }> {
+    return this.idempotent(opts?.idempotencyKey, `create:${type}`, data, async () => {
+      const write = this.planCreate(type, data, opts)
+      if ('failure' in write) return write.failure
 
-    if (noun.disabledVerbs.includes('create')) {
-      return { success: false, error: `Verb 'create' is disabled on ${type}`, status: 403 }
-    }
+      // Primary: write to @dotdo/db (R2 Parquet); secondary: SQLite (kept during migration for safety)
+      await this.mirrorWrite(write)
+      const committed = this.commitWrite(write)
+      if ('failure' in committed) return committed.failure
 
-    const id = (data.$id as string) || generateEntityId(type)
-    const now = new Date().toISOString()
-    const contextUrl = opts?.contextUrl ?? (opts?.tenantId ? `https://headless.ly/~${opts.tenantId}` : 'https://headless.ly/~default')
+      return { success: true, data: write.after, meta: { eventId: committed.event.$id }, status: 201 }
+    })
+  }
 
-    const entity: NounInstance = {
-      ...data,
-      $id: id,
-      $type: type,
-      $context: contextUrl,
-      $version: 1,
-      $createdAt: now,
-      $updatedAt: now,
+  /**
+   * Create or update the entity identified by `upsertOn` — a comma-separated
+   * list of unique (`##`) fields and/or `$id`, whose values are taken from
+   * `data`. A live match is updated (200); otherwise the entity is created
+   * (201). meta.created tells the two apart.
+   */
+  async upsertEntity(
+    type: string,
+    data: Record<string, unknown>,
+    opts: { upsertOn: string; ifMatch?: string; tenantId?: string; contextUrl?: string; idempotencyKey?: string; actor?: string },
+  ): Promise<{
+    success: boolean
+    data?: NounInstance
+    error?: string
+    meta?: {
+      eventId?: string
+      created?: boolean
+      currentVersion?: number
+      expectedVersion?: number
+      errors?: FieldError[]
+      field?: string
+      conflictId?: string
     }
+    etag?: string
+    replayed?: boolean
+    status: number
+  }> {
+    return this.idempotent(opts.idempotencyKey, `upsert:${type}`, { upsertOn: opts.upsertOn, data }, async () => {
+      const noun = this.getNoun(type)
+      if (!noun) {
+        return { success: false, error: `Noun '${type}' is not defined. Define it first via POST /nouns`, status: 400 }
+      }
 
-    // Primary: write to @dotdo/db (R2 Parquet)
-    if (this.db) {
-      try {
-        const collection = this.getCollection(type)
-        await collection.create(entity)
-      } catch (err) {
-        console.warn(`[ObjectsDO] R2 write failed for ${type}/${id}, falling back to SQLite:`, err)
-        // Fall through to SQLite
+      const keys = (opts.upsertOn ?? '')
+        .split(',')
+        .map((f) => f.trim())
+        .filter(Boolean)
+      if (keys.length === 0) {
+        return { success: false, error: 'upsertOn must name at least one unique field', status: 400 }
       }
-    }
 
-    // Secondary: write to SQLite (kept during migration for safety)
-    this.sql.exec(
-      'INSERT INTO entities (id, type, data, version, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
-      id,
-      type,
-      JSON.stringify(entity),
-      1,
-      now,
-      now,
-    )
+      const unique = new Set(this.uniqueFields(noun).map((f) => f.name))
+      const conditions: string[] = []
+      const values: (string | number | null)[] = []
+      for (const key of keys) {
+        if (key !== '$id' && !unique.has(key)) {
+          return { success: false, error: `upsertOn field '${key}' is not a unique (##) field of ${type}`, status: 400 }
+        }
+        const value = data[key]
+        if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+          return { success: false, error: `upsertOn field '${key}' needs a value in the request body`, status: 400 }
+        }
+        conditions.push(key === '$id' ? 'id = ?' : `${jsonField(key)} = ?`)
+        values.push(sqlValue(value) as string | number | null)
+      }
 
-    const event = this.logEvent(type, id, 'create', entity, null, entity, contextUrl)
+      const match = this.sql
+        .exec(`SELECT id FROM entities WHERE type = ${sqlLiteral(type)} AND deleted_at IS NULL AND ${conditions.join(' AND ')} LIMIT 1`, ...values)
+        .toArray()[0]
 
-    return { success: true, data: entity, meta: { eventId: event.$id }, status: 201 }
+      const write = match ? this.planUpdate(type, match.id as string, data, { ifMatch: opts.ifMatch, actor: opts.actor }) : this.planCreate(type, data, opts)
+      if ('failure' in write) return write.failure
+
+      await this.mirrorWrite(write)
+      const committed = this.commitWrite(write)
+      if ('failure' in committed) return committed.failure
+
+      return {
+        success: true,
+        data: write.after,
+        meta: { eventId: committed.event.$id, created: !match },
+        etag: `"${write.after.$version}"`,
+        status: match ? 200 : 201,
+      }
+    })
   }
 
-  async getEntity(type: string, id: string): Promise<{ success: boolean; data?: NounInstance; error?: string; etag?: string; status: number }> {
+  async getEntity(
+    type: string,
+    id: string,
+    opts?: { fields?: string; expand?: string },
+  ): Promise<{ success: boolean; data?: NounInstance; error?: string; etag?: string; status: number }> {
+    const shape = this.parseShape(type, opts)
+    if ('error' in shape) {
+      return { success: false, error: shape.error, status: 400 }
+    }
+
     // Primary: try @dotdo/db (R2 Parquet)
     if (this.db) {
       try {
         const collection = this.getCollection(type)
         const result = await collection.findOne({ $id: id }) as NounInstance | null
         if (result && !(result as Record<string, unknown>).$deletedAt) {
-          return { success: true, data: result, etag: `"${result.$version}"`, status: 200 }
+          return { success: true, data: this.shapeEntities(type, [result], shape)[0], etag: `"${result.$version}"`, status: 200 }
         }
       } catch {
         // R2 read failed — fall through to SQLite
@@ -517,213 +1063,336 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
       }
     }
 
-    return { success: true, data: entity, etag: `"${entity.$version}"`, status: 200 }
+    return { success: true, data: this.shapeEntities(type, [entity], shape)[0], etag: `"${entity.$version}"`, status: 200 }
   }
 
   async listEntities(
     type: string,
-    params: { limit?: number; offset?: number; filter?: string; sort?: string },
-  ): Promise<{ success: boolean; data?: NounInstance[]; error?: string; meta?: { total: number; limit: number; offset: number; hasMore: boolean }; status: number }> {
+    params: ListEntitiesParams,
+  ): Promise<{
+    success: boolean
+    data?: NounInstance[]
+    error?: string
+    meta?: { total?: number; limit: number; offset: number; hasMore: boolean; nextCursor?: string; asOf?: string }
+    status: number
+  }> {
     const limit = Math.min(params.limit ?? 100, 1000)
     const offset = params.offset ?? 0
+    const withCount = params.count !== false
 
-    // Primary: try @dotdo/db (R2 Parquet)
-    if (this.db) {
+    let cursor: Cursor | undefined
+    if (params.cursor) {
+      if (offset !== 0) {
+        return { success: false, error: 'Use either cursor or offset, not both', status: 400 }
+      }
       try {
-        const collection = this.getCollection(type)
-
-        // Parse filter JSON
-        let filterObj: Record<string, unknown> = {}
-        if (params.filter) {
-          try {
-            filterObj = JSON.parse(params.filter) as Record<string, unknown>
-          } catch {
-            return { success: false, error: 'Invalid filter JSON', status: 400 }
-          }
-        }
-
-        const findResult = await collection.find(filterObj, { limit, offset }) as { items: NounInstance[]; total?: number; hasMore: boolean }
-        const entities = (findResult.items ?? []).filter((e: NounInstance) => !(e as Record<string, unknown>).$deletedAt)
-        const total = findResult.total ?? entities.length
-
-        return {
-          success: true,
-          data: entities,
-          meta: { total, limit, offset, hasMore: findResult.hasMore },
-          status: 200,
-        }
+        cursor = decodeCursor(params.cursor)
       } catch {
-        // R2 query failed — fall through to SQLite
+        return { success: false, error: 'Invalid cursor', status: 400 }
       }
     }
 
-    // Fallback: SQLite
-    const filterConditions: string[] = []
-    const filterValues: (string | number | boolean | null)[] = []
-
+    // Parse and compile the filter up front so unsupported operators are
+    // rejected before any query runs
+    let filterObj: Record<string, unknown> = {}
     if (params.filter) {
       try {
-        const filter = JSON.parse(params.filter) as Record<string, unknown>
-        for (const [key, value] of Object.entries(filter)) {
-          if (value === null) {
-            filterConditions.push(`json_extract(data, '$.' || ?) IS NULL`)
-            filterValues.push(key)
-          } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
-            filterConditions.push(`json_extract(data, '$.' || ?) = ?`)
-            filterValues.push(key, value as string | number | boolean)
-          }
-        }
+        filterObj = JSON.parse(params.filter) as Record<string, unknown>
       } catch {
         return { success: false, error: 'Invalid filter JSON', status: 400 }
       }
     }
 
-    const whereClause = 'WHERE type = ? AND deleted_at IS NULL' + (filterConditions.length > 0 ? ' AND ' + filterConditions.join(' AND ') : '')
-    const whereValues: (string | number | boolean | null)[] = [type, ...filterValues]
+    let compiledFilter: CompiledFilter
+    try {
+      compiledFilter = compileFilter(filterObj)
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : 'Invalid filter', status: 400 }
+    }
 
-    let orderBy = 'ORDER BY created_at DESC'
-    const sortValues: (string | number | boolean | null)[] = []
-    if (params.sort) {
-      try {
-        const sort = JSON.parse(params.sort) as Record<string, 1 | -1>
-        const entry = Object.entries(sort)[0]
-        if (entry) {
-          const [field, dir] = entry
-          const direction = dir === 1 ? 'ASC' : 'DESC'
-          if (field === '$createdAt' || field === 'created_at') {
-            orderBy = `ORDER BY created_at ${direction}`
-          } else if (field === '$updatedAt' || field === 'updated_at') {
-            orderBy = `ORDER BY updated_at ${direction}`
-          } else {
-            orderBy = `ORDER BY json_extract(data, '$.' || ?) ${direction}`
-            sortValues.push(field)
-          }
-        }
-      } catch {
-        // Ignore invalid sort — fall back to default
+    let asOf: string | undefined
+    if (params.asOf !== undefined) {
+      const time = Date.parse(params.asOf)
+      if (isNaN(time)) {
+        return { success: false, error: 'Invalid asOf timestamp', status: 400 }
+      }
+      // The search index only holds current text
+      if (params.q !== undefined) {
+        return { success: false, error: 'q cannot be combined with asOf', status: 400 }
+      }
+      asOf = new Date(time).toISOString()
+      // Collections are rebuilt from hot events only
+      const archivedThrough = this.archivedThrough()
+      if (archivedThrough && asOf < archivedThrough) {
+        return { success: false, error: `asOf must not precede the archived event log (archived through ${archivedThrough})`, status: 400 }
       }
     }
 
-    const query = `SELECT data FROM entities ${whereClause} ${orderBy} LIMIT ? OFFSET ?`
-    const queryValues = [...whereValues, ...sortValues, limit, offset]
-
-    const rows = this.sql.exec(query, ...queryValues).toArray()
-    const entities = rows.map((r) => JSON.parse(r.data as string) as NounInstance)
+    let match: string | undefined
+    if (params.q !== undefined) {
+      try {
+        match = parseSearchQuery(params.q)
+      } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : 'Invalid search query', status: 400 }
+      }
+    }
 
-    const countQuery = `SELECT COUNT(*) as cnt FROM entities ${whereClause}`
-    const countRow = this.sql.exec(countQuery, ...whereValues).toArray()[0]
-    const total = (countRow?.cnt as number) ?? 0
+    const shape = this.parseShape(type, params)
+    if ('error' in shape) {
+      return { success: false, error: shape.error, status: 400 }
+    }
 
-    return {
-      success: true,
-      data: entities,
-      meta: { total, limit, offset, hasMore: offset + entities.length < total },
-      status: 200,
+    // Lists always come from SQLite, which holds every entity: the R2 mirror
+    // (@dotdo/db) pages by offset only, so it can neither sort like the
+    // keyset path nor hand out meta.nextCursor.
+    // Type and field paths are inlined as literals so SQLite can match the
+    // partial expression indexes created by syncFieldIndexes().
+    // asOf swaps the entities table for the collection rebuilt from events.
+    const source = asOf ? this.collectionAsOf(type, asOf) : { table: 'entities', values: [] }
+    const liveOnly = params.includeDeleted ? '' : ' AND deleted_at IS NULL'
+    // Only live entities have search documents, so q never matches the trash
+    const searchMatch = match
+      ? ' AND id IN (SELECT d.entity_id FROM entities_fts JOIN search_docs d ON d.doc_id = entities_fts.rowid WHERE entities_fts MATCH ?)'
+      : ''
+    const whereClause = `WHERE type = ${sqlLiteral(type)}${liveOnly}` + (compiledFilter.sql ? ` AND ${compiledFilter.sql}` : '') + searchMatch
+    const whereValues: (string | number | boolean | null)[] = [...compiledFilter.values, ...(match ? [match] : [])]
+
+    let sortKey = 'created_at'
+    let sortExpr = 'created_at'
+    let direction: 'ASC' | 'DESC' = 'DESC'
+    if (params.sort) {
+      let sort: Record<string, 1 | -1>
+      try {
+        sort = JSON.parse(params.sort) as Record<string, 1 | -1>
+      } catch {
+        return { success: false, error: 'Invalid sort JSON', status: 400 }
+      }
+      const entry = sort && typeof sort === 'object' ? Object.entries(sort)[0] : undefined
+      if (entry) {
+        const [field, dir] = entry
+        direction = dir === 1 ? 'ASC' : 'DESC'
+        if (field === '$createdAt' || field === 'created_at') {
+          sortKey = sortExpr = 'created_at'
+        } else if (field === '$updatedAt' || field === 'updated_at') {
+          sortKey = sortExpr = 'updated_at'
+        } else {
+          // Validate before assigning, so the cursor key always matches the ORDER BY
+          try {
+            sortExpr = jsonField(field)
+          } catch (err) {
+            return { success: false, error: err instanceof Error ? err.message : 'Invalid sort field', status: 400 }
+          }
+          sortKey = field
+        }
+      }
     }
-  }
 
-  async updateEntity(
-    type: string,
-    id: string,
-    updates: Record<string, unknown>,
-    opts?: { ifMatch?: string },
-  ): Promise<{ success: boolean; data?: NounInstance; error?: string; meta?: { eventId?: string; currentVersion?: number; expectedVersion?: number }; etag?: string; status: number }> {
-    const noun = this.getNoun(type)
-    if (noun && noun.disabledVerbs.includes('update')) {
-      return { success: false, error: `Verb 'update' is disabled on ${type}`, status: 403 }
+    if (cursor && (cursor.s !== sortKey || cursor.d !== direction)) {
+      return { success: false, error: 'Cursor does not match the requested sort', status: 400 }
     }
 
-    const row = this.sql.exec('SELECT data, version FROM entities WHERE id = ? AND type = ? AND deleted_at IS NULL', id, type).toArray()[0]
+    // The id tiebreaker gives every row a unique position, which keyset
+    // pagination needs to resume without skipping or repeating rows
+    const keyset = cursor ? keysetCondition(sortExpr, cursor) : null
+    const pageWhere = keyset ? `${whereClause} AND ${keyset.sql}` : whereClause
+    const query = `SELECT id, data, deleted_at, ${sortExpr} AS sort_value FROM ${source.table} ${pageWhere} ORDER BY ${sortExpr} ${direction}, id ${direction} LIMIT ? OFFSET ?`
+    // Fetch one extra row to learn whether another page follows without counting
+    const queryValues = [...source.values, ...whereValues, ...(keyset?.values ?? []), limit + 1, offset]
 
-    if (!row) {
-      return { success: false, error: 'Not found', status: 404 }
-    }
+    const rows = this.sql.exec(query, ...queryValues).toArray()
+    const hasMore = rows.length > limit
+    const page = rows.slice(0, limit)
+    const entities = page.map((r) => {
+      const entity = JSON.parse(r.data as string) as NounInstance
+      return r.deleted_at ? { ...entity, $deletedAt: r.deleted_at as string } : entity
+    })
 
-    const existing = JSON.parse(row.data as string) as NounInstance
-    const currentVersion = row.version as number
+    const last = page[page.length - 1]
+    const nextCursor =
+      hasMore && last ? encodeCursor({ s: sortKey, d: direction, v: (last.sort_value ?? null) as string | number | null, id: last.id as string }) : undefined
 
-    let expectedVersion: number | undefined
-    if (updates.$version !== undefined) {
-      expectedVersion = Number(updates.$version)
-    } else if (opts?.ifMatch) {
-      const parsed = parseInt(opts.ifMatch.replace(/"/g, ''), 10)
-      if (!isNaN(parsed)) expectedVersion = parsed
+    let total: number | undefined
+    if (withCount) {
+      const countQuery = `SELECT COUNT(*) as cnt FROM ${source.table} ${whereClause}`
+      const countRow = this.sql.exec(countQuery, ...source.values, ...whereValues).toArray()[0]
+      total = (countRow?.cnt as number) ?? 0
     }
 
-    if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
-      return {
-        success: false,
-        error: 'Version conflict',
-        meta: { currentVersion, expectedVersion },
-        etag: `"${currentVersion}"`,
-        status: 409,
-      }
+    return {
+      success: true,
+      data: this.shapeEntities(type, entities, shape),
+      meta: { ...(total !== undefined ? { total } : {}), limit, offset, hasMore, ...(nextCursor ? { nextCursor } : {}), ...(asOf ? { asOf } : {}) },
+      status: 200,
     }
+  }
 
-    const { $version: _v, $id: _i, $type: _t, $context: _c, $createdAt: _ca, ...userUpdates } = updates
-    const now = new Date().toISOString()
-    const nextVersion = currentVersion + 1
+  /**
+   * Aggregate live entities in SQLite: count/sum/avg/min/max/count_distinct
+   * metrics, optionally grouped by fields or date buckets (see lib/aggregate).
+   * Takes the same filter syntax as listEntities. Groups are ordered by key.
+   */
+  aggregateEntities(
+    type: string,
+    params: { metrics?: string; groupBy?: string; filter?: string; limit?: number },
+  ): { success: boolean; data?: Record<string, unknown>[]; error?: string; meta?: { groups: number; hasMore: boolean }; status: number } {
+    const limit = Math.min(params.limit ?? 1000, 1000)
 
-    const updated: NounInstance = {
-      ...existing,
-      ...userUpdates,
-      $id: id,
-      $type: type,
-      $context: existing.$context,
-      $version: nextVersion,
-      $createdAt: existing.$createdAt,
-      $updatedAt: now,
+    let compiledFilter: CompiledFilter
+    let aggregation: CompiledAggregation
+    try {
+      compiledFilter = compileFilter(params.filter ? JSON.parse(params.filter) : {})
+      aggregation = compileAggregation(parseMetrics(params.metrics), parseGroupBy(params.groupBy))
+    } catch (err) {
+      const message = err instanceof SyntaxError ? 'Invalid filter JSON' : err instanceof Error ? err.message : 'Invalid aggregation'
+      return { success: false, error: message, status: 400 }
     }
 
-    // Primary: write to @dotdo/db (R2 Parquet)
-    if (this.db) {
-      try {
-        const collection = this.getCollection(type)
-        await collection.update(id, updated)
-      } catch (err) {
-        console.warn(`[ObjectsDO] R2 update failed for ${type}/${id}, falling back to SQLite:`, err)
-      }
-    }
+    const where = `WHERE type = ${sqlLiteral(type)} AND deleted_at IS NULL` + (compiledFilter.sql ? ` AND ${compiledFilter.sql}` : '')
+    const grouping = aggregation.groupBy ? ` GROUP BY ${aggregation.groupBy} ORDER BY ${aggregation.groupBy} LIMIT ${limit + 1}` : ''
+    const rows = this.sql.exec(`SELECT ${aggregation.select} FROM entities ${where}${grouping}`, ...compiledFilter.values).toArray()
+
+    const hasMore = rows.length > limit
+    const data = rows.slice(0, limit).map((row) => aggregation.toResult(row))
+    return { success: true, data, meta: { groups: data.length, hasMore }, status: 200 }
+  }
+
+  async updateEntity(
+    type: string,
+    id: string,
+    updates: Record<string, unknown>,
+    opts?: { ifMatch?: string; actor?: string },
+  ): Promise<{
+    success: boolean
+    data?: NounInstance
+    error?: string
+    meta?: { eventId?: string; currentVersion?: number; expectedVersion?: number; errors?: FieldError[]; field?: string; conflictId?: string }
+    etag?: string
+    status: number
+  }> {
+    const write = this.planUpdate(type, id, updates, opts)
+    if ('failure' in write) return write.failure
+
+    await this.mirrorWrite(write)
+    const committed = this.commitWrite(write)
+    if ('failure' in committed) return committed.failure
+
+    return { success: true, data: write.after, meta: { eventId: committed.event.$id }, etag: `"${write.after.$version}"`, status: 200 }
+  }
 
-    // Secondary: SQLite (kept during migration)
-    this.sql.exec('UPDATE entities SET data = ?, version = ?, updated_at = ? WHERE id = ?', JSON.stringify(updated), nextVersion, now, id)
+  async deleteEntity(
+    type: string,
+    id: string,
+    opts?: { actor?: string },
+  ): Promise<{ success: boolean; error?: string; meta?: { eventId: string }; status: number }> {
+    const write = this.planDelete(type, id, opts)
+    if ('failure' in write) return { success: false, error: write.failure.error, status: write.failure.status }
 
-    const event = this.logEvent(type, id, 'update', updated, existing, updated, existing.$context)
+    await this.mirrorWrite(write)
+    const committed = this.commitWrite(write)
+    if ('failure' in committed) return { success: false, error: committed.failure.error, status: committed.failure.status }
 
-    return { success: true, data: updated, meta: { eventId: event.$id }, etag: `"${nextVersion}"`, status: 200 }
+    return { success: true, meta: { eventId: committed.event.$id }, status: 200 }
   }
 
-  async deleteEntity(type: string, id: string): Promise<{ success: boolean; error?: string; meta?: { eventId: string }; status: number }> {
-    const noun = this.getNoun(type)
-    if (noun && noun.disabledVerbs.includes('delete')) {
-      return { success: false, error: `Verb 'delete' is disabled on ${type}`, status: 403 }
-    }
+  /**
+   * Undo a soft delete. Emits a `restore` event and bumps $version.
+   */
+  async restoreEntity(
+    type: string,
+    id: string,
+    opts?: { actor?: string },
+  ): Promise<{ success: boolean; data?: NounInstance; error?: string; meta?: { eventId?: string; field?: string; conflictId?: string }; status: number }> {
+    const write = this.planRestore(type, id, opts)
+    if ('failure' in write) return write.failure
 
-    const row = this.sql.exec('SELECT data FROM entities WHERE id = ? AND type = ? AND deleted_at IS NULL', id, type).toArray()[0]
+    await this.mirrorWrite(write)
+    const committed = this.commitWrite(write)
+    if ('failure' in committed) return committed.failure
+
+    return { success: true, data: write.after, meta: { eventId: committed.event.$id }, status: 200 }
+  }
+
+  /**
+   * Write an entity's state at an earlier `$version` back as a new version,
+   * logged as a `revert` event referencing the source version. Fields added
+   * since are removed. Reverting to a state from before a delete also undoes
+   * the delete, so it must be asked for with `restore: true`.
+   */
+  async revertEntity(
+    type: string,
+    id: string,
+    toVersion: number,
+    opts?: { ifMatch?: string; restore?: boolean; actor?: string },
+  ): Promise<{
+    success: boolean
+    data?: NounInstance
+    error?: string
+    meta?: { eventId?: string; currentVersion?: number; expectedVersion?: number; errors?: FieldError[]; field?: string; conflictId?: string }
+    etag?: string
+    status: number
+  }> {
+    const write = this.planRevert(type, id, toVersion, opts)
+    if ('failure' in write) return write.failure
+
+    await this.mirrorWrite(write)
+    const committed = this.commitWrite(write)
+    if ('failure' in committed) return committed.failure
+
+    return { success: true, data: write.after, meta: { eventId: committed.event.$id }, etag: `"${write.after.$version}"`, status: 200 }
+  }
 
+  /**
+   * Physically remove an entity (live or soft-deleted) and its `_rels` edges.
+   * With `redactEvents`, the payloads of its past events are erased too, for
+   * GDPR erasure requests; the events themselves stay so sequences and audit
+   * history remain intact. A `purge` event records what was removed.
+   *
+   * Admin-only — the route requires ADMIN_TOKEN.
+   */
+  async purgeEntity(
+    type: string,
+    id: string,
+    opts?: { redactEvents?: boolean },
+  ): Promise<{ success: boolean; data?: { relationships: number; redactedEvents: number }; error?: string; meta?: { eventId: string }; status: number }> {
+    const row = this.sql.exec('SELECT data FROM entities WHERE id = ? AND type = ?', id, type).toArray()[0]
     if (!row) {
       return { success: false, error: 'Not found', status: 404 }
     }
-
     const existing = JSON.parse(row.data as string) as NounInstance
-    const now = new Date().toISOString()
 
-    // Primary: soft-delete in @dotdo/db (R2 Parquet)
+    const key = `${type}_${id}`
+    const edges = [...this.rels.relationships(key), ...this.rels.references(key)]
+    let snapshotKeys: string[] = []
+    let redactedEvents = opts?.redactEvents
+      ? await this.redactArchivedEvents({ type, id }, (event) =>
+          event.entityType === type && event.entityId === id && (event.data || event.before || event.after)
+            ? { ...event, data: null, before: null, after: null }
+            : null,
+        )
+      : 0
+
+    const event = this.ctx.storage.transactionSync(() => {
+      this.sql.exec('DELETE FROM entities WHERE id = ?', id)
+      this.syncSearchDoc(type, id, null)
+      for (const edge of edges) this.rels.delete(edge.id)
+      snapshotKeys = this.dropSnapshots(type, id)
+      if (opts?.redactEvents) {
+        redactedEvents += this.redactEntityEvents(type, id)
+      }
+      return this.logEvent(type, id, 'purge', { relationships: edges.length, redactedEvents }, null, null, existing.$context)
+    })
+
+    await this.deleteSnapshotObjects(snapshotKeys)
+
     if (this.db) {
       try {
-        const collection = this.getCollection(type)
-        await collection.update(id, { ...existing, $deletedAt: now })
+        await this.getCollection(type).delete(id)
       } catch (err) {
-        console.warn(`[ObjectsDO] R2 soft-delete failed for ${type}/${id}:`, err)
+        console.warn(`[ObjectsDO] R2 purge failed for ${type}/${id}:`, err)
       }
     }
 
-    // Secondary: SQLite soft-delete (kept during migration)
-    this.sql.exec('UPDATE entities SET deleted_at = ?, updated_at = ? WHERE id = ?', now, now, id)
-
-    const event = this.logEvent(type, id, 'delete', null, existing, null, existing.$context)
-
-    return { success: true, meta: { eventId: event.$id }, status: 200 }
+    return { success: true, data: { relationships: edges.length, redactedEvents }, meta: { eventId: event.$id }, status: 200 }
   }
 
   async executeVerb(
@@ -731,158 +1400,404 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
     id: string,
     verb: string,
     verbData?: Record<string, unknown>,
-  ): Promise<{ success: boolean; data?: NounInstance; error?: string; meta?: { event: FullEvent }; status: number }> {
-    const noun = this.getNoun(type)
-    if (!noun) {
-      return { success: false, error: `Noun '${type}' is not defined`, status: 400 }
-    }
+    opts?: { actor?: string; idempotencyKey?: string },
+  ): Promise<{
+    success: boolean
+    data?: NounInstance
+    error?: string
+    meta?: { event?: FullEvent; errors?: FieldError[]; field?: string; conflictId?: string; hookId?: number }
+    replayed?: boolean
+    status: number
+  }> {
+    return this.idempotent(opts?.idempotencyKey, `${type}.${verb}:${id}`, verbData ?? null, () =>
+      this.runVerb(type, id, verb, verbData, opts?.actor ?? ANONYMOUS_ACTOR, 0),
+    )
+  }
 
-    const conj = noun.verbs[verb]
-    if (!conj) {
-      const verbEntry = Object.values(noun.verbs).find((v) => v.activity === verb || v.event === verb)
-      if (!verbEntry) {
-        return { success: false, error: `Verb '${verb}' is not defined on ${type}`, status: 400 }
+  /**
+   * Execute a verb. `depth` counts how many after-hook emissions led here so
+   * hooks that trigger each other cannot recurse without bound.
+   */
+  private async runVerb(
+    type: string,
+    id: string,
+    verb: string,
+    verbData: Record<string, unknown> | undefined,
+    actor: string,
+    depth: number,
+  ): Promise<{ success: boolean; data?: NounInstance; error?: string; meta?: { event?: FullEvent; errors?: FieldError[]; field?: string; conflictId?: string; hookId?: number }; status: number }> {
+    const target = this.loadVerbTarget(type, id, verb, verbData)
+    if ('failure' in target) return target.failure
+
+    // Before hooks may veto the verb or replace its payload
+    const beforeHooks = this.getHooks(type, verb, 'before')
+    for (const hook of beforeHooks) {
+      const outcome = await this.runHookCode(hook, { type, id, verb, phase: 'before', entity: target.existing, payload: verbData ?? null })
+      // A before hook that cannot run must not let the verb through unchecked
+      if (!outcome) {
+        return { success: false, error: `Hook ${hook.id} (${type}.${verb}:before) cannot run: no LOADER binding`, meta: { hookId: hook.id }, status: 503 }
       }
-      return { success: false, error: `Use the action form '${verbEntry.action}' instead of '${verb}'`, status: 400 }
+      if (!outcome.ok) {
+        this.logHookFailure(hook, id, outcome.error)
+        return { success: false, error: `Hook ${hook.id} (${type}.${verb}:before) failed: ${outcome.error}`, meta: { hookId: hook.id }, status: 500 }
+      }
+      if (outcome.result.veto) {
+        return { success: false, error: outcome.result.veto, meta: { hookId: hook.id }, status: 409 }
+      }
+      if (outcome.result.payload) verbData = outcome.result.payload
     }
 
-    if (noun.disabledVerbs.includes(verb)) {
-      return { success: false, error: `Verb '${verb}' is disabled on ${type}`, status: 403 }
+    // Hooks run in another isolate, so other requests may have written the entity meanwhile
+    if (beforeHooks.length > 0) {
+      const fresh = this.sql.exec('SELECT version FROM entities WHERE id = ? AND type = ? AND deleted_at IS NULL', id, type).toArray()[0]
+      if (!fresh || (fresh.version as number) !== target.existing.$version) {
+        return { success: false, error: `${type} ${id} was modified while hooks ran — retry`, status: 409 }
+      }
     }
 
-    const row = this.sql.exec('SELECT data, version FROM entities WHERE id = ? AND type = ? AND deleted_at IS NULL', id, type).toArray()[0]
+    const write = this.planVerb(target, verb, verbData, actor)
+    if ('failure' in write) return write.failure
 
-    if (!row) {
-      return { success: false, error: 'Not found', status: 404 }
-    }
+    await this.mirrorWrite(write)
+    const committed = this.commitWrite(write)
+    if ('failure' in committed) return committed.failure
 
-    const existing = JSON.parse(row.data as string) as NounInstance
-    const currentVersion = row.version as number
+    await this.runAfterHooks(write, committed.event, depth)
 
-    const beforeHooks = this.getHooks(type, verb, 'before')
-    for (const hook of beforeHooks) {
-      console.warn(`[ObjectsDO] Runtime hook execution disabled for security — hook: ${type}.${verb}:before`)
+    return { success: true, data: write.after, meta: { event: committed.event }, status: 200 }
+  }
+
+  // ---- Search ----
+
+  /**
+   * Full-text search over the searchable fields of live entities, across all
+   * nouns or one. Hits are ranked by bm25 relevance and carry a highlighted snippet.
+   */
+  search(
+    q: string,
+    opts?: { type?: string; limit?: number; offset?: number },
+  ): { success: boolean; data?: SearchHit[]; error?: string; meta?: { limit: number; offset: number; hasMore: boolean }; status: number } {
+    const limit = Math.min(opts?.limit ?? 20, 100)
+    const offset = opts?.offset ?? 0
+
+    let match: string
+    try {
+      match = parseSearchQuery(q ?? '')
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : 'Invalid search query', status: 400 }
     }
 
-    const now = new Date().toISOString()
-    const nextVersion = currentVersion + 1
+    const rows = this.sql
+      .exec(
+        `SELECT d.entity_id, d.type, e.data, bm25(entities_fts) AS relevance, snippet(entities_fts, 0, ?, ?, '…', 16) AS snippet
+         FROM entities_fts
+         JOIN search_docs d ON d.doc_id = entities_fts.rowid
+         JOIN entities e ON e.id = d.entity_id
+         WHERE entities_fts MATCH ?${opts?.type ? ' AND d.type = ?' : ''}
+         ORDER BY relevance, d.entity_id
+         LIMIT ? OFFSET ?`,
+        SNIPPET_OPEN,
+        SNIPPET_CLOSE,
+        match,
+        ...(opts?.type ? [opts.type] : []),
+        limit + 1,
+        offset,
+      )
+      .toArray()
 
-    const updated: NounInstance = {
-      ...existing,
-      ...(verbData ?? {}),
-      $id: id,
-      $type: type,
-      $context: existing.$context,
-      $version: nextVersion,
-      $createdAt: existing.$createdAt,
-      $updatedAt: now,
+    const hits = rows.slice(0, limit).map((r) => ({
+      $id: r.entity_id as string,
+      $type: r.type as string,
+      // bm25() is lower-is-better; flip it so higher scores rank first
+      score: -(r.relevance as number),
+      snippet: highlightSnippet(r.snippet as string),
+      entity: JSON.parse(r.data as string) as NounInstance,
+    }))
+    return { success: true, data: hits, meta: { limit, offset, hasMore: rows.length > limit }, status: 200 }
+  }
+
+  // ---- Batch ----
+
+  /**
+   * Run create/update/delete/verb operations in one SQLite transaction.
+   *
+   * Atomic mode rolls everything back on the first failed operation; best-effort
+   * mode records the failure and carries on. Events are published, R2 mirrored
+   * and after hooks run only once the transaction has committed. Verbs with
+   * before hooks cannot run in a batch, since hooks run asynchronously.
+   */
+  async batch(
+    operations: BatchOperation[],
+    opts?: { mode?: BatchMode; actor?: string; tenantId?: string; contextUrl?: string },
+  ): Promise<{
+    success: boolean
+    data?: BatchResult[]
+    error?: string
+    meta?: { mode: BatchMode; committed: boolean; succeeded: number; failed: number }
+    status: number
+  }> {
+    const mode = opts?.mode ?? 'atomic'
+    if (mode !== 'atomic' && mode !== 'bestEffort') {
+      return { success: false, error: "mode must be 'atomic' or 'bestEffort'", status: 400 }
+    }
+    if (!Array.isArray(operations) || operations.length === 0) {
+      return { success: false, error: 'operations must be a non-empty array', status: 400 }
+    }
+    if (operations.length > MAX_BATCH_OPERATIONS) {
+      return { success: false, error: `A batch may contain at most ${MAX_BATCH_OPERATIONS} operations`, status: 400 }
     }
 
-    // Primary: write to @dotdo/db (R2 Parquet)
-    if (this.db) {
-      try {
-        const collection = this.getCollection(type)
-        await collection.update(id, updated)
-      } catch (err) {
-        console.warn(`[ObjectsDO] R2 verb update failed for ${type}/${id}:`, err)
+    const actor = opts?.actor ?? ANONYMOUS_ACTOR
+    const results: BatchResult[] = []
+    let failedResult: BatchResult | null = null
+
+    const committed = await this.runTransaction(null, () => {
+      const applied: AppliedWrite[] = []
+      for (const [index, operation] of operations.entries()) {
+        const outcome = this.applyBatchOperation(operation, actor, opts)
+        if ('failure' in outcome) {
+          const { error, meta, status } = outcome.failure
+          const result: BatchResult = { index, success: false, status, error, ...(meta ? { meta } : {}) }
+          results.push(result)
+          if (mode === 'atomic') {
+            failedResult = result
+            throw new TransactionRollback()
+          }
+          continue
+        }
+        applied.push(outcome)
+        const { write, event } = outcome
+        results.push({
+          index,
+          success: true,
+          status: write.verb === 'create' ? 201 : 200,
+          ...(write.verb === 'delete' ? {} : { data: write.after }),
+          meta: { eventId: event.$id },
+        })
+      }
+      return applied
+    })
+
+    const succeeded = results.filter((r) => r.success).length
+    const failed = results.length - succeeded
+    if (!committed) {
+      const { index, error, status } = failedResult! as BatchResult
+      return {
+        success: false,
+        error: `Operation ${index} failed: ${error} — batch rolled back`,
+        data: results,
+        meta: { mode, committed: false, succeeded: 0, failed },
+        status,
       }
     }
 
-    // Secondary: SQLite (kept during migration)
-    this.sql.exec('UPDATE entities SET data = ?, version = ?, updated_at = ? WHERE id = ?', JSON.stringify(updated), nextVersion, now, id)
+    return { success: true, data: results, meta: { mode, committed: true, succeeded, failed }, status: 200 }
+  }
+
+  // ---- Transactions ----
+
+  /**
+   * Run verbs, entity writes and relationship writes as one atomic unit, e.g.
+   * close a Deal, create its Invoice and link the two. The first failing step
+   * rolls everything back. Every event carries the same correlation id and is
+   * published to subscribers and integrations only after commit.
+   *
+   * A create step may be named with `as`; later steps can then use `$name` in
+   * place of its ID (in `id`, `targetId` or a top-level data value).
+   */
+  async transaction(
+    steps: TransactionStep[],
+    opts?: { actor?: string; tenantId?: string; contextUrl?: string; correlationId?: string },
+  ): Promise<{ success: boolean; data?: TransactionResult[]; error?: string; meta?: { correlationId: string; committed: boolean }; status: number }> {
+    if (!Array.isArray(steps) || steps.length === 0) {
+      return { success: false, error: 'steps must be a non-empty array', status: 400 }
+    }
+    if (steps.length > MAX_BATCH_OPERATIONS) {
+      return { success: false, error: `A transaction may contain at most ${MAX_BATCH_OPERATIONS} steps`, status: 400 }
+    }
+    if (opts?.correlationId !== undefined && (typeof opts.correlationId !== 'string' || !opts.correlationId || opts.correlationId.length > 128)) {
+      return { success: false, error: 'correlationId must be a non-empty string of at most 128 characters', status: 400 }
+    }
 
-    const event = this.logEvent(type, id, verb, updated, existing, updated, existing.$context)
+    const correlationId = opts?.correlationId ?? generateCorrelationId()
+    const actor = opts?.actor ?? ANONYMOUS_ACTOR
+    const results: TransactionResult[] = []
+    const refs = new Map<string, string>()
+    let failedResult: TransactionResult | null = null
+
+    const committed = await this.runTransaction(correlationId, () => {
+      const applied: AppliedWrite[] = []
+      for (const [index, raw] of steps.entries()) {
+        const step = resolveStepRefs(raw, refs)
+        const outcome = this.applyTransactionStep(step, actor, opts)
+        if ('failure' in outcome) {
+          const { error, meta, status } = outcome.failure
+          failedResult = { index, success: false, status, error, ...(meta ? { meta } : {}) }
+          results.push(failedResult)
+          throw new TransactionRollback()
+        }
+        if ('relationship' in outcome) {
+          results.push({
+            index,
+            success: true,
+            status: outcome.status,
+            ...(outcome.relationship ? { data: outcome.relationship } : {}),
+            meta: { eventId: outcome.event.$id },
+          })
+          continue
+        }
+        applied.push(outcome)
+        const { write, event } = outcome
+        if (step.op === 'create' && step.as) refs.set(step.as, write.id)
+        results.push({
+          index,
+          success: true,
+          status: write.verb === 'create' ? 201 : 200,
+          ...(write.verb === 'delete' ? {} : { data: write.after }),
+          meta: { eventId: event.$id },
+        })
+      }
+      return applied
+    })
 
-    const afterHooks = this.getHooks(type, verb, 'after')
-    for (const hook of afterHooks) {
-      console.warn(`[ObjectsDO] Runtime hook execution disabled for security — hook: ${type}.${verb}:after`)
+    if (!committed) {
+      const { index, error, status } = failedResult! as TransactionResult
+      return {
+        success: false,
+        error: `Step ${index} failed: ${error} — transaction rolled back`,
+        data: results,
+        meta: { correlationId, committed: false },
+        status,
+      }
     }
 
-    return { success: true, data: updated, meta: { event }, status: 200 }
+    return { success: true, data: results, meta: { correlationId, committed: true }, status: 200 }
   }
 
   registerHook(
     type: string,
     body: { verb: string; phase: 'before' | 'after'; code: string },
-  ): { success: boolean; data?: { noun: string; verb: string; phase: string }; error?: string; status: number } {
-    const noun = this.getNoun(type)
-    if (!noun) {
-      return { success: false, error: `Noun '${type}' is not defined`, status: 400 }
+  ): { success: boolean; data?: { id: number; noun: string; verb: string; phase: string }; error?: string; status: number } {
+    const error = this.hookDefinitionError(type, body)
+    if (error) {
+      return { success: false, error, status: 400 }
     }
 
-    if (!body.verb || typeof body.verb !== 'string') {
-      return { success: false, error: 'Missing or invalid verb', status: 400 }
+    const row = this.sql
+      .exec('INSERT INTO hooks (noun, verb, phase, code) VALUES (?, ?, ?, ?) RETURNING id', type, body.verb, body.phase, body.code)
+      .toArray()[0]
+
+    return { success: true, data: { id: row!.id as number, noun: type, verb: body.verb, phase: body.phase }, status: 201 }
+  }
+
+  listHooks(type?: string): { success: boolean; data: Hook[] } {
+    const rows = type
+      ? this.sql.exec('SELECT * FROM hooks WHERE noun = ? ORDER BY id', type).toArray()
+      : this.sql.exec('SELECT * FROM hooks ORDER BY id').toArray()
+    return { success: true, data: rows.map((r) => this.rowToHook(r)) }
+  }
+
+  getHook(hookId: number): { success: boolean; data?: Hook; error?: string; status: number } {
+    const hook = this.findHook(hookId)
+    if (!hook) {
+      return { success: false, error: `Hook '${hookId}' not found`, status: 404 }
+    }
+    return { success: true, data: hook, status: 200 }
+  }
+
+  updateHook(
+    hookId: number,
+    body: { verb?: string; phase?: 'before' | 'after'; code?: string },
+  ): { success: boolean; data?: Hook; error?: string; status: number } {
+    const existing = this.findHook(hookId)
+    if (!existing) {
+      return { success: false, error: `Hook '${hookId}' not found`, status: 404 }
     }
-    if (!body.phase || (body.phase !== 'before' && body.phase !== 'after')) {
-      return { success: false, error: "phase must be 'before' or 'after'", status: 400 }
+
+    const next = { verb: body.verb ?? existing.verb, phase: body.phase ?? existing.phase, code: body.code ?? existing.code }
+    const error = this.hookDefinitionError(existing.noun, next)
+    if (error) {
+      return { success: false, error, status: 400 }
     }
-    if (!body.code || typeof body.code !== 'string') {
-      return { success: false, error: 'Missing or invalid code', status: 400 }
+
+    this.sql.exec('UPDATE hooks SET verb = ?, phase = ?, code = ? WHERE id = ?', next.verb, next.phase, next.code, hookId)
+
+    return { success: true, data: { ...existing, ...next }, status: 200 }
+  }
+
+  deleteHook(hookId: number): { success: boolean; error?: string; status: number } {
+    if (!this.findHook(hookId)) {
+      return { success: false, error: `Hook '${hookId}' not found`, status: 404 }
     }
+    this.sql.exec('DELETE FROM hooks WHERE id = ?', hookId)
+    return { success: true, status: 200 }
+  }
 
-    if (!noun.verbs[body.verb]) {
-      return { success: false, error: `Verb '${body.verb}' is not defined on ${type}`, status: 400 }
+  /**
+   * Dry-run a hook against a sample entity and payload. Nothing is written:
+   * vetoes, payload changes and emitted verbs are only reported back.
+   */
+  async testHook(
+    hookId: number,
+    body: { entity?: Record<string, unknown>; payload?: Record<string, unknown> | null },
+  ): Promise<{ success: boolean; data?: HookOutcome; error?: string; status: number }> {
+    const hook = this.findHook(hookId)
+    if (!hook) {
+      return { success: false, error: `Hook '${hookId}' not found`, status: 404 }
     }
 
-    this.sql.exec('INSERT INTO hooks (noun, verb, phase, code) VALUES (?, ?, ?, ?)', type, body.verb, body.phase, body.code)
+    const entity = body.entity ?? {}
+    const outcome = await this.runHookCode(hook, {
+      type: hook.noun,
+      id: typeof entity.$id === 'string' ? entity.$id : `${hook.noun.toLowerCase()}_sample`,
+      verb: hook.verb,
+      phase: hook.phase,
+      entity,
+      payload: body.payload ?? null,
+    })
+    if (!outcome) {
+      return { success: false, error: 'Hook runtime is not available (no LOADER binding)', status: 503 }
+    }
 
-    return { success: true, data: { noun: type, verb: body.verb, phase: body.phase }, status: 201 }
+    return { success: true, data: outcome, status: 200 }
   }
 
   // ---- Time Travel ----
 
-  timeTravelGet(
+  async timeTravelGet(
     type: string,
     id: string,
     params: { asOf?: string; atVersion?: string },
-  ): { success: boolean; data?: Record<string, unknown>; error?: string; status: number } {
-    const asOf = params.asOf
-    const atVersionStr = params.atVersion
+  ): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string; status: number }> {
+    const bound: { sequence?: number; asOf?: string } = { asOf: params.asOf }
 
-    let eventsQuery = 'SELECT * FROM events WHERE entity_type = ? AND entity_id = ?'
-    const values: (string | number)[] = [type, id]
-
-    if (atVersionStr) {
-      const atVersion = parseInt(atVersionStr, 10)
+    if (params.atVersion) {
+      const atVersion = parseInt(params.atVersion, 10)
       if (isNaN(atVersion)) {
         return { success: false, error: 'Invalid atVersion parameter', status: 400 }
       }
-      eventsQuery += ' AND sequence <= ?'
-      values.push(atVersion)
-    }
-
-    if (asOf) {
-      eventsQuery += ' AND timestamp <= ?'
-      values.push(asOf)
+      bound.sequence = atVersion
     }
 
-    eventsQuery += ' ORDER BY sequence ASC'
+    const replayed = await this.replayState(type, id, bound)
 
-    const rows = this.sql.exec(eventsQuery, ...values).toArray()
-
-    if (rows.length === 0) {
+    if (!replayed) {
       return { success: false, error: 'No events found for this entity at the specified point in time', status: 404 }
     }
 
-    const state = this.replayEvents(rows.map((r) => this.rowToFullEvent(r)))
-
-    if (!state) {
-      return { success: false, error: 'Could not reconstruct state', status: 404 }
-    }
-
-    return { success: true, data: state, status: 200 }
+    return { success: true, data: replayed.state, status: 200 }
   }
 
-  entityDiff(
+  async entityDiff(
     type: string,
     id: string,
     params: { from?: string; to?: string },
-  ): {
+  ): Promise<{
     success: boolean
     data?: { before: Record<string, unknown> | null; after: Record<string, unknown> | null; events: FullEvent[]; changes: Array<{ field: string; from: unknown; to: unknown }> }
     error?: string
     status: number
-  } {
+  }> {
     if (!params.from || !params.to) {
       return { success: false, error: 'Both from and to parameters are required', status: 400 }
     }
@@ -894,22 +1809,13 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
       return { success: false, error: 'from and to must be valid integers', status: 400 }
     }
 
-    const allRows = this.sql
-      .exec('SELECT * FROM events WHERE entity_type = ? AND entity_id = ? ORDER BY sequence ASC', type, id)
-      .toArray()
-
-    if (allRows.length === 0) {
+    if (this.latestSequence(type, id) === 0) {
       return { success: false, error: 'No events found for this entity', status: 404 }
     }
 
-    const allEvents = allRows.map((r) => this.rowToFullEvent(r))
-
-    const fromEvents = allEvents.filter((e) => e.sequence <= fromVersion)
-    const toEvents = allEvents.filter((e) => e.sequence <= toVersion)
-    const betweenEvents = allEvents.filter((e) => e.sequence > fromVersion && e.sequence <= toVersion)
-
-    const beforeState = this.replayEvents(fromEvents)
-    const afterState = this.replayEvents(toEvents)
+    const betweenEvents = await this.entityEvents(type, id, { after: fromVersion, sequence: toVersion })
+    const beforeState = (await this.replayState(type, id, { sequence: fromVersion }))?.state ?? null
+    const afterState = (await this.replayState(type, id, { sequence: toVersion }))?.state ?? null
 
     const changes = this.computeChanges(beforeState, afterState)
 
@@ -920,24 +1826,235 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
     }
   }
 
-  entityHistory(entityType: string, entityId: string): { success: boolean; data: FullEvent[] } {
-    const rows = this.sql
-      .exec('SELECT * FROM events WHERE entity_type = ? AND entity_id = ? ORDER BY sequence ASC', entityType, entityId)
-      .toArray()
-
-    return { success: true, data: rows.map((r) => this.rowToFullEvent(r)) }
+  async entityHistory(entityType: string, entityId: string): Promise<{ success: boolean; data: FullEvent[] }> {
+    return { success: true, data: await this.entityEvents(entityType, entityId) }
   }
 
-  // ---- Events ----
+  /**
+   * Field-level blame: for each field of the entity's current state (or its
+   * state asOf a timestamp), the event that last changed it, compared like
+   * entityDiff. Fields whose change predates the event log, or the hot
+   * window of an archived one, blame to null.
+   */
+  entityBlame(
+    type: string,
+    id: string,
+    params: { asOf?: string },
+  ): { success: boolean; data?: Record<string, FieldBlame | null>; error?: string; status: number } {
+    let query = 'SELECT * FROM events WHERE entity_type = ? AND entity_id = ?'
+    const values: string[] = [type, id]
+    if (params.asOf) {
+      const time = Date.parse(params.asOf)
+      if (isNaN(time)) {
+        return { success: false, error: 'Invalid asOf timestamp', status: 400 }
+      }
+      query += ' AND timestamp <= ?'
+      values.push(new Date(time).toISOString())
+    }
 
-  queryEvents(params: {
-    since?: string
-    type?: string
-    entityId?: string
-    verb?: string
-    limit?: number
-  }): { success: boolean; data: FullEvent[] } {
-    const limit = Math.min(params.limit ?? 100, 1000)
+    const events = this.sql
+      .exec(`${query} ORDER BY sequence ASC`, ...values)
+      .toArray()
+      .map((r) => this.rowToFullEvent(r))
+
+    const lastChange = new Map<string, Omit<FieldBlame, 'value'>>()
+    let state: Record<string, unknown> | null = null
+    for (const event of events) {
+      // Deletes, purges and redacted events carry no resulting state
+      if (!event.after) continue
+      const version = (event.after.$version as number | undefined) ?? event.sequence
+      for (const { field } of this.computeChanges(event.before, event.after)) {
+        lastChange.set(field, { eventId: event.$id, verb: event.verb, timestamp: event.timestamp, actor: event.actor ?? null, version })
+      }
+      state = event.after
+    }
+
+    if (!state) {
+      return { success: false, error: 'No events found for this entity at the specified point in time', status: 404 }
+    }
+
+    const blame: Record<string, FieldBlame | null> = {}
+    for (const [field, value] of Object.entries(state)) {
+      if (field.startsWith('$')) continue
+      const change = lastChange.get(field)
+      blame[field] = change ? { value, ...change } : null
+    }
+    return { success: true, data: blame, status: 200 }
+  }
+
+  /**
+   * Snapshot an entity's replayed state at its latest event, so time travel
+   * replays from there. Snapshots are also taken automatically every
+   * SNAPSHOT_INTERVAL events.
+   */
+  async snapshotEntity(
+    type: string,
+    id: string,
+  ): Promise<{ success: boolean; data?: { sequence: number; timestamp: string }; error?: string; status: number }> {
+    const sequence = this.latestSequence(type, id)
+    if (sequence === 0) {
+      return { success: false, error: 'No events found for this entity', status: 404 }
+    }
+
+    const snapshot = this.buildSnapshot(type, id, sequence) ?? (await this.replaySnapshot(type, id, sequence))
+    if (!snapshot) {
+      return { success: false, error: 'Could not reconstruct state', status: 500 }
+    }
+    await this.offloadSnapshots(type, id)
+
+    return { success: true, data: { sequence: snapshot.sequence, timestamp: snapshot.timestamp }, status: snapshot.created ? 201 : 200 }
+  }
+
+  // ---- Data subjects (GDPR) ----
+
+  /**
+   * Gather everything stored about a data subject — identified by entity ID or
+   * by a field value such as an email — for a right-of-access request: the
+   * matching entities (including soft-deleted ones), every event mentioning
+   * them or the value, their relationships and the dispatch log of those events.
+   */
+  async exportSubject(subject: DataSubject): Promise<{ success: boolean; data?: SubjectExport; error?: string; status: number }> {
+    const resolved = this.resolveSubject(subject)
+    if ('error' in resolved) return { success: false, error: resolved.error, status: resolved.status }
+
+    const archived = await this.scanArchivedEvents(this.isSubjectEvent(resolved))
+    const events = [...archived, ...this.subjectEvents(resolved)].sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.sequence - b.sequence)
+    const relationships = resolved.entities.flatMap(({ type, id }) => {
+      const key = `${type}_${id}`
+      return [...this.rels.relationships(key), ...this.rels.references(key)]
+    })
+    const dispatchLog =
+      events.length > 0
+        ? this.sql
+            .exec(
+              'SELECT * FROM dispatch_log WHERE event_id IN (SELECT value FROM json_each(?)) ORDER BY timestamp ASC',
+              JSON.stringify(events.map((e) => e.$id)),
+            )
+            .toArray()
+        : []
+
+    return {
+      success: true,
+      data: {
+        subject,
+        generatedAt: new Date().toISOString(),
+        entities: resolved.entities.map((e) => e.entity),
+        events,
+        relationships: [...new Map(relationships.map((r) => [r.id, r])).values()],
+        dispatchLog,
+      },
+      status: 200,
+    }
+  }
+
+  /**
+   * Erase a data subject (right to erasure). Every field of the subject's
+   * entities is removed from their current state and from all their events;
+   * other entities and events lose the fields holding the lookup value. Each
+   * redacted state lists what was removed under `$redacted`, so time travel and
+   * diffs keep working on what remains. Every entity whose current state
+   * changed gets a new version and an `erase` event, and is mirrored to R2.
+   *
+   * Admin-only — the route requires ADMIN_TOKEN.
+   */
+  async eraseSubject(subject: DataSubject): Promise<{ success: boolean; data?: { entities: string[]; events: number }; error?: string; status: number }> {
+    const resolved = this.resolveSubject(subject)
+    if ('error' in resolved) return { success: false, error: resolved.error, status: resolved.status }
+
+    const subjectKeys = new Set(resolved.entities.map(({ type, id }) => `${type}_${id}`))
+    const valueRule = { values: resolved.value !== undefined ? [resolved.value] : [] }
+    const events = this.subjectEvents(resolved)
+    const writes: PlannedWrite[] = []
+    const snapshotKeys: string[] = []
+
+    await this.runTransaction(null, () => {
+      for (const event of events) {
+        const rule = subjectKeys.has(`${event.entityType}_${event.entityId}`) ? { all: true } : valueRule
+        const states = [event.data, event.before, event.after].map((state) => redactState(state, rule))
+        this.sql.exec(
+          'UPDATE events SET data = ?, before_state = ?, after_state = ? WHERE id = ?',
+          ...states.map((state) => (state ? JSON.stringify(state) : null)),
+          event.$id,
+        )
+      }
+
+      // Snapshots replayed from the redacted events would still hold the erased values
+      for (const event of new Map(events.map((e) => [`${e.entityType}_${e.entityId}`, e])).values()) {
+        snapshotKeys.push(...this.dropSnapshots(event.entityType, event.entityId))
+      }
+
+      const now = new Date().toISOString()
+
+      // Other entities still holding the lookup value (e.g. a copied email) are
+      // erased as a new version too, so the R2 mirror is rewritten
+      if (resolved.value !== undefined) {
+        for (const row of this.sql.exec('SELECT type, id, data, deleted_at FROM entities WHERE instr(data, ?) > 0', JSON.stringify(resolved.value)).toArray()) {
+          if (resolved.entities.some((e) => e.id === row.id)) continue
+          const type = row.type as string
+          const id = row.id as string
+          const data = JSON.parse(row.data as string) as NounInstance
+          const before = redactState(data, valueRule)
+          if (before === data) continue
+          const after: NounInstance = { ...before, $version: before.$version + 1, $updatedAt: now }
+          this.sql.exec('UPDATE entities SET data = ?, version = ?, updated_at = ? WHERE id = ?', JSON.stringify(after), after.$version, now, id)
+          this.syncSearchDoc(type, id, row.deleted_at ? null : after)
+          snapshotKeys.push(...this.dropSnapshots(type, id))
+          this.logEvent(type, id, 'erase', { fields: (after.$redacted as string[] | undefined) ?? [] }, before, after, data.$context)
+          const mirrored = row.deleted_at ? { ...after, $deletedAt: row.deleted_at as string } : after
+          writes.push({ type, id, verb: 'erase', noun: this.getNoun(type), before, after: mirrored, data: null, now })
+        }
+      }
+
+      for (const { type, id, entity } of resolved.entities) {
+        const { $deletedAt, ...stored } = entity
+        const before = redactState(stored as NounInstance, { all: true })
+        const after: NounInstance = { ...before, $version: before.$version + 1, $updatedAt: now }
+        this.sql.exec('UPDATE entities SET data = ?, version = ?, updated_at = ? WHERE id = ?', JSON.stringify(after), after.$version, now, id)
+        this.syncSearchDoc(type, id, null)
+        this.logEvent(type, id, 'erase', { fields: (after.$redacted as string[] | undefined) ?? [] }, before, after, entity.$context)
+        const mirrored = $deletedAt ? { ...after, $deletedAt } : after
+        writes.push({ type, id, verb: 'erase', noun: this.getNoun(type), before, after: mirrored, data: null, now })
+      }
+
+      // Stored Idempotency-Key responses would otherwise replay the erased data
+      for (const needle of resolved.needles) {
+        this.sql.exec('DELETE FROM idempotency_keys WHERE instr(response, ?) > 0', JSON.stringify(needle))
+      }
+      return []
+    })
+
+    for (const write of writes) {
+      await this.mirrorWrite(write)
+    }
+    await this.deleteSnapshotObjects(snapshotKeys)
+
+    // Archived events may mention the subject anywhere, so every segment is checked
+    const isSubjectEvent = this.isSubjectEvent(resolved)
+    const archivedEvents = await this.redactArchivedEvents(null, (event) => {
+      if (!isSubjectEvent(event)) return null
+      const rule = subjectKeys.has(`${event.entityType}_${event.entityId}`) ? { all: true } : valueRule
+      const [data, before, after] = [event.data, event.before, event.after].map((state) => redactState(state, rule))
+      return data === event.data && before === event.before && after === event.after ? null : { ...event, data, before, after }
+    })
+
+    return { success: true, data: { entities: resolved.entities.map((e) => e.id), events: events.length + archivedEvents }, status: 200 }
+  }
+
+  // ---- Events ----
+
+  /**
+   * Query the event log, newest first. When the hot events do not fill the
+   * page, archived segments that may hold newer matches are read as well.
+   */
+  async queryEvents(params: {
+    since?: string
+    type?: string
+    entityId?: string
+    verb?: string
+    correlationId?: string
+    limit?: number
+  }): Promise<{ success: boolean; data: FullEvent[] }> {
+    const limit = Math.min(params.limit ?? 100, 1000)
 
     let query = 'SELECT * FROM events'
     const conditions: string[] = []
@@ -959,6 +2076,10 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
       conditions.push('verb = ?')
       values.push(params.verb)
     }
+    if (params.correlationId) {
+      conditions.push('correlation_id = ?')
+      values.push(params.correlationId)
+    }
 
     if (conditions.length > 0) {
       query += ' WHERE ' + conditions.join(' AND ')
@@ -967,9 +2088,40 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
     query += ' ORDER BY timestamp DESC LIMIT ?'
     values.push(limit)
 
-    const rows = this.sql.exec(query, ...values).toArray()
+    let events = this.sql
+      .exec(query, ...values)
+      .toArray()
+      .map((r) => this.rowToFullEvent(r))
+
+    let segmentQuery = "SELECT r2_key, max_timestamp FROM archive_segments WHERE kind = 'events'"
+    const segmentValues: string[] = []
+    if (params.since) {
+      segmentQuery += ' AND max_timestamp > ?'
+      segmentValues.push(params.since)
+    }
+    if (params.entityId || params.type) {
+      segmentQuery += ` AND id IN (SELECT segment_id FROM archive_segment_entities WHERE ${params.entityId ? 'entity_id = ?' : 'entity_type = ?'})`
+      segmentValues.push((params.entityId ?? params.type)!)
+    }
+    const segments = this.sql.exec(`${segmentQuery} ORDER BY max_timestamp DESC`, ...segmentValues).toArray()
+
+    const matches = (e: FullEvent) =>
+      (!params.since || e.timestamp > params.since) &&
+      (!params.type || e.entityType === params.type) &&
+      (!params.entityId || e.entityId === params.entityId) &&
+      (!params.verb || e.verb === params.verb) &&
+      (!params.correlationId || e.correlationId === params.correlationId)
+
+    for (const segment of segments) {
+      // Segments come newest first; once the page is full, older ones cannot contribute
+      if (events.length >= limit && (segment.max_timestamp as string) < events[limit - 1].timestamp) break
+      const archived = (await this.readSegment(segment.r2_key as string)).map((r) => this.rowToFullEvent(r)).filter(matches)
+      events = [...new Map([...events, ...archived].map((e) => [e.$id, e])).values()]
+        .sort((a, b) => (a.timestamp < b.timestamp ? 1 : a.timestamp > b.timestamp ? -1 : 0))
+        .slice(0, limit)
+    }
 
-    return { success: true, data: rows.map((r) => this.rowToFullEvent(r)) }
+    return { success: true, data: events }
   }
 
   getEvent(eventId: string): { success: boolean; data?: FullEvent; error?: string; status: number } {
@@ -985,27 +2137,23 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
   /**
    * Returns SSE stream response for CDC. This is the one method that still
    * returns a Response because SSE streams require raw Response construction.
+   *
+   * The stream first replays the log after the cursor (`lastEventId` from a
+   * reconnecting client's Last-Event-ID header, else `since`), a page per
+   * pull so a slow reader holds back the replay. Once caught up it stays
+   * open: publishEvent() pushes each committed event, with a heartbeat
+   * comment every STREAM_HEARTBEAT_MS. A client that falls STREAM_QUEUE_LIMIT
+   * messages behind is closed and resumes from its last event id.
    */
-  getEventStream(params: { since?: string; types?: string; verbs?: string }): Response {
-    const sinceId = params.since
+  getEventStream(params: { since?: string; lastEventId?: string; types?: string; verbs?: string }): Response {
+    const sinceId = params.lastEventId || params.since
     const types = params.types ? params.types.split(',') : null
     const verbs = params.verbs ? params.verbs.split(',') : null
 
-    const sql = this.sql
     const encoder = new TextEncoder()
-
-    let bufferedQuery = 'SELECT * FROM events'
     const conditions: string[] = []
     const values: (string | number)[] = []
 
-    if (sinceId) {
-      const cursorRow = sql.exec('SELECT timestamp FROM events WHERE id = ?', sinceId).toArray()[0]
-      if (cursorRow) {
-        conditions.push('(timestamp > ? OR (timestamp = ? AND id > ?))')
-        values.push(cursorRow.timestamp as string, cursorRow.timestamp as string, sinceId)
-      }
-    }
-
     if (types) {
       const placeholders = types.map(() => '?').join(', ')
       conditions.push(`entity_type IN (${placeholders})`)
@@ -1018,27 +2166,36 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
       values.push(...verbs)
     }
 
-    if (conditions.length > 0) {
-      bufferedQuery += ' WHERE ' + conditions.join(' AND ')
-    }
-
-    bufferedQuery += ' ORDER BY timestamp ASC, id ASC'
-
-    const rowToEvent = this.rowToFullEvent.bind(this)
+    let cursor = sinceId ? this.eventCursor(sinceId) : null
 
-    const stream = new ReadableStream<Uint8Array>({
-      start(controller) {
-        const rows = sql.exec(bufferedQuery, ...values).toArray()
-        for (const row of rows) {
-          const event = rowToEvent(row)
-          const sseMsg = `id: ${event.$id}\nevent: ${event.$type}\ndata: ${JSON.stringify(event)}\n\n`
-          controller.enqueue(encoder.encode(sseMsg))
-        }
+    let client: EventStreamClient
+    const stream = new ReadableStream<Uint8Array>(
+      {
+        start: (controller) => {
+          const heartbeat = setInterval(() => client.live && this.sendToEventStream(client, ': heartbeat\n\n'), STREAM_HEARTBEAT_MS)
+          client = { controller, types, verbs, live: false, heartbeat }
+          this.eventStreams.add(client)
+        },
+        pull: (controller) => {
+          if (client.live) return
+
+          const rows = this.eventsAfter(cursor, STREAM_REPLAY_PAGE, conditions, values)
+          for (const row of rows) {
+            const event = this.rowToFullEvent(row)
+            controller.enqueue(encoder.encode(sseMessage(event)))
+            cursor = { timestamp: event.timestamp, id: event.$id }
+          }
 
-        controller.enqueue(encoder.encode(': heartbeat\n\n'))
-        controller.close()
+          // Caught up — synchronously, so no event committed in between is missed
+          if (rows.length < STREAM_REPLAY_PAGE) {
+            client.live = true
+            controller.enqueue(encoder.encode(': heartbeat\n\n'))
+          }
+        },
+        cancel: () => this.detachEventStream(client),
       },
-    })
+      new CountQueuingStrategy({ highWaterMark: STREAM_QUEUE_LIMIT }),
+    )
 
     return new Response(stream, {
       status: 200,
@@ -1056,7 +2213,7 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
   createSubscription(body: {
     pattern: string
     mode: 'webhook' | 'websocket'
-    endpoint: string
+    endpoint?: string
     secret?: string
   }): { success: boolean; data?: Record<string, unknown>; error?: string; status: number } {
     if (!body.pattern || typeof body.pattern !== 'string') {
@@ -1065,19 +2222,21 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
     if (!body.mode || (body.mode !== 'webhook' && body.mode !== 'websocket')) {
       return { success: false, error: "mode must be 'webhook' or 'websocket'", status: 400 }
     }
-    if (!body.endpoint || typeof body.endpoint !== 'string') {
+    if (body.mode === 'webhook' && (!body.endpoint || typeof body.endpoint !== 'string')) {
       return { success: false, error: 'Missing or invalid endpoint', status: 400 }
     }
 
     const id = generateSubscriptionId()
     const now = new Date().toISOString()
+    // Clients connect to a websocket subscription rather than being called back
+    const endpoint = body.mode === 'websocket' ? `/subscriptions/ws?subscription=${id}` : (body.endpoint as string)
 
     this.sql.exec(
       'INSERT INTO subscriptions (id, pattern, mode, endpoint, secret, active, created_at) VALUES (?, ?, ?, ?, ?, 1, ?)',
       id,
       body.pattern,
       body.mode,
-      body.endpoint,
+      endpoint,
       body.secret ?? null,
       now,
     )
@@ -1088,7 +2247,7 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
         id,
         pattern: body.pattern,
         mode: body.mode,
-        endpoint: body.endpoint,
+        endpoint,
         active: true,
         createdAt: now,
       },
@@ -1119,10 +2278,51 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
     }
 
     this.sql.exec('DELETE FROM subscriptions WHERE id = ?', subId)
+    for (const ws of this.ctx.getWebSockets(subId)) ws.close(1000, 'Subscription deleted')
 
     return { success: true, status: 200 }
   }
 
+  /**
+   * WebSocket subscriptions (GET /subscriptions/ws). WebSockets cannot cross
+   * RPC, so this is the DO's one fetch() entry point. A socket subscribes to
+   * `patterns` (comma-separated Type.verb patterns) or to a stored
+   * websocket-mode `subscription`, replays the matching events after `since`,
+   * then receives new ones as they commit. Sockets are accepted through the
+   * hibernation API, so idle connections do not keep the DO awake.
+   */
+  async fetch(request: Request): Promise<Response> {
+    if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+      return Response.json({ success: false, error: 'Expected a WebSocket upgrade' }, { status: 426 })
+    }
+
+    const url = new URL(request.url)
+    const subscriptionId = url.searchParams.get('subscription')
+    let subscription: SocketSubscription
+    if (subscriptionId) {
+      const row = this.sql.exec("SELECT pattern FROM subscriptions WHERE id = ? AND mode = 'websocket' AND active = 1", subscriptionId).toArray()[0]
+      if (!row) {
+        return Response.json({ success: false, error: 'WebSocket subscription not found' }, { status: 404 })
+      }
+      subscription = { patterns: [row.pattern as string], subscriptionId }
+    } else {
+      const patterns = (url.searchParams.get('patterns') ?? '').split(',').filter(Boolean)
+      if (patterns.length === 0) {
+        return Response.json({ success: false, error: 'patterns or subscription is required' }, { status: 400 })
+      }
+      subscription = { patterns, subscriptionId: null }
+    }
+
+    const { 0: client, 1: server } = new WebSocketPair()
+    // Answered by the runtime without waking the DO
+    this.ctx.setWebSocketAutoResponse(new WebSocketRequestResponsePair('ping', 'pong'))
+    // Tagged with the stored subscription so deleting it can close the socket
+    this.ctx.acceptWebSocket(server, subscriptionId ? [subscriptionId] : [])
+    this.subscribeSocket(server, subscription, url.searchParams.get('since'))
+
+    return new Response(null, { status: 101, webSocket: client })
+  }
+
   // ---- Integration Hooks ----
 
   createIntegrationHook(body: {
@@ -1293,10 +2493,18 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
     return { success: true, data: schema }
   }
 
-  schemaGraph(): { success: boolean; data: { nodes: { id: string; label: string; entityCount: number }[]; edges: { source: string; target: string; label: string; type: string }[] } } {
+  schemaGraph(): {
+    success: boolean
+    data: {
+      nodes: { id: string; label: string; entityCount: number }[]
+      edges: { source: string; target: string; label: string; type: string }[]
+      transitions: { noun: string; verb: string; field: string; from: string[]; to: string }[]
+    }
+  } {
     const nouns = this.loadNouns()
     const nodes: { id: string; label: string; entityCount: number }[] = []
     const edges: { source: string; target: string; label: string; type: string }[] = []
+    const transitions: { noun: string; verb: string; field: string; from: string[]; to: string }[] = []
 
     for (const [name, nounSchema] of nouns) {
       nodes.push({
@@ -1315,9 +2523,13 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
           })
         }
       }
+
+      for (const [verb, transition] of Object.entries(nounSchema.transitions ?? {})) {
+        transitions.push({ noun: name, verb, ...transition })
+      }
     }
 
-    return { success: true, data: { nodes, edges } }
+    return { success: true, data: { nodes, edges, transitions } }
   }
 
   // ---- Relationships ----
@@ -1367,6 +2579,146 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
     return { success: true }
   }
 
+  /**
+   * Parse `fields` / `expand` params and check every expanded path against the
+   * declared relationships. Expanded relationships are always part of a projection.
+   */
+  private parseShape(type: string, opts?: { fields?: string; expand?: string }): EntityShape | { error: string } {
+    let fields: PathTree | null = null
+    let expand: PathTree | null = null
+    try {
+      if (opts?.expand) expand = parsePathList(opts.expand, MAX_EXPAND_DEPTH)
+      if (opts?.fields) fields = parsePathList(opts.fields)
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Invalid fields or expand' }
+    }
+
+    if (expand) {
+      const error = this.expansionError(type, expand)
+      if (error) return { error }
+      if (fields) fields = includeExpanded(fields, expand)
+    }
+    return { fields, expand }
+  }
+
+  private expansionError(type: string, tree: PathTree): string | null {
+    const noun = this.getNoun(type)
+    for (const [name, subtree] of Object.entries(tree)) {
+      const rel = noun?.relationships[name]
+      if (!rel?.targetType) return `Unknown relationship '${name}' on ${type}`
+      const nested = this.expansionError(rel.targetType, subtree)
+      if (nested) return nested
+    }
+    return null
+  }
+
+  /**
+   * Apply expansion, then projection, to entities about to be returned.
+   */
+  private shapeEntities(type: string, entities: NounInstance[], shape: EntityShape): NounInstance[] {
+    if (!shape.expand && !shape.fields) return entities
+    const copies = entities.map((e) => ({ ...e }))
+    if (shape.expand) this.expandRelations(type, copies, shape.expand)
+    if (shape.fields) return copies.map((e) => projectFields(e, shape.fields!) as NounInstance)
+    return copies
+  }
+
+  /**
+   * Replace relationship values with the related entities, one query per
+   * relationship and level rather than per entity. To-one relationships
+   * become an entity or null, to-many relationships an array.
+   */
+  private expandRelations(type: string, entities: Record<string, unknown>[], tree: PathTree): void {
+    const noun = this.getNoun(type)
+    if (!noun || entities.length === 0) return
+
+    for (const [name, subtree] of Object.entries(tree)) {
+      const rel = noun.relationships[name]!
+      const { links, byId } = this.loadRelated(type, entities, name, rel)
+
+      if (Object.keys(subtree).length > 0) {
+        this.expandRelations(rel.targetType!, [...byId.values()], subtree)
+      }
+
+      const toMany = rel.isArray || rel.operator === '<-' || rel.operator === '<~'
+      for (const entity of entities) {
+        const related = [...(links.get(entity.$id as string) ?? [])].map((id) => byId.get(id)).filter((e) => e !== undefined)
+        entity[name] = toMany || Array.isArray(entity[name]) ? related : (related[0] ?? null)
+      }
+    }
+  }
+
+  /**
+   * Find live entities related through a declared relationship:
+   * - forward (`->`, `~>`): IDs stored in the relationship field
+   * - backward (`<-`, `<~`) with a backref: targets whose backref field holds the ID
+   * - _rels edges: outgoing edges named after the relationship and incoming
+   *   edges named after its backref
+   */
+  private loadRelated(
+    type: string,
+    entities: Record<string, unknown>[],
+    name: string,
+    rel: ParsedProperty,
+  ): { links: Map<string, Set<string>>; byId: Map<string, Record<string, unknown>> } {
+    const targetType = rel.targetType!
+    const backward = rel.operator === '<-' || rel.operator === '<~'
+    const links = new Map<string, Set<string>>()
+    const byId = new Map<string, Record<string, unknown>>()
+    const link = (parentId: string, id: string) => {
+      const set = links.get(parentId) ?? new Set<string>()
+      set.add(id)
+      links.set(parentId, set)
+    }
+
+    for (const entity of entities) {
+      const parentId = entity.$id as string
+      if (!backward) {
+        const value = entity[name]
+        for (const id of Array.isArray(value) ? value : [value]) {
+          if (typeof id === 'string') link(parentId, id)
+        }
+      }
+      const key = `${type}_${parentId}`
+      for (const edge of this.rels.relationships(key, name)) link(parentId, relKeyEntityId(edge.to))
+      if (rel.backref) {
+        for (const edge of this.rels.references(key, rel.backref)) link(parentId, relKeyEntityId(edge.from))
+      }
+    }
+
+    if (backward && rel.backref) {
+      const parentIds = new Set(entities.map((e) => e.$id as string))
+      const rows = this.sql
+        .exec(
+          `SELECT data FROM entities WHERE type = ? AND deleted_at IS NULL AND EXISTS (SELECT 1 FROM json_each(data, ${sqlLiteral(jsonPath(rel.backref))}) WHERE value IN (SELECT value FROM json_each(?)))`,
+          targetType,
+          JSON.stringify([...parentIds]),
+        )
+        .toArray()
+      for (const row of rows) {
+        const related = JSON.parse(row.data as string) as Record<string, unknown>
+        byId.set(related.$id as string, related)
+        const value = related[rel.backref]
+        for (const parentId of Array.isArray(value) ? value : [value]) {
+          if (typeof parentId === 'string' && parentIds.has(parentId)) link(parentId, related.$id as string)
+        }
+      }
+    }
+
+    const missing = [...new Set([...links.values()].flatMap((ids) => [...ids]))].filter((id) => !byId.has(id))
+    if (missing.length > 0) {
+      const rows = this.sql
+        .exec('SELECT data FROM entities WHERE type = ? AND deleted_at IS NULL AND id IN (SELECT value FROM json_each(?))', targetType, JSON.stringify(missing))
+        .toArray()
+      for (const row of rows) {
+        const related = JSON.parse(row.data as string) as Record<string, unknown>
+        byId.set(related.$id as string, related)
+      }
+    }
+
+    return { links, byId }
+  }
+
   // ---- OpenAPI ----
 
   openAPISpec(): Record<string, unknown> {
@@ -1375,6 +2727,12 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
 
     const paths: Record<string, unknown> = {}
     const schemas: Record<string, unknown> = {}
+    const idempotencyKeyParameter = {
+      name: 'Idempotency-Key',
+      in: 'header',
+      schema: { type: 'string', maxLength: MAX_IDEMPOTENCY_KEY_LENGTH },
+      description: 'Replays the original response for 24 hours instead of repeating the write',
+    }
 
     for (const noun of nouns) {
       const typeLower = noun.slug
@@ -1391,24 +2749,8 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
       }
 
       for (const [fieldName, field] of Object.entries(noun.fields)) {
-        if (field.kind === 'enum' && field.enumValues) {
-          properties[fieldName] = { type: 'string', enum: field.enumValues }
-        } else if (field.kind === 'field') {
-          const typeMap: Record<string, string> = {
-            string: 'string',
-            number: 'number',
-            int: 'integer',
-            float: 'number',
-            boolean: 'boolean',
-            date: 'string',
-            datetime: 'string',
-            json: 'object',
-            url: 'string',
-            email: 'string',
-            text: 'string',
-            markdown: 'string',
-          }
-          properties[fieldName] = { type: typeMap[field.type ?? 'string'] ?? 'string' }
+        if ((field.kind === 'enum' && field.enumValues) || field.kind === 'field') {
+          properties[fieldName] = propertySchema(field)
         }
       }
 
@@ -1418,24 +2760,78 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
         required: ['$id', '$type'],
       }
 
+      const relationshipNames = Object.keys(noun.relationships)
+      const shapeParameters = [
+        { name: 'fields', in: 'query', schema: { type: 'string' }, description: 'Comma-separated fields to return (dotted paths reach into expanded entities)' },
+        {
+          name: 'expand',
+          in: 'query',
+          schema: { type: 'string' },
+          description: `Comma-separated relationships to inline, up to ${MAX_EXPAND_DEPTH} levels deep${relationshipNames.length > 0 ? ` (${relationshipNames.join(', ')})` : ''}`,
+        },
+      ]
+
       // CRUD paths
       paths[`/entities/${typeName}`] = {
         get: {
           summary: `List ${noun.plural}`,
           tags: [typeName],
           parameters: [
-            { name: 'filter', in: 'query', schema: { type: 'string' }, description: 'JSON filter object' },
+            {
+              name: 'filter',
+              in: 'query',
+              schema: { type: 'string' },
+              description: 'JSON filter object (Mongo-style: $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin, $exists, $regex, $contains, $and, $or, $not)',
+            },
             { name: 'limit', in: 'query', schema: { type: 'integer', default: 100 } },
             { name: 'offset', in: 'query', schema: { type: 'integer', default: 0 } },
             { name: 'sort', in: 'query', schema: { type: 'string' }, description: 'JSON sort object' },
+            { name: 'cursor', in: 'query', schema: { type: 'string' }, description: 'Opaque cursor from meta.nextCursor (keyset pagination; not combinable with offset)' },
+            { name: 'count', in: 'query', schema: { type: 'boolean', default: true }, description: 'Set to false to skip counting the total' },
+            {
+              name: 'includeDeleted',
+              in: 'query',
+              schema: { type: 'boolean', default: false },
+              description: 'Also list soft-deleted entities (with $deletedAt)',
+            },
+            {
+              name: 'q',
+              in: 'query',
+              schema: { type: 'string' },
+              description: 'Full-text match on text, markdown and indexed string fields',
+            },
+            {
+              name: 'asOf',
+              in: 'query',
+              schema: { type: 'string', format: 'date-time' },
+              description: 'List the collection as it stood at this time (rebuilt from the event log)',
+            },
+            ...shapeParameters,
           ],
           responses: { '200': { description: `List of ${noun.plural}` } },
         },
         post: {
           summary: `Create a ${noun.singular}`,
           tags: [typeName],
+          parameters: [idempotencyKeyParameter],
+          requestBody: { content: { 'application/json': { schema: { $ref: `#/components/schemas/${typeName}` } } } },
+          responses: { '201': { description: `${typeName} created` }, '409': { description: 'Duplicate $id or unique value' } },
+        },
+        put: {
+          summary: `Create or update a ${noun.singular} by unique field`,
+          tags: [typeName],
+          parameters: [
+            {
+              name: 'upsertOn',
+              in: 'query',
+              required: true,
+              schema: { type: 'string' },
+              description: 'Comma-separated unique (##) fields or $id identifying the entity; values come from the body',
+            },
+            idempotencyKeyParameter,
+          ],
           requestBody: { content: { 'application/json': { schema: { $ref: `#/components/schemas/${typeName}` } } } },
-          responses: { '201': { description: `${typeName} created` } },
+          responses: { '200': { description: `${typeName} updated` }, '201': { description: `${typeName} created` } },
         },
       }
 
@@ -1443,8 +2839,8 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
         get: {
           summary: `Get a ${noun.singular} by ID`,
           tags: [typeName],
-          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
-          responses: { '200': { description: `The ${noun.singular}` }, '404': { description: 'Not found' } },
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }, ...shapeParameters],
+          responses: { '200': { description: `The ${noun.singular}` }, '400': { description: 'Invalid fields or expand' }, '404': { description: 'Not found' } },
         },
         put: {
           summary: `Update a ${noun.singular}`,
@@ -1461,18 +2857,103 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
         },
       }
 
+      paths[`/entities/${typeName}/aggregate`] = {
+        get: {
+          summary: `Aggregate ${noun.plural}`,
+          tags: [typeName],
+          parameters: [
+            {
+              name: 'metrics',
+              in: 'query',
+              schema: { type: 'string', default: 'count' },
+              description: 'Comma-separated metrics: count, count:field, sum:field, avg:field, min:field, max:field, count_distinct:field',
+            },
+            {
+              name: 'groupBy',
+              in: 'query',
+              schema: { type: 'string' },
+              description: 'Comma-separated fields; date fields may be bucketed as field:hour|day|week|month|year',
+            },
+            { name: 'filter', in: 'query', schema: { type: 'string' }, description: 'JSON filter object (same syntax as listing)' },
+            { name: 'limit', in: 'query', schema: { type: 'integer', default: 1000 }, description: 'Maximum number of groups' },
+          ],
+          responses: { '200': { description: 'One row per group with the requested metrics' }, '400': { description: 'Invalid metrics, groupBy or filter' } },
+        },
+      }
+
+      paths[`/entities/${typeName}/{id}/restore`] = {
+        post: {
+          summary: `Restore a deleted ${noun.singular}`,
+          tags: [typeName],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            '200': { description: `${typeName} restored` },
+            '404': { description: 'Not found' },
+            '409': { description: 'Not deleted, or a unique value is taken' },
+          },
+        },
+      }
+
+      paths[`/entities/${typeName}/{id}/revert`] = {
+        post: {
+          summary: `Revert a ${noun.singular} to an earlier version`,
+          tags: [typeName],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            {
+              name: 'toVersion',
+              in: 'query',
+              required: true,
+              schema: { type: 'integer', minimum: 1 },
+              description: 'The $version whose state is written back',
+            },
+            { name: 'restore', in: 'query', schema: { type: 'boolean', default: false }, description: 'Allow reverting across a delete (restores the entity)' },
+            { name: 'If-Match', in: 'header', schema: { type: 'string' }, description: 'Expected current version (ETag)' },
+          ],
+          responses: {
+            '200': { description: `${typeName} reverted` },
+            '400': { description: 'Invalid toVersion' },
+            '404': { description: 'Entity or version not found' },
+            '409': { description: 'Version conflict, a delete since toVersion, or a unique value is taken' },
+            '422': { description: 'The old state fails current validation' },
+          },
+        },
+      }
+
+      paths[`/entities/${typeName}/{id}/snapshot`] = {
+        post: {
+          summary: `Snapshot a ${noun.singular} at its latest event`,
+          tags: [typeName],
+          description: 'Time travel and diffs replay events from the nearest snapshot instead of the first event.',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            '200': { description: 'A snapshot already exists at the latest event' },
+            '201': { description: 'Snapshot taken' },
+            '404': { description: 'No events for this entity' },
+          },
+        },
+      }
+
       // Verb-specific paths
       for (const [verbName, conj] of Object.entries(noun.verbs)) {
         if (['create', 'update', 'delete'].includes(verbName)) continue
 
+        const transition = noun.transitions?.[verbName]
+        const inputs = noun.verbInputs?.[verbName]
+        const transitionNote = transition ? ` Moves ${transition.field} from ${transition.from.join(' | ')} to ${transition.to}.` : ''
+
         paths[`/entities/${typeName}/{id}/${verbName}`] = {
           post: {
             summary: `${conj.action} a ${noun.singular} (${conj.activity} -> ${conj.event})`,
             tags: [typeName],
-            description: `Execute the '${verbName}' verb. Emits ${typeName}.${conj.event} event.`,
-            parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
-            requestBody: { content: { 'application/json': { schema: { type: 'object' } } }, required: false },
-            responses: { '200': { description: `${typeName} ${conj.event}` } },
+            description: `Execute the '${verbName}' verb. Emits ${typeName}.${conj.event} event.${transitionNote}`,
+            parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }, idempotencyKeyParameter],
+            requestBody: { content: { 'application/json': { schema: verbInputSchema(inputs) } }, required: !!inputs },
+            responses: {
+              '200': { description: `${typeName} ${conj.event}` },
+              ...(inputs ? { '422': { description: 'Invalid verb input' } } : {}),
+              ...(transition ? { '409': { description: `${typeName} is not in a state that allows '${verbName}'` } } : {}),
+            },
           },
         }
       }
@@ -1625,39 +3106,1049 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
       },
       status: 200,
     }
-  }
+  }
+
+  // ---- Retention & archival ----
+
+  /** The tenant's retention policy and a summary of the archive */
+  retentionInfo(): { success: boolean; data: { policy: RetentionPolicy | null; segments: number; archivedEvents: number; archivedThrough: string | null } } {
+    const summary = this.sql
+      .exec("SELECT COUNT(*) AS segments, COALESCE(SUM(CASE WHEN kind = 'events' THEN count END), 0) AS events FROM archive_segments")
+      .toArray()[0]
+    return {
+      success: true,
+      data: {
+        policy: this.retentionPolicy(),
+        segments: (summary?.segments as number) ?? 0,
+        archivedEvents: (summary?.events as number) ?? 0,
+        archivedThrough: this.archivedThrough(),
+      },
+    }
+  }
+
+  /**
+   * Set the tenant's retention policy (`{ hotDays, dispatchLogDays? }`), or
+   * clear it with null. Archiving starts on the next alarm; segments already
+   * in R2 stay readable either way.
+   *
+   * Admin-only — the route requires ADMIN_TOKEN.
+   */
+  async setRetentionPolicy(input: unknown): Promise<{ success: boolean; data?: RetentionPolicy | null; error?: string; status: number }> {
+    if (input === null) {
+      this.sql.exec('DELETE FROM retention_policy')
+      return { success: true, data: null, status: 200 }
+    }
+
+    let policy: RetentionPolicy
+    try {
+      policy = parseRetentionPolicy(input)
+    } catch (err) {
+      return { success: false, error: (err as Error).message, status: 400 }
+    }
+
+    this.sql.exec(
+      'INSERT OR REPLACE INTO retention_policy (id, hot_days, dispatch_log_days, next_run_at) VALUES (1, ?, ?, NULL)',
+      policy.hotDays,
+      policy.dispatchLogDays,
+    )
+    await this.scheduleArchive(Date.now())
+    return { success: true, data: policy, status: 200 }
+  }
+
+  /**
+   * Move events and dispatch log rows that left the hot window to R2 segments
+   * and index them. Each entity keeps its newest state-bearing event from
+   * before the cutoff hot, so `asOf` listings inside the window stay exact.
+   * Writes at most MAX_SEGMENTS_PER_RUN segments (`more` when it stopped there).
+   *
+   * Runs from the alarm; admins can also trigger it.
+   */
+  async archiveEvents(): Promise<{
+    success: boolean
+    data?: { segments: number; events: number; dispatchLog: number; more: boolean }
+    error?: string
+    status: number
+  }> {
+    const policy = this.retentionPolicy()
+    if (!policy) {
+      return { success: false, error: 'No retention policy set', status: 400 }
+    }
+    const bucket = this.r2Bucket()
+    if (!bucket) {
+      return { success: false, error: 'Archiving requires the BUCKET binding', status: 503 }
+    }
+
+    const now = Date.now()
+    const result = { segments: 0, events: 0, dispatchLog: 0, more: false }
+    const runs = [
+      { kind: 'events' as const, cutoff: retentionCutoff(policy.hotDays, now) },
+      { kind: 'dispatch_log' as const, cutoff: retentionCutoff(policy.dispatchLogDays, now) },
+    ]
+
+    for (const { kind, cutoff } of runs) {
+      while (result.segments < MAX_SEGMENTS_PER_RUN) {
+        const rows =
+          kind === 'events'
+            ? this.archivableEvents(cutoff)
+            : this.sql.exec('SELECT * FROM dispatch_log WHERE timestamp < ? ORDER BY timestamp ASC LIMIT ?', cutoff, MAX_SEGMENT_ROWS).toArray()
+        if (rows.length === 0) break
+        // Stop on failure (R2 error, or rows changed during upload); the next run retries
+        if (!(await this.archiveSegment(bucket, kind, cutoff, rows))) return { success: true, data: result, status: 200 }
+        result.segments++
+        result[kind === 'events' ? 'events' : 'dispatchLog'] += rows.length
+      }
+    }
+
+    result.more = result.segments === MAX_SEGMENTS_PER_RUN
+    return { success: true, data: result, status: 200 }
+  }
+
+  /** The archive index, newest segments first */
+  listArchiveSegments(params: { kind?: string; limit?: number } = {}): { success: boolean; data: ArchiveSegment[] } {
+    const limit = Math.min(params.limit ?? 100, 1000)
+    const rows = this.sql
+      .exec(
+        `SELECT * FROM archive_segments${params.kind ? ' WHERE kind = ?' : ''} ORDER BY max_timestamp DESC, id DESC LIMIT ?`,
+        ...(params.kind ? [params.kind] : []),
+        limit,
+      )
+      .toArray()
+    return {
+      success: true,
+      data: rows.map((r) => ({
+        id: r.id as number,
+        kind: r.kind as ArchiveSegment['kind'],
+        key: r.r2_key as string,
+        minTimestamp: r.min_timestamp as string,
+        maxTimestamp: r.max_timestamp as string,
+        count: r.count as number,
+        createdAt: r.created_at as string,
+      })),
+    }
+  }
+
+  // =========================================================================
+  // DO lifecycle — alarm handler for EventEmitter retries and archival, and
+  // hibernatable WebSocket handlers for subscribers
+  // =========================================================================
+
+  async alarm(): Promise<void> {
+    try {
+      await this.emitter.handleAlarm()
+    } catch (err) {
+      console.error('[ObjectsDO] Alarm failed:', err)
+    }
+    try {
+      await this.runScheduledArchive()
+    } catch (err) {
+      console.error('[ObjectsDO] Archive failed:', err)
+    }
+  }
+
+  /**
+   * A subscriber changed its subscription:
+   * `{ "type": "subscribe", "patterns"?: [...], "since"?: "evt_..." }`.
+   * Omitted patterns keep the current ones; `since` replays from that cursor.
+   */
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    let request: Record<string, unknown>
+    try {
+      request = JSON.parse(typeof message === 'string' ? message : new TextDecoder().decode(message))
+    } catch {
+      ws.send(JSON.stringify({ type: 'error', error: 'Messages must be JSON' }))
+      return
+    }
+
+    const error = this.socketMessageError(ws, request)
+    if (error) {
+      ws.send(JSON.stringify({ type: 'error', error }))
+      return
+    }
+
+    const current = ws.deserializeAttachment() as SocketSubscription
+    const patterns = (request.patterns as string[] | undefined) ?? current.patterns
+    this.subscribeSocket(ws, { patterns, subscriptionId: current.subscriptionId }, (request.since as string | undefined) ?? null)
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    // Abnormal disconnects report reserved codes, which close() would throw on
+    ws.close(RESERVED_CLOSE_CODES.has(code) ? 1000 : code, reason)
+  }
+
+  async webSocketError(_ws: WebSocket, error: unknown): Promise<void> {
+    console.error('[ObjectsDO] WebSocket error:', error)
+  }
+
+  // =========================================================================
+  // Private helpers
+  // =========================================================================
+
+  // =========================================================================
+  // Field indexes — expression indexes for # (indexed) and ## (unique) fields
+  // =========================================================================
+
+  /** Unique scalar fields of a noun (array fields cannot be indexed by value) */
+  private uniqueFields(schema: StoredNounSchema): ParsedProperty[] {
+    return Object.values(schema.fields).filter((f) => f.modifiers?.unique && !f.modifiers.array)
+  }
+
+  /**
+   * Create/drop partial expression indexes so they match the noun definition.
+   *
+   * Each `#` field gets `idx_field_{Noun}_{field}` and each `##` field gets a
+   * UNIQUE `uidx_field_{Noun}_{field}`, both on json_extract(data, '$."field"')
+   * and scoped to the noun's live rows. Indexes for fields that are no longer
+   * indexed are dropped.
+   */
+  private syncFieldIndexes(schema: StoredNounSchema): void {
+    const desired = new Map<string, string>()
+    for (const field of Object.values(schema.fields)) {
+      if (!field.modifiers?.indexed || field.modifiers.array) continue
+      const unique = field.modifiers.unique
+      const name = `${unique ? 'uidx' : 'idx'}_field_${schema.name}_${field.name}`
+      desired.set(
+        name,
+        `CREATE ${unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${sqlIdentifier(name)} ON entities(${jsonField(field.name)}) WHERE type = ${sqlLiteral(schema.name)} AND deleted_at IS NULL`,
+      )
+    }
+
+    const existing = this.sql
+      .exec("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'entities'")
+      .toArray()
+      .map((r) => r.name as string)
+      .filter((name) => name.startsWith(`idx_field_${schema.name}_`) || name.startsWith(`uidx_field_${schema.name}_`))
+
+    for (const name of existing) {
+      if (!desired.has(name)) this.sql.exec(`DROP INDEX IF EXISTS ${sqlIdentifier(name)}`)
+    }
+    for (const ddl of desired.values()) {
+      this.sql.exec(ddl)
+    }
+  }
+
+  /**
+   * Bring an entity's full-text document in line with its current state.
+   * A null entity (deleted, purged) or one with no searchable text has no document.
+   */
+  private syncSearchDoc(type: string, id: string, entity: Record<string, unknown> | null): void {
+    const noun = this.getNoun(type)
+    const body = entity && noun ? searchDocument(entity, searchableFields(noun)) : ''
+    const doc = this.sql.exec('SELECT doc_id FROM search_docs WHERE entity_id = ?', id).toArray()[0]
+
+    if (!body) {
+      if (!doc) return
+      this.sql.exec('DELETE FROM entities_fts WHERE rowid = ?', doc.doc_id as number)
+      this.sql.exec('DELETE FROM search_docs WHERE doc_id = ?', doc.doc_id as number)
+    } else if (doc) {
+      this.sql.exec('UPDATE entities_fts SET body = ? WHERE rowid = ?', body, doc.doc_id as number)
+    } else {
+      const inserted = this.sql.exec('INSERT INTO search_docs (entity_id, type) VALUES (?, ?) RETURNING doc_id', id, type).toArray()[0]
+      this.sql.exec('INSERT INTO entities_fts (rowid, body) VALUES (?, ?)', inserted.doc_id as number, body)
+    }
+  }
+
+  /** Rebuild the full-text documents of a noun's live entities (after its searchable fields change) */
+  private reindexSearch(noun: StoredNounSchema): void {
+    if (searchableFields(noun).length === 0) {
+      this.sql.exec('DELETE FROM entities_fts WHERE rowid IN (SELECT doc_id FROM search_docs WHERE type = ?)', noun.name)
+      this.sql.exec('DELETE FROM search_docs WHERE type = ?', noun.name)
+      return
+    }
+    for (const row of this.sql.exec('SELECT id, data FROM entities WHERE type = ? AND deleted_at IS NULL', noun.name).toArray()) {
+      this.syncSearchDoc(noun.name, row.id as string, JSON.parse(row.data as string) as Record<string, unknown>)
+    }
+  }
+
+  /** Find a value shared by more than one live entity for a field, if any */
+  private findDuplicateValue(type: string, field: string): unknown {
+    const row = this.sql
+      .exec(
+        `SELECT ${jsonField(field)} AS value FROM entities WHERE type = ${sqlLiteral(type)} AND deleted_at IS NULL AND ${jsonField(field)} IS NOT NULL GROUP BY value HAVING COUNT(*) > 1 LIMIT 1`,
+      )
+      .toArray()[0]
+    return row ? row.value : undefined
+  }
+
+  /**
+   * Find another live entity that already holds one of this entity's unique values.
+   */
+  private findUniqueConflict(noun: StoredNounSchema, entity: Record<string, unknown>, id: string): { field: string; conflictId: string } | null {
+    for (const field of this.uniqueFields(noun)) {
+      const value = entity[field.name]
+      if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') continue
+
+      const row = this.sql
+        .exec(
+          `SELECT id FROM entities WHERE type = ${sqlLiteral(noun.name)} AND deleted_at IS NULL AND ${jsonField(field.name)} = ? AND id != ? LIMIT 1`,
+          sqlValue(value),
+          id,
+        )
+        .toArray()[0]
+      if (row) return { field: field.name, conflictId: row.id as string }
+    }
+    return null
+  }
+
+  // ---- Write planning ----
+
+  /**
+   * Validate a create. Only reads, so it is safe inside a batch transaction.
+   */
+  private planCreate(
+    type: string,
+    data: Record<string, unknown>,
+    opts?: { tenantId?: string; contextUrl?: string; actor?: string },
+  ): PlannedWrite | { failure: WriteFailure } {
+    const noun = this.getNoun(type)
+    if (!noun) {
+      return { failure: { success: false, error: `Noun '${type}' is not defined. Define it first via POST /nouns`, status: 400 } }
+    }
+
+    if (noun.disabledVerbs.includes('create')) {
+      return { failure: { success: false, error: `Verb 'create' is disabled on ${type}`, status: 403 } }
+    }
+
+    const now = new Date().toISOString()
+    const withDefaults = applyDefaults(noun.fields, data, now)
+
+    const errors = validateFields(noun.fields, withDefaults)
+    if (errors.length > 0) {
+      return { failure: this.validationFailure(type, errors) }
+    }
+
+    if (data.$id !== undefined && data.$id !== '' && typeof data.$id !== 'string') {
+      return { failure: { success: false, error: '$id must be a string', status: 400 } }
+    }
+    const id = (data.$id as string) || generateEntityId(type)
+    const taken = data.$id ? this.idConflict(id) : null
+    if (taken) {
+      return { failure: taken }
+    }
+
+    const contextUrl = opts?.contextUrl ?? (opts?.tenantId ? `https://headless.ly/~${opts.tenantId}` : 'https://headless.ly/~default')
+
+    const entity: NounInstance = {
+      ...withDefaults,
+      // $createdAt already records when; the actor is stamped like a verb's
+      ...(noun.stampVerbs !== false ? { [noun.verbs.create!.reverseBy]: opts?.actor ?? ANONYMOUS_ACTOR } : {}),
+      $id: id,
+      $type: type,
+      $context: contextUrl,
+      $version: 1,
+      $createdAt: now,
+      $updatedAt: now,
+    }
+
+    const conflict = this.findUniqueConflict(noun, entity, id)
+    if (conflict) {
+      return { failure: this.uniqueConflict(type, conflict) }
+    }
+
+    return { type, id, verb: 'create', noun, before: null, after: entity, data: entity, now, actor: opts?.actor }
+  }
+
+  /**
+   * Validate an update, including the optimistic version check.
+   */
+  private planUpdate(
+    type: string,
+    id: string,
+    updates: Record<string, unknown>,
+    opts?: { ifMatch?: string; actor?: string },
+  ): PlannedWrite | { failure: WriteFailure } {
+    const noun = this.getNoun(type)
+    if (noun && noun.disabledVerbs.includes('update')) {
+      return { failure: { success: false, error: `Verb 'update' is disabled on ${type}`, status: 403 } }
+    }
+
+    const row = this.sql.exec('SELECT data, version FROM entities WHERE id = ? AND type = ? AND deleted_at IS NULL', id, type).toArray()[0]
+
+    if (!row) {
+      return { failure: { success: false, error: 'Not found', status: 404 } }
+    }
+
+    const existing = JSON.parse(row.data as string) as NounInstance
+    const currentVersion = row.version as number
+
+    let expectedVersion: number | undefined
+    if (updates.$version !== undefined) {
+      expectedVersion = Number(updates.$version)
+    } else if (opts?.ifMatch) {
+      const parsed = parseInt(opts.ifMatch.replace(/"/g, ''), 10)
+      if (!isNaN(parsed)) expectedVersion = parsed
+    }
+
+    if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+      return {
+        failure: {
+          success: false,
+          error: 'Version conflict',
+          meta: { currentVersion, expectedVersion },
+          etag: `"${currentVersion}"`,
+          status: 409,
+        },
+      }
+    }
+
+    const { $version: _v, $id: _i, $type: _t, $context: _c, $createdAt: _ca, ...userUpdates } = updates
+
+    if (noun) {
+      const errors = validateFields(noun.fields, userUpdates, { partial: true })
+      if (errors.length > 0) {
+        return { failure: this.validationFailure(type, errors) }
+      }
+    }
+
+    const now = new Date().toISOString()
+
+    const updated: NounInstance = {
+      ...existing,
+      ...userUpdates,
+      ...(noun && noun.stampVerbs !== false ? { [noun.verbs.update!.reverseBy]: opts?.actor ?? ANONYMOUS_ACTOR } : {}),
+      $id: id,
+      $type: type,
+      $context: existing.$context,
+      $version: currentVersion + 1,
+      $createdAt: existing.$createdAt,
+      $updatedAt: now,
+    }
+
+    const conflict = noun ? this.findUniqueConflict(noun, updated, id) : null
+    if (conflict) {
+      return { failure: this.uniqueConflict(type, conflict) }
+    }
+
+    return { type, id, verb: 'update', noun, before: existing, after: updated, data: updated, now, actor: opts?.actor }
+  }
+
+  /**
+   * Plan a soft delete. `after` carries `$deletedAt` for the R2 mirror.
+   */
+  private planDelete(type: string, id: string, opts?: { actor?: string }): PlannedWrite | { failure: WriteFailure } {
+    const noun = this.getNoun(type)
+    if (noun && noun.disabledVerbs.includes('delete')) {
+      return { failure: { success: false, error: `Verb 'delete' is disabled on ${type}`, status: 403 } }
+    }
+
+    const row = this.sql.exec('SELECT data FROM entities WHERE id = ? AND type = ? AND deleted_at IS NULL', id, type).toArray()[0]
+
+    if (!row) {
+      return { failure: { success: false, error: 'Not found', status: 404 } }
+    }
+
+    const existing = JSON.parse(row.data as string) as NounInstance
+    const now = new Date().toISOString()
+
+    return { type, id, verb: 'delete', noun, before: existing, after: { ...existing, $deletedAt: now }, data: null, now, actor: opts?.actor }
+  }
+
+  /**
+   * Plan undoing a soft delete. Unique values must still be free.
+   */
+  private planRestore(type: string, id: string, opts?: { actor?: string }): PlannedWrite | { failure: WriteFailure } {
+    const noun = this.getNoun(type)
+    if (noun && noun.disabledVerbs.includes('restore')) {
+      return { failure: { success: false, error: `Verb 'restore' is disabled on ${type}`, status: 403 } }
+    }
+
+    const row = this.sql.exec('SELECT data, version, deleted_at FROM entities WHERE id = ? AND type = ?', id, type).toArray()[0]
+    if (!row) {
+      return { failure: { success: false, error: 'Not found', status: 404 } }
+    }
+    if (!row.deleted_at) {
+      return { failure: { success: false, error: `${type} ${id} is not deleted`, status: 409 } }
+    }
+
+    const stored = JSON.parse(row.data as string) as NounInstance
+    const existing: NounInstance = { ...stored, $deletedAt: row.deleted_at as string }
+    const now = new Date().toISOString()
+    const { $deletedAt: _d, ...live } = stored
+    const restored: NounInstance = { ...live, $version: (row.version as number) + 1, $updatedAt: now }
+
+    const conflict = noun ? this.findUniqueConflict(noun, restored, id) : null
+    if (conflict) {
+      return { failure: this.uniqueConflict(type, conflict) }
+    }
+
+    return { type, id, verb: 'restore', noun, before: existing, after: restored, data: null, now, actor: opts?.actor }
+  }
+
+  /**
+   * Plan a revert: find the event that produced `toVersion`, check the
+   * optimistic version and any delete since, and validate the old state
+   * against the current schema.
+   */
+  private planRevert(
+    type: string,
+    id: string,
+    toVersion: number,
+    opts?: { ifMatch?: string; restore?: boolean; actor?: string },
+  ): PlannedWrite | { failure: WriteFailure } {
+    const noun = this.getNoun(type)
+    if (noun && noun.disabledVerbs.includes('revert')) {
+      return { failure: { success: false, error: `Verb 'revert' is disabled on ${type}`, status: 403 } }
+    }
+
+    const row = this.sql.exec('SELECT data, version, deleted_at FROM entities WHERE id = ? AND type = ?', id, type).toArray()[0]
+    if (!row) {
+      return { failure: { success: false, error: 'Not found', status: 404 } }
+    }
+
+    const currentVersion = row.version as number
+    const expectedVersion = opts?.ifMatch ? parseInt(opts.ifMatch.replace(/"/g, ''), 10) : NaN
+    if (!isNaN(expectedVersion) && expectedVersion !== currentVersion) {
+      return {
+        failure: { success: false, error: 'Version conflict', meta: { currentVersion, expectedVersion }, etag: `"${currentVersion}"`, status: 409 },
+      }
+    }
+
+    if (!Number.isInteger(toVersion) || toVersion < 1 || toVersion >= currentVersion) {
+      return { failure: { success: false, error: `toVersion must be an integer between 1 and ${currentVersion - 1}`, status: 400 } }
+    }
+
+    const source = this.sql
+      .exec(
+        `SELECT id, sequence, after_state FROM events WHERE entity_type = ? AND entity_id = ? AND json_extract(after_state, '$."$version"') = ? ORDER BY sequence DESC LIMIT 1`,
+        type,
+        id,
+        toVersion,
+      )
+      .toArray()[0]
+    if (!source) {
+      return { failure: { success: false, error: `Version ${toVersion} of ${type} ${id} is not in the event log`, status: 404 } }
+    }
+
+    const deletedSince = this.sql
+      .exec("SELECT 1 FROM events WHERE entity_type = ? AND entity_id = ? AND verb = 'delete' AND sequence > ? LIMIT 1", type, id, source.sequence as number)
+      .toArray()
+    if (deletedSince.length > 0 && !opts?.restore) {
+      const error = `${type} ${id} was deleted after version ${toVersion}; pass restore to revert across the delete`
+      return { failure: { success: false, error, status: 409 } }
+    }
+
+    const stored = JSON.parse(row.data as string) as NounInstance
+    const existing: NounInstance = row.deleted_at ? { ...stored, $deletedAt: row.deleted_at as string } : stored
+    const sourceState = JSON.parse(source.after_state as string) as NounInstance
+    const { $id: _i, $type: _t, $context: _c, $version: _v, $createdAt: _ca, $updatedAt: _ua, $deletedAt: _d, ...fields } = sourceState
+
+    if (noun) {
+      const errors = validateFields(noun.fields, fields)
+      if (errors.length > 0) {
+        return { failure: this.validationFailure(type, errors) }
+      }
+    }
+
+    const now = new Date().toISOString()
+    const reverted: NounInstance = {
+      ...fields,
+      $id: id,
+      $type: type,
+      $context: stored.$context,
+      $version: currentVersion + 1,
+      $createdAt: stored.$createdAt,
+      $updatedAt: now,
+    }
+
+    const conflict = noun ? this.findUniqueConflict(noun, reverted, id) : null
+    if (conflict) {
+      return { failure: this.uniqueConflict(type, conflict) }
+    }
+
+    return { type, id, verb: 'revert', noun, before: existing, after: reverted, data: { toVersion, eventId: source.id as string }, now, actor: opts?.actor }
+  }
+
+  /**
+   * Resolve the noun, verb and entity a verb runs on, and check its state transition.
+   */
+  private loadVerbTarget(
+    type: string,
+    id: string,
+    verb: string,
+    verbData: Record<string, unknown> | undefined,
+  ): { noun: StoredNounSchema; conj: VerbConjugation; existing: NounInstance } | { failure: WriteFailure } {
+    const noun = this.getNoun(type)
+    if (!noun) {
+      return { failure: { success: false, error: `Noun '${type}' is not defined`, status: 400 } }
+    }
+
+    const conj = noun.verbs[verb]
+    if (!conj) {
+      const verbEntry = Object.values(noun.verbs).find((v) => v.activity === verb || v.event === verb)
+      if (!verbEntry) {
+        return { failure: { success: false, error: `Verb '${verb}' is not defined on ${type}`, status: 400 } }
+      }
+      return { failure: { success: false, error: `Use the action form '${verbEntry.action}' instead of '${verb}'`, status: 400 } }
+    }
+
+    if (noun.disabledVerbs.includes(verb)) {
+      return { failure: { success: false, error: `Verb '${verb}' is disabled on ${type}`, status: 403 } }
+    }
+
+    if (verbData !== undefined && (typeof verbData !== 'object' || verbData === null || Array.isArray(verbData))) {
+      return { failure: { success: false, error: 'Verb payload must be a JSON object', status: 400 } }
+    }
+
+    const row = this.sql.exec('SELECT data, version FROM entities WHERE id = ? AND type = ? AND deleted_at IS NULL', id, type).toArray()[0]
+
+    if (!row) {
+      return { failure: { success: false, error: 'Not found', status: 404 } }
+    }
+
+    const existing: NounInstance = { ...(JSON.parse(row.data as string) as NounInstance), $version: row.version as number }
+
+    // State machine: the verb may only run from its declared source states
+    const transition = noun.transitions?.[verb]
+    if (transition && !transition.from.includes('*') && !transition.from.includes(existing[transition.field] as string)) {
+      return {
+        failure: {
+          success: false,
+          error: `Cannot ${verb} ${type} when ${transition.field} is '${existing[transition.field] ?? null}' (allowed from: ${transition.from.join(', ')})`,
+          status: 409,
+        },
+      }
+    }
+
+    return { noun, conj, existing }
+  }
+
+  /**
+   * Validate a verb's payload and build the updated entity.
+   */
+  private planVerb(
+    target: { noun: StoredNounSchema; conj: VerbConjugation; existing: NounInstance },
+    verb: string,
+    verbData: Record<string, unknown> | undefined,
+    actor: string,
+  ): PlannedWrite | { failure: WriteFailure } {
+    const { noun, conj, existing } = target
+    const type = existing.$type
+    const id = existing.$id
+    const now = new Date().toISOString()
+
+    // Declared inputs are validated strictly and only those naming a field are
+    // applied; the payload of a verb without declared inputs is only recorded
+    const inputs = noun.verbInputs?.[verb]
+    let payload: Record<string, unknown> | null = verbData ?? null
+    let effects: Record<string, unknown> = {}
+    if (inputs) {
+      payload = applyDefaults(inputs, verbData ?? {}, now)
+      const errors: FieldError[] = [
+        ...Object.keys(payload)
+          .filter((key) => !inputs[key])
+          .map((key) => ({ field: key, message: `is not an input of ${verb}` })),
+        ...validateFields(inputs, payload),
+      ]
+      if (errors.length > 0) {
+        return { failure: this.validationFailure(type, errors) }
+      }
+      effects = Object.fromEntries(Object.entries(payload).filter(([key]) => noun.fields[key]))
+    }
+
+    const fieldErrors = validateFields(noun.fields, effects, { partial: true })
+    if (fieldErrors.length > 0) {
+      return { failure: this.validationFailure(type, fieldErrors) }
+    }
+
+    const transition = noun.transitions?.[verb]
+    const updated: NounInstance = {
+      ...existing,
+      ...effects,
+      ...(transition ? { [transition.field]: transition.to } : {}),
+      // Reverse stamps (e.g. qualifiedAt / qualifiedBy) make verb history queryable on the entity
+      ...(noun.stampVerbs !== false ? { [conj.reverseAt]: now, [conj.reverseBy]: actor } : {}),
+      $id: id,
+      $type: type,
+      $context: existing.$context,
+      $version: existing.$version + 1,
+      $createdAt: existing.$createdAt,
+      $updatedAt: now,
+    }
+
+    const conflict = this.findUniqueConflict(noun, updated, id)
+    if (conflict) {
+      return { failure: this.uniqueConflict(type, conflict) }
+    }
+
+    return { type, id, verb, noun, before: existing, after: updated, data: payload, now, actor }
+  }
+
+  /**
+   * Write a planned change to SQLite and log its event. Synchronous, so
+   * batches can commit several writes inside one transaction.
+   */
+  private commitWrite(write: PlannedWrite): { event: FullEvent } | { failure: WriteFailure } {
+    const { type, id, verb, noun, before, after, now } = write
+    try {
+      if (verb === 'create') {
+        this.sql.exec(
+          'INSERT INTO entities (id, type, data, version, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+          id,
+          type,
+          JSON.stringify(after),
+          after.$version,
+          now,
+          now,
+        )
+      } else if (verb === 'delete') {
+        this.sql.exec('UPDATE entities SET deleted_at = ?, updated_at = ? WHERE id = ?', now, now, id)
+      } else if (verb === 'restore' || before?.$deletedAt) {
+        // Restores, and reverts to a state from before the delete
+        this.sql.exec('UPDATE entities SET data = ?, version = ?, deleted_at = NULL, updated_at = ? WHERE id = ?', JSON.stringify(after), after.$version, now, id)
+      } else {
+        this.sql.exec('UPDATE entities SET data = ?, version = ?, updated_at = ? WHERE id = ?', JSON.stringify(after), after.$version, now, id)
+      }
+    } catch (err) {
+      // A concurrent write may have claimed the ID or a unique value while the R2 write was in flight
+      if (!isUniqueViolation(err)) throw err
+      const takenId = verb === 'create' ? this.idConflict(id) : null
+      if (takenId) return { failure: takenId }
+      const raced = noun ? this.findUniqueConflict(noun, after, id) : null
+      if (!raced) throw err
+      return { failure: this.uniqueConflict(type, raced) }
+    }
+    this.syncSearchDoc(type, id, verb === 'delete' ? null : after)
+
+    const event = this.logEvent(type, id, verb, write.data, before, verb === 'delete' ? null : after, after.$context, write.actor ?? ANONYMOUS_ACTOR)
+    return { event }
+  }
+
+  /**
+   * Mirror a write to @dotdo/db (R2 Parquet). Best-effort: SQLite stays the
+   * fallback when R2 is unavailable.
+   */
+  private async mirrorWrite(write: PlannedWrite): Promise<void> {
+    if (!this.db) return
+    try {
+      const collection = this.getCollection(write.type)
+      if (write.verb === 'create') {
+        await collection.create(write.after)
+      } else {
+        await collection.update(write.id, write.after)
+      }
+    } catch (err) {
+      console.warn(`[ObjectsDO] R2 ${write.verb} failed for ${write.type}/${write.id}:`, err)
+    }
+  }
+
+  /**
+   * Run after hooks for a committed verb. They may emit follow-up verbs; their
+   * failures never undo the verb.
+   */
+  private async runAfterHooks(write: PlannedWrite, event: FullEvent, depth: number): Promise<void> {
+    const { type, id, verb } = write
+    for (const hook of this.getHooks(type, verb, 'after')) {
+      const outcome = await this.runHookCode(hook, { type, id, verb, phase: 'after', entity: write.after, payload: write.data, event: { ...event } })
+      if (!outcome) continue
+      if (!outcome.ok) {
+        this.logHookFailure(hook, id, outcome.error)
+        continue
+      }
+      for (const emit of outcome.result.emit ?? []) {
+        const target = `${emit.type ?? type}.${emit.verb}`
+        if (depth + 1 > MAX_HOOK_DEPTH) {
+          this.logHookFailure(hook, id, `Not emitting ${target}: hook depth limit (${MAX_HOOK_DEPTH}) reached`)
+          continue
+        }
+        const emitted = await this.runVerb(emit.type ?? type, emit.id ?? id, emit.verb, emit.data, `hook:${hook.id}`, depth + 1)
+        if (!emitted.success) {
+          this.logHookFailure(hook, id, `Emitted ${target} failed: ${emitted.error}`)
+        }
+      }
+    }
+  }
+
+  /**
+   * Run `body` inside transactionSync(). Events logged meanwhile carry the
+   * correlation id and are held back; after commit they are published, the
+   * writes mirrored to R2 and verb after hooks run. Throwing
+   * TransactionRollback from `body` rolls back and returns false.
+   */
+  private async runTransaction(correlationId: string | null, body: () => AppliedWrite[]): Promise<boolean> {
+    const open = { correlationId, events: [] as { event: FullEvent; contextUrl: string }[] }
+    this.openTransaction = open
+    let applied: AppliedWrite[]
+    try {
+      applied = this.ctx.storage.transactionSync(body)
+    } catch (err) {
+      if (err instanceof TransactionRollback) return false
+      throw err
+    } finally {
+      this.openTransaction = null
+    }
+
+    for (const { event, contextUrl } of open.events) {
+      this.publishEvent(event, contextUrl)
+    }
+    for (const { write, event } of applied) {
+      await this.mirrorWrite(write)
+      if (write.verb !== 'create' && write.verb !== 'update' && write.verb !== 'delete') {
+        await this.runAfterHooks(write, event, 0)
+      }
+    }
+    return true
+  }
+
+  /**
+   * Apply one transaction step. Runs inside the transaction.
+   */
+  private applyTransactionStep(
+    step: TransactionStep,
+    actor: string,
+    opts?: { tenantId?: string; contextUrl?: string },
+  ): AppliedWrite | { relationship: Relationship | null; event: FullEvent; status: number } | { failure: WriteFailure } {
+    const shapeError = transactionStepError(step)
+    if (shapeError) {
+      return { failure: { success: false, error: shapeError, status: 400 } }
+    }
+
+    if (step.op === 'relate') {
+      for (const [type, id] of [
+        [step.type, step.id],
+        [step.targetType, step.targetId],
+      ]) {
+        const live = this.sql.exec('SELECT 1 FROM entities WHERE id = ? AND type = ? AND deleted_at IS NULL', id, type).toArray()[0]
+        if (!live) return { failure: { success: false, error: `${type} ${id} not found`, status: 404 } }
+      }
+      const relationship = this.rels.add(`${step.type}_${step.id}`, step.relationship, `${step.targetType}_${step.targetId}`)
+      const event = this.logRelationshipEvent('relate', relationship, actor, opts?.contextUrl)
+      return { relationship, event, status: 201 }
+    }
+
+    if (step.op === 'unrelate') {
+      const row = this.sql.exec('SELECT * FROM _rels WHERE id = ?', step.relationshipId).toArray()[0]
+      if (!row) return { failure: { success: false, error: `Relationship ${step.relationshipId} not found`, status: 404 } }
+      this.rels.delete(step.relationshipId)
+      const edge = { id: step.relationshipId, from: row.from as string, predicate: row.predicate as string, to: row.to as string }
+      const event = this.logRelationshipEvent('unrelate', edge, actor, opts?.contextUrl)
+      return { relationship: null, event, status: 200 }
+    }
+
+    return this.applyBatchOperation(step, actor, opts)
+  }
+
+  /**
+   * Record a relationship link or unlink as a `Relationship.<verb>` event on
+   * the edge itself, so the linked entities' sequences are left untouched.
+   */
+  private logRelationshipEvent(
+    verb: 'relate' | 'unrelate',
+    edge: { id: string; from: string; predicate: string; to: string },
+    actor: string,
+    contextUrl?: string,
+  ): FullEvent {
+    const { from, predicate, to } = edge
+    return this.logEvent('Relationship', edge.id, verb, { from, predicate, to }, null, null, contextUrl, actor)
+  }
+
+  /**
+   * Plan and commit one batch operation. Runs inside the batch transaction.
+   */
+  private applyBatchOperation(
+    operation: BatchOperation,
+    actor: string,
+    opts?: { tenantId?: string; contextUrl?: string },
+  ): AppliedWrite | { failure: WriteFailure } {
+    const shapeError = batchOperationError(operation)
+    if (shapeError) {
+      return { failure: { success: false, error: shapeError, status: 400 } }
+    }
+
+    let write: PlannedWrite | { failure: WriteFailure }
+    switch (operation.op) {
+      case 'create':
+        write = this.planCreate(operation.type, operation.data, { ...opts, actor })
+        break
+      case 'update':
+        write = this.planUpdate(operation.type, operation.id, operation.data, { ifMatch: operation.ifMatch, actor })
+        break
+      case 'delete':
+        write = this.planDelete(operation.type, operation.id, { actor })
+        break
+      case 'verb': {
+        const target = this.loadVerbTarget(operation.type, operation.id, operation.verb, operation.data)
+        if ('failure' in target) return target
+        if (this.getHooks(operation.type, operation.verb, 'before').length > 0) {
+          return { failure: { success: false, error: `Verb '${operation.verb}' on ${operation.type} has before hooks and cannot run in a batch`, status: 400 } }
+        }
+        write = this.planVerb(target, operation.verb, operation.data, actor)
+        break
+      }
+    }
+    if ('failure' in write) return write
+
+    const committed = this.commitWrite(write)
+    if ('failure' in committed) return committed
+    return { write, event: committed.event }
+  }
+
+  /**
+   * Build the 409 result returned when a write would duplicate a unique field.
+   */
+  private uniqueConflict(
+    type: string,
+    conflict: { field: string; conflictId: string },
+  ): { success: false; error: string; meta: { field: string; conflictId: string }; status: number } {
+    return {
+      success: false,
+      error: `Duplicate value for unique field '${conflict.field}' — already used by ${type} ${conflict.conflictId}`,
+      meta: conflict,
+      status: 409,
+    }
+  }
+
+  /**
+   * Build the 409 result returned when a create reuses an existing entity ID
+   * (soft-deleted entities keep their ID), or null when the ID is free.
+   */
+  private idConflict(id: string): WriteFailure | null {
+    const row = this.sql.exec('SELECT type, deleted_at FROM entities WHERE id = ?', id).toArray()[0]
+    if (!row) return null
+    const state = row.deleted_at ? ' (deleted)' : ''
+    return { success: false, error: `${row.type} ${id} already exists${state}`, meta: { conflictId: id }, status: 409 }
+  }
+
+  /**
+   * Build the 422 result returned when a write does not satisfy the noun schema.
+   */
+  private validationFailure(type: string, errors: FieldError[]): { success: false; error: string; meta: { errors: FieldError[] }; status: number } {
+    return { success: false, error: `Validation failed for ${type}: ${formatFieldErrors(errors)}`, meta: { errors }, status: 422 }
+  }
+
+  private getHooks(noun: string, verb: string, phase: 'before' | 'after'): Hook[] {
+    const rows = this.sql.exec('SELECT * FROM hooks WHERE noun = ? AND verb = ? AND phase = ? ORDER BY id', noun, verb, phase).toArray()
+    return rows.map((r) => this.rowToHook(r))
+  }
+
+  private findHook(hookId: number): Hook | undefined {
+    if (!Number.isInteger(hookId)) return undefined
+    const row = this.sql.exec('SELECT * FROM hooks WHERE id = ?', hookId).toArray()[0]
+    return row ? this.rowToHook(row) : undefined
+  }
+
+  private rowToHook(r: Record<string, unknown>): Hook {
+    return {
+      id: r.id as number,
+      noun: r.noun as string,
+      verb: r.verb as string,
+      phase: r.phase as 'before' | 'after',
+      code: r.code as string,
+      createdAt: r.created_at as string,
+    }
+  }
+
+  /**
+   * Validate a hook definition against its noun. Returns an error message, or
+   * null when the hook is valid.
+   */
+  private hookDefinitionError(type: string, body: { verb?: unknown; phase?: unknown; code?: unknown }): string | null {
+    const noun = this.getNoun(type)
+    if (!noun) return `Noun '${type}' is not defined`
+    if (!body.verb || typeof body.verb !== 'string') return 'Missing or invalid verb'
+    if (body.phase !== 'before' && body.phase !== 'after') return "phase must be 'before' or 'after'"
+    if (!body.code || typeof body.code !== 'string') return 'Missing or invalid code'
+    if (!noun.verbs[body.verb]) return `Verb '${body.verb}' is not defined on ${type}`
+    return null
+  }
+
+  /**
+   * Run a hook in an isolated Worker. Returns null when no Worker Loader is
+   * bound: before hooks then fail the verb with 503, after hooks are skipped.
+   */
+  private async runHookCode(hook: Hook, ctx: HookContext): Promise<HookOutcome | null> {
+    const loader = this.env.LOADER
+    if (!loader) {
+      console.warn(`[ObjectsDO] No LOADER binding — cannot run hook ${hook.id}: ${hook.noun}.${hook.verb}:${hook.phase}`)
+      return null
+    }
+    // Cache key is scoped to this tenant and changes with the code
+    const hash = await sha256Hex(hook.code)
+    return runHook(loader, `${this.ctx.id.toString()}:hook:${hook.id}:${hash}`, hook.code, ctx)
+  }
+
+  /**
+   * Run a create or verb at most once per Idempotency-Key.
+   *
+   * The key is reserved before `run` starts, so a concurrent duplicate gets a
+   * 409 instead of doing the work twice. The reservation is a lease of
+   * IDEMPOTENCY_LEASE_MS, renewed while `run` is in flight (slow hooks, large
+   * batches); an evicted holder stops renewing, so its key is freed soon
+   * rather than after the full TTL. A successful result is stored for
+   * IDEMPOTENCY_TTL_MS and replayed (with `replayed: true`) when the same
+   * request comes back; failures release the key so the caller can retry.
+   * Reusing a key for a different request is a 422.
+   */
+  private async idempotent<R extends { success: boolean; error?: string; status: number; replayed?: boolean }>(
+    key: string | undefined,
+    scope: string,
+    request: unknown,
+    run: () => Promise<R>,
+  ): Promise<R> {
+    if (key === undefined) return run()
+    if (typeof key !== 'string' || !key || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      return { success: false, error: `Idempotency-Key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters`, status: 400 } as R
+    }
 
-  // =========================================================================
-  // DO lifecycle — alarm handler for EventEmitter retries
-  // =========================================================================
+    const fingerprint = await sha256Hex(JSON.stringify(request))
+    const now = new Date()
+    this.sql.exec('DELETE FROM idempotency_keys WHERE expires_at <= ?', now.toISOString())
 
-  async alarm(): Promise<void> {
+    const row = this.sql.exec('SELECT scope, fingerprint, response FROM idempotency_keys WHERE key = ?', key).toArray()[0]
+    if (row) {
+      if (row.scope !== scope || row.fingerprint !== fingerprint) {
+        return { success: false, error: 'Idempotency-Key was already used for a different request', status: 422 } as R
+      }
+      if (row.response === null) {
+        return { success: false, error: 'A request with this Idempotency-Key is still in progress', status: 409 } as R
+      }
+      return { ...(JSON.parse(row.response as string) as R), replayed: true }
+    }
+
+    this.sql.exec(
+      'INSERT INTO idempotency_keys (key, scope, fingerprint, created_at, expires_at) VALUES (?, ?, ?, ?, ?)',
+      key,
+      scope,
+      fingerprint,
+      now.toISOString(),
+      new Date(now.getTime() + IDEMPOTENCY_LEASE_MS).toISOString(),
+    )
+
+    const renewal = setInterval(() => {
+      const expiresAt = new Date(Date.now() + IDEMPOTENCY_LEASE_MS).toISOString()
+      this.sql.exec('UPDATE idempotency_keys SET expires_at = ? WHERE key = ? AND response IS NULL', expiresAt, key)
+    }, IDEMPOTENCY_LEASE_MS / 2)
+
+    let result: R
     try {
-      await this.emitter.handleAlarm()
+      result = await run()
     } catch (err) {
-      console.error('[ObjectsDO] Alarm failed:', err)
+      this.sql.exec('DELETE FROM idempotency_keys WHERE key = ?', key)
+      throw err
+    } finally {
+      clearInterval(renewal)
     }
-  }
-
-  // =========================================================================
-  // Private helpers
-  // =========================================================================
 
-  private getHooks(noun: string, verb: string, phase: 'before' | 'after'): Hook[] {
-    const rows = this.sql.exec('SELECT noun, verb, phase, code, created_at FROM hooks WHERE noun = ? AND verb = ? AND phase = ?', noun, verb, phase).toArray()
+    if (result.success) {
+      const expiresAt = new Date(Date.now() + IDEMPOTENCY_TTL_MS).toISOString()
+      this.sql.exec('UPDATE idempotency_keys SET response = ?, expires_at = ? WHERE key = ?', JSON.stringify(result), expiresAt, key)
+    } else {
+      this.sql.exec('DELETE FROM idempotency_keys WHERE key = ?', key)
+    }
+    return result
+  }
 
-    return rows.map((r) => ({
-      noun: r.noun as string,
-      verb: r.verb as string,
-      phase: r.phase as 'before' | 'after',
-      code: r.code as string,
-      createdAt: r.created_at as string,
-    }))
+  /**
+   * Record a hook failure in the event log as a `Hook.fail` event on the
+   * hook itself, so the hooked entity's sequence is left untouched.
+   */
+  private logHookFailure(hook: Hook, entityId: string, error: string): void {
+    console.warn(`[ObjectsDO] Hook ${hook.id} (${hook.noun}.${hook.verb}:${hook.phase}) failed: ${error}`)
+    this.logEvent('Hook', String(hook.id), 'fail', { noun: hook.noun, verb: hook.verb, phase: hook.phase, entityId, error }, null, null)
   }
 
   /**
    * Log a full NounEvent with conjugation, before/after state, and monotonic sequence.
-   * Also dispatches to registered subscriptions and integration hooks.
+   * Also dispatches to registered subscriptions and integration hooks (deferred
+   * until commit inside a batch).
    */
   private logEvent(
     entityType: string,
@@ -1667,15 +4158,16 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
     beforeState: Record<string, unknown> | null,
     afterState: Record<string, unknown> | null,
     contextUrl?: string,
+    actor?: string,
   ): FullEvent {
     const id = generateEventId()
     const now = new Date().toISOString()
     const eventType = `${entityType}.${verb}`
     const conj = conjugateVerb(verb)
 
-    const seqRow = this.sql.exec('SELECT MAX(sequence) as max_seq FROM events WHERE entity_type = ? AND entity_id = ?', entityType, entityId).toArray()[0]
-    const currentSeq = (seqRow?.max_seq as number) ?? 0
-    const nextSeq = currentSeq + 1
+    const nextSeq = this.latestSequence(entityType, entityId) + 1
+
+    const correlationId = this.openTransaction?.correlationId ?? null
 
     const event: FullEvent = {
       $id: id,
@@ -1689,10 +4181,12 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
       after: afterState,
       sequence: nextSeq,
       timestamp: now,
+      ...(correlationId ? { correlationId } : {}),
+      ...(actor ? { actor } : {}),
     }
 
     this.sql.exec(
-      'INSERT INTO events (id, type, entity_type, entity_id, verb, conjugation_action, conjugation_activity, conjugation_event, data, before_state, after_state, sequence, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      'INSERT INTO events (id, type, entity_type, entity_id, verb, conjugation_action, conjugation_activity, conjugation_event, data, before_state, after_state, sequence, timestamp, correlation_id, actor) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
       id,
       eventType,
       entityType,
@@ -1706,21 +4200,160 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
       afterState ? JSON.stringify(afterState) : null,
       nextSeq,
       now,
+      correlationId,
+      actor ?? null,
     )
 
+    const interval = this.snapshotInterval()
+    if (interval > 0 && nextSeq % interval === 0) {
+      this.buildSnapshot(entityType, entityId, nextSeq)
+      // Offload once the surrounding transaction has committed (or rolled back)
+      this.ctx.waitUntil(Promise.resolve().then(() => this.offloadSnapshots(entityType, entityId)))
+    }
+
+    if (this.openTransaction) {
+      this.openTransaction.events.push({ event, contextUrl: contextUrl ?? `https://headless.ly/~default` })
+    } else {
+      this.publishEvent(event, contextUrl ?? `https://headless.ly/~default`)
+    }
+
+    return event
+  }
+
+  /**
+   * Send a logged event to events.do, subscriptions and integration hooks.
+   */
+  private publishEvent(event: FullEvent, contextUrl: string): void {
     // Emit CDC change to events.do via batched EventEmitter (replaces the built-in EVENTS hook)
     this.emitter.emitChange(
-      verb === 'create' ? 'insert' : verb === 'delete' ? 'delete' : 'update',
-      entityType,
-      entityId,
-      afterState ?? undefined,
-      beforeState ?? undefined,
+      event.verb === 'create' ? 'insert' : event.verb === 'delete' ? 'delete' : 'update',
+      event.entityType,
+      event.entityId,
+      event.after ?? undefined,
+      event.before ?? undefined,
     )
 
     this.dispatchToSubscriptions(event)
-    this.dispatchIntegrations(event, contextUrl ?? `https://headless.ly/~default`)
+    this.dispatchIntegrations(event, contextUrl)
+    this.pushToEventStreams(event)
+    this.pushToWebSockets(event)
+  }
 
-    return event
+  // =========================================================================
+  // Live event streams
+  // =========================================================================
+
+  /** Push a committed event to the live SSE clients whose filters match */
+  private pushToEventStreams(event: FullEvent): void {
+    for (const client of this.eventStreams) {
+      if (!client.live) continue
+      if (client.types && !client.types.includes(event.entityType)) continue
+      if (client.verbs && !client.verbs.includes(event.verb)) continue
+      this.sendToEventStream(client, sseMessage(event))
+    }
+  }
+
+  /** Queue a message for a client, closing its stream once it is STREAM_QUEUE_LIMIT messages behind */
+  private sendToEventStream(client: EventStreamClient, message: string): void {
+    if ((client.controller.desiredSize ?? 0) <= 0) {
+      // Already-queued messages still drain; the client then reconnects with Last-Event-ID
+      this.detachEventStream(client)
+      client.controller.close()
+      return
+    }
+    client.controller.enqueue(new TextEncoder().encode(message))
+  }
+
+  private detachEventStream(client: EventStreamClient): void {
+    clearInterval(client.heartbeat)
+    this.eventStreams.delete(client)
+  }
+
+  /** Send a committed event to the WebSocket subscribers whose patterns match */
+  private pushToWebSockets(event: FullEvent): void {
+    for (const ws of this.ctx.getWebSockets()) {
+      const subscription = ws.deserializeAttachment() as SocketSubscription | null
+      if (!subscription?.patterns.some((pattern) => this.matchesPattern(pattern, event.$type))) continue
+      try {
+        ws.send(JSON.stringify({ type: 'event', event }))
+      } catch {
+        // Socket is closing — webSocketClose() finishes it
+      }
+    }
+  }
+
+  /**
+   * Store a socket's subscription, replay the matching events after `since`
+   * (at most SOCKET_REPLAY_LIMIT), then confirm with the cursor to resume
+   * from and whether the replay stopped at the limit.
+   */
+  private subscribeSocket(ws: WebSocket, subscription: SocketSubscription, since: string | null): void {
+    ws.serializeAttachment(subscription)
+
+    let cursor: { timestamp: string; id: string } | null = null
+    let more = false
+    if (since) {
+      cursor = this.eventCursor(since)
+      let sent = 0
+      let rows: Record<string, unknown>[]
+      do {
+        rows = this.eventsAfter(cursor, STREAM_REPLAY_PAGE)
+        for (const row of rows) {
+          if (sent === SOCKET_REPLAY_LIMIT) {
+            more = true
+            break
+          }
+          const event = this.rowToFullEvent(row)
+          cursor = { timestamp: event.timestamp, id: event.$id }
+          if (!subscription.patterns.some((pattern) => this.matchesPattern(pattern, event.$type))) continue
+          ws.send(JSON.stringify({ type: 'event', event }))
+          sent++
+        }
+      } while (!more && rows.length === STREAM_REPLAY_PAGE)
+    }
+
+    ws.send(JSON.stringify({ type: 'subscribed', patterns: subscription.patterns, cursor: cursor?.id ?? null, more }))
+  }
+
+  /** Check a subscriber's message, which arrives as untrusted JSON */
+  private socketMessageError(ws: WebSocket, request: unknown): string | null {
+    if (typeof request !== 'object' || request === null || (request as Record<string, unknown>).type !== 'subscribe') {
+      return "Unknown message; expected { type: 'subscribe' }"
+    }
+    const { patterns, since } = request as Record<string, unknown>
+    if (patterns !== undefined) {
+      if (!Array.isArray(patterns) || patterns.length === 0 || !patterns.every((p) => typeof p === 'string' && p.length > 0)) {
+        return 'patterns must be a non-empty array of Type.verb patterns'
+      }
+      if ((ws.deserializeAttachment() as SocketSubscription).subscriptionId) {
+        return 'The patterns of a stored subscription cannot be changed'
+      }
+    }
+    if (since !== undefined && typeof since !== 'string') return 'since must be an event id'
+    return null
+  }
+
+  /** Position of an event in the log, for resuming after it (null if it is not in the hot log) */
+  private eventCursor(eventId: string): { timestamp: string; id: string } | null {
+    const row = this.sql.exec('SELECT timestamp FROM events WHERE id = ?', eventId).toArray()[0]
+    return row ? { timestamp: row.timestamp as string, id: eventId } : null
+  }
+
+  /** The next page of the log after a cursor, in (timestamp, id) order */
+  private eventsAfter(
+    cursor: { timestamp: string; id: string } | null,
+    limit: number,
+    conditions: string[] = [],
+    values: (string | number)[] = [],
+  ): Record<string, unknown>[] {
+    const where = [...conditions]
+    const params = [...values]
+    if (cursor) {
+      where.push('(timestamp > ? OR (timestamp = ? AND id > ?))')
+      params.push(cursor.timestamp, cursor.timestamp, cursor.id)
+    }
+    const clause = where.length > 0 ? ` WHERE ${where.join(' AND ')}` : ''
+    return this.sql.exec(`SELECT * FROM events${clause} ORDER BY timestamp ASC, id ASC LIMIT ?`, ...params, limit).toArray()
   }
 
   // =========================================================================
@@ -1824,6 +4457,7 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
 
       if (!this.matchesPattern(sub.pattern, event.$type)) continue
 
+      // Websocket subscriptions are pushed to their connected sockets by pushToWebSockets()
       if (sub.mode === 'webhook') {
         this.dispatchWebhook(sub, event).catch(() => {
           // Swallow errors — don't break the main flow
@@ -1873,6 +4507,82 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
   // Event row helpers
   // =========================================================================
 
+  /**
+   * Erase the payloads (data, before, after) of an entity's events. Returns
+   * how many events were redacted. Stored Idempotency-Key responses holding
+   * the entity are dropped as well.
+   */
+  private redactEntityEvents(type: string, id: string): number {
+    const redacted = this.sql
+      .exec(
+        'UPDATE events SET data = NULL, before_state = NULL, after_state = NULL WHERE entity_type = ? AND entity_id = ? AND (data IS NOT NULL OR before_state IS NOT NULL OR after_state IS NOT NULL) RETURNING id',
+        type,
+        id,
+      )
+      .toArray().length
+    this.sql.exec("DELETE FROM idempotency_keys WHERE json_extract(response, '$.data.$id') = ?", id)
+    return redacted
+  }
+
+  /**
+   * Find the entities of a data subject: the entity with the given ID, or
+   * every entity (optionally of one type) whose field holds the value.
+   */
+  private resolveSubject(subject: DataSubject): ResolvedSubject | { error: string; status: number } {
+    const { type, id, field, value } = subject ?? {}
+    if (type !== undefined && (typeof type !== 'string' || !type)) return { error: 'type must be a non-empty string', status: 400 }
+
+    let rows: Record<string, unknown>[]
+    if (id !== undefined) {
+      if (typeof id !== 'string' || !id) return { error: 'id must be a non-empty string', status: 400 }
+      rows = this.sql
+        .exec('SELECT type, id, data, deleted_at FROM entities WHERE id = ?' + (type ? ' AND type = ?' : ''), id, ...(type ? [type] : []))
+        .toArray()
+    } else {
+      if (typeof field !== 'string' || !field || field.startsWith('$')) return { error: 'Provide an id, or a field and value', status: 400 }
+      if (typeof value !== 'string' && typeof value !== 'number') return { error: 'value must be a string or number', status: 400 }
+      rows = this.sql
+        .exec(`SELECT type, id, data, deleted_at FROM entities WHERE ${jsonField(field)} = ?` + (type ? ' AND type = ?' : ''), value, ...(type ? [type] : []))
+        .toArray()
+    }
+
+    if (rows.length === 0) return { error: 'No entities found for this data subject', status: 404 }
+
+    const entities = rows.map((r) => {
+      const entity = JSON.parse(r.data as string) as NounInstance
+      return { type: r.type as string, id: r.id as string, entity: r.deleted_at ? { ...entity, $deletedAt: r.deleted_at as string } : entity }
+    })
+    const lookup = id === undefined ? (value as RedactionNeedle) : undefined
+    return { entities, value: lookup, needles: [...entities.map((e) => e.id), ...(lookup !== undefined ? [lookup] : [])] }
+  }
+
+  /**
+   * Events of the subject's entities, plus other events whose payload or
+   * states mention one of the subject's IDs or the lookup value.
+   */
+  private subjectEvents(resolved: ResolvedSubject): FullEvent[] {
+    const mentions = resolved.needles.map(() => '(instr(data, ?) > 0 OR instr(before_state, ?) > 0 OR instr(after_state, ?) > 0)')
+    const tokens = resolved.needles.flatMap((needle) => Array(3).fill(JSON.stringify(needle)) as string[])
+
+    // instr() on the JSON text narrows the scan; containsValue() confirms exact matches
+    return this.sql
+      .exec(
+        `SELECT * FROM events WHERE entity_id IN (SELECT value FROM json_each(?)) OR ${mentions.join(' OR ')} ORDER BY timestamp ASC, sequence ASC`,
+        JSON.stringify(resolved.entities.map((e) => e.id)),
+        ...tokens,
+      )
+      .toArray()
+      .map((r) => this.rowToFullEvent(r))
+      .filter(this.isSubjectEvent(resolved))
+  }
+
+  /** Whether an event belongs to one of the subject's entities or mentions its values */
+  private isSubjectEvent(resolved: ResolvedSubject): (event: FullEvent) => boolean {
+    const own = new Set(resolved.entities.map(({ type, id }) => `${type}_${id}`))
+    const needles = new Set(resolved.needles)
+    return (e) => own.has(`${e.entityType}_${e.entityId}`) || [e.data, e.before, e.after].some((state) => containsValue(state, needles))
+  }
+
   private rowToFullEvent(row: Record<string, unknown>): FullEvent {
     return {
       $id: row.id as string,
@@ -1890,6 +4600,8 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
       after: row.after_state ? JSON.parse(row.after_state as string) : null,
       sequence: (row.sequence as number) ?? 0,
       timestamp: row.timestamp as string,
+      ...(row.correlation_id ? { correlationId: row.correlation_id as string } : {}),
+      ...(row.actor ? { actor: row.actor as string } : {}),
     }
   }
 
@@ -1899,12 +4611,11 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
   }
 
   /**
-   * Replay events in order to reconstruct entity state.
+   * Replay events in order to reconstruct entity state, continuing from
+   * `initial` (a snapshot) when given.
    */
-  private replayEvents(events: FullEvent[]): Record<string, unknown> | null {
-    if (events.length === 0) return null
-
-    let state: Record<string, unknown> | null = null
+  private replayEvents(events: FullEvent[], initial: Record<string, unknown> | null = null): Record<string, unknown> | null {
+    let state = initial
 
     for (const event of events) {
       const verbEvent = event.conjugation.event
@@ -1937,6 +4648,457 @@ export class ObjectsDO extends DurableObject<Cloudflare.Env> {
     return state
   }
 
+  /**
+   * Replay an entity up to a sequence and/or timestamp, starting from the
+   * nearest snapshot at or before that point. Returns the state with the
+   * timestamp of the last event it reflects, or null when no event falls within it.
+   */
+  private async replayState(
+    type: string,
+    id: string,
+    bound: { sequence?: number; asOf?: string },
+  ): Promise<{ state: Record<string, unknown>; timestamp: string } | null> {
+    let where = 'entity_type = ? AND entity_id = ?'
+    const values: (string | number)[] = [type, id]
+    if (bound.sequence !== undefined) {
+      where += ' AND sequence <= ?'
+      values.push(bound.sequence)
+    }
+    if (bound.asOf) {
+      where += ' AND timestamp <= ?'
+      values.push(bound.asOf)
+    }
+
+    const snapshot = this.sql
+      .exec(`SELECT sequence, timestamp, state, r2_key FROM snapshots WHERE ${where} ORDER BY sequence DESC LIMIT 1`, ...values)
+      .toArray()[0]
+    const initial = snapshot ? await this.loadSnapshotState(snapshot) : null
+
+    const events = await this.entityEvents(type, id, { ...bound, after: initial ? (snapshot.sequence as number) : 0 })
+    const state = this.replayEvents(events, initial)
+    if (!state) return null
+    return { state, timestamp: events.length > 0 ? events[events.length - 1].timestamp : (snapshot.timestamp as string) }
+  }
+
+  /**
+   * Store the replayed state of an entity at `sequence`, folding the events
+   * since its newest local snapshot. Called from logEvent, so it commits or
+   * rolls back with the write that triggered it. Returns null when events it
+   * needs have been archived (replaySnapshot reads them back instead).
+   */
+  private buildSnapshot(type: string, id: string, sequence: number): { sequence: number; timestamp: string; created: boolean } | null {
+    const existing = this.sql.exec('SELECT timestamp FROM snapshots WHERE entity_type = ? AND entity_id = ? AND sequence = ?', type, id, sequence).toArray()[0]
+    if (existing) return { sequence, timestamp: existing.timestamp as string, created: false }
+
+    const base = this.sql
+      .exec(
+        'SELECT sequence, state FROM snapshots WHERE entity_type = ? AND entity_id = ? AND sequence < ? AND state IS NOT NULL ORDER BY sequence DESC LIMIT 1',
+        type,
+        id,
+        sequence,
+      )
+      .toArray()[0]
+    const from = (base?.sequence as number | undefined) ?? 0
+    const archived = this.sql
+      .exec('SELECT MAX(max_sequence) AS max_seq FROM archive_segment_entities WHERE entity_type = ? AND entity_id = ?', type, id)
+      .toArray()[0]
+    if (((archived?.max_seq as number | null) ?? 0) > from) return null
+
+    const events = this.sql
+      .exec('SELECT * FROM events WHERE entity_type = ? AND entity_id = ? AND sequence > ? AND sequence <= ? ORDER BY sequence ASC', type, id, from, sequence)
+      .toArray()
+      .map((r) => this.rowToFullEvent(r))
+    const state = this.replayEvents(events, base ? (JSON.parse(base.state as string) as Record<string, unknown>) : null)
+    if (!state || events.length === 0) return null
+
+    const timestamp = events[events.length - 1].timestamp
+    this.storeSnapshot(type, id, sequence, timestamp, state)
+    return { sequence, timestamp, created: true }
+  }
+
+  /** Snapshot an entity by a full replay, reading archived events back from R2 */
+  private async replaySnapshot(type: string, id: string, sequence: number): Promise<{ sequence: number; timestamp: string; created: boolean } | null> {
+    const replayed = await this.replayState(type, id, { sequence })
+    if (!replayed) return null
+    this.storeSnapshot(type, id, sequence, replayed.timestamp, replayed.state)
+    return { sequence, timestamp: replayed.timestamp, created: true }
+  }
+
+  private storeSnapshot(type: string, id: string, sequence: number, timestamp: string, state: Record<string, unknown>): void {
+    this.sql.exec(
+      'INSERT OR IGNORE INTO snapshots (entity_type, entity_id, sequence, timestamp, state, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      type,
+      id,
+      sequence,
+      timestamp,
+      JSON.stringify(state),
+      new Date().toISOString(),
+    )
+  }
+
+  /** Events between automatic snapshots — SNAPSHOT_INTERVAL, where 0 disables them */
+  private snapshotInterval(): number {
+    const configured = this.env.SNAPSHOT_INTERVAL
+    if (configured === undefined) return DEFAULT_SNAPSHOT_INTERVAL
+    const interval = Number(configured)
+    return Number.isInteger(interval) && interval >= 0 ? interval : DEFAULT_SNAPSHOT_INTERVAL
+  }
+
+  /** The BUCKET binding, where snapshots are offloaded and events archived */
+  private r2Bucket(): R2Bucket | undefined {
+    return this.env.BUCKET
+  }
+
+  /** A snapshot's state, read from R2 when it was offloaded. Null if that fails (replay then starts over). */
+  private async loadSnapshotState(row: Record<string, unknown>): Promise<Record<string, unknown> | null> {
+    if (row.state) return JSON.parse(row.state as string) as Record<string, unknown>
+    try {
+      const object = await this.r2Bucket()?.get(row.r2_key as string)
+      return object ? await object.json<Record<string, unknown>>() : null
+    } catch (err) {
+      console.warn(`[ObjectsDO] R2 snapshot read failed for ${row.r2_key as string}:`, err)
+      return null
+    }
+  }
+
+  /**
+   * Move an entity's older snapshots to R2 when SNAPSHOT_OFFLOAD is 'true'.
+   * The newest stays in SQLite so the next one can be folded synchronously.
+   */
+  private async offloadSnapshots(type: string, id: string): Promise<void> {
+    const bucket = this.r2Bucket()
+    if (!bucket || this.env.SNAPSHOT_OFFLOAD !== 'true') return
+
+    const rows = this.sql
+      .exec(
+        'SELECT sequence, state FROM snapshots WHERE entity_type = ? AND entity_id = ? AND state IS NOT NULL AND sequence < (SELECT MAX(sequence) FROM snapshots WHERE entity_type = ? AND entity_id = ?)',
+        type,
+        id,
+        type,
+        id,
+      )
+      .toArray()
+
+    for (const row of rows) {
+      const key = `${this.r2Prefix()}_snapshots/${type}/${id}/${row.sequence as number}.json`
+      try {
+        await bucket.put(key, row.state as string, { httpMetadata: { contentType: 'application/json' } })
+      } catch (err) {
+        console.warn(`[ObjectsDO] R2 snapshot offload failed for ${key}:`, err)
+        return
+      }
+      // A purge or erasure may have dropped or replaced the snapshot meanwhile
+      const offloaded = this.sql
+        .exec(
+          'UPDATE snapshots SET state = NULL, r2_key = ? WHERE entity_type = ? AND entity_id = ? AND sequence = ? AND state = ? RETURNING sequence',
+          key,
+          type,
+          id,
+          row.sequence as number,
+          row.state as string,
+        )
+        .toArray()
+      if (offloaded.length === 0) await this.deleteSnapshotObjects([key])
+    }
+  }
+
+  /**
+   * Remove an entity's snapshots, which hold copies of its past states (purge,
+   * erasure). Returns the R2 keys of offloaded ones for deleteSnapshotObjects.
+   */
+  private dropSnapshots(type: string, id: string): string[] {
+    return this.sql
+      .exec('DELETE FROM snapshots WHERE entity_type = ? AND entity_id = ? RETURNING r2_key', type, id)
+      .toArray()
+      .flatMap((r) => (r.r2_key ? [r.r2_key as string] : []))
+  }
+
+  private async deleteSnapshotObjects(keys: string[]): Promise<void> {
+    const bucket = this.r2Bucket()
+    if (!bucket || keys.length === 0) return
+    try {
+      await bucket.delete(keys)
+    } catch (err) {
+      console.warn(`[ObjectsDO] R2 snapshot delete failed for ${keys.join(', ')}:`, err)
+    }
+  }
+
+  // =========================================================================
+  // Event log archival
+  // =========================================================================
+
+  private retentionPolicy(): RetentionPolicy | null {
+    const row = this.sql.exec('SELECT hot_days, dispatch_log_days FROM retention_policy WHERE id = 1').toArray()[0]
+    return row ? { hotDays: row.hot_days as number, dispatchLogDays: row.dispatch_log_days as number } : null
+  }
+
+  /** Start of the hot event log — every archived event is older (null before the first archive run) */
+  private archivedThrough(): string | null {
+    const row = this.sql.exec("SELECT MAX(cutoff) AS cutoff FROM archive_segments WHERE kind = 'events'").toArray()[0]
+    return (row?.cutoff as string | null) ?? null
+  }
+
+  /**
+   * Schedule the next archive run. The alarm is shared with the event
+   * emitter's retries, so it is only ever moved earlier.
+   */
+  private async scheduleArchive(at: number): Promise<void> {
+    this.sql.exec('UPDATE retention_policy SET next_run_at = ? WHERE id = 1', new Date(at).toISOString())
+    const current = await this.ctx.storage.getAlarm()
+    if (current === null || current > at) await this.ctx.storage.setAlarm(at)
+  }
+
+  /** Archive if a run is due, then schedule the next one */
+  private async runScheduledArchive(): Promise<void> {
+    const row = this.sql.exec('SELECT next_run_at FROM retention_policy WHERE id = 1').toArray()[0]
+    if (!row) return
+
+    const due = row.next_run_at ? Date.parse(row.next_run_at as string) : 0
+    if (due > Date.now()) {
+      // Woken for an emitter retry — make sure the archive run is still scheduled
+      await this.scheduleArchive(due)
+      return
+    }
+
+    const result = await this.archiveEvents()
+    await this.scheduleArchive(Date.now() + (result.data?.more ? ARCHIVE_BACKLOG_DELAY_MS : ARCHIVE_INTERVAL_MS))
+  }
+
+  /**
+   * The oldest events before the cutoff, except each entity's newest
+   * state-bearing one (the row collectionAsOf needs for later points in time).
+   */
+  private archivableEvents(cutoff: string): Record<string, unknown>[] {
+    return this.sql
+      .exec(
+        `SELECT * FROM events WHERE timestamp < ? AND id NOT IN (
+          SELECT id FROM (
+            SELECT id, ROW_NUMBER() OVER (PARTITION BY entity_type, entity_id ORDER BY sequence DESC) AS latest
+            FROM events
+            WHERE timestamp < ? AND (after_state IS NOT NULL OR verb IN ('delete', 'purge'))
+          )
+          WHERE latest = 1
+        )
+        ORDER BY timestamp ASC, sequence ASC LIMIT ?`,
+        cutoff,
+        cutoff,
+        MAX_SEGMENT_ROWS,
+      )
+      .toArray()
+  }
+
+  /**
+   * Upload rows as one segment, then index it and delete the rows. Entities
+   * are snapshotted at their last archived event first, so replaying their
+   * recent history does not need the segment. Returns false (and removes the
+   * upload) when it fails or the rows changed meanwhile, e.g. by an erasure.
+   */
+  private async archiveSegment(bucket: R2Bucket, kind: 'events' | 'dispatch_log', cutoff: string, rows: Record<string, unknown>[]): Promise<boolean> {
+    const first = rows[0].timestamp as string
+    const last = rows[rows.length - 1].timestamp as string
+    const key = segmentKey(this.r2Prefix(), kind, first, generateSqid(12))
+    try {
+      await bucket.put(key, await encodeSegment(rows), { httpMetadata: { contentType: 'application/x-ndjson', contentEncoding: 'gzip' } })
+    } catch (err) {
+      console.warn(`[ObjectsDO] R2 archive upload failed for ${key}:`, err)
+      return false
+    }
+
+    const ids = JSON.stringify(rows.map((r) => r.id))
+    const uploaded = new Map(rows.map((r) => [r.id, JSON.stringify(r)]))
+    const current = this.sql.exec(`SELECT * FROM ${kind} WHERE id IN (SELECT value FROM json_each(?))`, ids).toArray()
+    if (current.length !== rows.length || current.some((r) => uploaded.get(r.id) !== JSON.stringify(r))) {
+      await this.deleteSnapshotObjects([key])
+      return false
+    }
+
+    this.ctx.storage.transactionSync(() => {
+      const segment = this.sql
+        .exec(
+          'INSERT INTO archive_segments (kind, r2_key, min_timestamp, max_timestamp, count, cutoff, created_at) VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING id',
+          kind,
+          key,
+          first,
+          last,
+          rows.length,
+          cutoff,
+          new Date().toISOString(),
+        )
+        .one()
+      if (kind === 'events') {
+        const ranges = new Map<string, { type: string; id: string; min: number; max: number }>()
+        for (const row of rows) {
+          const sequence = row.sequence as number
+          const range = ranges.get(`${row.entity_type}_${row.entity_id}`)
+          if (range) {
+            range.min = Math.min(range.min, sequence)
+            range.max = Math.max(range.max, sequence)
+          } else {
+            ranges.set(`${row.entity_type}_${row.entity_id}`, { type: row.entity_type as string, id: row.entity_id as string, min: sequence, max: sequence })
+          }
+        }
+        for (const { type, id, min, max } of ranges.values()) {
+          this.buildSnapshot(type, id, max)
+          this.sql.exec(
+            'INSERT INTO archive_segment_entities (segment_id, entity_type, entity_id, min_sequence, max_sequence) VALUES (?, ?, ?, ?, ?)',
+            segment!.id as number,
+            type,
+            id,
+            min,
+            max,
+          )
+        }
+      }
+      this.sql.exec(`DELETE FROM ${kind} WHERE id IN (SELECT value FROM json_each(?))`, ids)
+    })
+    return true
+  }
+
+  /** Highest event sequence of an entity, archived events included */
+  private latestSequence(type: string, id: string): number {
+    const row = this.sql
+      .exec(
+        'SELECT MAX(seq) AS max_seq FROM (SELECT MAX(sequence) AS seq FROM events WHERE entity_type = ? AND entity_id = ? UNION ALL SELECT MAX(max_sequence) FROM archive_segment_entities WHERE entity_type = ? AND entity_id = ?)',
+        type,
+        id,
+        type,
+        id,
+      )
+      .toArray()[0]
+    return (row?.max_seq as number | null) ?? 0
+  }
+
+  /**
+   * An entity's events within a bound, in sequence order — read through to
+   * archived segments when the range reaches back past its hot events.
+   */
+  private async entityEvents(type: string, id: string, bound: { after?: number; sequence?: number; asOf?: string } = {}): Promise<FullEvent[]> {
+    const after = bound.after ?? 0
+    let where = 'entity_type = ? AND entity_id = ? AND sequence > ?'
+    const values: (string | number)[] = [type, id, after]
+    if (bound.sequence !== undefined) {
+      where += ' AND sequence <= ?'
+      values.push(bound.sequence)
+    }
+    if (bound.asOf) {
+      where += ' AND timestamp <= ?'
+      values.push(bound.asOf)
+    }
+    const hot = this.sql
+      .exec(`SELECT * FROM events WHERE ${where} ORDER BY sequence ASC`, ...values)
+      .toArray()
+      .map((r) => this.rowToFullEvent(r))
+
+    const segments = this.sql
+      .exec(
+        `SELECT s.r2_key FROM archive_segment_entities e JOIN archive_segments s ON s.id = e.segment_id
+        WHERE e.entity_type = ? AND e.entity_id = ? AND e.max_sequence > ? AND e.min_sequence <= ? AND s.min_timestamp <= ?
+        ORDER BY e.min_sequence ASC`,
+        type,
+        id,
+        after,
+        bound.sequence ?? Number.MAX_SAFE_INTEGER,
+        bound.asOf ?? '9999',
+      )
+      .toArray()
+    if (segments.length === 0) return hot
+
+    const archived: FullEvent[] = []
+    for (const segment of segments) {
+      for (const event of (await this.readSegment(segment.r2_key as string)).map((r) => this.rowToFullEvent(r))) {
+        if (event.entityType !== type || event.entityId !== id || event.sequence <= after) continue
+        if ((bound.sequence !== undefined && event.sequence > bound.sequence) || (bound.asOf && event.timestamp > bound.asOf)) continue
+        archived.push(event)
+      }
+    }
+    return [...new Map([...archived, ...hot].map((e) => [e.$id, e])).values()].sort((a, b) => a.sequence - b.sequence)
+  }
+
+  /** Rows of an archived segment (none, with a warning, when R2 cannot return it) */
+  private async readSegment(key: string): Promise<Record<string, unknown>[]> {
+    try {
+      const object = await this.r2Bucket()?.get(key)
+      if (object) return await decodeSegment(object.body)
+      console.warn(`[ObjectsDO] Archived segment ${key} is missing`)
+    } catch (err) {
+      console.warn(`[ObjectsDO] R2 archive read failed for ${key}:`, err)
+    }
+    return []
+  }
+
+  /** Archived events matching a filter, from every event segment (data subject requests) */
+  private async scanArchivedEvents(filter: (event: FullEvent) => boolean): Promise<FullEvent[]> {
+    const events: FullEvent[] = []
+    for (const segment of this.sql.exec("SELECT r2_key FROM archive_segments WHERE kind = 'events' ORDER BY min_timestamp ASC").toArray()) {
+      events.push(...(await this.readSegment(segment.r2_key as string)).map((r) => this.rowToFullEvent(r)).filter(filter))
+    }
+    return events
+  }
+
+  /**
+   * Rewrite archived events in place: `redact` returns the redacted event, or
+   * null to keep it. Only the segments holding `entity` are read when given,
+   * otherwise all of them. Returns how many events changed.
+   */
+  private async redactArchivedEvents(entity: { type: string; id: string } | null, redact: (event: FullEvent) => FullEvent | null): Promise<number> {
+    const bucket = this.r2Bucket()
+    const segments = entity
+      ? this.sql
+          .exec(
+            'SELECT s.r2_key FROM archive_segment_entities e JOIN archive_segments s ON s.id = e.segment_id WHERE e.entity_type = ? AND e.entity_id = ?',
+            entity.type,
+            entity.id,
+          )
+          .toArray()
+      : this.sql.exec("SELECT r2_key FROM archive_segments WHERE kind = 'events'").toArray()
+    if (!bucket || segments.length === 0) return 0
+
+    let redacted = 0
+    for (const segment of segments) {
+      const key = segment.r2_key as string
+      let changed = 0
+      const rows = (await this.readSegment(key)).map((row) => {
+        const event = redact(this.rowToFullEvent(row))
+        if (!event) return row
+        changed++
+        const json = (state: Record<string, unknown> | null) => (state ? JSON.stringify(state) : null)
+        return { ...row, data: json(event.data), before_state: json(event.before), after_state: json(event.after) }
+      })
+      if (changed === 0) continue
+      try {
+        await bucket.put(key, await encodeSegment(rows), { httpMetadata: { contentType: 'application/x-ndjson', contentEncoding: 'gzip' } })
+        redacted += changed
+      } catch (err) {
+        console.warn(`[ObjectsDO] R2 archive redaction failed for ${key}:`, err)
+      }
+    }
+    return redacted
+  }
+
+  /**
+   * Rebuild a noun's collection at a point in time from the event log, as a
+   * subquery shaped like the entities table so listEntities can filter, sort
+   * and page it unchanged. An entity's latest event up to asOf holds its full
+   * state: the after state, or for a delete the state it was deleted in
+   * (reported through deleted_at). Purged entities drop out.
+   */
+  private collectionAsOf(type: string, asOf: string): { table: string; values: string[] } {
+    const table = `(
+      SELECT entity_id AS id, entity_type AS type, state AS data,
+        CASE WHEN verb = 'delete' THEN timestamp END AS deleted_at,
+        json_extract(state, '$."$createdAt"') AS created_at,
+        json_extract(state, '$."$updatedAt"') AS updated_at
+      FROM (
+        SELECT entity_id, entity_type, verb, timestamp, COALESCE(after_state, before_state) AS state,
+          ROW_NUMBER() OVER (PARTITION BY entity_id ORDER BY sequence DESC) AS latest
+        FROM events
+        WHERE entity_type = ? AND timestamp <= ? AND (after_state IS NOT NULL OR verb IN ('delete', 'purge'))
+      )
+      WHERE latest = 1 AND verb != 'purge' AND state IS NOT NULL
+    ) AS as_of`
+    return { table, values: [type, asOf] }
+  }
+
   /**
    * Compute field-level changes between two states.
    */
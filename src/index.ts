@@ -19,15 +19,31 @@
  *   GET  /verbs/:verb                      - Get verb details + which nouns use it
  *   POST /verbs/conjugate                  - Conjugate any verb
  *
- *   POST /entities/:type                   - Create entity
- *   GET  /entities/:type                   - List/find entities (filter, sort, limit)
+ *   POST /entities/:type                   - Create entity (Idempotency-Key header replays)
+ *   PUT  /entities/:type?upsertOn=email    - Upsert by unique field(s)
+ *   GET  /entities/:type                   - List/find entities (filter, sort, limit, q, asOf)
+ *   GET  /entities/:type/aggregate         - Metrics grouped by fields or date buckets
  *   GET  /entities/:type/:id               - Get entity by ID
+ *   GET  /entities/:type/:id/blame         - Who last changed each field, and when (?asOf=)
  *   PUT  /entities/:type/:id               - Update entity (optimistic locking)
  *   DELETE /entities/:type/:id             - Soft delete entity
+ *   POST /entities/:type/:id/restore       - Undo a soft delete
+ *   POST /entities/:type/:id/revert        - Write an earlier version back (?toVersion=N)
+ *   POST /entities/:type/:id/snapshot      - Snapshot replayed state to speed up time travel
+ *   POST /entities/:type/:id/purge         - Hard delete + optional event redaction (admin)
  *   POST /entities/:type/:id/:verb         - Execute verb (the verb IS the endpoint)
  *   POST /entities/:type/hooks             - Register hook (code-as-data)
  *
+ *   POST /batch                            - Run many entity operations in one transaction
+ *   POST /transactions                     - Atomic multi-entity verbs + links (shared correlation id)
+ *
+ *   GET  /search?q=                        - Ranked full-text search with highlighted snippets
+ *
  *   GET  /events                           - Query immutable event log
+ *   GET  /subscriptions/ws                 - WebSocket subscription to live events (Type.verb patterns)
+ *
+ *   GET  /subjects/export                  - GDPR export bundle for an entity ID or field value
+ *   POST /subjects/erase                   - GDPR erasure by redaction (admin)
  *
  *   GET  /schema                           - Full schema (nouns, fields, verbs)
  *   GET  /schema/graph                     - Relationship graph visualization
@@ -37,6 +53,8 @@
  *   GET    /tenants/:id                    - Get tenant info
  *   GET    /tenants/:id/stats              - Tenant statistics
  *   DELETE /tenants/:id                    - Deactivate tenant (soft delete)
+ *   PUT    /tenants/:id/retention          - Keep N days of events hot, archive older ones to R2 (admin)
+ *   GET    /tenants/:id/archive            - Index of archived event segments
  *
  *   GET  /health                           - Health check
  */
@@ -45,7 +63,7 @@ import { WorkerEntrypoint } from 'cloudflare:workers'
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
 import { logger } from 'hono/logger'
-import type { AppEnv, ApiResponse, Env, ObjectsStub } from './types'
+import type { AppEnv, ApiResponse, BatchMode, BatchOperation, DataSubject, Env, ListEntitiesParams, ObjectsStub, TransactionStep } from './types'
 import { getTenantStub } from './lib/do-router'
 
 // Route modules
@@ -57,9 +75,16 @@ import eventRoutes from './routes/events'
 import subscriptionRoutes from './routes/subscriptions'
 import tenantRoutes from './routes/tenants'
 import integrationRoutes from './routes/integrations'
+import hookRoutes from './routes/hooks'
+import batchRoutes from './routes/batch'
+import transactionRoutes from './routes/transactions'
+import subjectRoutes from './routes/subjects'
+import searchRoutes from './routes/search'
 
 // Middleware
 import { tenantMiddleware, extractTenantFromPath, stripTenantPrefix } from './lib/tenant'
+import { actorMiddleware } from './lib/actor'
+import { isAdminToken } from './lib/admin'
 
 // Durable Object export
 export { ObjectsDO } from './do/objects-do'
@@ -86,8 +111,8 @@ app.use(
       return null
     },
     allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Tenant', 'If-Match'],
-    exposeHeaders: ['Content-Length', 'ETag', 'X-Request-Id'],
+    allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Tenant', 'X-Actor', 'If-Match', 'Idempotency-Key'],
+    exposeHeaders: ['Content-Length', 'ETag', 'X-Request-Id', 'Idempotent-Replayed'],
     credentials: true,
   }),
 )
@@ -112,6 +137,10 @@ app.use('*', async (c, next) => {
 // tenant is provided on routes that require it
 app.use('*', tenantMiddleware())
 
+// Actor resolution — identifies the caller from the X-Actor header so verb
+// executions can be stamped with who performed them
+app.use('*', actorMiddleware())
+
 // =============================================================================
 // Health Check (tenant-exempt)
 // =============================================================================
@@ -127,9 +156,14 @@ app.get('/', (c) => {
       nouns: '/nouns',
       verbs: '/verbs',
       entities: '/entities/:type',
+      batch: '/batch',
+      transactions: '/transactions',
+      search: '/search',
       events: '/events',
+      subjects: '/subjects',
       schema: '/schema',
       tenants: '/tenants',
+      hooks: '/hooks',
       integrations: '/integrations/hooks',
       dispatchLog: '/integrations/dispatch-log',
     },
@@ -159,18 +193,33 @@ app.route('/verbs', verbRoutes)
 // Entity CRUD via verb-based API
 app.route('/entities', entityRoutes)
 
+// Batch entity operations (one transaction per request)
+app.route('/batch', batchRoutes)
+
+// Multi-entity atomic transactions
+app.route('/transactions', transactionRoutes)
+
+// Full-text search across nouns
+app.route('/search', searchRoutes)
+
 // Schema discovery
 app.route('/schema', schemaRoutes)
 
 // Event log
 app.route('/events', eventRoutes)
 
+// Data subject export / erasure (GDPR)
+app.route('/subjects', subjectRoutes)
+
 // Subscriptions
 app.route('/subscriptions', subscriptionRoutes)
 
 // Integration hooks and dispatch log
 app.route('/integrations', integrationRoutes)
 
+// Verb hooks (list, inspect, update, delete, dry-run)
+app.route('/hooks', hookRoutes)
+
 // =============================================================================
 // Error Handling
 // =============================================================================
@@ -199,12 +248,14 @@ app.notFound((c) => {
 // resolves the tenant's Durable Object stub, and proxies the call.
 // =============================================================================
 
+const ADMIN_REQUIRED = { success: false, error: 'Admin authorization required', status: 403 } as const
+
 export class ObjectsService extends WorkerEntrypoint<Env> {
   private getStub(tenant: string): ObjectsStub {
     return getTenantStub(this.env, tenant)
   }
 
-  async defineNoun(tenant: string, body: { name: string; definition: Record<string, string | null> }) {
+  async defineNoun(tenant: string, body: { name: string; definition: Record<string, string | null>; options?: { stampVerbs?: boolean } }) {
     return this.getStub(tenant).defineNoun(body)
   }
 
@@ -216,31 +267,107 @@ export class ObjectsService extends WorkerEntrypoint<Env> {
     return this.getStub(tenant).getNounSchema(name)
   }
 
-  async createEntity(tenant: string, type: string, data: Record<string, unknown>) {
-    return this.getStub(tenant).createEntity(type, data)
+  async createEntity(tenant: string, type: string, data: Record<string, unknown>, idempotencyKey?: string, actor?: string) {
+    return this.getStub(tenant).createEntity(type, data, { idempotencyKey, actor })
+  }
+
+  async upsertEntity(tenant: string, type: string, data: Record<string, unknown>, upsertOn: string, actor?: string) {
+    return this.getStub(tenant).upsertEntity(type, data, { upsertOn, actor })
   }
 
-  async getEntity(tenant: string, type: string, id: string, expand?: string) {
-    return this.getStub(tenant).getEntity(type, id)
+  async getEntity(tenant: string, type: string, id: string, expand?: string, fields?: string) {
+    return this.getStub(tenant).getEntity(type, id, { expand, fields })
   }
 
-  async findEntities(tenant: string, type: string, options?: { filter?: string; limit?: number; offset?: number; sort?: string }) {
+  async findEntities(tenant: string, type: string, options?: ListEntitiesParams) {
     return this.getStub(tenant).listEntities(type, options ?? {})
   }
 
-  async updateEntity(tenant: string, type: string, id: string, data: Record<string, unknown>, ifMatch?: string) {
-    return this.getStub(tenant).updateEntity(type, id, data, ifMatch ? { ifMatch } : undefined)
+  async search(tenant: string, q: string, options?: { type?: string; limit?: number; offset?: number }) {
+    return this.getStub(tenant).search(q, options)
+  }
+
+  async aggregateEntities(tenant: string, type: string, options?: { metrics?: string; groupBy?: string; filter?: string; limit?: number }) {
+    return this.getStub(tenant).aggregateEntities(type, options ?? {})
+  }
+
+  async updateEntity(tenant: string, type: string, id: string, data: Record<string, unknown>, ifMatch?: string, actor?: string) {
+    return this.getStub(tenant).updateEntity(type, id, data, { ifMatch, actor })
+  }
+
+  async deleteEntity(tenant: string, type: string, id: string, actor?: string) {
+    return this.getStub(tenant).deleteEntity(type, id, { actor })
+  }
+
+  async restoreEntity(tenant: string, type: string, id: string, actor?: string) {
+    return this.getStub(tenant).restoreEntity(type, id, { actor })
+  }
+
+  async revertEntity(tenant: string, type: string, id: string, toVersion: number, options?: { ifMatch?: string; restore?: boolean; actor?: string }) {
+    return this.getStub(tenant).revertEntity(type, id, toVersion, options)
+  }
+
+  async snapshotEntity(tenant: string, type: string, id: string) {
+    return this.getStub(tenant).snapshotEntity(type, id)
+  }
+
+  /**
+   * Admin-only, like the HTTP route: `adminToken` must match ADMIN_TOKEN.
+   */
+  async purgeEntity(tenant: string, type: string, id: string, adminToken: string, redactEvents?: boolean) {
+    if (!isAdminToken(adminToken, this.env.ADMIN_TOKEN)) return ADMIN_REQUIRED
+    return this.getStub(tenant).purgeEntity(type, id, { redactEvents })
+  }
+
+  async executeVerb(tenant: string, type: string, id: string, verb: string, data?: Record<string, unknown>, actor?: string, idempotencyKey?: string) {
+    return this.getStub(tenant).executeVerb(type, id, verb, data, { actor, idempotencyKey })
+  }
+
+  async batch(tenant: string, operations: BatchOperation[], options?: { mode?: BatchMode; actor?: string }) {
+    return this.getStub(tenant).batch(operations, options)
+  }
+
+  async transaction(tenant: string, steps: TransactionStep[], options?: { actor?: string; correlationId?: string }) {
+    return this.getStub(tenant).transaction(steps, options)
   }
 
-  async deleteEntity(tenant: string, type: string, id: string) {
-    return this.getStub(tenant).deleteEntity(type, id)
+  async registerHook(tenant: string, type: string, body: { verb: string; phase: 'before' | 'after'; code: string }) {
+    return this.getStub(tenant).registerHook(type, body)
   }
 
-  async executeVerb(tenant: string, type: string, id: string, verb: string, data?: Record<string, unknown>) {
-    return this.getStub(tenant).executeVerb(type, id, verb, data)
+  async listHooks(tenant: string, type?: string) {
+    return this.getStub(tenant).listHooks(type)
   }
 
-  async getEvents(tenant: string, options?: { since?: string; type?: string; entityId?: string; verb?: string; limit?: number }) {
+  async getHook(tenant: string, hookId: number) {
+    return this.getStub(tenant).getHook(hookId)
+  }
+
+  async updateHook(tenant: string, hookId: number, body: { verb?: string; phase?: 'before' | 'after'; code?: string }) {
+    return this.getStub(tenant).updateHook(hookId, body)
+  }
+
+  async deleteHook(tenant: string, hookId: number) {
+    return this.getStub(tenant).deleteHook(hookId)
+  }
+
+  async testHook(tenant: string, hookId: number, body: { entity?: Record<string, unknown>; payload?: Record<string, unknown> | null }) {
+    return this.getStub(tenant).testHook(hookId, body)
+  }
+
+  async exportSubject(tenant: string, subject: DataSubject) {
+    return this.getStub(tenant).exportSubject(subject)
+  }
+
+  /**
+   * Admin-only, like the HTTP route: `adminToken` must match ADMIN_TOKEN.
+   */
+  async eraseSubject(tenant: string, subject: DataSubject, adminToken: string) {
+    if (!isAdminToken(adminToken, this.env.ADMIN_TOKEN)) return ADMIN_REQUIRED
+    return this.getStub(tenant).eraseSubject(subject)
+  }
+
+  async getEvents(tenant: string, options?: { since?: string; type?: string; entityId?: string; verb?: string; correlationId?: string; limit?: number }) {
     return this.getStub(tenant).queryEvents(options ?? {})
   }
 
@@ -248,6 +375,10 @@ export class ObjectsService extends WorkerEntrypoint<Env> {
     return this.getStub(tenant).entityHistory(type, id)
   }
 
+  async getEntityBlame(tenant: string, type: string, id: string, asOf?: string) {
+    return this.getStub(tenant).entityBlame(type, id, { asOf })
+  }
+
   async createRelationship(
     tenant: string,
     sourceType: string,
@@ -0,0 +1,40 @@
+/**
+ * Actor resolution middleware
+ *
+ * Resolves who is making the request so writes can be attributed:
+ *
+ * 1. X-Actor header (set by the calling service or gateway)
+ * 2. Authorization: Bearer token (future — token subject claim)
+ * 3. Falls back to 'anonymous'
+ */
+
+import { createMiddleware } from 'hono/factory'
+import type { AppEnv } from '../types'
+
+/** Actor recorded when the request does not identify one */
+export const ANONYMOUS_ACTOR = 'anonymous'
+
+/** Upper bound on actor length — the value is stored on entities and events */
+const MAX_ACTOR_LENGTH = 256
+
+/**
+ * Resolve the actor from a Request.
+ *
+ * @example
+ *   X-Actor: user_abc → 'user_abc'
+ *   (no header)       → 'anonymous'
+ */
+export function resolveActor(request: Request): string {
+  const actor = request.headers.get('X-Actor')?.trim()
+  if (!actor || actor.length > MAX_ACTOR_LENGTH) return ANONYMOUS_ACTOR
+  return actor
+}
+
+/**
+ * Actor resolution middleware for Hono. Sets the `actor` context variable.
+ */
+export const actorMiddleware = () =>
+  createMiddleware<AppEnv>(async (c, next) => {
+    c.set('actor', resolveActor(c.req.raw))
+    return next()
+  })
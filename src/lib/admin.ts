@@ -0,0 +1,67 @@
+/**
+ * Admin authorization middleware
+ *
+ * Guards destructive operations (hard purge) behind the ADMIN_TOKEN secret:
+ *
+ *   Authorization: Bearer <ADMIN_TOKEN>
+ *
+ * When ADMIN_TOKEN is not configured, admin routes are disabled (403). The
+ * RPC entrypoint checks the same token, passed by the caller as an argument.
+ */
+
+import { createMiddleware } from 'hono/factory'
+import type { AppEnv } from '../types'
+
+/**
+ * Compare two strings without short-circuiting on the first difference.
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder()
+  const left = encoder.encode(a)
+  const right = encoder.encode(b)
+  let diff = left.length ^ right.length
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i]! ^ (right[i % right.length] ?? 0)
+  }
+  return diff === 0
+}
+
+/**
+ * Check whether a credential matches the admin token. Used directly by the RPC
+ * entrypoint, whose callers pass the token as an argument.
+ *
+ * @example
+ *   ('s3cret', 's3cret')  → true
+ *   (undefined, 's3cret') → false
+ *   ('s3cret', undefined) → false (token not configured)
+ */
+export function isAdminToken(credential: string | undefined, token: string | undefined): boolean {
+  if (!token || !credential) return false
+  return timingSafeEqual(credential, token)
+}
+
+/**
+ * Check whether a Request carries the admin token.
+ *
+ * @example
+ *   Authorization: Bearer s3cret (token 's3cret') → true
+ *   (no header)                                  → false
+ *   (token not configured)                       → false
+ */
+export function isAdminRequest(request: Request, token: string | undefined): boolean {
+  const header = request.headers.get('Authorization') ?? ''
+  const match = header.match(/^Bearer\s+(.+)$/i)
+  if (!match) return false
+  return isAdminToken(match[1]!.trim(), token)
+}
+
+/**
+ * Reject requests that do not carry the admin token.
+ */
+export const requireAdmin = () =>
+  createMiddleware<AppEnv>(async (c, next) => {
+    if (!isAdminRequest(c.req.raw, c.env.ADMIN_TOKEN)) {
+      return c.json({ success: false, error: 'Admin authorization required' }, 403)
+    }
+    return next()
+  })
@@ -0,0 +1,153 @@
+/**
+ * Aggregation compiler — turns metric and group-by specs into SQL over entity JSON
+ *
+ * Metrics (comma-separated):
+ *
+ *   count                  → COUNT(*)
+ *   count:email            → COUNT of non-null values
+ *   sum:value, avg:value, min:value, max:value
+ *   count_distinct:email   → COUNT(DISTINCT ...)
+ *
+ * Group keys (comma-separated) are fields, or date fields bucketed by
+ * hour | day | week | month | year:
+ *
+ *   stage, owner.team, $createdAt:week, closedAt:month
+ *
+ * Weeks are keyed by the date of their Monday. Result rows carry one property
+ * per group key and metric, named exactly as requested:
+ *
+ *   { stage: 'Lead', count: 12, 'sum:value': 48000 }
+ */
+
+import { jsonField } from './sql'
+
+export type AggregateOp = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'count_distinct'
+export type DateBucket = 'hour' | 'day' | 'week' | 'month' | 'year'
+
+export interface Metric {
+  /** Result property name (the spec as written, e.g. 'sum:value') */
+  key: string
+  op: AggregateOp
+  field?: string
+}
+
+export interface GroupKey {
+  /** Result property name (the spec as written, e.g. '$createdAt:week') */
+  key: string
+  field: string
+  bucket?: DateBucket
+}
+
+export interface CompiledAggregation {
+  /** SELECT list, aliased g0..gN for groups and m0..mN for metrics */
+  select: string
+  /** GROUP BY / ORDER BY list, or null without groups */
+  groupBy: string | null
+  /** Map an aliased result row back to named properties */
+  toResult(row: Record<string, unknown>): Record<string, unknown>
+}
+
+/** Upper bounds keep a single request from building an unbounded query */
+export const MAX_METRICS = 10
+export const MAX_GROUP_KEYS = 5
+
+const OPS = new Set<AggregateOp>(['count', 'sum', 'avg', 'min', 'max', 'count_distinct'])
+const BUCKETS = new Set<DateBucket>(['hour', 'day', 'week', 'month', 'year'])
+
+/** Timestamps kept in columns rather than only in the JSON data */
+const META_COLUMNS: Record<string, string> = { $createdAt: 'created_at', $updatedAt: 'updated_at' }
+
+function fieldExpr(field: string): string {
+  if (META_COLUMNS[field]) return META_COLUMNS[field]!
+  if (field.startsWith('$')) throw new Error(`Cannot aggregate on '${field}'`)
+  return jsonField(field)
+}
+
+function bucketExpr(expr: string, bucket: DateBucket): string {
+  switch (bucket) {
+    case 'hour':
+      return `strftime('%Y-%m-%dT%H:00', ${expr})`
+    case 'day':
+      return `date(${expr})`
+    case 'week':
+      // Monday on or before the date
+      return `date(${expr}, '-6 days', 'weekday 1')`
+    case 'month':
+      return `strftime('%Y-%m', ${expr})`
+    case 'year':
+      return `strftime('%Y', ${expr})`
+  }
+}
+
+function splitSpec(param: string): string[] {
+  return param
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Parse a metrics param. Defaults to a plain count.
+ *
+ * @throws Error on unknown operations or missing fields
+ */
+export function parseMetrics(param: string | undefined): Metric[] {
+  const specs = splitSpec(param ?? 'count')
+  if (specs.length === 0) return [{ key: 'count', op: 'count' }]
+  if (specs.length > MAX_METRICS) throw new Error(`At most ${MAX_METRICS} metrics are allowed`)
+
+  return specs.map((key) => {
+    const sep = key.indexOf(':')
+    const op = (sep === -1 ? key : key.slice(0, sep)) as AggregateOp
+    const field = sep === -1 ? undefined : key.slice(sep + 1)
+    if (!OPS.has(op)) throw new Error(`Unknown metric '${op}' (use count, sum, avg, min, max or count_distinct)`)
+    if (op !== 'count' && !field) throw new Error(`Metric '${op}' needs a field (e.g. ${op}:value)`)
+    if (field) fieldExpr(field)
+    return { key, op, ...(field ? { field } : {}) }
+  })
+}
+
+/**
+ * Parse a groupBy param. Empty means a single overall result.
+ *
+ * @throws Error on unknown buckets or invalid fields
+ */
+export function parseGroupBy(param: string | undefined): GroupKey[] {
+  const specs = splitSpec(param ?? '')
+  if (specs.length > MAX_GROUP_KEYS) throw new Error(`At most ${MAX_GROUP_KEYS} group keys are allowed`)
+
+  return specs.map((key) => {
+    const sep = key.indexOf(':')
+    const field = sep === -1 ? key : key.slice(0, sep)
+    const bucket = sep === -1 ? undefined : (key.slice(sep + 1) as DateBucket)
+    if (bucket !== undefined && !BUCKETS.has(bucket)) throw new Error(`Unknown date bucket '${bucket}' (use hour, day, week, month or year)`)
+    fieldExpr(field)
+    return { key, field, ...(bucket ? { bucket } : {}) }
+  })
+}
+
+/**
+ * Compile parsed metrics and group keys into SQL fragments.
+ */
+export function compileAggregation(metrics: Metric[], groups: GroupKey[]): CompiledAggregation {
+  const groupExprs = groups.map((g) => (g.bucket ? bucketExpr(fieldExpr(g.field), g.bucket) : fieldExpr(g.field)))
+  const metricExprs = metrics.map((m) => {
+    if (m.op === 'count') return m.field ? `COUNT(${fieldExpr(m.field)})` : 'COUNT(*)'
+    if (m.op === 'count_distinct') return `COUNT(DISTINCT ${fieldExpr(m.field!)})`
+    return `${m.op.toUpperCase()}(${fieldExpr(m.field!)})`
+  })
+
+  const select = [...groupExprs.map((e, i) => `${e} AS g${i}`), ...metricExprs.map((e, i) => `${e} AS m${i}`)].join(', ')
+  const groupBy = groups.length > 0 ? groups.map((_, i) => `g${i}`).join(', ') : null
+
+  return {
+    select,
+    groupBy,
+    toResult(row) {
+      const result: Record<string, unknown> = {}
+      groups.forEach((g, i) => (result[g.key] = row[`g${i}`] ?? null))
+      metrics.forEach((m, i) => (result[m.key] = row[`m${i}`] ?? null))
+      return result
+    },
+  }
+}
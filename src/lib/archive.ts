@@ -0,0 +1,70 @@
+/**
+ * Event log archival — retention policies and R2 segments
+ *
+ * A tenant's retention policy keeps the newest `hotDays` of events (and
+ * `dispatchLogDays` of integration dispatch log) in SQLite. The ObjectsDO
+ * alarm moves older rows to R2 as gzip-compressed NDJSON segments under the
+ * tenant's prefix, partitioned by the day of their oldest row:
+ *
+ *   acme/_archive/events/2026-01-05/k3JqP0aZ.ndjson.gz
+ *
+ * Each line is one row exactly as stored in SQLite, so archived events are
+ * read back through the same row mapping as hot ones.
+ */
+
+import type { RetentionPolicy } from '../types'
+
+/** Longest retention window, in days */
+export const MAX_RETENTION_DAYS = 3650
+
+/** Most rows written to one segment */
+export const MAX_SEGMENT_ROWS = 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Validate a retention policy from a request body. dispatchLogDays defaults
+ * to hotDays. Throws when a value is not a whole number of days in range.
+ */
+export function parseRetentionPolicy(input: unknown): RetentionPolicy {
+  const { hotDays, dispatchLogDays = hotDays } = (input ?? {}) as Record<string, unknown>
+  for (const [name, days] of [
+    ['hotDays', hotDays],
+    ['dispatchLogDays', dispatchLogDays],
+  ] as const) {
+    if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_RETENTION_DAYS) {
+      throw new Error(`${name} must be a whole number of days between 1 and ${MAX_RETENTION_DAYS}`)
+    }
+  }
+  return { hotDays: hotDays as number, dispatchLogDays: dispatchLogDays as number }
+}
+
+/** ISO timestamp before which rows fall out of a window of `days` */
+export function retentionCutoff(days: number, now: number = Date.now()): string {
+  return new Date(now - days * DAY_MS).toISOString()
+}
+
+/** R2 key of a segment: `{prefix}_archive/{kind}/{day of first row}/{id}.ndjson.gz` */
+export function segmentKey(prefix: string, kind: string, firstTimestamp: string, id: string): string {
+  return `${prefix}_archive/${kind}/${firstTimestamp.slice(0, 10)}/${id}.ndjson.gz`
+}
+
+/**
+ * Serialize rows as gzip-compressed NDJSON.
+ */
+export async function encodeSegment(rows: Record<string, unknown>[]): Promise<Uint8Array> {
+  const ndjson = rows.map((row) => `${JSON.stringify(row)}\n`).join('')
+  const compressed = new Blob([ndjson]).stream().pipeThrough(new CompressionStream('gzip'))
+  return new Uint8Array(await new Response(compressed).arrayBuffer())
+}
+
+/**
+ * Read the rows of a gzip-compressed NDJSON segment.
+ */
+export async function decodeSegment(body: ReadableStream<Uint8Array>): Promise<Record<string, unknown>[]> {
+  const text = await new Response(body.pipeThrough(new DecompressionStream('gzip'))).text()
+  return text
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => JSON.parse(line) as Record<string, unknown>)
+}
@@ -0,0 +1,84 @@
+/**
+ * Keyset pagination cursors for entity lists
+ *
+ * A cursor is an opaque base64url token encoding the sort key, direction,
+ * the last row's sort value and its id. The next page continues strictly
+ * after that (value, id) pair, so rows inserted while paging never shift or
+ * duplicate results the way LIMIT/OFFSET does.
+ */
+
+/** Decoded cursor contents */
+export interface Cursor {
+  /** Sort key the cursor was issued for (e.g. 'created_at' or a field name) */
+  s: string
+  /** Sort direction */
+  d: 'ASC' | 'DESC'
+  /** Sort value of the last row on the previous page */
+  v: string | number | null
+  /** ID of the last row on the previous page (tiebreaker) */
+  id: string
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(token: string): string {
+  const binary = atob(token.replace(/-/g, '+').replace(/_/g, '/'))
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)))
+}
+
+/**
+ * Encode a cursor as an opaque URL-safe token.
+ */
+export function encodeCursor(cursor: Cursor): string {
+  return toBase64Url(JSON.stringify(cursor))
+}
+
+/**
+ * Decode a cursor token.
+ *
+ * @throws Error if the token is malformed
+ */
+export function decodeCursor(token: string): Cursor {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(fromBase64Url(token))
+  } catch {
+    throw new Error('Invalid cursor')
+  }
+  const c = parsed as Partial<Cursor> | null
+  if (
+    !c ||
+    typeof c.s !== 'string' ||
+    (c.d !== 'ASC' && c.d !== 'DESC') ||
+    typeof c.id !== 'string' ||
+    !(c.v === null || typeof c.v === 'string' || typeof c.v === 'number')
+  ) {
+    throw new Error('Invalid cursor')
+  }
+  return { s: c.s, d: c.d, v: c.v, id: c.id }
+}
+
+/**
+ * Build the WHERE condition selecting rows after the cursor for
+ * `ORDER BY <expr> <dir>, id <dir>`.
+ *
+ * SQLite sorts NULLs first ascending and last descending, so a NULL sort value
+ * is handled explicitly rather than compared.
+ */
+export function keysetCondition(expr: string, cursor: Cursor): { sql: string; values: (string | number)[] } {
+  const after = cursor.d === 'ASC' ? '>' : '<'
+
+  if (cursor.v === null) {
+    return cursor.d === 'ASC'
+      ? { sql: `((${expr} IS NULL AND id > ?) OR ${expr} IS NOT NULL)`, values: [cursor.id] }
+      : { sql: `(${expr} IS NULL AND id < ?)`, values: [cursor.id] }
+  }
+
+  const sql = `(${expr} ${after} ? OR (${expr} = ? AND id ${after} ?)${cursor.d === 'DESC' ? ` OR ${expr} IS NULL` : ''})`
+  return { sql, values: [cursor.v, cursor.v, cursor.id] }
+}
@@ -0,0 +1,111 @@
+/**
+ * Default values — fills missing fields from their declared defaults
+ *
+ * Defaults are parsed as raw strings by parseNounDefinition():
+ *   status: 'Lead | Active = "Lead"'        → 'Lead'
+ *   priority: 'enum(low, high) = "low"'     → 'low'
+ *   score: 'number = 0'                     → 0
+ *   startedAt: 'datetime = now'             → creation timestamp
+ *
+ * This module coerces them to the field type so the stored entity (and the
+ * create event's after state) carries properly typed values.
+ */
+
+import type { ParsedProperty } from '../types'
+
+/**
+ * Coerce a single (non-array) raw default to a field type.
+ * Returns undefined when the raw string cannot represent a value of that type.
+ */
+function coerceScalar(prop: ParsedProperty, raw: string, now: string): unknown {
+  if (prop.kind === 'enum') {
+    return prop.enumValues?.includes(raw) ? raw : undefined
+  }
+
+  switch (prop.type) {
+    case 'number':
+    case 'float':
+    case 'decimal': {
+      const n = Number(raw)
+      return raw !== '' && Number.isFinite(n) ? n : undefined
+    }
+    case 'int': {
+      const n = Number(raw)
+      return raw !== '' && Number.isInteger(n) ? n : undefined
+    }
+    case 'boolean':
+      if (raw === 'true') return true
+      if (raw === 'false') return false
+      return undefined
+    case 'date':
+      return raw === 'now' ? now.slice(0, 10) : raw
+    case 'datetime':
+    case 'timestamp':
+      return raw === 'now' ? now : raw
+    case 'json':
+      try {
+        return JSON.parse(raw)
+      } catch {
+        return undefined
+      }
+    default:
+      return raw
+  }
+}
+
+/**
+ * Coerce a property's declared default to its field type.
+ *
+ * Array fields accept a JSON array literal (`'int[] = [1, 2]'`), with each
+ * element coerced like a scalar. A bare scalar becomes a one-element array.
+ *
+ * @param now - ISO timestamp substituted for the `now` keyword
+ * @returns The typed default, or undefined if there is none or it is invalid
+ */
+export function coerceDefault(prop: ParsedProperty, now: string): unknown {
+  const raw = prop.defaultValue
+  if (raw === undefined) return undefined
+
+  if (prop.modifiers?.array) {
+    let items: unknown
+    try {
+      items = JSON.parse(raw)
+    } catch {
+      items = [raw]
+    }
+    if (!Array.isArray(items)) items = [items]
+    const coerced = (items as unknown[]).map((item) => coerceScalar(prop, typeof item === 'string' ? item : JSON.stringify(item), now))
+    return coerced.some((v) => v === undefined) ? undefined : coerced
+  }
+
+  return coerceScalar(prop, raw, now)
+}
+
+/**
+ * Return a copy of `data` with declared defaults applied to missing fields.
+ *
+ * Only absent (or undefined) fields are filled — an explicit null from the
+ * caller is preserved so fields can be deliberately left empty.
+ */
+export function applyDefaults(fields: Record<string, ParsedProperty>, data: Record<string, unknown>, now: string): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...data }
+
+  for (const [name, prop] of Object.entries(fields)) {
+    if (result[name] !== undefined) continue
+    const value = coerceDefault(prop, now)
+    if (value !== undefined) result[name] = value
+  }
+
+  return result
+}
+
+/**
+ * List fields whose declared default cannot be coerced to the field type.
+ * Used when a noun is defined so bad defaults are rejected up front.
+ */
+export function invalidDefaults(fields: Record<string, ParsedProperty>): string[] {
+  const now = new Date().toISOString()
+  return Object.values(fields)
+    .filter((prop) => prop.defaultValue !== undefined && coerceDefault(prop, now) === undefined)
+    .map((prop) => prop.name)
+}
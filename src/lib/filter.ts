@@ -0,0 +1,244 @@
+/**
+ * Filter compiler — turns Mongo-style filters into parameterized SQL
+ *
+ * Fields are addressed with json_extract() (dotted paths reach into nested
+ * JSON); values are always bound as parameters.
+ *
+ *   { stage: 'Lead' }                              → equality
+ *   { value: { $gte: 1000, $lt: 5000 } }           → comparison operators
+ *   { stage: { $in: ['Lead', 'Qualified'] } }      → membership
+ *   { 'address.city': { $exists: true } }          → nested paths
+ *   { $or: [{ stage: 'Lead' }, { score: { $gt: 50 } }] }
+ *
+ * Anything the compiler does not understand throws, so callers can reject the
+ * request instead of silently ignoring part of the filter.
+ */
+
+import { jsonField, jsonPath, sqlLiteral, sqlValue } from './sql'
+
+type Scalar = string | number | boolean
+type SqlBinding = string | number | null
+
+export interface CompiledFilter {
+  /** SQL condition, or null when the filter has no conditions */
+  sql: string | null
+  values: SqlBinding[]
+}
+
+/** Entity meta-fields that may be filtered on alongside the logical operators */
+const META_FIELDS = new Set(['$id', '$type', '$context', '$version', '$createdAt', '$updatedAt'])
+const COMPARISON_OPERATORS: Record<string, string> = { $gt: '>', $gte: '>=', $lt: '<', $lte: '<=' }
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isScalar(value: unknown): value is Scalar {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+}
+
+function bind(value: Scalar): SqlBinding {
+  return sqlValue(value) as SqlBinding
+}
+
+/**
+ * Translate a regular expression to a GLOB (case-sensitive) or LIKE
+ * (case-insensitive) pattern. Only anchors, `.`, `.*` and escaped literals are
+ * supported — SQLite has no REGEXP function in Durable Objects.
+ */
+export function regexToPattern(regex: string, caseInsensitive: boolean): string {
+  let body = regex
+  const anchoredStart = body.startsWith('^')
+  if (anchoredStart) body = body.slice(1)
+  const anchoredEnd = body.endsWith('$') && !body.endsWith('\\$')
+  if (anchoredEnd) body = body.slice(0, -1)
+
+  const many = caseInsensitive ? '%' : '*'
+  const one = caseInsensitive ? '_' : '?'
+  const literal = (ch: string) => {
+    if (caseInsensitive) return ch === '%' || ch === '_' || ch === '\\' ? `\\${ch}` : ch
+    return ch === '*' || ch === '?' || ch === '[' ? `[${ch}]` : ch
+  }
+
+  let pattern = ''
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i]!
+    if (ch === '\\') {
+      const next = body[i + 1]
+      if (next === undefined || /[a-zA-Z0-9]/.test(next)) {
+        throw new Error(`Unsupported $regex pattern '${regex}': only anchors, '.', '.*' and escaped literals are supported`)
+      }
+      pattern += literal(next)
+      i++
+    } else if (ch === '.' && body[i + 1] === '*') {
+      pattern += many
+      i++
+    } else if (ch === '.') {
+      pattern += one
+    } else if ('[](){}|+*?^$'.includes(ch)) {
+      throw new Error(`Unsupported $regex pattern '${regex}': only anchors, '.', '.*' and escaped literals are supported`)
+    } else {
+      pattern += literal(ch)
+    }
+  }
+
+  return (anchoredStart ? '' : many) + pattern + (anchoredEnd ? '' : many)
+}
+
+/**
+ * Compile the operators applied to a single field.
+ */
+function compileField(field: string, condition: unknown, values: SqlBinding[]): string {
+  const expr = jsonField(field)
+  const path = sqlLiteral(jsonPath(field))
+
+  if (condition === null) return `${expr} IS NULL`
+  if (isScalar(condition)) {
+    values.push(bind(condition))
+    return `${expr} = ?`
+  }
+  if (!isPlainObject(condition)) {
+    throw new Error(`Filter value for '${field}' must be a scalar, null or an operator object (use $in for lists)`)
+  }
+
+  const keys = Object.keys(condition)
+  if (keys.length === 0 || keys.some((k) => !k.startsWith('$'))) {
+    throw new Error(`Filter value for '${field}' must be a scalar, null or an operator object (use dotted paths for nested fields)`)
+  }
+
+  const parts: string[] = []
+  for (const [op, operand] of Object.entries(condition)) {
+    switch (op) {
+      case '$eq':
+        if (operand === null) {
+          parts.push(`${expr} IS NULL`)
+        } else if (isScalar(operand)) {
+          parts.push(`${expr} = ?`)
+          values.push(bind(operand))
+        } else {
+          throw new Error(`$eq on '${field}' needs a scalar or null`)
+        }
+        break
+      case '$ne':
+        if (operand === null) {
+          parts.push(`${expr} IS NOT NULL`)
+        } else if (isScalar(operand)) {
+          // IS NOT is null-safe, so missing fields match like in MongoDB
+          parts.push(`${expr} IS NOT ?`)
+          values.push(bind(operand))
+        } else {
+          throw new Error(`$ne on '${field}' needs a scalar or null`)
+        }
+        break
+      case '$gt':
+      case '$gte':
+      case '$lt':
+      case '$lte':
+        if (typeof operand !== 'string' && typeof operand !== 'number') {
+          throw new Error(`${op} on '${field}' needs a number or string`)
+        }
+        parts.push(`${expr} ${COMPARISON_OPERATORS[op]} ?`)
+        values.push(operand)
+        break
+      case '$in':
+      case '$nin': {
+        if (!Array.isArray(operand) || !operand.every((v) => v === null || isScalar(v))) {
+          throw new Error(`${op} on '${field}' needs an array of scalars`)
+        }
+        const scalars = operand.filter((v): v is Scalar => v !== null)
+        const hasNull = scalars.length !== operand.length
+        const list = scalars.length > 0 ? `${expr} IN (${scalars.map(() => '?').join(', ')})` : null
+        values.push(...scalars.map(bind))
+        const matches = [list, hasNull ? `${expr} IS NULL` : null].filter(Boolean).join(' OR ') || '0'
+        parts.push(op === '$in' ? `(${matches})` : `NOT COALESCE(${matches}, 0)`)
+        break
+      }
+      case '$exists':
+        if (typeof operand !== 'boolean') {
+          throw new Error(`$exists on '${field}' needs a boolean`)
+        }
+        // json_type() is NULL only for missing paths; an explicit JSON null exists
+        parts.push(`json_type(data, ${path}) IS ${operand ? 'NOT NULL' : 'NULL'}`)
+        break
+      case '$regex': {
+        if (typeof operand !== 'string') {
+          throw new Error(`$regex on '${field}' needs a string`)
+        }
+        const options = condition.$options ?? ''
+        if (typeof options !== 'string' || !/^i?$/.test(options)) {
+          throw new Error(`Unsupported $options '${String(options)}' on '${field}': only 'i' is supported`)
+        }
+        const caseInsensitive = options === 'i'
+        parts.push(caseInsensitive ? `${expr} LIKE ? ESCAPE '\\'` : `${expr} GLOB ?`)
+        values.push(regexToPattern(operand, caseInsensitive))
+        break
+      }
+      case '$options':
+        if (condition.$regex === undefined) {
+          throw new Error(`$options on '${field}' requires $regex`)
+        }
+        break
+      case '$contains':
+        if (!isScalar(operand)) {
+          throw new Error(`$contains on '${field}' needs a scalar`)
+        }
+        // Arrays match an element; strings match a substring
+        parts.push(
+          `(CASE json_type(data, ${path}) WHEN 'array' THEN EXISTS (SELECT 1 FROM json_each(data, ${path}) WHERE value = ?) ` +
+            `WHEN 'text' THEN instr(${expr}, ?) > 0 ELSE 0 END)`,
+        )
+        values.push(bind(operand), typeof operand === 'string' ? operand : String(operand))
+        break
+      case '$not':
+        if (!isPlainObject(operand)) {
+          throw new Error(`$not on '${field}' needs an operator object`)
+        }
+        parts.push(`NOT COALESCE(${compileField(field, operand, values)}, 0)`)
+        break
+      default:
+        throw new Error(`Unsupported filter operator '${op}' on '${field}'`)
+    }
+  }
+
+  return parts.length === 1 ? parts[0]! : `(${parts.join(' AND ')})`
+}
+
+/**
+ * Compile a filter document into a condition joined with AND.
+ */
+function compileDocument(filter: unknown, values: SqlBinding[]): string | null {
+  if (!isPlainObject(filter)) {
+    throw new Error('Filter must be a JSON object')
+  }
+
+  const parts: string[] = []
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(condition) || condition.length === 0) {
+        throw new Error(`${key} needs a non-empty array of filters`)
+      }
+      const branches = condition.map((branch) => compileDocument(branch, values) ?? '1')
+      parts.push(`(${branches.join(key === '$and' ? ' AND ' : ' OR ')})`)
+    } else if (key === '$not') {
+      parts.push(`NOT COALESCE(${compileDocument(condition, values) ?? '1'}, 0)`)
+    } else if (key.startsWith('$') && !META_FIELDS.has(key)) {
+      throw new Error(`Unsupported filter operator '${key}'`)
+    } else {
+      parts.push(compileField(key, condition, values))
+    }
+  }
+
+  if (parts.length === 0) return null
+  return parts.join(' AND ')
+}
+
+/**
+ * Compile a parsed filter into a parameterized SQL condition.
+ *
+ * @throws Error if the filter uses unsupported operators or malformed values
+ */
+export function compileFilter(filter: unknown): CompiledFilter {
+  const values: SqlBinding[] = []
+  const sql = compileDocument(filter, values)
+  return { sql, values }
+}
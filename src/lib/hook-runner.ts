@@ -0,0 +1,179 @@
+/**
+ * Hook runner — executes verb hook code in an isolated Worker
+ *
+ * Hook code is stored as data (the `hooks` table) and runs in a dynamically
+ * loaded Worker via the Worker Loader binding:
+ *
+ * - No network: globalOutbound is null and the Worker gets no bindings
+ * - Strict budget: a CPU limit on the isolate plus a wall-clock timeout
+ *
+ * Code is the body of an async function receiving `ctx`:
+ *
+ *   before: `if (ctx.payload.value < 0) return { veto: 'Value must be positive' }`
+ *           `return { payload: { ...ctx.payload, reason: 'auto' } }`
+ *   after:  `return { emit: [{ verb: 'notify', type: 'Contact', id: ctx.entity.owner }] }`
+ */
+
+/** Context passed to hook code */
+export interface HookContext {
+  type: string
+  id: string
+  verb: string
+  phase: 'before' | 'after'
+  /** Entity before the verb (before hooks) or after it (after hooks) */
+  entity: Record<string, unknown>
+  /** Verb payload */
+  payload: Record<string, unknown> | null
+  /** Event logged for the verb (after hooks only) */
+  event?: Record<string, unknown>
+}
+
+/** Follow-up verb requested by an after hook */
+export interface HookEmit {
+  verb: string
+  /** Entity type (defaults to the hooked entity's type) */
+  type?: string
+  /** Entity ID (defaults to the hooked entity's ID) */
+  id?: string
+  data?: Record<string, unknown>
+}
+
+/** Normalized hook return value */
+export interface HookResult {
+  /** Reason the verb is vetoed (before hooks) */
+  veto?: string
+  /** Replacement verb payload (before hooks) */
+  payload?: Record<string, unknown>
+  /** Follow-up verbs (after hooks) */
+  emit?: HookEmit[]
+}
+
+export type HookOutcome = { ok: true; result: HookResult } | { ok: false; error: string }
+
+export interface HookLimits {
+  /** CPU time limit for the isolate */
+  cpuMs: number
+  /** Wall-clock timeout for the whole call */
+  timeoutMs: number
+}
+
+export const DEFAULT_HOOK_LIMITS: HookLimits = { cpuMs: 50, timeoutMs: 1000 }
+
+const HOOK_COMPATIBILITY_DATE = '2025-01-13'
+const HOOK_MODULE = 'hook.js'
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Wrap hook code in a Worker module. The module receives the context as a
+ * JSON POST body and always answers with `{ ok, result | error }`.
+ */
+export function hookModuleSource(code: string): string {
+  return `const hook = async (ctx) => {
+${code}
+}
+
+export default {
+  async fetch(request) {
+    try {
+      const result = await hook(await request.json())
+      return Response.json({ ok: true, result: result ?? null })
+    } catch (err) {
+      return Response.json({ ok: false, error: err instanceof Error ? err.message : String(err) })
+    }
+  },
+}
+`
+}
+
+/**
+ * Validate a raw hook return value against what the phase allows.
+ */
+export function normalizeHookResult(phase: 'before' | 'after', raw: unknown): HookOutcome {
+  if (raw === null || raw === undefined) return { ok: true, result: {} }
+  if (!isPlainObject(raw)) return { ok: false, error: 'Hook must return an object or nothing' }
+
+  const result: HookResult = {}
+
+  if (phase === 'before') {
+    if (raw.veto !== undefined && raw.veto !== false && raw.veto !== null) {
+      result.veto = typeof raw.veto === 'string' ? raw.veto : 'Vetoed by hook'
+    }
+    if (raw.payload !== undefined) {
+      if (!isPlainObject(raw.payload)) return { ok: false, error: 'payload must be an object' }
+      result.payload = raw.payload
+    }
+    if (raw.emit !== undefined) return { ok: false, error: 'emit is only allowed in after hooks' }
+    return { ok: true, result }
+  }
+
+  if (raw.veto !== undefined || raw.payload !== undefined) {
+    return { ok: false, error: 'veto and payload are only allowed in before hooks' }
+  }
+  if (raw.emit !== undefined) {
+    if (!Array.isArray(raw.emit)) return { ok: false, error: 'emit must be an array' }
+    const emit: HookEmit[] = []
+    for (const item of raw.emit) {
+      if (!isPlainObject(item) || typeof item.verb !== 'string' || !item.verb) {
+        return { ok: false, error: 'Each emitted verb needs a verb name' }
+      }
+      if ((item.type !== undefined && typeof item.type !== 'string') || (item.id !== undefined && typeof item.id !== 'string')) {
+        return { ok: false, error: 'Emitted type and id must be strings' }
+      }
+      if (item.data !== undefined && !isPlainObject(item.data)) {
+        return { ok: false, error: 'Emitted data must be an object' }
+      }
+      emit.push({ verb: item.verb, type: item.type, id: item.id, data: item.data })
+    }
+    result.emit = emit
+  }
+  return { ok: true, result }
+}
+
+/**
+ * Run hook code in an isolated Worker.
+ *
+ * @param name - Loader cache key; must change whenever the code changes
+ * @returns The normalized result, or the error that stopped the hook
+ */
+export async function runHook(
+  loader: WorkerLoader,
+  name: string,
+  code: string,
+  ctx: HookContext,
+  limits: HookLimits = DEFAULT_HOOK_LIMITS,
+): Promise<HookOutcome> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<HookOutcome>((resolve) => {
+    timer = setTimeout(() => resolve({ ok: false, error: `Hook timed out after ${limits.timeoutMs}ms` }), limits.timeoutMs)
+  })
+
+  const call = async (): Promise<HookOutcome> => {
+    const worker = loader.get(name, () => ({
+      compatibilityDate: HOOK_COMPATIBILITY_DATE,
+      mainModule: HOOK_MODULE,
+      modules: { [HOOK_MODULE]: hookModuleSource(code) },
+      env: {},
+      globalOutbound: null,
+    }))
+    const entrypoint = worker.getEntrypoint(undefined, { limits: { cpuMs: limits.cpuMs } })
+    const response = await entrypoint.fetch('https://hook.internal/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(ctx),
+    })
+    const body = (await response.json()) as { ok: boolean; result?: unknown; error?: string }
+    if (!body.ok) return { ok: false, error: body.error ?? 'Hook failed' }
+    return normalizeHookResult(ctx.phase, body.result)
+  }
+
+  try {
+    return await Promise.race([call(), timeout])
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) }
+  } finally {
+    if (timer !== undefined) clearTimeout(timer)
+  }
+}
@@ -5,7 +5,7 @@
  * structured ParsedProperty objects.
  */
 
-import type { ParsedProperty, FieldModifiers, VerbConjugation, StoredNounSchema } from '../types'
+import type { ParsedProperty, FieldModifiers, VerbConjugation, VerbTransition, StoredNounSchema } from '../types'
 import { deriveNoun, deriveVerb } from './linguistic'
 
 const RELATIONSHIP_REGEX = /^(.*?)\s*(<-|->|<~|~>)\s*(.+)$/
@@ -13,6 +13,8 @@ const ENUM_PIPE_REGEX = /\|/
 const PASCAL_CASE_REGEX = /^[A-Z][a-zA-Z]+$/
 const EXPLICIT_ENUM_REGEX = /^enum\(([^)]+)\)/
 const DEFAULT_VALUE_REGEX = /=\s*"?([^"]*)"?\s*$/
+const TRANSITION_REGEX = /^(?:([a-zA-Z_]\w*)\s*:\s*)?([\w*]+(?:\s*\|\s*[\w*]+)*)\s*=>\s*(\w+)$/
+const VERB_INPUT_KEY_REGEX = /^([a-z]\w*)\.([a-zA-Z_]\w*)$/
 
 const KNOWN_TYPES = new Set([
   'string',
@@ -112,8 +114,18 @@ function parseRelationship(name: string, value: string): ParsedProperty {
 }
 
 function parseEnum(name: string, value: string): ParsedProperty {
-  const values = value.split('|').map((v) => v.trim())
-  return { name, kind: 'enum', enumValues: values }
+  let remaining = value
+  let defaultValue: string | undefined
+
+  // 'Lead | Active = "Lead"' — the default binds to the whole enum, not the last member
+  const defaultMatch = remaining.match(DEFAULT_VALUE_REGEX)
+  if (defaultMatch?.[1] !== undefined) {
+    defaultValue = defaultMatch[1].trim()
+    remaining = remaining.replace(DEFAULT_VALUE_REGEX, '')
+  }
+
+  const values = remaining.split('|').map((v) => v.trim())
+  return { name, kind: 'enum', enumValues: values, defaultValue }
 }
 
 function parseProperty(key: string, value: string | null): ParsedProperty {
@@ -138,6 +150,71 @@ function parseProperty(key: string, value: string | null): ParsedProperty {
   return { name: key, kind: 'field', type, modifiers, defaultValue }
 }
 
+/**
+ * Parse a verb state transition: `'Negotiation | Proposal => Closed'` or
+ * `'stage: Negotiation => Closed'`. The field is resolved later, once all
+ * enum fields of the noun are known.
+ */
+function parseTransition(value: string): { field?: string; from: string[]; to: string } | null {
+  const match = value.trim().match(TRANSITION_REGEX)
+  if (!match) return null
+  return {
+    field: match[1],
+    from: match[2]!.split('|').map((s) => s.trim()),
+    to: match[3]!,
+  }
+}
+
+/**
+ * Resolve which enum field a transition moves. An explicit field must be an
+ * enum containing every state; otherwise exactly one enum field must contain
+ * them all.
+ *
+ * @throws Error if the field cannot be determined or the states are not members
+ */
+function resolveTransition(verb: string, transition: { field?: string; from: string[]; to: string }, fields: Record<string, ParsedProperty>): VerbTransition {
+  const states = [...transition.from.filter((s) => s !== '*'), transition.to]
+  const hasStates = (prop: ParsedProperty) => prop.kind === 'enum' && states.every((s) => prop.enumValues?.includes(s))
+
+  if (transition.field) {
+    const prop = fields[transition.field]
+    if (!prop || prop.kind !== 'enum') {
+      throw new Error(`Verb '${verb}' transitions '${transition.field}', which is not an enum field`)
+    }
+    if (!hasStates(prop)) {
+      throw new Error(`Verb '${verb}' uses states that are not values of '${transition.field}': ${states.join(', ')}`)
+    }
+    return { field: transition.field, from: transition.from, to: transition.to }
+  }
+
+  const candidates = Object.values(fields).filter(hasStates)
+  if (candidates.length !== 1) {
+    throw new Error(
+      candidates.length === 0
+        ? `Verb '${verb}' uses states that are not values of any enum field: ${states.join(', ')}`
+        : `Verb '${verb}' is ambiguous between ${candidates.map((c) => c.name).join(', ')} — use 'field: From => To'`,
+    )
+  }
+  return { field: candidates[0]!.name, from: transition.from, to: transition.to }
+}
+
+/**
+ * Parse a verb input parameter declared as `'verb.param': 'type'`, using the
+ * same type and modifier syntax as fields.
+ *
+ * @throws Error if the input is not a plain field or enum
+ */
+function parseVerbInput(verb: string, param: string, value: string | null): ParsedProperty {
+  if ((DEFAULT_CRUD_VERB_NAMES as readonly string[]).includes(verb)) {
+    throw new Error(`Inputs cannot be declared for the built-in verb '${verb}'`)
+  }
+  const parsed = value === null ? null : parseProperty(param, value)
+  if (!parsed || (parsed.kind !== 'field' && parsed.kind !== 'enum')) {
+    throw new Error(`Input '${param}' of verb '${verb}' must be a field type or enum`)
+  }
+  return parsed
+}
+
 function conjugate(action: string): VerbConjugation {
   const derived = deriveVerb(action)
   return {
@@ -151,16 +228,39 @@ function conjugate(action: string): VerbConjugation {
 
 /**
  * Parse a raw Noun definition object into a StoredNounSchema
+ *
+ * @throws Error if a verb transition references unknown states or fields,
+ *   or a verb input is not a field type
  */
 export function parseNounDefinition(name: string, definition: Record<string, string | null>): StoredNounSchema {
   const derived = deriveNoun(name)
   const fields: Record<string, ParsedProperty> = {}
   const relationships: Record<string, ParsedProperty> = {}
   const verbs: Record<string, VerbConjugation> = {}
+  const transitions: Record<string, VerbTransition> = {}
+  const verbInputs: Record<string, Record<string, ParsedProperty>> = {}
+  const pendingTransitions: Array<[string, { field?: string; from: string[]; to: string }]> = []
   const disabledVerbs: string[] = []
 
   // Parse properties
   for (const [key, value] of Object.entries(definition)) {
+    // Verb input parameter, e.g. 'close.reason': 'string!' (also declares the verb)
+    const inputKey = key.match(VERB_INPUT_KEY_REGEX)
+    if (inputKey) {
+      const [, verb, param] = inputKey as [string, string, string]
+      verbInputs[verb] = { ...verbInputs[verb], [param]: parseVerbInput(verb, param, value) }
+      verbs[verb] ??= conjugate(verb)
+      continue
+    }
+
+    // Verb with a state transition, e.g. close: 'Negotiation => Closed'
+    const transition = value !== null && !/^[A-Z]/.test(key) ? parseTransition(value) : null
+    if (transition) {
+      verbs[key] = conjugate(key)
+      pendingTransitions.push([key, transition])
+      continue
+    }
+
     const parsed = parseProperty(key, value)
     switch (parsed.kind) {
       case 'disabled':
@@ -181,6 +281,11 @@ export function parseNounDefinition(name: string, definition: Record<string, str
     }
   }
 
+  // Resolve transitions now that every enum field is known
+  for (const [verb, transition] of pendingTransitions) {
+    transitions[verb] = resolveTransition(verb, transition, fields)
+  }
+
   // Add default CRUD verbs (unless disabled)
   const disabledSet = new Set(disabledVerbs)
   for (const verb of DEFAULT_CRUD_VERB_NAMES) {
@@ -197,6 +302,8 @@ export function parseNounDefinition(name: string, definition: Record<string, str
     fields,
     relationships,
     verbs,
+    transitions,
+    verbInputs,
     disabledVerbs,
     raw: definition,
   }
@@ -0,0 +1,96 @@
+/**
+ * Field projection and relationship expansion paths
+ *
+ * `?fields=name,email,company.name` and `?expand=company.owner,deals` are
+ * parsed into path trees:
+ *
+ *   'company.owner,deals' → { company: { owner: {} }, deals: {} }
+ *
+ * Expansion is resolved by ObjectsDO (it needs the database); projection is a
+ * pure transform applied afterwards.
+ */
+
+/** Nested set of dotted paths; an empty node selects the whole value */
+export interface PathTree {
+  [key: string]: PathTree
+}
+
+/** Maximum nesting of `?expand=` paths (a.b.c) */
+export const MAX_EXPAND_DEPTH = 3
+
+const SEGMENT_REGEX = /^[a-zA-Z_][\w-]*$/
+
+/** Segments that would walk into Object.prototype */
+const RESERVED_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype'])
+
+/** Path tree nodes have no prototype, so a segment can only ever name a field */
+function emptyTree(): PathTree {
+  return Object.create(null) as PathTree
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Parse a comma-separated list of dotted paths into a tree.
+ *
+ * @param maxDepth - Reject paths with more segments than this
+ * @throws Error on empty or invalid segments, or paths deeper than maxDepth
+ */
+export function parsePathList(param: string, maxDepth?: number): PathTree {
+  const tree = emptyTree()
+  for (const raw of param.split(',')) {
+    const path = raw.trim()
+    if (!path) continue
+    const segments = path.split('.')
+    if (!segments.every((s) => SEGMENT_REGEX.test(s) && !RESERVED_SEGMENTS.has(s))) {
+      throw new Error(`Invalid path '${path}'`)
+    }
+    if (maxDepth !== undefined && segments.length > maxDepth) {
+      throw new Error(`Path '${path}' is nested more than ${maxDepth} levels`)
+    }
+    let node = tree
+    for (const segment of segments) {
+      node = node[segment] ??= emptyTree()
+    }
+  }
+  return tree
+}
+
+/**
+ * Make sure a projection includes every expanded relationship. Relationships
+ * the projection does not mention are included whole; ones it narrows stay
+ * narrowed, with nested expansions added.
+ */
+export function includeExpanded(fields: PathTree, expand: PathTree): PathTree {
+  const merged: PathTree = Object.assign(emptyTree(), fields)
+  for (const [key, subtree] of Object.entries(expand)) {
+    const selected = merged[key]
+    if (selected === undefined) merged[key] = emptyTree()
+    else if (Object.keys(selected).length > 0 && Object.keys(subtree).length > 0) merged[key] = includeExpanded(selected, subtree)
+  }
+  return merged
+}
+
+/**
+ * Keep only the selected fields of an entity. `$` meta-fields are always kept;
+ * nested selections apply to objects and to each object in an array.
+ */
+export function projectFields(value: Record<string, unknown>, fields: PathTree): Record<string, unknown> {
+  const projected: Record<string, unknown> = {}
+  for (const [key, v] of Object.entries(value)) {
+    if (key.startsWith('$')) projected[key] = v
+  }
+  for (const [key, subtree] of Object.entries(fields)) {
+    if (!Object.hasOwn(value, key)) continue
+    projected[key] = Object.keys(subtree).length === 0 ? value[key] : projectNested(value[key], subtree)
+  }
+  return projected
+}
+
+function projectNested(value: unknown, fields: PathTree): unknown {
+  if (Array.isArray(value)) return value.map((item) => projectNested(item, fields))
+  if (isPlainObject(value)) return projectFields(value, fields)
+  return value
+}
@@ -0,0 +1,58 @@
+/**
+ * Data-subject redaction — tombstones personal data in stored JSON states
+ *
+ * Redacted fields are removed and their names listed under `$redacted`, so
+ * the remaining fields (and time travel / diffs over them) keep working:
+ *
+ *   { name: 'Alice', email: 'alice@acme.com', stage: 'Lead' }
+ *     → { stage: 'Lead', $redacted: ['email', 'name'] }
+ *
+ * Meta fields (`$id`, `$version`, ...) are never redacted.
+ */
+
+/** Marker listing the fields removed from a state */
+export const REDACTED_KEY = '$redacted'
+
+export type RedactionNeedle = string | number
+
+export interface RedactionRule {
+  /** Remove every field — used for the data subject's own entity */
+  all?: boolean
+  /** Remove fields whose value is, or contains, one of these values */
+  values?: RedactionNeedle[]
+}
+
+/**
+ * Check whether a JSON value is, or contains (in nested objects and arrays),
+ * one of the needles.
+ */
+export function containsValue(value: unknown, needles: ReadonlySet<RedactionNeedle>): boolean {
+  if (typeof value === 'string' || typeof value === 'number') return needles.has(value)
+  if (Array.isArray(value)) return value.some((v) => containsValue(v, needles))
+  if (typeof value === 'object' && value !== null) return Object.values(value).some((v) => containsValue(v, needles))
+  return false
+}
+
+/**
+ * Redact a stored state (entity data, event data, before or after state).
+ * Returns the state unchanged (same object) when nothing matched.
+ */
+export function redactState<T extends Record<string, unknown> | null>(state: T, rule: RedactionRule): T {
+  if (!state) return state
+  const needles = new Set(rule.values ?? [])
+
+  const removed: string[] = []
+  const kept: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(state)) {
+    if (!key.startsWith('$') && (rule.all || containsValue(value, needles))) {
+      removed.push(key)
+    } else {
+      kept[key] = value
+    }
+  }
+  if (removed.length === 0) return state
+
+  const previous = Array.isArray(state[REDACTED_KEY]) ? (state[REDACTED_KEY] as string[]) : []
+  kept[REDACTED_KEY] = [...new Set([...previous, ...removed])].sort()
+  return kept as T
+}
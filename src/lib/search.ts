@@ -0,0 +1,88 @@
+/**
+ * Full-text search — searchable fields, indexed documents and query parsing
+ *
+ * ObjectsDO keeps one FTS5 document per live entity: the values of the noun's
+ * searchable fields joined into a single column. Searchable fields are:
+ *
+ *   - `text` and `markdown` fields
+ *   - indexed string fields (`string#`, `string##`)
+ *
+ * User queries never reach MATCH verbatim (FTS5 syntax errors would surface as
+ * SQL errors). Each word becomes a quoted term, so all words must match:
+ *
+ *   refund stripe*  → "refund" "stripe"*   (trailing * matches a prefix)
+ *   "card declined" → "card declined"      (quoted phrase)
+ */
+
+import type { StoredNounSchema } from '../types'
+
+/** Most terms (words or phrases) a search query may contain */
+export const MAX_SEARCH_TERMS = 16
+
+const FULL_TEXT_TYPES = new Set(['text', 'markdown'])
+
+/**
+ * Names of the fields a noun makes searchable, in definition order.
+ */
+export function searchableFields(noun: StoredNounSchema): string[] {
+  return Object.values(noun.fields)
+    .filter((field) => field.kind === 'field' && (FULL_TEXT_TYPES.has(field.type ?? '') || (field.type === 'string' && field.modifiers?.indexed)))
+    .map((field) => field.name)
+}
+
+/**
+ * Build the indexed document for an entity: its searchable string values
+ * (including string array elements), one per line. Empty when there is nothing to index.
+ */
+export function searchDocument(entity: Record<string, unknown>, fields: string[]): string {
+  const values: string[] = []
+  for (const field of fields) {
+    const value = entity[field]
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (typeof item === 'string' && item.trim()) values.push(item.replace(SNIPPET_MARKERS, ''))
+    }
+  }
+  return values.join('\n')
+}
+
+/**
+ * Translate a user query into an FTS5 MATCH expression.
+ * Throws when the query holds no searchable words or too many terms.
+ */
+export function parseSearchQuery(q: string): string {
+  const terms: string[] = []
+  for (const match of q.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const phrase = match[1]
+    const word = match[2]
+    const text = (phrase ?? word.replace(/\*+$/, '')).replace(/"/g, '""')
+    if (!/[\p{L}\p{N}]/u.test(text)) continue
+    const prefix = word !== undefined && word.endsWith('*')
+    terms.push(`"${text}"${prefix ? '*' : ''}`)
+  }
+
+  if (terms.length === 0) {
+    throw new Error('Search query must contain at least one word')
+  }
+  if (terms.length > MAX_SEARCH_TERMS) {
+    throw new Error(`Search query has too many terms (max ${MAX_SEARCH_TERMS})`)
+  }
+  return terms.join(' ')
+}
+
+/** Match markers passed to FTS5 snippet() — stripped from indexed text so they only ever mark matches */
+export const SNIPPET_OPEN = '\u0002'
+export const SNIPPET_CLOSE = '\u0003'
+const SNIPPET_MARKERS = /[\u0002\u0003]/g
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }
+
+/**
+ * Turn a raw FTS5 snippet into safe HTML: the entity text is escaped and
+ * matches are wrapped in <mark>.
+ */
+export function highlightSnippet(raw: string): string {
+  return raw
+    .replace(/[&<>"']/g, (ch) => HTML_ESCAPES[ch])
+    .replaceAll(SNIPPET_OPEN, '<mark>')
+    .replaceAll(SNIPPET_CLOSE, '</mark>')
+}
@@ -0,0 +1,65 @@
+/**
+ * SQL helpers for querying entity JSON in SQLite
+ *
+ * Entity fields live inside the `data` JSON column and are addressed with
+ * json_extract(). SQLite only uses an expression index when the query
+ * expression is textually identical to the indexed one, so every place that
+ * touches a field — index DDL, filters, sorts, unique checks — builds it here.
+ */
+
+/**
+ * Quote a string as an SQL string literal.
+ */
+export function sqlLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+/**
+ * Quote a string as an SQL identifier (index names, etc.).
+ */
+export function sqlIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+/**
+ * Build a JSON path for a field. Dotted names address nested objects.
+ *
+ * @example
+ *   jsonPath('email')        → '$."email"'
+ *   jsonPath('address.city') → '$."address"."city"'
+ *
+ * @throws Error if the field name is empty or contains a double quote
+ */
+export function jsonPath(field: string): string {
+  const segments = field.split('.')
+  for (const segment of segments) {
+    if (segment === '' || segment.includes('"')) {
+      throw new Error(`Invalid field name '${field}'`)
+    }
+  }
+  return '$' + segments.map((s) => `."${s}"`).join('')
+}
+
+/**
+ * Build a json_extract() expression for a field with the path inlined as a
+ * literal (bound parameters would prevent expression index matching).
+ */
+export function jsonField(field: string, column = 'data'): string {
+  return `json_extract(${column}, ${sqlLiteral(jsonPath(field))})`
+}
+
+/**
+ * Coerce a JS value to something SQLite can bind. Booleans are stored by
+ * json_extract() as 1/0, so they must be compared as integers.
+ */
+export function sqlValue(value: string | number | boolean | null): string | number | null {
+  if (typeof value === 'boolean') return value ? 1 : 0
+  return value
+}
+
+/**
+ * Check whether an error thrown by SqlStorage is a UNIQUE constraint violation.
+ */
+export function isUniqueViolation(err: unknown): boolean {
+  return err instanceof Error && /UNIQUE constraint failed/i.test(err.message)
+}
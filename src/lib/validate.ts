@@ -0,0 +1,159 @@
+/**
+ * Field validation — checks entity writes against a parsed noun schema
+ *
+ * Enforces the modifiers and types captured by parseNounDefinition():
+ *   name: 'string!'        → required
+ *   email: 'email?#'       → must look like an email address
+ *   tags: 'string[]'       → array of strings
+ *   stage: 'Lead | Active' → value must be one of the enum members
+ *
+ * Validation never throws — it returns a list of per-field errors so the
+ * caller can report all problems in a single 422 response.
+ */
+
+import type { ParsedProperty } from '../types'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A single validation failure for one field */
+export interface FieldError {
+  field: string
+  message: string
+}
+
+export interface ValidateOptions {
+  /**
+   * Partial validation (updates, verb payloads): only fields present in the
+   * data are checked, so required fields may be omitted but not cleared.
+   */
+  partial?: boolean
+}
+
+// ---------------------------------------------------------------------------
+// Type checks
+// ---------------------------------------------------------------------------
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const ULID_REGEX = /^[0-9A-HJKMNP-TV-Z]{26}$/i
+const DATE_PREFIX_REGEX = /^\d{4}-\d{2}-\d{2}/
+
+function isDateString(value: unknown): boolean {
+  return typeof value === 'string' && DATE_PREFIX_REGEX.test(value) && !isNaN(Date.parse(value))
+}
+
+/**
+ * Check a single (non-array) value against a field type.
+ * Returns an error message, or null when the value is acceptable.
+ * Unknown types are accepted — the schema is the source of truth, not this table.
+ */
+function checkType(type: string, value: unknown): string | null {
+  switch (type) {
+    case 'string':
+    case 'text':
+    case 'markdown':
+    case 'id':
+      return typeof value === 'string' ? null : 'must be a string'
+    case 'email':
+      return typeof value === 'string' && EMAIL_REGEX.test(value) ? null : 'must be a valid email address'
+    case 'url':
+      if (typeof value !== 'string') return 'must be a valid URL'
+      try {
+        new URL(value)
+        return null
+      } catch {
+        return 'must be a valid URL'
+      }
+    case 'uuid':
+      return typeof value === 'string' && UUID_REGEX.test(value) ? null : 'must be a valid UUID'
+    case 'ulid':
+      return typeof value === 'string' && ULID_REGEX.test(value) ? null : 'must be a valid ULID'
+    case 'number':
+    case 'float':
+    case 'decimal':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'must be a number'
+    case 'int':
+      return typeof value === 'number' && Number.isInteger(value) ? null : 'must be an integer'
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be a boolean'
+    case 'date':
+      return isDateString(value) ? null : 'must be an ISO 8601 date (YYYY-MM-DD)'
+    case 'datetime':
+      return isDateString(value) ? null : 'must be an ISO 8601 datetime'
+    case 'timestamp':
+      return isDateString(value) || (typeof value === 'number' && Number.isFinite(value)) ? null : 'must be an ISO 8601 datetime or epoch milliseconds'
+    default:
+      return null
+  }
+}
+
+function checkEnum(values: string[], value: unknown): string | null {
+  return typeof value === 'string' && values.includes(value) ? null : `must be one of: ${values.join(', ')}`
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === ''
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate a single property value. Returns an error message or null.
+ */
+export function validateValue(prop: ParsedProperty, value: unknown): string | null {
+  const check = (v: unknown): string | null => {
+    if (prop.kind === 'enum' && prop.enumValues) return checkEnum(prop.enumValues, v)
+    if (prop.kind === 'field' && prop.type) return checkType(prop.type, v)
+    return null
+  }
+
+  if (prop.modifiers?.array) {
+    if (!Array.isArray(value)) return 'must be an array'
+    for (let i = 0; i < value.length; i++) {
+      const message = check(value[i])
+      if (message) return `[${i}] ${message}`
+    }
+    return null
+  }
+
+  return check(value)
+}
+
+/**
+ * Validate data against a set of parsed field/enum properties.
+ *
+ * Meta-fields ($id, $type, ...) and fields not declared in the schema are
+ * ignored — nouns describe the fields they care about, not a closed shape.
+ */
+export function validateFields(fields: Record<string, ParsedProperty>, data: Record<string, unknown>, opts?: ValidateOptions): FieldError[] {
+  const errors: FieldError[] = []
+
+  for (const [name, prop] of Object.entries(fields)) {
+    if (prop.kind !== 'field' && prop.kind !== 'enum') continue
+
+    const present = Object.prototype.hasOwnProperty.call(data, name)
+    if (opts?.partial && !present) continue
+
+    const value = data[name]
+    if (isMissing(value)) {
+      if (prop.modifiers?.required) errors.push({ field: name, message: 'is required' })
+      continue
+    }
+
+    const message = validateValue(prop, value)
+    if (message) errors.push({ field: name, message })
+  }
+
+  return errors
+}
+
+/**
+ * Summarize validation errors into a single human-readable message.
+ */
+export function formatFieldErrors(errors: FieldError[]): string {
+  return errors.map((e) => `${e.field} ${e.message}`).join('; ')
+}
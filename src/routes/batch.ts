@@ -0,0 +1,43 @@
+/**
+ * Batch routes
+ *
+ * POST /batch — run many entity operations in one round trip and one transaction
+ *
+ * Body: { operations: BatchOperation[], mode?: 'atomic' | 'bestEffort' }
+ *
+ *   { op: 'create', type: 'Contact', data: { name: 'Alice' } }
+ *   { op: 'update', type: 'Contact', id: 'contact_abc', data: { stage: 'Qualified' }, ifMatch?: '"2"' }
+ *   { op: 'delete', type: 'Contact', id: 'contact_abc' }
+ *   { op: 'verb', type: 'Contact', id: 'contact_abc', verb: 'qualify', data?: {} }
+ *
+ * Returns one result per operation (index, success, status, data, error).
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv, BatchMode, BatchOperation } from '../types'
+import { getStub } from '../lib/tenant'
+
+const app = new Hono<AppEnv>()
+
+/**
+ * POST /batch — run operations atomically (default) or best-effort
+ */
+app.post('/', async (c) => {
+  const body = await c.req.json<{ operations?: BatchOperation[]; mode?: BatchMode }>()
+  const stub = getStub(c)
+  const tenantCtx = c.get('tenantContext')
+
+  const result = await stub.batch(body.operations ?? [], {
+    mode: body.mode,
+    actor: c.get('actor'),
+    tenantId: tenantCtx?.tenantId,
+    contextUrl: tenantCtx?.contextUrl,
+  })
+
+  return c.json(
+    { success: result.success, data: result.data, error: result.error, meta: result.meta },
+    result.status as 200 | 400 | 403 | 404 | 409 | 422 | 500,
+  )
+})
+
+export default app
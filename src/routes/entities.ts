@@ -2,22 +2,35 @@
  * Entity CRUD + verb execution routes
  *
  * POST   /entities/:type              — create entity
+ * PUT    /entities/:type?upsertOn=f   — create or update by unique field(s)
  * GET    /entities/:type              — list/find entities (filter, limit, offset, sort)
+ * GET    /entities/:type/aggregate    — metrics grouped by fields or date buckets
  * GET    /entities/:type/:id          — get entity by ID
+ * GET    /entities/:type/:id/blame    — the event (verb, time, actor, version) that last set each field
  * PUT    /entities/:type/:id          — update entity
  * DELETE /entities/:type/:id          — soft delete entity
+ * POST   /entities/:type/:id/restore  — undo a soft delete
+ * POST   /entities/:type/:id/revert   — write an earlier version back (?toVersion=N)
+ * POST   /entities/:type/:id/snapshot — snapshot the replayed state for time travel
+ * POST   /entities/:type/:id/purge    — physically remove entity (admin only)
  * POST   /entities/:type/:id/:verb    — execute verb (e.g., POST /entities/Contact/contact_abc/qualify)
+ * GET    /entities/:type/hooks        — list hooks registered on a noun
  * POST   /entities/:type/hooks        — register hook { verb, phase, code }
  */
 
 import { Hono } from 'hono'
 import type { AppEnv } from '../types'
 import { getStub } from '../lib/tenant'
+import { requireAdmin } from '../lib/admin'
 
 const app = new Hono<AppEnv>()
 
 /**
  * POST /entities/:type — create a new entity
+ *
+ * Stamps `createdBy` using the X-Actor header.
+ * An Idempotency-Key header makes retries safe: the original response (and
+ * event id) is returned with `Idempotent-Replayed: true` instead of creating again.
  */
 app.post('/:type', async (c) => {
   const type = c.req.param('type')
@@ -28,15 +41,62 @@ app.post('/:type', async (c) => {
   const result = await stub.createEntity(type, body, {
     tenantId: tenantCtx?.tenantId,
     contextUrl: tenantCtx?.contextUrl,
+    idempotencyKey: c.req.header('Idempotency-Key'),
+    actor: c.get('actor'),
+  })
+
+  if (result.replayed) c.header('Idempotent-Replayed', 'true')
+  return c.json(
+    { success: result.success, data: result.data, error: result.error, meta: result.meta },
+    result.status as 200 | 201 | 400 | 403 | 409 | 422 | 500,
+  )
+})
+
+/**
+ * PUT /entities/:type?upsertOn=email — create or update by unique field(s)
+ *
+ * upsertOn names unique (##) fields and/or $id, comma-separated; the body
+ * supplies their values. Responds 200 when an entity was updated, 201 when created.
+ * Idempotency-Key replays the original response, as for POST /entities/:type.
+ */
+app.put('/:type', async (c) => {
+  const type = c.req.param('type')
+  const upsertOn = c.req.query('upsertOn')
+  if (!upsertOn) {
+    return c.json({ success: false, error: 'upsertOn query param is required (use PUT /entities/:type/:id to update by ID)' }, 400)
+  }
+
+  const body = await c.req.json()
+  const stub = getStub(c)
+  const tenantCtx = c.get('tenantContext')
+  const ifMatch = c.req.header('If-Match')
+
+  const result = await stub.upsertEntity(type, body, {
+    upsertOn,
+    ifMatch,
+    tenantId: tenantCtx?.tenantId,
+    contextUrl: tenantCtx?.contextUrl,
+    idempotencyKey: c.req.header('Idempotency-Key'),
+    actor: c.get('actor'),
   })
 
-  return c.json({ success: result.success, data: result.data, error: result.error, meta: result.meta }, result.status as 200 | 201 | 400 | 403 | 500)
+  if (result.replayed) c.header('Idempotent-Replayed', 'true')
+  if (result.etag) c.header('ETag', result.etag)
+  return c.json(
+    { success: result.success, data: result.data, error: result.error, meta: result.meta },
+    result.status as 200 | 201 | 400 | 403 | 404 | 409 | 422 | 500,
+  )
 })
 
 /**
  * GET /entities/:type — list/find entities
  *
- * Query params: filter (JSON), limit, offset, sort (JSON)
+ * Query params: filter (JSON, Mongo-style operators), limit, offset, sort (JSON),
+ * cursor (from meta.nextCursor, for keyset pagination), count (false skips the total),
+ * fields (comma-separated projection), expand (comma-separated relationships),
+ * includeDeleted (true also lists soft-deleted entities, with $deletedAt),
+ * q (full-text match on searchable fields; see GET /search for ranked results),
+ * asOf (timestamp — list the collection as it stood then, rebuilt from events)
  */
 app.get('/:type', async (c) => {
   const type = c.req.param('type')
@@ -48,15 +108,73 @@ app.get('/:type', async (c) => {
     offset: url.searchParams.get('offset') ? parseInt(url.searchParams.get('offset')!, 10) : undefined,
     filter: url.searchParams.get('filter') ?? undefined,
     sort: url.searchParams.get('sort') ?? undefined,
+    cursor: url.searchParams.get('cursor') ?? undefined,
+    count: url.searchParams.get('count') === 'false' ? false : undefined,
+    fields: url.searchParams.get('fields') ?? undefined,
+    expand: url.searchParams.get('expand') ?? undefined,
+    includeDeleted: url.searchParams.get('includeDeleted') === 'true' ? true : undefined,
+    q: url.searchParams.get('q') ?? undefined,
+    asOf: url.searchParams.get('asOf') ?? undefined,
   })
 
   return c.json({ success: result.success, data: result.data, error: result.error, meta: result.meta }, result.status as 200 | 400)
 })
 
+/**
+ * GET /entities/:type/aggregate — aggregate entities
+ *
+ * Query params: metrics (e.g. count,sum:value), groupBy (e.g. stage,$createdAt:week),
+ * filter (JSON, same syntax as listing), limit (max groups)
+ *
+ * Defined before /:type/:id so "aggregate" is not treated as an entity ID.
+ */
+app.get('/:type/aggregate', async (c) => {
+  const type = c.req.param('type')
+  const url = new URL(c.req.url)
+  const stub = getStub(c)
+
+  const result = await stub.aggregateEntities(type, {
+    metrics: url.searchParams.get('metrics') ?? undefined,
+    groupBy: url.searchParams.get('groupBy') ?? undefined,
+    filter: url.searchParams.get('filter') ?? undefined,
+    limit: url.searchParams.get('limit') ? parseInt(url.searchParams.get('limit')!, 10) : undefined,
+  })
+
+  return c.json({ success: result.success, data: result.data, error: result.error, meta: result.meta }, result.status as 200 | 400)
+})
+
+/**
+ * GET /entities/:type/hooks — list hooks registered on a noun
+ *
+ * Defined before /:type/:id so "hooks" is not treated as an entity ID.
+ */
+app.get('/:type/hooks', async (c) => {
+  const type = c.req.param('type')
+  const stub = getStub(c)
+
+  const result = await stub.listHooks(type)
+  return c.json(result)
+})
+
+/**
+ * POST /entities/:type/hooks — register a hook { verb, phase, code }
+ */
+app.post('/:type/hooks', async (c) => {
+  const type = c.req.param('type')
+  const body = await c.req.json()
+  const stub = getStub(c)
+
+  const result = await stub.registerHook(type, body)
+  return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 201 | 400)
+})
+
 /**
  * GET /entities/:type/:id — get entity by ID
  *
- * Supports time travel via asOf/atVersion query params, history, and diff.
+ * Supports time travel via asOf/atVersion query params, history, diff, and
+ * blame (the event that last changed each field, optionally asOf a timestamp).
+ * fields (comma-separated projection) and expand (comma-separated relationships)
+ * shape the current state.
  */
 app.get('/:type/:id/history', async (c) => {
   const type = c.req.param('type')
@@ -67,6 +185,15 @@ app.get('/:type/:id/history', async (c) => {
   return c.json(result)
 })
 
+app.get('/:type/:id/blame', async (c) => {
+  const type = c.req.param('type')
+  const id = c.req.param('id')
+  const stub = getStub(c)
+
+  const result = await stub.entityBlame(type, id, { asOf: c.req.query('asOf') })
+  return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 400 | 404)
+})
+
 app.get('/:type/:id/diff', async (c) => {
   const type = c.req.param('type')
   const id = c.req.param('id')
@@ -98,13 +225,18 @@ app.get('/:type/:id', async (c) => {
     return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 400 | 404)
   }
 
-  const result = await stub.getEntity(type, id)
+  const result = await stub.getEntity(type, id, {
+    fields: url.searchParams.get('fields') ?? undefined,
+    expand: url.searchParams.get('expand') ?? undefined,
+  })
   if (result.etag) c.header('ETag', result.etag)
-  return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 404)
+  return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 400 | 404)
 })
 
 /**
  * PUT /entities/:type/:id — update entity
+ *
+ * Stamps `updatedBy` using the X-Actor header.
  */
 app.put('/:type/:id', async (c) => {
   const type = c.req.param('type')
@@ -113,9 +245,9 @@ app.put('/:type/:id', async (c) => {
   const stub = getStub(c)
   const ifMatch = c.req.header('If-Match')
 
-  const result = await stub.updateEntity(type, id, body, ifMatch ? { ifMatch } : undefined)
+  const result = await stub.updateEntity(type, id, body, { ifMatch, actor: c.get('actor') })
   if (result.etag) c.header('ETag', result.etag)
-  return c.json({ success: result.success, data: result.data, error: result.error, meta: result.meta }, result.status as 200 | 404 | 409 | 500)
+  return c.json({ success: result.success, data: result.data, error: result.error, meta: result.meta }, result.status as 200 | 404 | 409 | 422 | 500)
 })
 
 /**
@@ -128,9 +260,9 @@ app.patch('/:type/:id', async (c) => {
   const stub = getStub(c)
   const ifMatch = c.req.header('If-Match')
 
-  const result = await stub.updateEntity(type, id, body, ifMatch ? { ifMatch } : undefined)
+  const result = await stub.updateEntity(type, id, body, { ifMatch, actor: c.get('actor') })
   if (result.etag) c.header('ETag', result.etag)
-  return c.json({ success: result.success, data: result.data, error: result.error, meta: result.meta }, result.status as 200 | 404 | 409 | 500)
+  return c.json({ success: result.success, data: result.data, error: result.error, meta: result.meta }, result.status as 200 | 404 | 409 | 422 | 500)
 })
 
 /**
@@ -141,15 +273,87 @@ app.delete('/:type/:id', async (c) => {
   const id = c.req.param('id')
   const stub = getStub(c)
 
-  const result = await stub.deleteEntity(type, id)
+  const result = await stub.deleteEntity(type, id, { actor: c.get('actor') })
   return c.json({ success: result.success, error: result.error, meta: result.meta }, result.status as 200 | 403 | 404)
 })
 
+/**
+ * POST /entities/:type/:id/restore — undo a soft delete (emits a restore event)
+ *
+ * Defined before /:type/:id/:verb so "restore" is not treated as a noun verb.
+ */
+app.post('/:type/:id/restore', async (c) => {
+  const type = c.req.param('type')
+  const id = c.req.param('id')
+  const stub = getStub(c)
+
+  const result = await stub.restoreEntity(type, id, { actor: c.get('actor') })
+  return c.json({ success: result.success, data: result.data, error: result.error, meta: result.meta }, result.status as 200 | 403 | 404 | 409)
+})
+
+/**
+ * POST /entities/:type/:id/revert?toVersion=3 — write an earlier version back as a new version
+ *
+ * Honours If-Match. restore=true is required when the entity was deleted after
+ * that version (the revert then undoes the delete).
+ * Defined before /:type/:id/:verb so "revert" is not treated as a noun verb.
+ */
+app.post('/:type/:id/revert', async (c) => {
+  const type = c.req.param('type')
+  const id = c.req.param('id')
+  const toVersion = c.req.query('toVersion')
+  if (!toVersion) {
+    return c.json({ success: false, error: 'toVersion query param is required' }, 400)
+  }
+
+  const stub = getStub(c)
+  const result = await stub.revertEntity(type, id, Number(toVersion), {
+    ifMatch: c.req.header('If-Match'),
+    restore: c.req.query('restore') === 'true',
+    actor: c.get('actor'),
+  })
+
+  if (result.etag) c.header('ETag', result.etag)
+  return c.json({ success: result.success, data: result.data, error: result.error, meta: result.meta }, result.status as 200 | 400 | 403 | 404 | 409 | 422)
+})
+
+/**
+ * POST /entities/:type/:id/snapshot — snapshot the entity's replayed state at its latest event
+ *
+ * Defined before /:type/:id/:verb so "snapshot" is not treated as a noun verb.
+ */
+app.post('/:type/:id/snapshot', async (c) => {
+  const type = c.req.param('type')
+  const id = c.req.param('id')
+  const stub = getStub(c)
+
+  const result = await stub.snapshotEntity(type, id)
+  return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 201 | 404)
+})
+
+/**
+ * POST /entities/:type/:id/purge — physically remove an entity and its relationships
+ *
+ * Admin only (Authorization: Bearer <ADMIN_TOKEN>). ?redactEvents=true also
+ * erases the payloads of the entity's past events (GDPR erasure).
+ */
+app.post('/:type/:id/purge', requireAdmin(), async (c) => {
+  const type = c.req.param('type')
+  const id = c.req.param('id')
+  const stub = getStub(c)
+
+  const result = await stub.purgeEntity(type, id, { redactEvents: c.req.query('redactEvents') === 'true' })
+  return c.json({ success: result.success, data: result.data, error: result.error, meta: result.meta }, result.status as 200 | 404)
+})
+
 /**
  * POST /entities/:type/:id/:verb — execute a verb
  *
  * e.g., POST /entities/Contact/contact_abc/qualify
- * Body: optional verb payload (merged into entity)
+ * Body: verb inputs, validated against the inputs the noun declares for the verb
+ *       and recorded as the event data; only inputs named after a field change the entity
+ * Stamps `<event>At` / `<event>By` (e.g., qualifiedAt, qualifiedBy) using the X-Actor header
+ * Idempotency-Key replays the original response instead of running the verb again
  */
 app.post('/:type/:id/:verb', async (c) => {
   const type = c.req.param('type')
@@ -157,7 +361,7 @@ app.post('/:type/:id/:verb', async (c) => {
   const verb = c.req.param('verb')
   const stub = getStub(c)
 
-  // Special case: "hooks" is not a verb — route to hook registration
+  // Legacy: POST /entities/:type/:id/hooks registered hooks before /:type/hooks existed
   if (verb === 'hooks') {
     const body = await c.req.json()
     const result = await stub.registerHook(type, body)
@@ -172,8 +376,12 @@ app.post('/:type/:id/:verb', async (c) => {
     // No body or invalid JSON — proceed with no data
   }
 
-  const result = await stub.executeVerb(type, id, verb, verbData)
-  return c.json({ success: result.success, data: result.data, error: result.error, meta: result.meta }, result.status as 200 | 400 | 403 | 404 | 500)
+  const result = await stub.executeVerb(type, id, verb, verbData, { actor: c.get('actor'), idempotencyKey: c.req.header('Idempotency-Key') })
+  if (result.replayed) c.header('Idempotent-Replayed', 'true')
+  return c.json(
+    { success: result.success, data: result.data, error: result.error, meta: result.meta },
+    result.status as 200 | 400 | 403 | 404 | 409 | 422 | 500,
+  )
 })
 
 export default app
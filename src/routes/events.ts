@@ -2,7 +2,7 @@
  * Event query and CDC routes
  *
  * GET  /events              — query the immutable event log
- * GET  /events/stream       — SSE stream (CDC) for real-time event consumption
+ * GET  /events/stream       — live SSE stream (CDC), resumable with Last-Event-ID
  * GET  /events/history/:type/:id — full event history for an entity
  * GET  /events/:id          — get a single event by ID
  */
@@ -25,6 +25,7 @@ app.get('/', async (c) => {
     type: url.searchParams.get('type') ?? undefined,
     entityId: url.searchParams.get('entityId') ?? undefined,
     verb: url.searchParams.get('verb') ?? undefined,
+    correlationId: url.searchParams.get('correlationId') ?? undefined,
     limit: url.searchParams.get('limit') ? parseInt(url.searchParams.get('limit')!, 10) : undefined,
   })
 
@@ -34,10 +35,15 @@ app.get('/', async (c) => {
 /**
  * GET /events/stream — SSE stream (CDC)
  *
+ * Replays events after the cursor, then stays open and pushes new events as
+ * they are committed, with periodic heartbeat comments.
+ *
  * Query params:
  *   since  — cursor event ID to start after
  *   types  — comma-separated entity types
  *   verbs  — comma-separated verbs
+ *
+ * A reconnecting client's Last-Event-ID header takes precedence over since.
  */
 app.get('/stream', async (c) => {
   const stub = getStub(c)
@@ -45,6 +51,7 @@ app.get('/stream', async (c) => {
 
   const res = await stub.getEventStream({
     since: url.searchParams.get('since') ?? undefined,
+    lastEventId: c.req.header('Last-Event-ID') ?? undefined,
     types: url.searchParams.get('types') ?? undefined,
     verbs: url.searchParams.get('verbs') ?? undefined,
   })
@@ -0,0 +1,83 @@
+/**
+ * Verb hook management routes
+ *
+ * GET    /hooks           — list all hooks
+ * GET    /hooks/:id       — get a hook (including its code)
+ * PUT    /hooks/:id       — update a hook { verb?, phase?, code? }
+ * DELETE /hooks/:id       — delete a hook
+ * POST   /hooks/:id/test  — dry-run a hook { entity?, payload? } without writing anything
+ *
+ * Hooks are registered per noun via POST /entities/:type/hooks.
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../types'
+import { getStub } from '../lib/tenant'
+
+const app = new Hono<AppEnv>()
+
+/**
+ * GET /hooks — list all hooks
+ */
+app.get('/', async (c) => {
+  const stub = getStub(c)
+  const result = await stub.listHooks()
+  return c.json(result)
+})
+
+/**
+ * GET /hooks/:id — get a hook
+ */
+app.get('/:id', async (c) => {
+  const hookId = Number(c.req.param('id'))
+  const stub = getStub(c)
+
+  const result = await stub.getHook(hookId)
+  return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 404)
+})
+
+/**
+ * PUT /hooks/:id — update a hook's verb, phase or code
+ */
+app.put('/:id', async (c) => {
+  const hookId = Number(c.req.param('id'))
+  const body = await c.req.json()
+  const stub = getStub(c)
+
+  const result = await stub.updateHook(hookId, body)
+  return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 400 | 404)
+})
+
+/**
+ * DELETE /hooks/:id — delete a hook
+ */
+app.delete('/:id', async (c) => {
+  const hookId = Number(c.req.param('id'))
+  const stub = getStub(c)
+
+  const result = await stub.deleteHook(hookId)
+  return c.json({ success: result.success, error: result.error }, result.status as 200 | 404)
+})
+
+/**
+ * POST /hooks/:id/test — run a hook against a sample entity and payload
+ *
+ * Body: { entity?: { ... }, payload?: { ... } }
+ * Returns the hook outcome ({ ok, result } or { ok: false, error }); no verb is executed.
+ */
+app.post('/:id/test', async (c) => {
+  const hookId = Number(c.req.param('id'))
+  const text = await c.req.text()
+  let body: { entity?: Record<string, unknown>; payload?: Record<string, unknown> | null } = {}
+  try {
+    if (text) body = JSON.parse(text)
+  } catch {
+    return c.json({ success: false, error: 'Invalid JSON body' }, 400)
+  }
+  const stub = getStub(c)
+
+  const result = await stub.testHook(hookId, body)
+  return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 404 | 503)
+})
+
+export default app
@@ -15,14 +15,14 @@ const app = new Hono<AppEnv>()
 /**
  * POST /nouns — define a new noun
  *
- * Body: { name: 'Contact', definition: { name: 'string!', email: 'string?#', ... } }
+ * Body: { name: 'Contact', definition: { name: 'string!', email: 'string?#', ... }, options?: { stampVerbs: false } }
  */
 app.post('/', async (c) => {
   const body = await c.req.json()
   const stub = getStub(c)
 
   const result = await stub.defineNoun(body)
-  return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 201 | 400 | 500)
+  return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 201 | 400 | 409 | 500)
 })
 
 /**
@@ -0,0 +1,39 @@
+/**
+ * Full-text search routes
+ *
+ * GET /search?q=refund+stripe*            — ranked hits across all nouns
+ * GET /search?q="card declined"&type=Ticket — ...limited to one noun
+ *
+ * Searches text, markdown and indexed string fields. Words must all match;
+ * a trailing * matches a prefix and quotes match a phrase. Each hit carries
+ * a relevance score and an HTML snippet with matches wrapped in <mark>.
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../types'
+import { getStub } from '../lib/tenant'
+
+const app = new Hono<AppEnv>()
+
+/**
+ * GET /search — query params: q (required), type, limit (max 100), offset
+ */
+app.get('/', async (c) => {
+  const q = c.req.query('q')
+  if (!q) {
+    return c.json({ success: false, error: 'q query param is required' }, 400)
+  }
+
+  const limit = c.req.query('limit')
+  const offset = c.req.query('offset')
+  const stub = getStub(c)
+
+  const result = await stub.search(q, {
+    type: c.req.query('type'),
+    limit: limit ? parseInt(limit, 10) : undefined,
+    offset: offset ? parseInt(offset, 10) : undefined,
+  })
+  return c.json({ success: result.success, data: result.data, error: result.error, meta: result.meta }, result.status as 200 | 400)
+})
+
+export default app
@@ -0,0 +1,51 @@
+/**
+ * Data subject routes (GDPR right of access / right to erasure)
+ *
+ * GET  /subjects/export?id=contact_abc              — download everything stored about a subject
+ * GET  /subjects/export?field=email&value=a@b.com   — ...identified by a field value (optionally &type=Contact)
+ * POST /subjects/erase                              — redact the subject's data (admin only)
+ *
+ * Erase body: { id } or { field, value } (optionally with type)
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv, DataSubject } from '../types'
+import { getStub } from '../lib/tenant'
+import { requireAdmin } from '../lib/admin'
+
+const app = new Hono<AppEnv>()
+
+/**
+ * GET /subjects/export — right-of-access bundle as a JSON attachment
+ */
+app.get('/export', async (c) => {
+  const subject: DataSubject = {
+    type: c.req.query('type'),
+    id: c.req.query('id'),
+    field: c.req.query('field'),
+    value: c.req.query('value'),
+  }
+  const stub = getStub(c)
+
+  const result = await stub.exportSubject(subject)
+  if (!result.success) {
+    return c.json({ success: false, error: result.error }, result.status as 400 | 404)
+  }
+
+  const name = (subject.id ?? `${subject.field}-${subject.value}`).replace(/[^\w.@-]/g, '_')
+  c.header('Content-Disposition', `attachment; filename="subject-export-${name}.json"`)
+  return c.json({ success: true, data: result.data })
+})
+
+/**
+ * POST /subjects/erase — tombstone the subject's data (Authorization: Bearer <ADMIN_TOKEN>)
+ */
+app.post('/erase', requireAdmin(), async (c) => {
+  const body = await c.req.json<DataSubject>()
+  const stub = getStub(c)
+
+  const result = await stub.eraseSubject(body)
+  return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 400 | 404)
+})
+
+export default app
@@ -3,6 +3,7 @@
  *
  * POST   /subscriptions       — register a webhook/websocket subscription
  * GET    /subscriptions       — list all subscriptions
+ * GET    /subscriptions/ws    — WebSocket upgrade: live events matching Type.verb patterns
  * DELETE /subscriptions/:id   — remove a subscription
  */
 
@@ -32,6 +33,27 @@ app.get('/', async (c) => {
   return c.json(result)
 })
 
+/**
+ * GET /subscriptions/ws — WebSocket subscription
+ *
+ * Query params:
+ *   patterns     — comma-separated Type.verb patterns (Contact.*, *.create, ...)
+ *   subscription — or the ID of a stored websocket-mode subscription
+ *   since        — event ID cursor; matching events after it are replayed first
+ *
+ * The socket receives `{ type: 'event', event }` messages, and can send
+ * `{ type: 'subscribe', patterns?, since? }` to change its subscription.
+ */
+app.get('/ws', async (c) => {
+  if (c.req.header('Upgrade')?.toLowerCase() !== 'websocket') {
+    return c.json({ success: false, error: 'Expected a WebSocket upgrade' }, 426)
+  }
+
+  // Forward the upgrade itself: the DO accepts the socket with the hibernation API
+  const stub = getStub(c)
+  return stub.fetch(c.req.raw)
+})
+
 /**
  * DELETE /subscriptions/:id — remove a subscription
  */
@@ -5,11 +5,17 @@
  * GET    /tenants/:id      — Get tenant info
  * GET    /tenants/:id/stats — Tenant statistics (entity counts, event counts)
  * DELETE /tenants/:id      — Deactivate tenant (soft delete)
+ * GET    /tenants/:id/retention — Retention policy and archive summary
+ * PUT    /tenants/:id/retention — Set the retention policy (admin only)
+ * DELETE /tenants/:id/retention — Stop archiving (admin only)
+ * GET    /tenants/:id/archive   — Index of archived R2 segments
+ * POST   /tenants/:id/archive   — Archive now instead of waiting for the alarm (admin only)
  */
 
 import { Hono } from 'hono'
 import type { AppEnv, ApiResponse } from '../types'
 import { getTenantStub } from '../lib/do-router'
+import { requireAdmin } from '../lib/admin'
 
 const app = new Hono<AppEnv>()
 
@@ -78,4 +84,60 @@ app.delete('/:id', async (c) => {
   return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 404)
 })
 
+/**
+ * GET /tenants/:id/retention — retention policy and archive summary
+ */
+app.get('/:id/retention', async (c) => {
+  const stub = getTenantStub(c.env, c.req.param('id'))
+
+  const result = await stub.retentionInfo()
+  return c.json(result)
+})
+
+/**
+ * PUT /tenants/:id/retention — set the retention policy
+ *
+ * Body: { hotDays: 90, dispatchLogDays?: 30 }
+ *
+ * Events older than hotDays (dispatch log older than dispatchLogDays, which
+ * defaults to hotDays) are moved to R2 by the hourly archive alarm.
+ */
+app.put('/:id/retention', requireAdmin(), async (c) => {
+  const stub = getTenantStub(c.env, c.req.param('id'))
+
+  const result = await stub.setRetentionPolicy(await c.req.json())
+  return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 400)
+})
+
+/**
+ * DELETE /tenants/:id/retention — stop archiving (archived segments stay readable)
+ */
+app.delete('/:id/retention', requireAdmin(), async (c) => {
+  const stub = getTenantStub(c.env, c.req.param('id'))
+
+  const result = await stub.setRetentionPolicy(null)
+  return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200)
+})
+
+/**
+ * GET /tenants/:id/archive — index of archived segments (?kind=events|dispatch_log&limit=)
+ */
+app.get('/:id/archive', async (c) => {
+  const stub = getTenantStub(c.env, c.req.param('id'))
+  const limit = c.req.query('limit')
+
+  const result = await stub.listArchiveSegments({ kind: c.req.query('kind'), limit: limit ? parseInt(limit, 10) : undefined })
+  return c.json(result)
+})
+
+/**
+ * POST /tenants/:id/archive — run the archiver now
+ */
+app.post('/:id/archive', requireAdmin(), async (c) => {
+  const stub = getTenantStub(c.env, c.req.param('id'))
+
+  const result = await stub.archiveEvents()
+  return c.json({ success: result.success, data: result.data, error: result.error }, result.status as 200 | 400 | 503)
+})
+
 export default app
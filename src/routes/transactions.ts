@@ -0,0 +1,47 @@
+/**
+ * Transaction routes
+ *
+ * POST /transactions — run verbs, entity writes and relationship links atomically
+ *
+ * Body: { steps: TransactionStep[], correlationId?: string }
+ *
+ *   { op: 'verb', type: 'Deal', id: 'deal_abc', verb: 'close' }
+ *   { op: 'create', type: 'Invoice', data: { deal: 'deal_abc', amount: 5000 }, as: 'invoice' }
+ *   { op: 'relate', type: 'Deal', id: 'deal_abc', relationship: 'invoice', targetType: 'Invoice', targetId: '$invoice' }
+ *   { op: 'unrelate', relationshipId: 'rel_...' }
+ *   (plus the create/update/delete/verb operations of POST /batch)
+ *
+ * The first failing step rolls back the whole transaction (unrelating an
+ * unknown relationship fails with 404). Events, including Relationship.relate
+ * and Relationship.unrelate for links, share meta.correlationId and are
+ * dispatched only after commit.
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv, TransactionStep } from '../types'
+import { getStub } from '../lib/tenant'
+
+const app = new Hono<AppEnv>()
+
+/**
+ * POST /transactions — run steps in one transaction
+ */
+app.post('/', async (c) => {
+  const body = await c.req.json<{ steps?: TransactionStep[]; correlationId?: string }>()
+  const stub = getStub(c)
+  const tenantCtx = c.get('tenantContext')
+
+  const result = await stub.transaction(body.steps ?? [], {
+    actor: c.get('actor'),
+    tenantId: tenantCtx?.tenantId,
+    contextUrl: tenantCtx?.contextUrl,
+    correlationId: body.correlationId,
+  })
+
+  return c.json(
+    { success: result.success, data: result.data, error: result.error, meta: result.meta },
+    result.status as 200 | 400 | 403 | 404 | 409 | 422 | 500,
+  )
+})
+
+export default app
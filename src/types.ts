@@ -5,7 +5,7 @@
 /**
  * Standard API response envelope
  */
-export type ApiResponse<T = unknown> = { success: true; data: T; meta?: { total?: number; limit?: number; offset?: number } } | { success: false; error: string }
+export type ApiResponse<T = unknown> = { success: true; data: T; meta?: { total?: number; limit?: number; offset?: number; nextCursor?: string } } | { success: false; error: string }
 
 /**
  * Service binding interface for Cloudflare Worker-to-Worker RPC.
@@ -33,10 +33,33 @@ export interface Env {
   OAUTH: ServiceBinding
   /** Events service binding */
   EVENTS: ServiceBinding
+  /** Worker Loader for running verb hooks in isolated, network-less Workers */
+  LOADER: WorkerLoader
+  /** Bearer token for admin-only operations (hard purge); unset disables them */
+  ADMIN_TOKEN?: string
+  /** Events between automatic entity snapshots (default 100, '0' disables them) */
+  SNAPSHOT_INTERVAL?: string
+  /** 'true' moves superseded entity snapshots from SQLite to BUCKET */
+  SNAPSHOT_OFFLOAD?: string
   /** Environment name */
   ENVIRONMENT: string
 }
 
+/**
+ * Optional vars read by ObjectsDO that wrangler.jsonc leaves unset, so
+ * `wrangler types` does not generate them
+ */
+declare global {
+  namespace Cloudflare {
+    interface Env {
+      /** Events between automatic entity snapshots (default 100, '0' disables them) */
+      SNAPSHOT_INTERVAL?: string
+      /** 'true' moves superseded entity snapshots from SQLite to BUCKET */
+      SNAPSHOT_OFFLOAD?: string
+    }
+  }
+}
+
 /**
  * Tenant context resolved from URL patterns, headers, or auth
  */
@@ -61,6 +84,8 @@ export interface Variables {
   tenant: string
   /** Full tenant context with journey/system/industry info */
   tenantContext: TenantContext
+  /** Caller identity from the X-Actor header ('anonymous' if absent) */
+  actor: string
 }
 
 /**
@@ -116,6 +141,18 @@ export interface VerbConjugation {
   reverseAt: string
 }
 
+/**
+ * State transition declared by a verb, e.g. `close: 'Negotiation => Closed'`
+ */
+export interface VerbTransition {
+  /** Enum field the verb moves between states */
+  field: string
+  /** States the verb may run from ('*' allows any state) */
+  from: string[]
+  /** State the field is set to when the verb runs */
+  to: string
+}
+
 /**
  * Stored noun schema (JSON-serializable version of NounSchema)
  */
@@ -127,6 +164,12 @@ export interface StoredNounSchema {
   fields: Record<string, ParsedProperty>
   relationships: Record<string, ParsedProperty>
   verbs: Record<string, VerbConjugation>
+  /** State machine transitions keyed by verb (absent on schemas stored before transitions existed) */
+  transitions?: Record<string, VerbTransition>
+  /** Declared input parameters keyed by verb, then parameter name (absent on older schemas) */
+  verbInputs?: Record<string, Record<string, ParsedProperty>>
+  /** false disables the automatic `<event>At` / `<event>By` stamps on verb execution and `createdBy` / `updatedBy` on writes */
+  stampVerbs?: boolean
   disabledVerbs: string[]
   raw: Record<string, string | null>
 }
@@ -164,6 +207,7 @@ export interface VerbEvent {
  * Hook registration
  */
 export interface Hook {
+  id: number
   noun: string
   verb: string
   phase: 'before' | 'after'
@@ -171,6 +215,147 @@ export interface Hook {
   createdAt: string
 }
 
+/**
+ * One operation of a POST /batch request
+ */
+export type BatchOperation =
+  | { op: 'create'; type: string; data: Record<string, unknown> }
+  | { op: 'update'; type: string; id: string; data: Record<string, unknown>; ifMatch?: string }
+  | { op: 'delete'; type: string; id: string }
+  | { op: 'verb'; type: string; id: string; verb: string; data?: Record<string, unknown> }
+
+/**
+ * Batch mode: 'atomic' rolls everything back on the first failure,
+ * 'bestEffort' skips failed operations and commits the rest
+ */
+export type BatchMode = 'atomic' | 'bestEffort'
+
+/**
+ * Outcome of one batch operation
+ */
+export interface BatchResult {
+  /** Position of the operation in the request */
+  index: number
+  success: boolean
+  status: number
+  data?: NounInstance
+  error?: string
+  meta?: { eventId?: string; errors?: FieldError[]; field?: string; conflictId?: string; currentVersion?: number; expectedVersion?: number }
+}
+
+/**
+ * One step of a POST /transactions request. Create steps may be named with
+ * `as` so later steps can refer to the new entity as `$name`.
+ */
+export type TransactionStep =
+  | (Extract<BatchOperation, { op: 'create' }> & { as?: string })
+  | Exclude<BatchOperation, { op: 'create' }>
+  | { op: 'relate'; type: string; id: string; relationship: string; targetType: string; targetId: string }
+  | { op: 'unrelate'; relationshipId: string }
+
+/**
+ * Outcome of one transaction step (relate steps return the new relationship)
+ */
+export interface TransactionResult extends Omit<BatchResult, 'data'> {
+  data?: NounInstance | Relationship
+}
+
+/**
+ * A data subject for export/erasure: an entity ID, or a field value such as
+ * an email (optionally limited to one noun)
+ */
+export interface DataSubject {
+  type?: string
+  id?: string
+  field?: string
+  value?: string | number
+}
+
+/**
+ * Everything stored about a data subject (right-of-access bundle)
+ */
+export interface SubjectExport {
+  subject: DataSubject
+  generatedAt: string
+  entities: NounInstance[]
+  events: FullEvent[]
+  relationships: Relationship[]
+  dispatchLog: Record<string, unknown>[]
+}
+
+/**
+ * The event that last changed a field (see GET /entities/:type/:id/blame)
+ */
+export interface FieldBlame {
+  value: unknown
+  eventId: string
+  verb: string
+  timestamp: string
+  /** null for events logged before actors were recorded */
+  actor: string | null
+  /** Entity $version the event produced */
+  version: number
+}
+
+/**
+ * Query options for listing entities (see GET /entities/:type)
+ */
+export interface ListEntitiesParams {
+  limit?: number
+  offset?: number
+  /** JSON filter with Mongo-style operators */
+  filter?: string
+  /** JSON sort on one field, e.g. {"name":1} */
+  sort?: string
+  /** Opaque keyset cursor from meta.nextCursor */
+  cursor?: string
+  count?: boolean
+  fields?: string
+  expand?: string
+  includeDeleted?: boolean
+  /** Full-text search query */
+  q?: string
+  /** List the collection as of this timestamp */
+  asOf?: string
+}
+
+/**
+ * A full-text search result: the matching entity, its relevance (higher is
+ * better) and an HTML-escaped snippet with matches wrapped in <mark>
+ */
+export interface SearchHit {
+  $id: string
+  $type: string
+  score: number
+  snippet: string
+  entity: NounInstance
+}
+
+/**
+ * How long a tenant keeps events and dispatch log in SQLite before the
+ * archiver moves them to R2 (see PUT /tenants/:id/retention)
+ */
+export interface RetentionPolicy {
+  /** Days of events kept hot */
+  hotDays: number
+  /** Days of integration dispatch log kept hot */
+  dispatchLogDays: number
+}
+
+/**
+ * An archived segment of events or dispatch log rows in R2
+ */
+export interface ArchiveSegment {
+  id: number
+  kind: 'events' | 'dispatch_log'
+  key: string
+  /** Timestamps of the oldest and newest rows in the segment */
+  minTimestamp: string
+  maxTimestamp: string
+  count: number
+  createdAt: string
+}
+
 /**
  * Noun definition input (what the client sends)
  */
@@ -184,6 +369,8 @@ export interface NounDefinitionPayload {
 // ---------------------------------------------------------------------------
 
 import type { FullEvent } from './do/objects-do'
+import type { FieldError } from './lib/validate'
+import type { HookOutcome } from './lib/hook-runner'
 import type { Relationship } from '../../do/core/src/rels'
 
 /**
@@ -194,7 +381,7 @@ import type { Relationship } from '../../do/core/src/rels'
  */
 export interface ObjectsStub {
   // Nouns
-  defineNoun(body: { name: string; definition: Record<string, string | null> }): Promise<{ success: boolean; data?: StoredNounSchema; error?: string; status: number }>
+  defineNoun(body: { name: string; definition: Record<string, string | null>; options?: { stampVerbs?: boolean } }): Promise<{ success: boolean; data?: StoredNounSchema; error?: string; status: number }>
   listNouns(): Promise<{ success: boolean; data: StoredNounSchema[] }>
   getNounSchema(name: string): Promise<{ success: boolean; data?: StoredNounSchema; error?: string; status: number }>
 
@@ -204,28 +391,49 @@ export interface ObjectsStub {
   conjugate(body: { verb: string }): Promise<{ success: boolean; data?: Record<string, string>; error?: string; status: number }>
 
   // Entities
-  createEntity(type: string, data: Record<string, unknown>, opts?: { tenantId?: string; contextUrl?: string }): Promise<{ success: boolean; data?: NounInstance; error?: string; meta?: { eventId: string }; status: number }>
-  getEntity(type: string, id: string): Promise<{ success: boolean; data?: NounInstance; error?: string; etag?: string; status: number }>
-  listEntities(type: string, params: { limit?: number; offset?: number; filter?: string; sort?: string }): Promise<{ success: boolean; data?: NounInstance[]; error?: string; meta?: { total: number; limit: number; offset: number; hasMore: boolean }; status: number }>
-  updateEntity(type: string, id: string, updates: Record<string, unknown>, opts?: { ifMatch?: string }): Promise<{ success: boolean; data?: NounInstance; error?: string; meta?: { eventId?: string; currentVersion?: number; expectedVersion?: number }; etag?: string; status: number }>
-  deleteEntity(type: string, id: string): Promise<{ success: boolean; error?: string; meta?: { eventId: string }; status: number }>
-  executeVerb(type: string, id: string, verb: string, verbData?: Record<string, unknown>): Promise<{ success: boolean; data?: NounInstance; error?: string; meta?: { event: FullEvent }; status: number }>
-  registerHook(type: string, body: { verb: string; phase: 'before' | 'after'; code: string }): Promise<{ success: boolean; data?: { noun: string; verb: string; phase: string }; error?: string; status: number }>
+  createEntity(type: string, data: Record<string, unknown>, opts?: { tenantId?: string; contextUrl?: string; idempotencyKey?: string; actor?: string }): Promise<{ success: boolean; data?: NounInstance; error?: string; meta?: { eventId?: string; errors?: FieldError[]; field?: string; conflictId?: string }; replayed?: boolean; status: number }>
+  upsertEntity(type: string, data: Record<string, unknown>, opts: { upsertOn: string; ifMatch?: string; tenantId?: string; contextUrl?: string; idempotencyKey?: string; actor?: string }): Promise<{ success: boolean; data?: NounInstance; error?: string; meta?: { eventId?: string; created?: boolean; currentVersion?: number; expectedVersion?: number; errors?: FieldError[]; field?: string; conflictId?: string }; etag?: string; replayed?: boolean; status: number }>
+  aggregateEntities(type: string, params: { metrics?: string; groupBy?: string; filter?: string; limit?: number }): Promise<{ success: boolean; data?: Record<string, unknown>[]; error?: string; meta?: { groups: number; hasMore: boolean }; status: number }>
+  getEntity(type: string, id: string, opts?: { fields?: string; expand?: string }): Promise<{ success: boolean; data?: NounInstance; error?: string; etag?: string; status: number }>
+  listEntities(type: string, params: ListEntitiesParams): Promise<{ success: boolean; data?: NounInstance[]; error?: string; meta?: { total?: number; limit: number; offset: number; hasMore: boolean; nextCursor?: string; asOf?: string }; status: number }>
+  updateEntity(type: string, id: string, updates: Record<string, unknown>, opts?: { ifMatch?: string; actor?: string }): Promise<{ success: boolean; data?: NounInstance; error?: string; meta?: { eventId?: string; currentVersion?: number; expectedVersion?: number; errors?: FieldError[]; field?: string; conflictId?: string }; etag?: string; status: number }>
+  deleteEntity(type: string, id: string, opts?: { actor?: string }): Promise<{ success: boolean; error?: string; meta?: { eventId: string }; status: number }>
+  restoreEntity(type: string, id: string, opts?: { actor?: string }): Promise<{ success: boolean; data?: NounInstance; error?: string; meta?: { eventId?: string; field?: string; conflictId?: string }; status: number }>
+  revertEntity(type: string, id: string, toVersion: number, opts?: { ifMatch?: string; restore?: boolean; actor?: string }): Promise<{ success: boolean; data?: NounInstance; error?: string; meta?: { eventId?: string; currentVersion?: number; expectedVersion?: number; errors?: FieldError[]; field?: string; conflictId?: string }; etag?: string; status: number }>
+  purgeEntity(type: string, id: string, opts?: { redactEvents?: boolean }): Promise<{ success: boolean; data?: { relationships: number; redactedEvents: number }; error?: string; meta?: { eventId: string }; status: number }>
+  executeVerb(type: string, id: string, verb: string, verbData?: Record<string, unknown>, opts?: { actor?: string; idempotencyKey?: string }): Promise<{ success: boolean; data?: NounInstance; error?: string; meta?: { event?: FullEvent; errors?: FieldError[]; field?: string; conflictId?: string; hookId?: number }; replayed?: boolean; status: number }>
+  batch(operations: BatchOperation[], opts?: { mode?: BatchMode; actor?: string; tenantId?: string; contextUrl?: string }): Promise<{ success: boolean; data?: BatchResult[]; error?: string; meta?: { mode: BatchMode; committed: boolean; succeeded: number; failed: number }; status: number }>
+  transaction(steps: TransactionStep[], opts?: { actor?: string; tenantId?: string; contextUrl?: string; correlationId?: string }): Promise<{ success: boolean; data?: TransactionResult[]; error?: string; meta?: { correlationId: string; committed: boolean }; status: number }>
+  registerHook(type: string, body: { verb: string; phase: 'before' | 'after'; code: string }): Promise<{ success: boolean; data?: { id: number; noun: string; verb: string; phase: string }; error?: string; status: number }>
+
+  // Search
+  search(q: string, opts?: { type?: string; limit?: number; offset?: number }): Promise<{ success: boolean; data?: SearchHit[]; error?: string; meta?: { limit: number; offset: number; hasMore: boolean }; status: number }>
+
+  // Hooks
+  listHooks(type?: string): Promise<{ success: boolean; data: Hook[] }>
+  getHook(hookId: number): Promise<{ success: boolean; data?: Hook; error?: string; status: number }>
+  updateHook(hookId: number, body: { verb?: string; phase?: 'before' | 'after'; code?: string }): Promise<{ success: boolean; data?: Hook; error?: string; status: number }>
+  deleteHook(hookId: number): Promise<{ success: boolean; error?: string; status: number }>
+  testHook(hookId: number, body: { entity?: Record<string, unknown>; payload?: Record<string, unknown> | null }): Promise<{ success: boolean; data?: HookOutcome; error?: string; status: number }>
 
   // Time Travel
   timeTravelGet(type: string, id: string, params: { asOf?: string; atVersion?: string }): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string; status: number }>
   entityDiff(type: string, id: string, params: { from?: string; to?: string }): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string; status: number }>
   entityHistory(entityType: string, entityId: string): Promise<{ success: boolean; data: FullEvent[] }>
+  entityBlame(type: string, id: string, params: { asOf?: string }): Promise<{ success: boolean; data?: Record<string, FieldBlame | null>; error?: string; status: number }>
+  snapshotEntity(type: string, id: string): Promise<{ success: boolean; data?: { sequence: number; timestamp: string }; error?: string; status: number }>
 
   // Events
-  queryEvents(params: { since?: string; type?: string; entityId?: string; verb?: string; limit?: number }): Promise<{ success: boolean; data: FullEvent[] }>
+  queryEvents(params: { since?: string; type?: string; entityId?: string; verb?: string; correlationId?: string; limit?: number }): Promise<{ success: boolean; data: FullEvent[] }>
   getEvent(eventId: string): Promise<{ success: boolean; data?: FullEvent; error?: string; status: number }>
-  getEventStream(params: { since?: string; types?: string; verbs?: string }): Promise<Response>
+  getEventStream(params: { since?: string; lastEventId?: string; types?: string; verbs?: string }): Promise<Response>
 
   // Subscriptions
-  createSubscription(body: { pattern: string; mode: 'webhook' | 'websocket'; endpoint: string; secret?: string }): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string; status: number }>
+  createSubscription(body: { pattern: string; mode: 'webhook' | 'websocket'; endpoint?: string; secret?: string }): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string; status: number }>
   listSubscriptions(): Promise<{ success: boolean; data: Record<string, unknown>[] }>
   deleteSubscription(subId: string): Promise<{ success: boolean; error?: string; status: number }>
+  /** WebSocket upgrade for GET /subscriptions/ws (WebSockets cannot cross RPC) */
+  fetch(request: Request): Promise<Response>
 
   // Integration Hooks
   createIntegrationHook(body: { entityType: string; verb: string; service: string; method: string; config?: Record<string, unknown> }): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string; status: number }>
@@ -233,6 +441,10 @@ export interface ObjectsStub {
   deleteIntegrationHook(hookId: string): Promise<{ success: boolean; error?: string; status: number }>
   queryDispatchLog(params: { eventId?: string; service?: string; status?: string; limit?: number }): Promise<{ success: boolean; data: Record<string, unknown>[] }>
 
+  // Data subjects (GDPR)
+  exportSubject(subject: DataSubject): Promise<{ success: boolean; data?: SubjectExport; error?: string; status: number }>
+  eraseSubject(subject: DataSubject): Promise<{ success: boolean; data?: { entities: string[]; events: number }; error?: string; status: number }>
+
   // Relationships
   createRelationship(sourceType: string, sourceId: string, relationship: { type: string; targetType: string; targetId: string; data?: Record<string, unknown> }): Promise<{ success: true; data: { id: string; from: string; predicate: string; to: string; createdAt: number } }>
   getRelationships(type: string, id: string, options?: { relType?: string; targetType?: string; direction?: 'outgoing' | 'incoming' | 'both' }): Promise<{ success: true; data: Relationship[] }>
@@ -240,7 +452,7 @@ export interface ObjectsStub {
 
   // Schema
   fullSchema(): Promise<{ success: boolean; data: Record<string, unknown> }>
-  schemaGraph(): Promise<{ success: boolean; data: { nodes: Record<string, unknown>[]; edges: Record<string, unknown>[] } }>
+  schemaGraph(): Promise<{ success: boolean; data: { nodes: Record<string, unknown>[]; edges: Record<string, unknown>[]; transitions: Record<string, unknown>[] } }>
   openAPISpec(): Promise<Record<string, unknown>>
 
   // Tenants
@@ -248,4 +460,16 @@ export interface ObjectsStub {
   tenantInfo(tenantId?: string): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string; status: number }>
   tenantStats(tenantId?: string): Promise<{ success: boolean; data: Record<string, unknown> }>
   deactivateTenant(tenantId?: string): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string; status: number }>
+  retentionInfo(): Promise<{
+    success: boolean
+    data: { policy: RetentionPolicy | null; segments: number; archivedEvents: number; archivedThrough: string | null }
+  }>
+  setRetentionPolicy(policy: unknown): Promise<{ success: boolean; data?: RetentionPolicy | null; error?: string; status: number }>
+  archiveEvents(): Promise<{
+    success: boolean
+    data?: { segments: number; events: number; dispatchLog: number; more: boolean }
+    error?: string
+    status: number
+  }>
+  listArchiveSegments(params?: { kind?: string; limit?: number }): Promise<{ success: boolean; data: ArchiveSegment[] }>
 }
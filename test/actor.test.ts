@@ -0,0 +1,36 @@
+/**
+ * Tests for actor resolution
+ *
+ * Verifies that resolveActor:
+ * - Reads the X-Actor header
+ * - Falls back to 'anonymous' when the header is missing, blank or oversized
+ */
+
+import { describe, it, expect } from 'vitest'
+import { resolveActor, ANONYMOUS_ACTOR } from '../src/lib/actor'
+
+function request(headers: Record<string, string> = {}): Request {
+  return new Request('https://objects.do/entities/Contact', { headers })
+}
+
+describe('resolveActor', () => {
+  it('should read the X-Actor header', () => {
+    expect(resolveActor(request({ 'X-Actor': 'user_abc' }))).toBe('user_abc')
+  })
+
+  it('should trim surrounding whitespace', () => {
+    expect(resolveActor(request({ 'X-Actor': '  user_abc ' }))).toBe('user_abc')
+  })
+
+  it('should fall back to anonymous without a header', () => {
+    expect(resolveActor(request())).toBe(ANONYMOUS_ACTOR)
+  })
+
+  it('should fall back to anonymous for a blank header', () => {
+    expect(resolveActor(request({ 'X-Actor': '   ' }))).toBe(ANONYMOUS_ACTOR)
+  })
+
+  it('should fall back to anonymous for an oversized header', () => {
+    expect(resolveActor(request({ 'X-Actor': 'x'.repeat(257) }))).toBe(ANONYMOUS_ACTOR)
+  })
+})
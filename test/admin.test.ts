@@ -0,0 +1,59 @@
+/**
+ * Tests for admin authorization
+ *
+ * Verifies that isAdminRequest:
+ * - Accepts a Bearer token matching ADMIN_TOKEN
+ * - Rejects missing, malformed and wrong tokens
+ * - Rejects everything when no token is configured
+ *
+ * And that isAdminToken checks RPC credentials the same way
+ */
+
+import { describe, it, expect } from 'vitest'
+import { isAdminRequest, isAdminToken } from '../src/lib/admin'
+
+function request(headers: Record<string, string> = {}): Request {
+  return new Request('https://objects.do/entities/Contact/contact_abc/purge', { method: 'POST', headers })
+}
+
+describe('isAdminRequest', () => {
+  it('should accept the configured token', () => {
+    expect(isAdminRequest(request({ Authorization: 'Bearer s3cret' }), 's3cret')).toBe(true)
+  })
+
+  it('should accept a lowercase scheme', () => {
+    expect(isAdminRequest(request({ Authorization: 'bearer s3cret' }), 's3cret')).toBe(true)
+  })
+
+  it('should reject a wrong token', () => {
+    expect(isAdminRequest(request({ Authorization: 'Bearer s3cre' }), 's3cret')).toBe(false)
+    expect(isAdminRequest(request({ Authorization: 'Bearer s3cretx' }), 's3cret')).toBe(false)
+  })
+
+  it('should reject a missing or non-Bearer header', () => {
+    expect(isAdminRequest(request(), 's3cret')).toBe(false)
+    expect(isAdminRequest(request({ Authorization: 'Basic s3cret' }), 's3cret')).toBe(false)
+  })
+
+  it('should reject everything when no token is configured', () => {
+    expect(isAdminRequest(request({ Authorization: 'Bearer ' }), undefined)).toBe(false)
+    expect(isAdminRequest(request({ Authorization: 'Bearer anything' }), '')).toBe(false)
+  })
+})
+
+describe('isAdminToken', () => {
+  it('should accept the configured token', () => {
+    expect(isAdminToken('s3cret', 's3cret')).toBe(true)
+  })
+
+  it('should reject a missing or wrong credential', () => {
+    expect(isAdminToken(undefined, 's3cret')).toBe(false)
+    expect(isAdminToken('', 's3cret')).toBe(false)
+    expect(isAdminToken('s3cre', 's3cret')).toBe(false)
+  })
+
+  it('should reject everything when no token is configured', () => {
+    expect(isAdminToken('anything', undefined)).toBe(false)
+    expect(isAdminToken('', '')).toBe(false)
+  })
+})
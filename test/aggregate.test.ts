@@ -0,0 +1,122 @@
+/**
+ * Tests for the aggregation compiler
+ *
+ * Verifies:
+ * - Metric and group-by specs parse, with clear errors for bad input
+ * - Compiled SQL produces the expected results against a real SQLite engine
+ * - Date buckets (day, week, month) group timestamps correctly
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import Database from 'better-sqlite3'
+import { compileAggregation, parseGroupBy, parseMetrics } from '../src/lib/aggregate'
+
+const ROWS = [
+  { stage: 'Lead', value: 1000, owner: 'ann', created: '2026-01-05T09:00:00.000Z' },
+  { stage: 'Lead', value: 3000, owner: 'bob', created: '2026-01-07T17:30:00.000Z' },
+  { stage: 'Won', value: 5000, owner: 'ann', created: '2026-01-12T08:00:00.000Z' },
+  { stage: 'Won', value: 7000, owner: 'ann', created: '2026-02-02T12:00:00.000Z' },
+  { stage: null, owner: 'cid', created: '2026-02-03T12:00:00.000Z' },
+]
+
+let db: InstanceType<typeof Database>
+
+/** Run an aggregation against the fixture rows */
+function run(metrics: string | undefined, groupBy?: string): Record<string, unknown>[] {
+  const compiled = compileAggregation(parseMetrics(metrics), parseGroupBy(groupBy))
+  const query = `SELECT ${compiled.select} FROM entities${compiled.groupBy ? ` GROUP BY ${compiled.groupBy} ORDER BY ${compiled.groupBy}` : ''}`
+  return db
+    .prepare(query)
+    .all()
+    .map((r) => compiled.toResult(r as Record<string, unknown>))
+}
+
+beforeAll(() => {
+  db = new Database(':memory:')
+  db.exec('CREATE TABLE entities (data TEXT NOT NULL, created_at TEXT NOT NULL, updated_at TEXT NOT NULL)')
+  const insert = db.prepare('INSERT INTO entities (data, created_at, updated_at) VALUES (?, ?, ?)')
+  for (const { created, ...row } of ROWS) insert.run(JSON.stringify(row), created, created)
+})
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+describe('parseMetrics', () => {
+  it('should default to count', () => {
+    expect(parseMetrics(undefined)).toEqual([{ key: 'count', op: 'count' }])
+  })
+
+  it('should parse field metrics', () => {
+    expect(parseMetrics('count, sum:value,count_distinct:owner')).toEqual([
+      { key: 'count', op: 'count' },
+      { key: 'sum:value', op: 'sum', field: 'value' },
+      { key: 'count_distinct:owner', op: 'count_distinct', field: 'owner' },
+    ])
+  })
+
+  it('should reject unknown operations and missing fields', () => {
+    expect(() => parseMetrics('median:value')).toThrow("Unknown metric 'median'")
+    expect(() => parseMetrics('sum')).toThrow('needs a field')
+    expect(() => parseMetrics('sum:$version')).toThrow("Cannot aggregate on '$version'")
+  })
+})
+
+describe('parseGroupBy', () => {
+  it('should parse fields and date buckets', () => {
+    expect(parseGroupBy('stage,$createdAt:week')).toEqual([
+      { key: 'stage', field: 'stage' },
+      { key: '$createdAt:week', field: '$createdAt', bucket: 'week' },
+    ])
+  })
+
+  it('should reject unknown buckets and too many keys', () => {
+    expect(() => parseGroupBy('$createdAt:fortnight')).toThrow("Unknown date bucket 'fortnight'")
+    expect(() => parseGroupBy('a,b,c,d,e,f')).toThrow('At most 5 group keys')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Results
+// ---------------------------------------------------------------------------
+
+describe('compileAggregation', () => {
+  it('should compute every metric without grouping', () => {
+    expect(run('count,sum:value,avg:value,min:value,max:value,count:stage,count_distinct:owner')).toEqual([
+      { count: 5, 'sum:value': 16000, 'avg:value': 4000, 'min:value': 1000, 'max:value': 7000, 'count:stage': 4, 'count_distinct:owner': 3 },
+    ])
+  })
+
+  it('should group by a field, with nulls as their own group', () => {
+    expect(run('count,sum:value', 'stage')).toEqual([
+      { stage: null, count: 1, 'sum:value': null },
+      { stage: 'Lead', count: 2, 'sum:value': 4000 },
+      { stage: 'Won', count: 2, 'sum:value': 12000 },
+    ])
+  })
+
+  it('should group by several keys', () => {
+    expect(run('count', 'owner,stage')).toEqual([
+      { owner: 'ann', stage: 'Lead', count: 1 },
+      { owner: 'ann', stage: 'Won', count: 2 },
+      { owner: 'bob', stage: 'Lead', count: 1 },
+      { owner: 'cid', stage: null, count: 1 },
+    ])
+  })
+
+  it('should bucket timestamps by week (keyed by Monday) and month', () => {
+    expect(run('count', '$createdAt:week')).toEqual([
+      { '$createdAt:week': '2026-01-05', count: 2 },
+      { '$createdAt:week': '2026-01-12', count: 1 },
+      { '$createdAt:week': '2026-02-02', count: 2 },
+    ])
+    expect(run('count', '$createdAt:month')).toEqual([
+      { '$createdAt:month': '2026-01', count: 3 },
+      { '$createdAt:month': '2026-02', count: 2 },
+    ])
+  })
+
+  it('should bucket by day', () => {
+    expect(run('count', '$createdAt:day')[0]).toEqual({ '$createdAt:day': '2026-01-05', count: 1 })
+  })
+})
@@ -0,0 +1,254 @@
+/**
+ * Integration tests for event log archival
+ *
+ * Verifies:
+ * - setRetentionPolicy() validates the policy and schedules the alarm
+ * - archiveEvents() moves events past the hot window to R2 segments and indexes
+ *   them, keeping each entity's newest state-bearing event hot
+ * - queryEvents, entityHistory and timeTravelGet read through to the archive
+ * - Sequences continue across archived events; asOf listings before the hot
+ *   window are rejected
+ * - Dispatch log rows are archived on their own window
+ * - Erasing a data subject redacts archived events too
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createTestDO } from './helpers/objects-do'
+import { decodeSegment } from '../src/lib/archive'
+
+// ---------------------------------------------------------------------------
+// Mocks — cloudflare:workers is only available in the Workers runtime
+// ---------------------------------------------------------------------------
+
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+
+/** In-memory stand-in for the R2 bucket, holding segments as bytes */
+function createMockBucket() {
+  const objects = new Map<string, Uint8Array>()
+  return {
+    objects,
+    async put(key: string, value: Uint8Array) {
+      objects.set(key, value)
+    },
+    async get(key: string) {
+      const value = objects.get(key)
+      return value === undefined ? null : { body: new Blob([value]).stream() }
+    },
+    async delete(keys: string | string[]) {
+      for (const key of Array.isArray(keys) ? keys : [keys]) objects.delete(key)
+    },
+  }
+}
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe('ObjectsDO event archival', () => {
+  let doInstance: any
+  let bucket: ReturnType<typeof createMockBucket>
+  let dealId: string
+  let contactId: string
+
+  function at(timestamp: string): void {
+    vi.setSystemTime(new Date(timestamp))
+  }
+
+  /** Sequences of the entity's events still held in SQLite */
+  function hotSequences(id: string): number[] {
+    return doInstance.sql
+      .exec('SELECT sequence FROM events WHERE entity_id = ? ORDER BY sequence', id)
+      .toArray()
+      .map((r: { sequence: number }) => r.sequence)
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    bucket = createMockBucket()
+    doInstance = await createTestDO({ BUCKET: bucket })
+    doInstance.defineNoun({ name: 'Deal', definition: { name: 'string!', value: 'number' } })
+    doInstance.defineNoun({ name: 'Contact', definition: { name: 'string!', email: 'string' } })
+
+    at('2026-01-01T00:00:00Z')
+    dealId = (await doInstance.createEntity('Deal', { name: 'Acme', value: 1 })).data.$id
+    at('2026-01-05T00:00:00Z')
+    contactId = (await doInstance.createEntity('Contact', { name: 'Alice', email: 'alice@acme.com' })).data.$id
+    at('2026-01-10T00:00:00Z')
+    await doInstance.updateEntity('Deal', dealId, { value: 2 })
+    at('2026-01-20T00:00:00Z')
+    await doInstance.updateEntity('Deal', dealId, { value: 3 })
+    at('2026-03-01T00:00:00Z')
+    await doInstance.updateEntity('Deal', dealId, { value: 4 })
+
+    // 30 days hot from 2026-03-05: cutoff 2026-02-03
+    at('2026-03-05T00:00:00Z')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  // -------------------------------------------------------------------------
+  // Policy
+  // -------------------------------------------------------------------------
+
+  it('should validate, store and clear the retention policy', async () => {
+    const setAlarm = vi.spyOn(doInstance.ctx.storage, 'setAlarm')
+
+    expect((await doInstance.setRetentionPolicy({ hotDays: 0 })).status).toBe(400)
+    expect(await doInstance.setRetentionPolicy({ hotDays: 30 })).toMatchObject({ success: true, data: { hotDays: 30, dispatchLogDays: 30 } })
+    expect(setAlarm).toHaveBeenCalledWith(Date.parse('2026-03-05T00:00:00Z'))
+    expect(doInstance.retentionInfo().data).toEqual({ policy: { hotDays: 30, dispatchLogDays: 30 }, segments: 0, archivedEvents: 0, archivedThrough: null })
+
+    await doInstance.setRetentionPolicy(null)
+    expect(doInstance.retentionInfo().data.policy).toBeNull()
+    expect((await doInstance.archiveEvents()).status).toBe(400)
+  })
+
+  it('should archive from the alarm once a run is due, then schedule the next', async () => {
+    await doInstance.setRetentionPolicy({ hotDays: 30 })
+    const setAlarm = vi.spyOn(doInstance.ctx.storage, 'setAlarm')
+
+    await doInstance.alarm()
+
+    expect(doInstance.retentionInfo().data).toMatchObject({ segments: 1, archivedEvents: 2, archivedThrough: '2026-02-03T00:00:00.000Z' })
+    expect(setAlarm).toHaveBeenCalledWith(Date.parse('2026-03-05T01:00:00Z'))
+  })
+
+  // -------------------------------------------------------------------------
+  // Archiving
+  // -------------------------------------------------------------------------
+
+  it('should move events past the hot window to an indexed R2 segment', async () => {
+    await doInstance.setRetentionPolicy({ hotDays: 30 })
+
+    const result = await doInstance.archiveEvents()
+
+    expect(result.data).toEqual({ segments: 1, events: 2, dispatchLog: 0, more: false })
+    // The newest state-bearing event before the cutoff stays hot for each entity
+    expect(hotSequences(dealId)).toEqual([3, 4])
+    expect(hotSequences(contactId)).toEqual([1])
+
+    const [segment] = doInstance.listArchiveSegments().data
+    expect(segment).toMatchObject({ kind: 'events', minTimestamp: '2026-01-01T00:00:00.000Z', maxTimestamp: '2026-01-10T00:00:00.000Z', count: 2 })
+    expect(segment.key).toMatch(/^test-do-id\/_archive\/events\/2026-01-01\/.+\.ndjson\.gz$/)
+
+    const rows = await decodeSegment(new Blob([bucket.objects.get(segment.key)!]).stream())
+    expect(rows.map((r) => r.sequence)).toEqual([1, 2])
+  })
+
+  it('should require the BUCKET binding', async () => {
+    doInstance = await createTestDO()
+    await doInstance.setRetentionPolicy({ hotDays: 30 })
+
+    expect((await doInstance.archiveEvents()).status).toBe(503)
+  })
+
+  it('should archive dispatch log rows on their own window', async () => {
+    for (const [id, timestamp] of [
+      ['dl_1', '2026-02-20T00:00:00.000Z'],
+      ['dl_2', '2026-03-04T00:00:00.000Z'],
+    ]) {
+      doInstance.sql.exec(
+        'INSERT INTO dispatch_log (id, event_id, hook_id, service, method, status, status_code, error, duration_ms, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        id,
+        'evt_x',
+        'hook_x',
+        'CRM',
+        'sync',
+        'success',
+        200,
+        null,
+        5,
+        timestamp,
+      )
+    }
+    await doInstance.setRetentionPolicy({ hotDays: 90, dispatchLogDays: 7 })
+
+    const result = await doInstance.archiveEvents()
+
+    expect(result.data).toEqual({ segments: 1, events: 0, dispatchLog: 1, more: false })
+    expect(doInstance.sql.exec('SELECT id FROM dispatch_log').toArray()).toEqual([{ id: 'dl_2' }])
+    expect(doInstance.listArchiveSegments({ kind: 'dispatch_log' }).data[0].key).toMatch(/_archive\/dispatch_log\/2026-02-20\//)
+  })
+
+  // -------------------------------------------------------------------------
+  // Read-through
+  // -------------------------------------------------------------------------
+
+  describe('after archiving', () => {
+    beforeEach(async () => {
+      await doInstance.setRetentionPolicy({ hotDays: 30 })
+      await doInstance.archiveEvents()
+    })
+
+    it('should read entity history through the archive', async () => {
+      const history = (await doInstance.entityHistory('Deal', dealId)).data
+
+      expect(history.map((e: { sequence: number }) => e.sequence)).toEqual([1, 2, 3, 4])
+      expect(history[0].after).toMatchObject({ value: 1 })
+    })
+
+    it('should query archived events once the hot page runs out', async () => {
+      const all = (await doInstance.queryEvents({ limit: 10 })).data
+      expect(all.map((e: { timestamp: string }) => e.timestamp.slice(0, 10))).toEqual(['2026-03-01', '2026-01-20', '2026-01-10', '2026-01-05', '2026-01-01'])
+
+      const deal = (await doInstance.queryEvents({ entityId: dealId, limit: 10 })).data
+      expect(deal.map((e: { sequence: number }) => e.sequence)).toEqual([4, 3, 2, 1])
+
+      const recent = (await doInstance.queryEvents({ since: '2026-01-15T00:00:00Z' })).data
+      expect(recent).toHaveLength(2)
+    })
+
+    it('should time travel to archived versions and timestamps', async () => {
+      expect((await doInstance.timeTravelGet('Deal', dealId, { atVersion: '1' })).data).toMatchObject({ value: 1, $version: 1 })
+      expect((await doInstance.timeTravelGet('Deal', dealId, { asOf: '2026-01-12T00:00:00Z' })).data).toMatchObject({ value: 2, $version: 2 })
+
+      const diff = await doInstance.entityDiff('Deal', dealId, { from: '1', to: '4' })
+      expect(diff.data.changes).toEqual([
+        { field: 'value', from: 1, to: 4 },
+        { field: 'updatedBy', from: undefined, to: 'anonymous' },
+      ])
+    })
+
+    it('should continue sequences past archived events', async () => {
+      await doInstance.setRetentionPolicy({ hotDays: 1 })
+      await doInstance.archiveEvents()
+      expect(hotSequences(contactId)).toEqual([1])
+
+      await doInstance.updateEntity('Deal', dealId, { value: 5 })
+
+      expect(hotSequences(dealId)).toEqual([4, 5])
+    })
+
+    it('should reject asOf listings from before the hot window', async () => {
+      expect((await doInstance.listEntities('Deal', { asOf: '2026-01-15T00:00:00Z' })).status).toBe(400)
+
+      const listed = await doInstance.listEntities('Deal', { asOf: '2026-02-10T00:00:00Z' })
+      expect(listed.data).toEqual([expect.objectContaining({ $id: dealId, value: 3 })])
+    })
+
+    it('should redact archived events when a data subject is erased', async () => {
+      at('2026-01-06T00:00:00Z')
+      await doInstance.updateEntity('Contact', contactId, { name: 'Alice Smith' })
+      at('2026-03-05T00:00:00Z')
+      await doInstance.archiveEvents()
+      expect(hotSequences(contactId)).toEqual([2])
+
+      const erased = await doInstance.eraseSubject({ field: 'email', value: 'alice@acme.com' })
+      expect(erased.data.events).toBe(2)
+
+      const history = (await doInstance.entityHistory('Contact', contactId)).data
+      expect(history.map((e: { verb: string }) => e.verb)).toEqual(['create', 'update', 'erase'])
+      expect(JSON.stringify(history)).not.toContain('alice@acme.com')
+      const keys = [...bucket.objects.keys()]
+      for (const key of keys) {
+        const rows = await decodeSegment(new Blob([bucket.objects.get(key)!]).stream())
+        expect(JSON.stringify(rows)).not.toContain('alice@acme.com')
+      }
+    })
+  })
+})
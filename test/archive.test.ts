@@ -0,0 +1,60 @@
+/**
+ * Tests for the event log archival helpers
+ *
+ * Verifies:
+ * - Retention policies accept whole numbers of days in range, defaulting dispatchLogDays
+ * - Cutoffs and segment keys are derived from the policy and first row
+ * - Segments round-trip rows through gzip-compressed NDJSON
+ */
+
+import { describe, it, expect } from 'vitest'
+import { decodeSegment, encodeSegment, MAX_RETENTION_DAYS, parseRetentionPolicy, retentionCutoff, segmentKey } from '../src/lib/archive'
+
+// ---------------------------------------------------------------------------
+// Retention policies
+// ---------------------------------------------------------------------------
+
+describe('parseRetentionPolicy', () => {
+  it('should default dispatchLogDays to hotDays', () => {
+    expect(parseRetentionPolicy({ hotDays: 90 })).toEqual({ hotDays: 90, dispatchLogDays: 90 })
+    expect(parseRetentionPolicy({ hotDays: 90, dispatchLogDays: 7 })).toEqual({ hotDays: 90, dispatchLogDays: 7 })
+  })
+
+  it('should reject missing, fractional and out-of-range days', () => {
+    expect(() => parseRetentionPolicy(undefined)).toThrow(/hotDays/)
+    expect(() => parseRetentionPolicy({ hotDays: '90' })).toThrow(/hotDays/)
+    expect(() => parseRetentionPolicy({ hotDays: 1.5 })).toThrow(/hotDays/)
+    expect(() => parseRetentionPolicy({ hotDays: 0 })).toThrow(/hotDays/)
+    expect(() => parseRetentionPolicy({ hotDays: 30, dispatchLogDays: MAX_RETENTION_DAYS + 1 })).toThrow(/dispatchLogDays/)
+  })
+})
+
+describe('retentionCutoff', () => {
+  it('should count whole days back from now', () => {
+    expect(retentionCutoff(30, Date.parse('2026-03-31T12:00:00Z'))).toBe('2026-03-01T12:00:00.000Z')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Segments
+// ---------------------------------------------------------------------------
+
+describe('segmentKey', () => {
+  it('should partition segments by kind and the day of their first row', () => {
+    expect(segmentKey('acme/', 'events', '2026-01-05T10:00:00.000Z', 'k3JqP0aZ')).toBe('acme/_archive/events/2026-01-05/k3JqP0aZ.ndjson.gz')
+  })
+})
+
+describe('encodeSegment / decodeSegment', () => {
+  it('should round-trip rows through gzip-compressed NDJSON', async () => {
+    const rows = [
+      { id: 'evt_1', sequence: 1, after_state: '{"name":"Alice\\nSmith"}' },
+      { id: 'evt_2', sequence: 2, after_state: null },
+    ]
+
+    const bytes = await encodeSegment(rows)
+
+    expect([bytes[0], bytes[1]]).toEqual([0x1f, 0x8b])
+    expect(await decodeSegment(new Blob([bytes]).stream())).toEqual(rows)
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Integration tests for ObjectsDO.batch
+ *
+ * Verifies:
+ * - Operations run in order inside one transaction, with a result per operation
+ * - Atomic batches roll back entirely on the first failure and publish nothing
+ * - Best-effort batches skip failed operations and commit the rest
+ * - Later operations see writes from earlier ones in the same batch
+ * - Malformed operations and verbs with before hooks are rejected
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createTestDO, published } from './helpers/objects-do'
+
+// ---------------------------------------------------------------------------
+// Mocks — cloudflare:workers is only available in the Workers runtime; the
+// emitter records CDC changes in `published` so tests can check them
+// ---------------------------------------------------------------------------
+
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe('ObjectsDO.batch', () => {
+  let doInstance: any
+
+  beforeEach(async () => {
+    published.length = 0
+    doInstance = await createTestDO()
+    doInstance.defineNoun({
+      name: 'Contact',
+      definition: { name: 'string!', email: 'string##', stage: 'Lead | Qualified', qualify: 'Lead => Qualified' },
+    })
+  })
+
+  async function countContacts() {
+    const result = await doInstance.listEntities('Contact', {})
+    return result.meta.total as number
+  }
+
+  it('should create many entities in one call with a result per operation', async () => {
+    const operations = Array.from({ length: 50 }, (_, i) => ({ op: 'create', type: 'Contact', data: { name: `Contact ${i}`, email: `c${i}@test.com` } }))
+
+    const result = await doInstance.batch(operations)
+
+    expect(result.success).toBe(true)
+    expect(result.status).toBe(200)
+    expect(result.meta).toEqual({ mode: 'atomic', committed: true, succeeded: 50, failed: 0 })
+    expect(result.data).toHaveLength(50)
+    expect(result.data[7]).toEqual(expect.objectContaining({ index: 7, success: true, status: 201 }))
+    expect(result.data[7].data.name).toBe('Contact 7')
+    expect(await countContacts()).toBe(50)
+    expect(published).toHaveLength(50)
+    expect((await doInstance.queryEvents({ type: 'Contact', verb: 'create', limit: 100 })).data).toHaveLength(50)
+  })
+
+  it('should run update, verb and delete on entities created earlier in the batch', async () => {
+    const result = await doInstance.batch([
+      { op: 'create', type: 'Contact', data: { $id: 'contact_a', name: 'Alice', stage: 'Lead' } },
+      { op: 'create', type: 'Contact', data: { $id: 'contact_b', name: 'Bob' } },
+      { op: 'update', type: 'Contact', id: 'contact_a', data: { email: 'alice@test.com' }, ifMatch: '"1"' },
+      { op: 'verb', type: 'Contact', id: 'contact_a', verb: 'qualify' },
+      { op: 'delete', type: 'Contact', id: 'contact_b' },
+    ])
+
+    expect(result.success).toBe(true)
+    expect(result.data.map((r: any) => r.status)).toEqual([201, 201, 200, 200, 200])
+    expect(result.data[3].data).toEqual(expect.objectContaining({ stage: 'Qualified', email: 'alice@test.com', $version: 3 }))
+
+    const alice = await doInstance.getEntity('Contact', 'contact_a')
+    expect(alice.data.stage).toBe('Qualified')
+    expect((await doInstance.getEntity('Contact', 'contact_b')).status).toBe(404)
+    expect((await doInstance.entityHistory('Contact', 'contact_a')).data.map((e: any) => e.verb)).toEqual(['create', 'update', 'qualify'])
+  })
+
+  it('should roll back an atomic batch on the first failure', async () => {
+    const result = await doInstance.batch([
+      { op: 'create', type: 'Contact', data: { name: 'Alice', email: 'a@test.com' } },
+      { op: 'create', type: 'Contact', data: { email: 'missing-name@test.com' } },
+      { op: 'create', type: 'Contact', data: { name: 'Carol' } },
+    ])
+
+    expect(result.success).toBe(false)
+    expect(result.status).toBe(422)
+    expect(result.error).toContain('Operation 1 failed')
+    expect(result.meta).toEqual({ mode: 'atomic', committed: false, succeeded: 0, failed: 1 })
+    expect(result.data).toHaveLength(2)
+    expect(result.data[1].meta.errors[0].field).toBe('name')
+
+    expect(await countContacts()).toBe(0)
+    expect((await doInstance.queryEvents({})).data).toHaveLength(0)
+    expect(published).toHaveLength(0)
+  })
+
+  it('should skip failed operations in best-effort mode', async () => {
+    const result = await doInstance.batch(
+      [
+        { op: 'create', type: 'Contact', data: { name: 'Alice', email: 'dup@test.com' } },
+        { op: 'create', type: 'Contact', data: { name: 'Bob', email: 'dup@test.com' } },
+        { op: 'update', type: 'Contact', id: 'contact_missing', data: { name: 'Nobody' } },
+        { op: 'create', type: 'Contact', data: { name: 'Carol' } },
+      ],
+      { mode: 'bestEffort' },
+    )
+
+    expect(result.success).toBe(true)
+    expect(result.meta).toEqual({ mode: 'bestEffort', committed: true, succeeded: 2, failed: 2 })
+    expect(result.data.map((r: any) => r.status)).toEqual([201, 409, 404, 201])
+    expect(await countContacts()).toBe(2)
+    expect(published).toHaveLength(2)
+  })
+
+  it('should reject malformed batches and operations', async () => {
+    expect((await doInstance.batch([])).status).toBe(400)
+    expect((await doInstance.batch([{ op: 'create', type: 'Contact', data: { name: 'A' } }], { mode: 'sometimes' })).status).toBe(400)
+    expect((await doInstance.batch(Array.from({ length: 1001 }, () => ({ op: 'delete', type: 'Contact', id: 'x' })))).status).toBe(400)
+
+    const result = await doInstance.batch(
+      [
+        { op: 'upsert', type: 'Contact' },
+        { op: 'verb', type: 'Contact', id: 'contact_a' },
+        { op: 'update', type: 'Contact', id: 'contact_a', data: [] },
+      ],
+      { mode: 'bestEffort' },
+    )
+    expect(result.data.map((r: any) => r.error)).toEqual([
+      'op must be one of: create, update, delete, verb',
+      'verb is required for verb operations',
+      'data must be an object',
+    ])
+  })
+
+  it('should reject verbs with before hooks', async () => {
+    await doInstance.batch([{ op: 'create', type: 'Contact', data: { $id: 'contact_a', name: 'Alice', stage: 'Lead' } }])
+    doInstance.registerHook('Contact', { verb: 'qualify', phase: 'before', code: 'return' })
+
+    const result = await doInstance.batch([{ op: 'verb', type: 'Contact', id: 'contact_a', verb: 'qualify' }])
+
+    expect(result.status).toBe(400)
+    expect(result.error).toContain('before hooks')
+    expect((await doInstance.getEntity('Contact', 'contact_a')).data.stage).toBe('Lead')
+  })
+})
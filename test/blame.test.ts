@@ -0,0 +1,104 @@
+/**
+ * Integration tests for event actors and field-level blame
+ *
+ * Verifies:
+ * - Writes record their actor on the event (anonymous when none is given)
+ * - entityBlame names the event, verb, timestamp, actor and version that last changed each field
+ * - Resending an unchanged value does not take over the blame
+ * - asOf blames the state at a past point in time
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createTestDO } from './helpers/objects-do'
+
+// ---------------------------------------------------------------------------
+// Mocks — cloudflare:workers is only available in the Workers runtime
+// ---------------------------------------------------------------------------
+
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe('ObjectsDO.entityBlame', () => {
+  let doInstance: any
+  let id: string
+  let createdEventId: string
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'))
+
+    doInstance = await createTestDO()
+    doInstance.defineNoun({ name: 'Contact', definition: { name: 'string!', phone: 'string', stage: 'Lead | Qualified', qualify: 'Lead => Qualified' } })
+    const created = await doInstance.createEntity('Contact', { name: 'Alice', phone: '555-0100', stage: 'Lead' }, { actor: 'user_ann' })
+    id = created.data.$id
+    createdEventId = created.meta.eventId
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should record the actor of each write on its event', async () => {
+    await doInstance.updateEntity('Contact', id, { phone: '555-0199' })
+
+    const [created, updated] = (await doInstance.entityHistory('Contact', id)).data
+    expect(created.actor).toBe('user_ann')
+    expect(updated.actor).toBe('anonymous')
+  })
+
+  it('should name the event that last changed each field', async () => {
+    vi.setSystemTime(new Date('2026-03-05T10:00:00Z'))
+    const updated = await doInstance.updateEntity('Contact', id, { name: 'Alice', phone: '555-0199' }, { actor: 'user_bob' })
+
+    const result = doInstance.entityBlame('Contact', id, {})
+
+    expect(result.success).toBe(true)
+    expect(result.data.name).toEqual({
+      value: 'Alice',
+      eventId: createdEventId,
+      verb: 'create',
+      timestamp: '2026-03-01T10:00:00.000Z',
+      actor: 'user_ann',
+      version: 1,
+    })
+    expect(result.data.phone).toEqual({
+      value: '555-0199',
+      eventId: updated.meta.eventId,
+      verb: 'update',
+      timestamp: '2026-03-05T10:00:00.000Z',
+      actor: 'user_bob',
+      version: 2,
+    })
+  })
+
+  it('should blame fields set by verbs, including their stamps', async () => {
+    const qualified = await doInstance.executeVerb('Contact', id, 'qualify', undefined, { actor: 'user_cy' })
+
+    const { data } = doInstance.entityBlame('Contact', id, {})
+
+    expect(data.stage).toMatchObject({ value: 'Qualified', verb: 'qualify', actor: 'user_cy', version: 2, eventId: qualified.meta.event.$id })
+    expect(data.qualifiedBy).toMatchObject({ value: 'user_cy', verb: 'qualify' })
+    expect(Object.keys(data).every((field) => !field.startsWith('$'))).toBe(true)
+  })
+
+  it('should blame the state as of a past timestamp', async () => {
+    vi.setSystemTime(new Date('2026-03-05T10:00:00Z'))
+    await doInstance.updateEntity('Contact', id, { phone: '555-0199' }, { actor: 'user_bob' })
+    vi.setSystemTime(new Date('2026-03-09T10:00:00Z'))
+    await doInstance.revertEntity('Contact', id, 1, { actor: 'user_dee' })
+
+    expect(doInstance.entityBlame('Contact', id, { asOf: '2026-03-02' }).data.phone).toMatchObject({ value: '555-0100', actor: 'user_ann' })
+    expect(doInstance.entityBlame('Contact', id, { asOf: '2026-03-06' }).data.phone).toMatchObject({ value: '555-0199', actor: 'user_bob' })
+    expect(doInstance.entityBlame('Contact', id, {}).data.phone).toMatchObject({ value: '555-0100', verb: 'revert', actor: 'user_dee', version: 3 })
+  })
+
+  it('should return 404 before the entity existed and 400 for invalid timestamps', async () => {
+    expect(doInstance.entityBlame('Contact', id, { asOf: '2026-02-01' }).status).toBe(404)
+    expect(doInstance.entityBlame('Contact', 'contact_missing', {}).status).toBe(404)
+    expect(doInstance.entityBlame('Contact', id, { asOf: 'yesterday' }).status).toBe(400)
+  })
+})
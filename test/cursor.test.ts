@@ -0,0 +1,110 @@
+/**
+ * Tests for keyset pagination cursors
+ *
+ * Verifies:
+ * - Cursors round-trip through an opaque URL-safe token
+ * - Malformed tokens are rejected
+ * - keysetCondition pages through a real SQLite table without gaps or
+ *   duplicates, including NULL sort values, ties and rows inserted mid-way
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import Database from 'better-sqlite3'
+import { encodeCursor, decodeCursor, keysetCondition, type Cursor } from '../src/lib/cursor'
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+describe('encodeCursor / decodeCursor', () => {
+  it('should round-trip a cursor', () => {
+    const cursor: Cursor = { s: 'created_at', d: 'DESC', v: '2026-01-01T00:00:00.000Z', id: 'contact_abc' }
+    const token = encodeCursor(cursor)
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(decodeCursor(token)).toEqual(cursor)
+  })
+
+  it('should round-trip non-ASCII values and nulls', () => {
+    const cursor: Cursor = { s: 'name', d: 'ASC', v: 'Zoë Åström', id: 'contact_x' }
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor)
+    expect(decodeCursor(encodeCursor({ ...cursor, v: null }))).toEqual({ ...cursor, v: null })
+  })
+
+  it('should reject malformed tokens', () => {
+    expect(() => decodeCursor('not a cursor!')).toThrow('Invalid cursor')
+    expect(() => decodeCursor(encodeCursor({ s: 'x', d: 'UP', v: 1, id: 'a' } as unknown as Cursor))).toThrow('Invalid cursor')
+    expect(() => decodeCursor(btoa('{"s":"x","d":"ASC","v":{},"id":"a"}'))).toThrow('Invalid cursor')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// keysetCondition
+// ---------------------------------------------------------------------------
+
+describe('keysetCondition', () => {
+  let db: InstanceType<typeof Database>
+  const expr = `json_extract(data, '$."score"')`
+
+  beforeEach(() => {
+    db = new Database(':memory:')
+    db.exec('CREATE TABLE entities (id TEXT PRIMARY KEY, data TEXT NOT NULL)')
+    const scores: Array<[string, number | null]> = [
+      ['a', 10],
+      ['b', 20],
+      ['c', 20],
+      ['d', null],
+      ['e', 30],
+      ['f', null],
+      ['g', 20],
+    ]
+    for (const [id, score] of scores) {
+      db.prepare('INSERT INTO entities (id, data) VALUES (?, ?)').run(id, JSON.stringify({ score }))
+    }
+  })
+
+  /** Page through the table with the given direction and page size */
+  function pageAll(d: 'ASC' | 'DESC', size: number): string[] {
+    const seen: string[] = []
+    let cursor: Cursor | null = null
+    for (;;) {
+      const condition: { sql: string; values: (string | number)[] } | null = cursor ? keysetCondition(expr, cursor) : null
+      const rows = db
+        .prepare(`SELECT id, ${expr} AS v FROM entities ${condition ? `WHERE ${condition.sql}` : ''} ORDER BY ${expr} ${d}, id ${d} LIMIT ?`)
+        .all(...(condition?.values ?? []), size) as { id: string; v: number | null }[]
+      if (rows.length === 0) return seen
+      seen.push(...rows.map((r) => r.id))
+      const last = rows[rows.length - 1]!
+      cursor = { s: 'score', d, v: last.v, id: last.id }
+    }
+  }
+
+  function fullOrder(d: 'ASC' | 'DESC'): string[] {
+    return (db.prepare(`SELECT id FROM entities ORDER BY ${expr} ${d}, id ${d}`).all() as { id: string }[]).map((r) => r.id)
+  }
+
+  it('should page ascending through ties and leading NULLs', () => {
+    for (const size of [1, 2, 3]) {
+      expect(pageAll('ASC', size)).toEqual(fullOrder('ASC'))
+    }
+  })
+
+  it('should page descending through ties and trailing NULLs', () => {
+    for (const size of [1, 2, 3]) {
+      expect(pageAll('DESC', size)).toEqual(fullOrder('DESC'))
+    }
+  })
+
+  it('should not repeat rows when rows are inserted before the cursor', () => {
+    const first = db.prepare(`SELECT id, ${expr} AS v FROM entities ORDER BY ${expr} DESC, id DESC LIMIT 2`).all() as { id: string; v: number }[]
+    db.prepare('INSERT INTO entities (id, data) VALUES (?, ?)').run('z', JSON.stringify({ score: 99 }))
+
+    const last = first[first.length - 1]!
+    const condition = keysetCondition(expr, { s: 'score', d: 'DESC', v: last.v, id: last.id })
+    const next = db.prepare(`SELECT id FROM entities WHERE ${condition.sql} ORDER BY ${expr} DESC, id DESC LIMIT 2`).all(...condition.values) as {
+      id: string
+    }[]
+
+    expect(first.map((r) => r.id)).toEqual(['e', 'g'])
+    expect(next.map((r) => r.id)).toEqual(['c', 'b'])
+  })
+})
@@ -0,0 +1,163 @@
+/**
+ * Integration tests for data subject export and erasure (GDPR)
+ *
+ * Verifies:
+ * - exportSubject gathers entities, mentioning events, relationships and dispatch log
+ * - Subjects can be found by entity ID or by a field value
+ * - eraseSubject removes the subject's fields everywhere, listing them under $redacted
+ * - Other entities holding the value get a new version and an erase event, mirrored to R2
+ * - Time travel and diffs keep working on the fields that remain
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createTestDO } from './helpers/objects-do'
+
+// ---------------------------------------------------------------------------
+// Mocks — cloudflare:workers is only available in the Workers runtime
+// ---------------------------------------------------------------------------
+
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe('ObjectsDO data subjects', () => {
+  let doInstance: any
+  let aliceId: string
+  let dealId: string
+
+  beforeEach(async () => {
+    doInstance = await createTestDO()
+    doInstance.defineNoun({ name: 'Contact', definition: { name: 'string!', email: 'string##', stage: 'Lead | Qualified' } })
+    doInstance.defineNoun({ name: 'Deal', definition: { title: 'string!', contactEmail: 'string', value: 'number' } })
+
+    const alice = await doInstance.createEntity('Contact', { name: 'Alice', email: 'alice@acme.com', stage: 'Lead' })
+    aliceId = alice.data.$id
+    await doInstance.updateEntity('Contact', aliceId, { stage: 'Qualified' })
+    const deal = await doInstance.createEntity('Deal', { title: 'Acme renewal', contactEmail: 'alice@acme.com', value: 5000 })
+    dealId = deal.data.$id
+    await doInstance.createEntity('Contact', { name: 'Bob', email: 'bob@acme.com' })
+    doInstance.createRelationship('Deal', dealId, { type: 'contact', targetType: 'Contact', targetId: aliceId })
+  })
+
+  // -------------------------------------------------------------------------
+  // Export
+  // -------------------------------------------------------------------------
+
+  it('should export the entity, its relationships and every event mentioning the email', async () => {
+    const result = await doInstance.exportSubject({ field: 'email', value: 'alice@acme.com' })
+
+    expect(result.success).toBe(true)
+    const bundle = result.data
+    expect(bundle.entities.map((e: any) => e.$id)).toEqual([aliceId])
+    expect(bundle.events.map((e: any) => `${e.entityType}.${e.verb}`).sort()).toEqual(['Contact.create', 'Contact.update', 'Deal.create'])
+    expect(bundle.relationships).toEqual([expect.objectContaining({ from: `Deal_${dealId}`, to: `Contact_${aliceId}` })])
+    expect(bundle.dispatchLog).toEqual([])
+    expect(bundle.generatedAt).toBeDefined()
+  })
+
+  it('should export by entity ID, including soft-deleted entities', async () => {
+    await doInstance.deleteEntity('Contact', aliceId)
+
+    const result = await doInstance.exportSubject({ type: 'Contact', id: aliceId })
+
+    expect(result.data.entities[0].$deletedAt).toBeDefined()
+    expect(result.data.events.map((e: any) => e.verb).sort()).toEqual(['create', 'delete', 'update'])
+  })
+
+  it('should reject subjects without an id or a field value', async () => {
+    expect((await doInstance.exportSubject({ field: 'email' })).status).toBe(400)
+    expect((await doInstance.exportSubject({})).status).toBe(400)
+    expect((await doInstance.exportSubject({ id: 'contact_missing' })).status).toBe(404)
+  })
+
+  // -------------------------------------------------------------------------
+  // Erase
+  // -------------------------------------------------------------------------
+
+  it('should redact the subject entity and its events, and log an erase event', async () => {
+    const result = await doInstance.eraseSubject({ field: 'email', value: 'alice@acme.com' })
+
+    expect(result.success).toBe(true)
+    expect(result.data).toEqual({ entities: [aliceId], events: 3 })
+
+    const alice = (await doInstance.getEntity('Contact', aliceId)).data
+    expect(alice.$redacted).toEqual(['createdBy', 'email', 'name', 'stage', 'updatedBy'])
+    expect(alice.email).toBeUndefined()
+    expect(alice.$version).toBe(3)
+
+    const history = (await doInstance.entityHistory('Contact', aliceId)).data
+    expect(history.map((e: any) => e.verb)).toEqual(['create', 'update', 'erase'])
+    expect(JSON.stringify(history)).not.toContain('alice@acme.com')
+    expect(JSON.stringify(history)).not.toContain('Alice')
+  })
+
+  it('should remove only the fields holding the value from other entities', async () => {
+    await doInstance.eraseSubject({ field: 'email', value: 'alice@acme.com' })
+
+    const deal = (await doInstance.getEntity('Deal', dealId)).data
+    expect(deal).toEqual(expect.objectContaining({ title: 'Acme renewal', value: 5000, $redacted: ['contactEmail'] }))
+    expect(deal.contactEmail).toBeUndefined()
+
+    expect(deal.$version).toBe(2)
+
+    const [dealCreate, dealErase] = (await doInstance.entityHistory('Deal', dealId)).data
+    expect(dealCreate.after.title).toBe('Acme renewal')
+    expect(dealCreate.after.contactEmail).toBeUndefined()
+    expect(dealErase).toMatchObject({ verb: 'erase', data: { fields: ['contactEmail'] }, after: { $version: 2 } })
+
+    const bob = (await doInstance.listEntities('Contact', { filter: JSON.stringify({ name: 'Bob' }) })).data[0]
+    expect(bob.email).toBe('bob@acme.com')
+  })
+
+  it('should rewrite the R2 mirror of other entities holding the value', async () => {
+    const update = vi.fn(async () => {})
+    doInstance.db = { Contact: { update }, Deal: { update } }
+
+    await doInstance.eraseSubject({ field: 'email', value: 'alice@acme.com' })
+
+    const mirrored = update.mock.calls.find(([id]) => id === dealId) as unknown as [string, Record<string, unknown>]
+    expect(mirrored[1]).toMatchObject({ title: 'Acme renewal', $version: 2, $redacted: ['contactEmail'] })
+    expect(mirrored[1].contactEmail).toBeUndefined()
+  })
+
+  it('should keep an erased soft-deleted subject deleted in the R2 mirror', async () => {
+    await doInstance.deleteEntity('Contact', aliceId)
+    const mirror = new Map<string, Record<string, unknown>>()
+    const collection = {
+      update: async (id: string, data: Record<string, unknown>) => void mirror.set(id, data),
+      findOne: async ({ $id }: { $id: string }) => mirror.get($id) ?? null,
+    }
+    doInstance.db = { Contact: collection, Deal: collection }
+
+    await doInstance.eraseSubject({ type: 'Contact', id: aliceId })
+
+    expect(mirror.get(aliceId)).toMatchObject({ $version: 3, $deletedAt: expect.any(String) })
+    expect((await doInstance.getEntity('Contact', aliceId)).status).toBe(404)
+  })
+
+  it('should keep time travel and diffs working on the remaining fields', async () => {
+    await doInstance.eraseSubject({ field: 'email', value: 'alice@acme.com' })
+
+    const deal = await doInstance.timeTravelGet('Deal', dealId, { atVersion: '1' })
+    expect(deal.data.value).toBe(5000)
+
+    await doInstance.updateEntity('Deal', dealId, { value: 7000 })
+    const diff = await doInstance.entityDiff('Deal', dealId, { from: '1', to: '3' })
+    expect(diff.data.changes).toEqual([
+      { field: 'value', from: 5000, to: 7000 },
+      { field: 'updatedBy', from: undefined, to: 'anonymous' },
+    ])
+  })
+
+  it('should drop stored idempotent responses holding the subject', async () => {
+    await doInstance.createEntity('Contact', { name: 'Carol', email: 'carol@acme.com' }, { idempotencyKey: 'carol' })
+
+    await doInstance.eraseSubject({ field: 'email', value: 'carol@acme.com' })
+    const replay = await doInstance.createEntity('Contact', { name: 'Carol', email: 'carol@acme.com' }, { idempotencyKey: 'carol' })
+
+    expect(replay.replayed).toBeUndefined()
+  })
+})
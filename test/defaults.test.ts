@@ -0,0 +1,129 @@
+/**
+ * Tests for declared default values
+ *
+ * Verifies:
+ * - Defaults are parsed from pipe enums, explicit enum() and typed fields
+ * - Coercion to the field type (number, int, boolean, datetime `now`, enum member)
+ * - Only missing fields are filled; explicit values and nulls are preserved
+ * - Invalid defaults are reported
+ */
+
+import { describe, it, expect } from 'vitest'
+import { applyDefaults, coerceDefault, invalidDefaults } from '../src/lib/defaults'
+import { parseNounDefinition } from '../src/lib/parse'
+
+const NOW = '2026-03-15T10:30:00.000Z'
+
+const deal = parseNounDefinition('Deal', {
+  title: 'string!',
+  status: 'Lead | Active = "Lead"',
+  priority: 'enum(low, medium, high) = "medium"',
+  value: 'number = 0',
+  seats: 'int = 5',
+  recurring: 'boolean = true',
+  openedAt: 'datetime = now',
+  openedOn: 'date = now',
+  region: 'string = "EMEA"',
+  labels: 'int[] = [1, 2]',
+})
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+describe('parseNounDefinition — defaults', () => {
+  it('should bind a pipe enum default to the enum, not its last member', () => {
+    expect(deal.fields.status!.enumValues).toEqual(['Lead', 'Active'])
+    expect(deal.fields.status!.defaultValue).toBe('Lead')
+  })
+
+  it('should parse an explicit enum() default', () => {
+    expect(deal.fields.priority!.enumValues).toEqual(['low', 'medium', 'high'])
+    expect(deal.fields.priority!.defaultValue).toBe('medium')
+  })
+
+  it('should leave enums without a default untouched', () => {
+    const schema = parseNounDefinition('Contact', { stage: 'Lead | Qualified | Customer' })
+    expect(schema.fields.stage!.enumValues).toEqual(['Lead', 'Qualified', 'Customer'])
+    expect(schema.fields.stage!.defaultValue).toBeUndefined()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// coerceDefault
+// ---------------------------------------------------------------------------
+
+describe('coerceDefault', () => {
+  it('should coerce to the field type', () => {
+    expect(coerceDefault(deal.fields.value!, NOW)).toBe(0)
+    expect(coerceDefault(deal.fields.seats!, NOW)).toBe(5)
+    expect(coerceDefault(deal.fields.recurring!, NOW)).toBe(true)
+    expect(coerceDefault(deal.fields.region!, NOW)).toBe('EMEA')
+    expect(coerceDefault(deal.fields.labels!, NOW)).toEqual([1, 2])
+  })
+
+  it('should substitute now for datetime and date fields', () => {
+    expect(coerceDefault(deal.fields.openedAt!, NOW)).toBe(NOW)
+    expect(coerceDefault(deal.fields.openedOn!, NOW)).toBe('2026-03-15')
+  })
+
+  it('should return undefined for defaults that do not fit the type', () => {
+    const schema = parseNounDefinition('Bad', { count: 'int = 1.5', flag: 'boolean = yes' })
+    expect(coerceDefault(schema.fields.count!, NOW)).toBeUndefined()
+    expect(coerceDefault(schema.fields.flag!, NOW)).toBeUndefined()
+  })
+
+  it('should reject enum defaults that are not members', () => {
+    const schema = parseNounDefinition('Bad', { status: 'Open | Closed = "Pending"' })
+    expect(coerceDefault(schema.fields.status!, NOW)).toBeUndefined()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// applyDefaults
+// ---------------------------------------------------------------------------
+
+describe('applyDefaults', () => {
+  it('should fill every missing field from its default', () => {
+    const result = applyDefaults(deal.fields, { title: 'Acme' }, NOW)
+    expect(result).toEqual({
+      title: 'Acme',
+      status: 'Lead',
+      priority: 'medium',
+      value: 0,
+      seats: 5,
+      recurring: true,
+      openedAt: NOW,
+      openedOn: '2026-03-15',
+      region: 'EMEA',
+      labels: [1, 2],
+    })
+  })
+
+  it('should not override provided values or explicit nulls', () => {
+    const result = applyDefaults(deal.fields, { title: 'Acme', status: 'Active', value: null }, NOW)
+    expect(result.status).toBe('Active')
+    expect(result.value).toBeNull()
+  })
+
+  it('should not mutate the input', () => {
+    const input = { title: 'Acme' }
+    applyDefaults(deal.fields, input, NOW)
+    expect(input).toEqual({ title: 'Acme' })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// invalidDefaults
+// ---------------------------------------------------------------------------
+
+describe('invalidDefaults', () => {
+  it('should list fields with uncoercible defaults', () => {
+    const schema = parseNounDefinition('Bad', { count: 'int = lots', status: 'Open | Closed = "Open"' })
+    expect(invalidDefaults(schema.fields)).toEqual(['count'])
+  })
+
+  it('should return an empty list for valid defaults', () => {
+    expect(invalidDefaults(deal.fields)).toEqual([])
+  })
+})
@@ -0,0 +1,288 @@
+/**
+ * Integration tests for entity writes in ObjectsDO
+ *
+ * Verifies:
+ * - createEntity and updateEntity reject invalid fields with 422 and the
+ *   field errors, writing no entity, event or mirror update
+ * - Declared defaults fill missing fields of created entities and their create
+ *   event; nouns with invalid defaults are rejected
+ * - Unique (`##`) fields get a partial UNIQUE index; duplicates are a 409
+ *   naming the conflicting entity, and deleted entities release their values
+ * - executeVerb only runs a verb from its declared source states (409
+ *   otherwise) and sets the target state; schemaGraph() lists the transitions
+ * - The actor (X-Actor) is stamped as createdBy / updatedBy and on verbs as
+ *   `<event>By` with `<event>At`, unless the noun sets stampVerbs: false
+ * - Verb payloads are recorded as the event data; only declared inputs named
+ *   after a field change the entity
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createTestDO } from './helpers/objects-do'
+
+// ---------------------------------------------------------------------------
+// Mocks — cloudflare:workers is only available in the Workers runtime
+// ---------------------------------------------------------------------------
+
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe('ObjectsDO entity writes', () => {
+  let doInstance: any
+
+  /** Rows in a table */
+  function count(table: string): number {
+    return doInstance.sql.exec(`SELECT COUNT(*) AS n FROM ${table}`).toArray()[0].n
+  }
+
+  beforeEach(async () => {
+    doInstance = await createTestDO()
+    doInstance.defineNoun({ name: 'Contact', definition: { name: 'string!', email: 'email', age: 'int', stage: 'Lead | Customer' } })
+  })
+
+  // -------------------------------------------------------------------------
+  // Validation
+  // -------------------------------------------------------------------------
+
+  it('should reject an invalid create with 422 and write nothing', async () => {
+    const result = await doInstance.createEntity('Contact', { email: 'not-an-email', age: 1.5, stage: 'Churned' })
+
+    expect(result).toMatchObject({ success: false, status: 422 })
+    expect(result.meta.errors.map((e: { field: string }) => e.field).sort()).toEqual(['age', 'email', 'name', 'stage'])
+    expect(result.error).toMatch(/^Validation failed for Contact: /)
+    expect(count('entities')).toBe(0)
+    expect(count('events')).toBe(0)
+  })
+
+  it('should reject an invalid update with 422 and leave the entity unchanged', async () => {
+    const { data } = await doInstance.createEntity('Contact', { name: 'Alice', email: 'alice@acme.com' })
+    doInstance.db = { Contact: { update: vi.fn() } }
+
+    const result = await doInstance.updateEntity('Contact', data.$id, { name: null, email: 'alice' })
+
+    expect(result).toMatchObject({ success: false, status: 422 })
+    expect(result.meta.errors.map((e: { field: string }) => e.field).sort()).toEqual(['email', 'name'])
+    expect(doInstance.db.Contact.update).not.toHaveBeenCalled()
+    expect((await doInstance.getEntity('Contact', data.$id)).data).toMatchObject({ name: 'Alice', email: 'alice@acme.com', $version: 1 })
+    expect(count('events')).toBe(1)
+  })
+
+  it('should only validate the fields an update sets', async () => {
+    const { data } = await doInstance.createEntity('Contact', { name: 'Alice' })
+
+    const result = await doInstance.updateEntity('Contact', data.$id, { age: 42 })
+
+    expect(result).toMatchObject({ success: true, data: { name: 'Alice', age: 42, $version: 2 } })
+  })
+
+  // -------------------------------------------------------------------------
+  // Defaults
+  // -------------------------------------------------------------------------
+
+  it('should store declared defaults and record them in the create event', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-03-15T10:30:00Z'))
+    doInstance.defineNoun({
+      name: 'Deal',
+      definition: { title: 'string!', status: 'Lead | Active = "Lead"', seats: 'int = 5', region: 'string = "EMEA"', openedAt: 'datetime = now' },
+    })
+
+    const { data, meta } = await doInstance.createEntity('Deal', { title: 'Acme', region: 'APAC' })
+    vi.useRealTimers()
+
+    const expected = { title: 'Acme', status: 'Lead', seats: 5, region: 'APAC', openedAt: '2026-03-15T10:30:00.000Z' }
+    expect(data).toMatchObject(expected)
+    expect((await doInstance.getEntity('Deal', data.$id)).data).toMatchObject(expected)
+    const [event] = (await doInstance.entityHistory('Deal', data.$id)).data
+    expect(event).toMatchObject({ $id: meta.eventId, after: expected })
+  })
+
+  it('should reject a noun whose default does not match its field', () => {
+    const result = doInstance.defineNoun({ name: 'Deal', definition: { title: 'string!', seats: 'int = many' } })
+
+    expect(result).toMatchObject({ success: false, status: 400, error: 'Invalid default value for: seats' })
+  })
+
+  // -------------------------------------------------------------------------
+  // Unique fields
+  // -------------------------------------------------------------------------
+
+  describe('unique fields', () => {
+    beforeEach(() => {
+      doInstance.defineNoun({ name: 'Account', definition: { name: 'string!', domain: 'string##', region: 'string#' } })
+    })
+
+    it('should create a partial UNIQUE index for each ## field', () => {
+      const indexes = doInstance.sql.exec("SELECT name, sql FROM sqlite_master WHERE type = 'index' AND name LIKE '%_field_Account_%' ORDER BY name").toArray()
+
+      expect(indexes.map((i: { name: string }) => i.name)).toEqual(['idx_field_Account_region', 'uidx_field_Account_domain'])
+      expect(indexes[1].sql).toMatch(/^CREATE UNIQUE INDEX .+ WHERE type = 'Account' AND deleted_at IS NULL$/)
+    })
+
+    it('should reject a duplicate create with 409 and the conflicting id', async () => {
+      const first = await doInstance.createEntity('Account', { name: 'Acme', domain: 'acme.com' })
+
+      const result = await doInstance.createEntity('Account', { name: 'Acme Corp', domain: 'acme.com' })
+
+      expect(result).toMatchObject({ success: false, status: 409, meta: { field: 'domain', conflictId: first.data.$id } })
+      expect(count('entities')).toBe(1)
+    })
+
+    it('should reject an update to a value held by another entity', async () => {
+      const first = await doInstance.createEntity('Account', { name: 'Acme', domain: 'acme.com' })
+      const second = await doInstance.createEntity('Account', { name: 'Globex', domain: 'globex.com' })
+
+      const result = await doInstance.updateEntity('Account', second.data.$id, { domain: 'acme.com' })
+
+      expect(result).toMatchObject({ status: 409, meta: { field: 'domain', conflictId: first.data.$id } })
+    })
+
+    it('should release the value of a deleted entity', async () => {
+      const first = await doInstance.createEntity('Account', { name: 'Acme', domain: 'acme.com' })
+      await doInstance.deleteEntity('Account', first.data.$id)
+
+      expect((await doInstance.createEntity('Account', { name: 'Acme', domain: 'acme.com' })).status).toBe(201)
+    })
+  })
+
+  // -------------------------------------------------------------------------
+  // Verb transitions
+  // -------------------------------------------------------------------------
+
+  describe('verb transitions', () => {
+    let dealId: string
+
+    beforeEach(async () => {
+      doInstance.defineNoun({
+        name: 'Deal',
+        definition: { title: 'string!', stage: 'Prospect | Proposal | Closed | Lost', close: 'Proposal => Closed', lose: '* => Lost' },
+      })
+      dealId = (await doInstance.createEntity('Deal', { title: 'Acme', stage: 'Prospect' })).data.$id
+    })
+
+    it('should reject a verb from a state it is not allowed from', async () => {
+      const result = await doInstance.executeVerb('Deal', dealId, 'close')
+
+      expect(result).toEqual({ success: false, error: "Cannot close Deal when stage is 'Prospect' (allowed from: Proposal)", status: 409 })
+      expect((await doInstance.getEntity('Deal', dealId)).data).toMatchObject({ stage: 'Prospect', $version: 1 })
+    })
+
+    it('should set the target state on success', async () => {
+      await doInstance.updateEntity('Deal', dealId, { stage: 'Proposal' })
+
+      const result = await doInstance.executeVerb('Deal', dealId, 'close')
+
+      expect(result).toMatchObject({ success: true, status: 200, data: { stage: 'Closed', $version: 3 } })
+      expect(result.meta.event.after.stage).toBe('Closed')
+    })
+
+    it('should allow a wildcard transition from any state', async () => {
+      expect((await doInstance.executeVerb('Deal', dealId, 'lose')).data.stage).toBe('Lost')
+      expect((await doInstance.executeVerb('Deal', dealId, 'lose')).status).toBe(200)
+    })
+
+    it('should list the transitions in the schema graph', () => {
+      expect(doInstance.schemaGraph().data.transitions).toEqual([
+        { noun: 'Deal', verb: 'close', field: 'stage', from: ['Proposal'], to: 'Closed' },
+        { noun: 'Deal', verb: 'lose', field: 'stage', from: ['*'], to: 'Lost' },
+      ])
+    })
+  })
+
+  // -------------------------------------------------------------------------
+  // Actor stamps
+  // -------------------------------------------------------------------------
+
+  describe('actor stamps', () => {
+    it('should stamp the actor as createdBy and updatedBy', async () => {
+      const { data } = await doInstance.createEntity('Contact', { name: 'Alice', createdBy: 'mallory' }, { actor: 'user:alice' })
+      expect(data.createdBy).toBe('user:alice')
+      expect(data.updatedBy).toBeUndefined()
+
+      const updated = await doInstance.updateEntity('Contact', data.$id, { name: 'Alice Smith' }, { actor: 'user:bob' })
+
+      expect(updated.data).toMatchObject({ createdBy: 'user:alice', updatedBy: 'user:bob' })
+      expect((await doInstance.getEntity('Contact', data.$id)).data).toMatchObject({ createdBy: 'user:alice', updatedBy: 'user:bob' })
+    })
+
+    it('should stamp anonymous when no actor is given', async () => {
+      const { data } = await doInstance.createEntity('Contact', { name: 'Alice' })
+
+      expect(data.createdBy).toBe('anonymous')
+    })
+
+    it('should stamp <event>At and <event>By when a verb executes', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date('2026-03-15T10:30:00Z'))
+      doInstance.defineNoun({ name: 'Lead', definition: { name: 'string!', stage: 'New | Qualified', qualify: 'New => Qualified' } })
+      const { data } = await doInstance.createEntity('Lead', { name: 'Alice', stage: 'New' })
+
+      const result = await doInstance.executeVerb('Lead', data.$id, 'qualify', undefined, { actor: 'user:bob' })
+      vi.useRealTimers()
+
+      expect(result.data).toMatchObject({ qualifiedAt: '2026-03-15T10:30:00.000Z', qualifiedBy: 'user:bob', createdBy: 'anonymous' })
+    })
+
+    it('should not stamp anything when the noun sets stampVerbs: false', async () => {
+      doInstance.defineNoun({
+        name: 'Lead',
+        definition: { name: 'string!', stage: 'New | Qualified', qualify: 'New => Qualified' },
+        options: { stampVerbs: false },
+      })
+      const { data } = await doInstance.createEntity('Lead', { name: 'Alice', stage: 'New' }, { actor: 'user:alice' })
+      await doInstance.updateEntity('Lead', data.$id, { name: 'Alice Smith' }, { actor: 'user:alice' })
+
+      const result = await doInstance.executeVerb('Lead', data.$id, 'qualify', undefined, { actor: 'user:bob' })
+
+      expect(Object.keys(result.data).filter((key) => !key.startsWith('$'))).toEqual(['name', 'stage'])
+    })
+  })
+
+  // -------------------------------------------------------------------------
+  // Verb payloads
+  // -------------------------------------------------------------------------
+
+  describe('verb payloads', () => {
+    let dealId: string
+
+    beforeEach(async () => {
+      doInstance.defineNoun({
+        name: 'Deal',
+        definition: {
+          title: 'string!',
+          value: 'number',
+          stage: 'Open | Closed',
+          close: 'Open => Closed',
+          'close.value': 'number!',
+          'close.reason': 'string',
+          flag: 'Flagged',
+        },
+      })
+      dealId = (await doInstance.createEntity('Deal', { title: 'Acme', value: 100, stage: 'Open' })).data.$id
+    })
+
+    it('should apply only the inputs named after a field and record the payload as event data', async () => {
+      const result = await doInstance.executeVerb('Deal', dealId, 'close', { value: 250, reason: 'Signed' })
+
+      expect(result.data).toMatchObject({ title: 'Acme', value: 250, stage: 'Closed' })
+      expect(result.data.reason).toBeUndefined()
+      expect(result.meta.event.data).toEqual({ value: 250, reason: 'Signed' })
+    })
+
+    it('should reject payload keys that are not inputs of the verb', async () => {
+      const result = await doInstance.executeVerb('Deal', dealId, 'close', { value: 250, title: 'Renamed' })
+
+      expect(result).toMatchObject({ success: false, status: 422, meta: { errors: [{ field: 'title', message: 'is not an input of close' }] } })
+    })
+
+    it('should not write the payload of a verb without declared inputs', async () => {
+      const result = await doInstance.executeVerb('Deal', dealId, 'flag', { title: 'Renamed', $context: 'https://evil.example' })
+
+      expect(result.data).toMatchObject({ title: 'Acme', value: 100, $context: 'https://headless.ly/~default' })
+      expect(result.meta.event.data).toEqual({ title: 'Renamed', $context: 'https://evil.example' })
+    })
+  })
+})
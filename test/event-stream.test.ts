@@ -0,0 +1,177 @@
+/**
+ * Integration tests for the live SSE event stream
+ *
+ * Verifies:
+ * - getEventStream() replays the log after the cursor, then stays open and
+ *   pushes newly committed events
+ * - Last-Event-ID resumes after the client's last event, ahead of since
+ * - Type and verb filters apply to live events too
+ * - Events of a rolled-back batch are never pushed
+ * - Heartbeats are sent periodically; a client too far behind is closed
+ * - Cancelling the stream unregisters the client
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createTestDO } from './helpers/objects-do'
+
+// ---------------------------------------------------------------------------
+// Mocks — cloudflare:workers is only available in the Workers runtime
+// ---------------------------------------------------------------------------
+
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+
+/** Reads an SSE response one message (or comment) at a time */
+function sseReader(response: Response) {
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  return {
+    /** The next message: its id and event type, or the comment text; null once the stream ends */
+    async next(): Promise<{ id?: string; event?: string; comment?: string } | null> {
+      while (!buffer.includes('\n\n')) {
+        const { done, value } = await reader.read()
+        if (done) return null
+        buffer += decoder.decode(value)
+      }
+      const end = buffer.indexOf('\n\n')
+      const block = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+      if (block.startsWith(':')) return { comment: block.slice(1).trim() }
+      const fields = Object.fromEntries(block.split('\n').map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)]))
+      return { id: fields.id, event: fields.event }
+    },
+    cancel: () => reader.cancel(),
+  }
+}
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe('ObjectsDO.getEventStream', () => {
+  let doInstance: any
+  let readers: ReturnType<typeof sseReader>[]
+
+  function open(params: Record<string, string> = {}): ReturnType<typeof sseReader> {
+    const reader = sseReader(doInstance.getEventStream(params))
+    readers.push(reader)
+    return reader
+  }
+
+  beforeEach(async () => {
+    readers = []
+    doInstance = await createTestDO()
+    doInstance.defineNoun({ name: 'Contact', definition: { name: 'string!', stage: 'Lead | Qualified', qualify: 'Lead => Qualified' } })
+    doInstance.defineNoun({ name: 'Deal', definition: { name: 'string!' } })
+  })
+
+  afterEach(async () => {
+    for (const reader of readers) await reader.cancel()
+    vi.useRealTimers()
+  })
+
+  it('should replay the log, then push newly committed events', async () => {
+    const first = await doInstance.createEntity('Contact', { name: 'Alice', stage: 'Lead' })
+    const stream = open()
+
+    expect(await stream.next()).toEqual({ id: first.meta.eventId, event: 'Contact.create' })
+    expect(await stream.next()).toEqual({ comment: 'heartbeat' })
+
+    const second = await doInstance.createEntity('Contact', { name: 'Bob', stage: 'Lead' })
+    expect(await stream.next()).toEqual({ id: second.meta.eventId, event: 'Contact.create' })
+  })
+
+  it('should replay a long log across pages without gaps or repeats', async () => {
+    const ids: string[] = []
+    for (let i = 0; i < 250; i++) {
+      ids.push((await doInstance.createEntity('Deal', { name: `Deal ${i}` })).meta.eventId)
+    }
+    const stream = open()
+
+    const replayed: string[] = []
+    for (let message = await stream.next(); message && !message.comment; message = await stream.next()) replayed.push(message.id!)
+
+    expect(replayed).toHaveLength(250)
+    expect(new Set(replayed)).toEqual(new Set(ids))
+  })
+
+  it('should resume after the Last-Event-ID ahead of since', async () => {
+    const a = await doInstance.createEntity('Contact', { name: 'Alice', stage: 'Lead' })
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(Date.now() + 1000)
+    const b = await doInstance.createEntity('Contact', { name: 'Bob', stage: 'Lead' })
+    vi.setSystemTime(Date.now() + 1000)
+    const c = await doInstance.createEntity('Contact', { name: 'Cy', stage: 'Lead' })
+
+    const stream = open({ since: a.meta.eventId, lastEventId: b.meta.eventId })
+
+    expect(await stream.next()).toEqual({ id: c.meta.eventId, event: 'Contact.create' })
+    expect(await stream.next()).toEqual({ comment: 'heartbeat' })
+  })
+
+  it('should filter live events by type and verb', async () => {
+    const stream = open({ types: 'Contact', verbs: 'qualify' })
+    expect(await stream.next()).toEqual({ comment: 'heartbeat' })
+
+    const contact = await doInstance.createEntity('Contact', { name: 'Alice', stage: 'Lead' })
+    await doInstance.createEntity('Deal', { name: 'Acme' })
+    const qualified = await doInstance.executeVerb('Contact', contact.data.$id, 'qualify')
+
+    expect(await stream.next()).toEqual({ id: qualified.meta.event.$id, event: 'Contact.qualify' })
+  })
+
+  it('should only push events once their batch commits', async () => {
+    const stream = open()
+    expect(await stream.next()).toEqual({ comment: 'heartbeat' })
+
+    const failed = await doInstance.batch([
+      { op: 'create', type: 'Deal', data: { name: 'Rolled back' } },
+      { op: 'update', type: 'Deal', id: 'deal_missing', data: { name: 'Nope' } },
+    ])
+    expect(failed.meta.committed).toBe(false)
+    const committed = await doInstance.createEntity('Deal', { name: 'Acme' })
+
+    expect(await stream.next()).toEqual({ id: committed.meta.eventId, event: 'Deal.create' })
+  })
+
+  // -------------------------------------------------------------------------
+  // Connection management
+  // -------------------------------------------------------------------------
+
+  it('should send a heartbeat every 15 seconds while live', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] })
+    const stream = open()
+    expect(await stream.next()).toEqual({ comment: 'heartbeat' })
+
+    vi.advanceTimersByTime(15_000)
+
+    expect(await stream.next()).toEqual({ comment: 'heartbeat' })
+  })
+
+  it('should close a client that falls too far behind, after draining its queue', async () => {
+    const stream = open()
+    expect(await stream.next()).toEqual({ comment: 'heartbeat' })
+    const event = (await doInstance.createEntity('Deal', { name: 'Acme' })).data
+    const logged = (await doInstance.queryEvents({ entityId: event.$id })).data[0]
+
+    for (let i = 0; i < 1001; i++) doInstance.pushToEventStreams(logged)
+
+    expect(doInstance.eventStreams.size).toBe(0)
+    let received = 0
+    while (await stream.next()) received++
+    // The queue held 1000 messages: the create, then pushes until it was full
+    expect(received).toBe(1000)
+  })
+
+  it('should unregister a client when its stream is cancelled', async () => {
+    const stream = open()
+    expect(await stream.next()).toEqual({ comment: 'heartbeat' })
+    expect(doInstance.eventStreams.size).toBe(1)
+
+    await stream.cancel()
+
+    expect(doInstance.eventStreams.size).toBe(0)
+  })
+})
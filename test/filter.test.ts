@@ -0,0 +1,184 @@
+/**
+ * Tests for the Mongo-style filter compiler
+ *
+ * Verifies:
+ * - Each operator compiles to parameterized SQL (values never inlined)
+ * - Results against a real SQLite engine match MongoDB semantics for
+ *   missing fields, nulls, arrays and nested paths
+ * - $regex translation to GLOB / LIKE
+ * - Unsupported operators and malformed values throw
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import Database from 'better-sqlite3'
+import { compileFilter, regexToPattern } from '../src/lib/filter'
+
+const ROWS = [
+  { $id: 'a', name: 'Alice', stage: 'Lead', score: 10, vip: true, tags: ['beta', 'west'], address: { city: 'Paris' } },
+  { $id: 'b', name: 'Bob', stage: 'Customer', score: 50, vip: false, tags: ['east'], address: { city: 'Berlin' } },
+  { $id: 'c', name: 'carol', stage: 'Lead', score: 90, tags: [], address: { city: null } },
+  { $id: 'd', name: 'Dave', stage: null, notes: 'Met at the 50% off sale' },
+]
+
+let db: InstanceType<typeof Database>
+
+/** Run a filter against the fixture rows and return matching $ids */
+function run(filter: unknown): string[] {
+  const { sql, values } = compileFilter(filter)
+  const query = `SELECT json_extract(data, '$."$id"') AS id FROM entities${sql ? ` WHERE ${sql}` : ''} ORDER BY id`
+  return db
+    .prepare(query)
+    .all(...values)
+    .map((r) => (r as { id: string }).id)
+}
+
+beforeAll(() => {
+  db = new Database(':memory:')
+  db.exec('CREATE TABLE entities (data TEXT NOT NULL)')
+  const insert = db.prepare('INSERT INTO entities (data) VALUES (?)')
+  for (const row of ROWS) insert.run(JSON.stringify(row))
+})
+
+// ---------------------------------------------------------------------------
+// Compilation
+// ---------------------------------------------------------------------------
+
+describe('compileFilter — SQL', () => {
+  it('should return no condition for an empty filter', () => {
+    expect(compileFilter({})).toEqual({ sql: null, values: [] })
+  })
+
+  it('should bind values as parameters', () => {
+    expect(compileFilter({ stage: "Lead' OR 1=1 --" })).toEqual({
+      sql: `json_extract(data, '$."stage"') = ?`,
+      values: ["Lead' OR 1=1 --"],
+    })
+  })
+
+  it('should produce the same field expression used by the field indexes', () => {
+    expect(compileFilter({ score: { $gt: 5 } }).sql).toBe(`json_extract(data, '$."score"') > ?`)
+  })
+
+  it('should bind booleans as integers', () => {
+    expect(compileFilter({ vip: true }).values).toEqual([1])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Operators
+// ---------------------------------------------------------------------------
+
+describe('compileFilter — operators', () => {
+  it('should match equality, null and booleans', () => {
+    expect(run({ stage: 'Lead' })).toEqual(['a', 'c'])
+    expect(run({ stage: null })).toEqual(['d'])
+    expect(run({ vip: false })).toEqual(['b'])
+    expect(run({ stage: { $eq: 'Customer' } })).toEqual(['b'])
+  })
+
+  it('should include missing and null fields in $ne', () => {
+    expect(run({ stage: { $ne: 'Lead' } })).toEqual(['b', 'd'])
+    expect(run({ stage: { $ne: null } })).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should compare with $gt/$gte/$lt/$lte', () => {
+    expect(run({ score: { $gt: 10 } })).toEqual(['b', 'c'])
+    expect(run({ score: { $gte: 10, $lt: 90 } })).toEqual(['a', 'b'])
+    expect(run({ score: { $lte: 10 } })).toEqual(['a'])
+  })
+
+  it('should match lists with $in and $nin', () => {
+    expect(run({ stage: { $in: ['Lead', 'Customer'] } })).toEqual(['a', 'b', 'c'])
+    expect(run({ stage: { $in: ['Customer', null] } })).toEqual(['b', 'd'])
+    expect(run({ stage: { $in: [] } })).toEqual([])
+    expect(run({ stage: { $nin: ['Lead'] } })).toEqual(['b', 'd'])
+    expect(run({ stage: { $nin: ['Lead', null] } })).toEqual(['b'])
+  })
+
+  it('should distinguish missing fields from explicit nulls with $exists', () => {
+    expect(run({ score: { $exists: true } })).toEqual(['a', 'b', 'c'])
+    expect(run({ score: { $exists: false } })).toEqual(['d'])
+    expect(run({ 'address.city': { $exists: true } })).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should follow dotted paths into nested objects', () => {
+    expect(run({ 'address.city': 'Paris' })).toEqual(['a'])
+    expect(run({ 'address.city': null })).toEqual(['c', 'd'])
+  })
+
+  it('should match array elements and substrings with $contains', () => {
+    expect(run({ tags: { $contains: 'west' } })).toEqual(['a'])
+    expect(run({ notes: { $contains: '50%' } })).toEqual(['d'])
+    expect(run({ name: { $contains: 'li' } })).toEqual(['a'])
+  })
+
+  it('should match $regex case-sensitively and with the i option', () => {
+    expect(run({ name: { $regex: '^C' } })).toEqual([])
+    expect(run({ name: { $regex: '^C', $options: 'i' } })).toEqual(['c'])
+    expect(run({ name: { $regex: 'b$' } })).toEqual(['b'])
+    expect(run({ name: { $regex: '^A.i.*e$' } })).toEqual(['a'])
+  })
+
+  it('should combine filters with $and, $or and $not', () => {
+    expect(run({ $or: [{ stage: 'Customer' }, { score: { $gt: 50 } }] })).toEqual(['b', 'c'])
+    expect(run({ $and: [{ stage: 'Lead' }, { score: { $lt: 50 } }] })).toEqual(['a'])
+    expect(run({ $not: { stage: 'Lead' } })).toEqual(['b', 'd'])
+    expect(run({ score: { $not: { $gt: 10 } } })).toEqual(['a', 'd'])
+  })
+
+  it('should filter on meta-fields', () => {
+    expect(run({ $id: { $in: ['a', 'd'] } })).toEqual(['a', 'd'])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// $regex translation
+// ---------------------------------------------------------------------------
+
+describe('regexToPattern', () => {
+  it('should translate anchors and wildcards to GLOB', () => {
+    expect(regexToPattern('^abc', false)).toBe('abc*')
+    expect(regexToPattern('abc$', false)).toBe('*abc')
+    expect(regexToPattern('a.c', false)).toBe('*a?c*')
+    expect(regexToPattern('^a.*c$', false)).toBe('a*c')
+  })
+
+  it('should escape GLOB and LIKE metacharacters', () => {
+    expect(regexToPattern('^a\\*b', false)).toBe('a[*]b*')
+    expect(regexToPattern('50%', true)).toBe('%50\\%%')
+  })
+
+  it('should reject regex features SQLite cannot express', () => {
+    expect(() => regexToPattern('a|b', false)).toThrow(/Unsupported \$regex/)
+    expect(() => regexToPattern('[a-z]+', false)).toThrow(/Unsupported \$regex/)
+    expect(() => regexToPattern('\\d', false)).toThrow(/Unsupported \$regex/)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+describe('compileFilter — errors', () => {
+  it('should reject unsupported operators', () => {
+    expect(() => compileFilter({ score: { $near: 5 } })).toThrow(/Unsupported filter operator '\$near'/)
+    expect(() => compileFilter({ $where: 'this.score > 5' })).toThrow(/Unsupported filter operator '\$where'/)
+  })
+
+  it('should reject arrays and plain objects as field values', () => {
+    expect(() => compileFilter({ stage: ['Lead'] })).toThrow(/use \$in/)
+    expect(() => compileFilter({ address: { city: 'Paris' } })).toThrow(/dotted paths/)
+  })
+
+  it('should reject malformed operands', () => {
+    expect(() => compileFilter({ score: { $gt: [1] } })).toThrow()
+    expect(() => compileFilter({ score: { $in: 'Lead' } })).toThrow()
+    expect(() => compileFilter({ score: { $exists: 1 } })).toThrow()
+    expect(() => compileFilter({ $or: [] })).toThrow()
+    expect(() => compileFilter({ name: { $regex: 'a', $options: 'm' } })).toThrow()
+  })
+
+  it('should reject a non-object filter', () => {
+    expect(() => compileFilter(['stage'])).toThrow(/must be a JSON object/)
+  })
+})
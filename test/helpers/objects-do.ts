@@ -0,0 +1,156 @@
+/**
+ * Shared ObjectsDO test harness
+ *
+ * Uses better-sqlite3 as a stand-in for Cloudflare's SqlStorage so that the
+ * real ObjectsDO SQL queries execute against a genuine SQLite engine.
+ *
+ * vi.mock only applies in the test file that calls it, so each test file
+ * points 'cloudflare:workers' and the events emitter at the stand-ins here:
+ *
+ *   vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+ *   vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+ */
+
+import Database from 'better-sqlite3'
+
+// ---------------------------------------------------------------------------
+// Module stand-ins — cloudflare:workers is only available in the Workers
+// runtime, and the emitter would reach out to events.do
+// ---------------------------------------------------------------------------
+
+export class DurableObject {
+  ctx: unknown
+  env: unknown
+  constructor(ctx: unknown, env: unknown) {
+    this.ctx = ctx
+    this.env = env
+  }
+}
+
+/** CDC changes handed to the emitter, as `Type.op:id` — reset it in beforeEach */
+export const published: string[] = []
+
+export class EventEmitter {
+  emitChange(op: string, type: string, id: string) {
+    published.push(`${type}.${op}:${id}`)
+  }
+  handleAlarm() {}
+}
+
+// ---------------------------------------------------------------------------
+// SqlStorage mock backed by better-sqlite3
+// ---------------------------------------------------------------------------
+
+export function createMockSqlStorage(db: InstanceType<typeof Database>) {
+  // better-sqlite3 does not accept booleans — coerce to 0/1 like real SQLite
+  const coerceBindings = (bindings: unknown[]) => bindings.map((b) => (typeof b === 'boolean' ? (b ? 1 : 0) : b))
+
+  return {
+    exec(query: string, ...bindings: unknown[]) {
+      // Cloudflare's SqlStorage.exec handles both read and write queries.
+      // For writes (INSERT, UPDATE, DELETE, CREATE, ALTER, DROP), we use run().
+      // For reads (SELECT), we use all().
+      const trimmed = query.trim()
+
+      // Handle multi-statement SQL (CREATE TABLE + CREATE INDEX, etc.)
+      // by splitting on semicolons and executing each statement.
+      const statements = trimmed
+        .split(/;\s*/)
+        .map((s) => s.trim())
+        .filter((s) => s.length > 0)
+
+      if (statements.length > 1 && bindings.length === 0) {
+        for (const stmt of statements) {
+          db.exec(stmt)
+        }
+        return {
+          toArray() {
+            return []
+          },
+          one() {
+            return undefined
+          },
+          columnNames: [],
+          rowsRead: 0,
+          rowsWritten: 0,
+        }
+      }
+
+      // INSERT ... RETURNING yields rows like a read
+      const isRead = /^\s*(SELECT|PRAGMA|EXPLAIN)/i.test(trimmed) || /\bRETURNING\b/i.test(trimmed)
+
+      if (isRead) {
+        const stmt = db.prepare(trimmed)
+        const rows = stmt.all(...coerceBindings(bindings))
+        return {
+          toArray() {
+            return rows
+          },
+          one() {
+            return rows[0]
+          },
+          columnNames: rows.length > 0 ? Object.keys(rows[0] as object) : [],
+          rowsRead: rows.length,
+          rowsWritten: 0,
+        }
+      } else {
+        const stmt = db.prepare(trimmed)
+        const info = stmt.run(...coerceBindings(bindings))
+        return {
+          toArray() {
+            return []
+          },
+          one() {
+            return undefined
+          },
+          columnNames: [],
+          rowsRead: 0,
+          rowsWritten: info.changes,
+        }
+      }
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helper: create a fresh ObjectsDO instance with an in-memory SQLite backend
+// ---------------------------------------------------------------------------
+
+export async function createTestDO(env: Record<string, unknown> = {}) {
+  const db = new Database(':memory:')
+
+  const sqlStorage = createMockSqlStorage(db)
+
+  // Hibernatable WebSockets accepted by the DO, with their tags
+  const sockets: Array<{ ws: unknown; tags: string[] }> = []
+
+  const mockCtx = {
+    storage: {
+      sql: sqlStorage,
+      // better-sqlite3 transactions roll back when the callback throws, like transactionSync()
+      transactionSync: <T>(fn: () => T): T => db.transaction(fn)(),
+      getAlarm: () => null,
+      setAlarm: () => {},
+      get: () => undefined,
+      put: () => {},
+      delete: () => {},
+      deleteAll: () => {},
+      list: () => new Map(),
+    },
+    id: { toString: () => 'test-do-id' },
+    waitUntil: () => {},
+    acceptWebSocket: (ws: unknown, tags: string[] = []) => {
+      sockets.push({ ws, tags })
+    },
+    getWebSockets: (tag?: string) => sockets.filter((s) => tag === undefined || s.tags.includes(tag)).map((s) => s.ws),
+    setWebSocketAutoResponse: () => {},
+  }
+
+  // Dynamic import so vi.mock directives are applied before the module loads
+  const { ObjectsDO } = await import('../../src/do/objects-do')
+
+  // Construct the DO — the constructor calls initSchema() which creates all tables
+  const doInstance = new ObjectsDO(mockCtx as any, env as any)
+
+  return doInstance
+}
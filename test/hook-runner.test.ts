@@ -0,0 +1,129 @@
+/**
+ * Tests for the sandboxed hook runner
+ *
+ * Verifies:
+ * - Hook code is wrapped in a Worker module that reports results and errors
+ * - Return values are validated per phase (veto/payload before, emit after)
+ * - runHook loads the module without network access and enforces a timeout
+ */
+
+import { describe, it, expect } from 'vitest'
+import { hookModuleSource, normalizeHookResult, runHook, type HookContext } from '../src/lib/hook-runner'
+
+const ctx: HookContext = { type: 'Deal', id: 'deal_abc', verb: 'close', phase: 'before', entity: { $id: 'deal_abc', value: 10 }, payload: { value: 5 } }
+
+/**
+ * Minimal stand-in for the Worker Loader binding: evaluates the module in
+ * this process and records the code it was given.
+ */
+function fakeLoader(onLoad?: (code: WorkerLoaderWorkerCode) => void): WorkerLoader {
+  return {
+    get(_name, getCode) {
+      return {
+        getEntrypoint() {
+          return {
+            async fetch(url: string, init: RequestInit) {
+              const code = await getCode()
+              onLoad?.(code)
+              const source = code.modules[code.mainModule] as string
+              const mod = await import(`data:text/javascript;base64,${Buffer.from(source).toString('base64')}`)
+              return mod.default.fetch(new Request(url, init))
+            },
+          } as unknown as Fetcher
+        },
+      } as unknown as WorkerStub
+    },
+  } as WorkerLoader
+}
+
+// ---------------------------------------------------------------------------
+// hookModuleSource
+// ---------------------------------------------------------------------------
+
+describe('hookModuleSource', () => {
+  async function call(code: string, context: unknown) {
+    const mod = await import(`data:text/javascript;base64,${Buffer.from(hookModuleSource(code)).toString('base64')}`)
+    const response: Response = await mod.default.fetch(new Request('https://hook.internal/', { method: 'POST', body: JSON.stringify(context) }))
+    return response.json()
+  }
+
+  it('should pass the context and return the result', async () => {
+    expect(await call('return { payload: { value: ctx.payload.value * 2 } }', ctx)).toEqual({ ok: true, result: { payload: { value: 10 } } })
+  })
+
+  it('should report a missing return value as null', async () => {
+    expect(await call('ctx.entity.touched = true', ctx)).toEqual({ ok: true, result: null })
+  })
+
+  it('should report thrown errors', async () => {
+    expect(await call("throw new Error('boom')", ctx)).toEqual({ ok: false, error: 'boom' })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// normalizeHookResult
+// ---------------------------------------------------------------------------
+
+describe('normalizeHookResult', () => {
+  it('should treat an empty return as no-op', () => {
+    expect(normalizeHookResult('before', undefined)).toEqual({ ok: true, result: {} })
+  })
+
+  it('should accept a veto reason or a boolean veto', () => {
+    expect(normalizeHookResult('before', { veto: 'Too small' })).toEqual({ ok: true, result: { veto: 'Too small' } })
+    expect(normalizeHookResult('before', { veto: true })).toEqual({ ok: true, result: { veto: 'Vetoed by hook' } })
+    expect(normalizeHookResult('before', { veto: false })).toEqual({ ok: true, result: {} })
+  })
+
+  it('should reject a non-object payload', () => {
+    expect(normalizeHookResult('before', { payload: [1] }).ok).toBe(false)
+  })
+
+  it('should only allow emit in after hooks', () => {
+    expect(normalizeHookResult('before', { emit: [] }).ok).toBe(false)
+    expect(normalizeHookResult('after', { veto: 'no' }).ok).toBe(false)
+  })
+
+  it('should validate emitted verbs', () => {
+    expect(normalizeHookResult('after', { emit: [{ verb: 'notify', id: 'contact_abc', data: { channel: 'email' } }] })).toEqual({
+      ok: true,
+      result: { emit: [{ verb: 'notify', type: undefined, id: 'contact_abc', data: { channel: 'email' } }] },
+    })
+    expect(normalizeHookResult('after', { emit: [{ id: 'contact_abc' }] }).ok).toBe(false)
+    expect(normalizeHookResult('after', { emit: 'notify' }).ok).toBe(false)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// runHook
+// ---------------------------------------------------------------------------
+
+describe('runHook', () => {
+  it('should run the code in a Worker with no network access', async () => {
+    let loaded: WorkerLoaderWorkerCode | undefined
+    const outcome = await runHook(
+      fakeLoader((code) => (loaded = code)),
+      'hook-1',
+      "return { veto: 'Too small' }",
+      ctx,
+    )
+    expect(outcome).toEqual({ ok: true, result: { veto: 'Too small' } })
+    expect(loaded!.globalOutbound).toBeNull()
+    expect(loaded!.env).toEqual({})
+  })
+
+  it('should surface errors thrown by the hook', async () => {
+    const outcome = await runHook(fakeLoader(), 'hook-2', "throw new Error('nope')", ctx)
+    expect(outcome).toEqual({ ok: false, error: 'nope' })
+  })
+
+  it('should reject results not allowed in the phase', async () => {
+    const outcome = await runHook(fakeLoader(), 'hook-3', "return { emit: [{ verb: 'notify' }] }", ctx)
+    expect(outcome.ok).toBe(false)
+  })
+
+  it('should time out hooks that never finish', async () => {
+    const outcome = await runHook(fakeLoader(), 'hook-4', 'await new Promise(() => {})', ctx, { cpuMs: 50, timeoutMs: 20 })
+    expect(outcome).toEqual({ ok: false, error: 'Hook timed out after 20ms' })
+  })
+})
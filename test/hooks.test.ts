@@ -0,0 +1,283 @@
+/**
+ * Integration tests for verb hook management
+ *
+ * Verifies:
+ * - registerHook() validates the noun, verb, phase and code
+ * - listHooks() returns every hook or one noun's hooks, in registration order
+ * - getHook(), updateHook() and deleteHook() answer 404 for unknown hooks;
+ *   updates are validated against the hook's noun
+ * - testHook() dry-runs a hook and reports its outcome without writing
+ * - Before hooks veto verbs (409) or rewrite their payload; failing hooks and
+ *   hooks that cannot run (no LOADER) stop the verb, failures logged as Hook.fail
+ * - A verb whose entity changed while its before hooks ran is rejected with 409
+ * - After hooks emit follow-up verbs, cut off at the hook depth limit
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createTestDO } from './helpers/objects-do'
+
+// ---------------------------------------------------------------------------
+// Mocks — cloudflare:workers is only available in the Workers runtime
+// ---------------------------------------------------------------------------
+
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+
+/**
+ * Stand-in for the Worker Loader binding: evaluates the hook module in this
+ * process, after `meanwhile` (standing in for requests served while the hook runs).
+ */
+function fakeLoader(meanwhile?: () => Promise<unknown>) {
+  return {
+    get(_name: string, getCode: () => { mainModule: string; modules: Record<string, string> }) {
+      return {
+        getEntrypoint() {
+          return {
+            async fetch(url: string, init: RequestInit) {
+              await meanwhile?.()
+              const code = getCode()
+              const source = code.modules[code.mainModule]!
+              const mod = await import(`data:text/javascript;base64,${Buffer.from(source).toString('base64')}`)
+              return mod.default.fetch(new Request(url, init))
+            },
+          }
+        },
+      }
+    },
+  }
+}
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe('ObjectsDO hook management', () => {
+  let doInstance: any
+
+  beforeEach(async () => {
+    doInstance = await createTestDO({ LOADER: fakeLoader() })
+    doInstance.defineNoun({ name: 'Contact', definition: { name: 'string!', stage: 'Lead | Qualified', qualify: 'Lead => Qualified' } })
+    doInstance.defineNoun({ name: 'Deal', definition: { name: 'string!', value: 'number', stage: 'Open | Won', close: 'Open => Won' } })
+  })
+
+  it('should validate hook definitions on registration', () => {
+    const valid = { verb: 'qualify', phase: 'before', code: 'return null' }
+
+    expect(doInstance.registerHook('Lead', valid)).toMatchObject({ status: 400, error: "Noun 'Lead' is not defined" })
+    expect(doInstance.registerHook('Contact', { ...valid, verb: 'close' })).toMatchObject({ status: 400, error: "Verb 'close' is not defined on Contact" })
+    expect(doInstance.registerHook('Contact', { ...valid, phase: 'during' }).status).toBe(400)
+    expect(doInstance.registerHook('Contact', { ...valid, code: '' }).status).toBe(400)
+    expect(doInstance.listHooks().data).toEqual([])
+  })
+
+  it('should list all hooks or those of one noun, in registration order', () => {
+    const first = doInstance.registerHook('Contact', { verb: 'qualify', phase: 'before', code: 'return null' })
+    const second = doInstance.registerHook('Deal', { verb: 'close', phase: 'after', code: 'return null' })
+    const third = doInstance.registerHook('Contact', { verb: 'qualify', phase: 'after', code: 'return null' })
+
+    expect(first).toMatchObject({ status: 201, data: { noun: 'Contact', verb: 'qualify', phase: 'before' } })
+    expect(doInstance.listHooks().data.map((h: { id: number }) => h.id)).toEqual([first.data.id, second.data.id, third.data.id])
+    expect(doInstance.listHooks('Contact').data.map((h: { id: number }) => h.id)).toEqual([first.data.id, third.data.id])
+    expect(doInstance.listHooks('Account').data).toEqual([])
+  })
+
+  // -------------------------------------------------------------------------
+  // Get, update, delete
+  // -------------------------------------------------------------------------
+
+  it('should get a hook with its code, or 404', () => {
+    const { data } = doInstance.registerHook('Deal', { verb: 'close', phase: 'before', code: "return { veto: 'No' }" })
+
+    expect(doInstance.getHook(data.id)).toMatchObject({ status: 200, data: { id: data.id, noun: 'Deal', code: "return { veto: 'No' }" } })
+    expect(doInstance.getHook(data.id + 1)).toMatchObject({ success: false, status: 404 })
+    expect(doInstance.getHook(NaN).status).toBe(404)
+  })
+
+  it('should update a hook, keeping fields that are not given', () => {
+    const { data } = doInstance.registerHook('Deal', { verb: 'close', phase: 'before', code: 'return null' })
+
+    const updated = doInstance.updateHook(data.id, { phase: 'after', code: "return { emit: [{ verb: 'close' }] }" })
+
+    expect(updated).toMatchObject({ status: 200, data: { id: data.id, noun: 'Deal', verb: 'close', phase: 'after' } })
+    expect(doInstance.getHook(data.id).data).toMatchObject({ verb: 'close', phase: 'after', code: "return { emit: [{ verb: 'close' }] }" })
+  })
+
+  it('should reject invalid updates and leave the hook unchanged', () => {
+    const { data } = doInstance.registerHook('Deal', { verb: 'close', phase: 'before', code: 'return null' })
+
+    expect(doInstance.updateHook(data.id, { verb: 'qualify' })).toMatchObject({ status: 400, error: "Verb 'qualify' is not defined on Deal" })
+    expect(doInstance.updateHook(data.id, { phase: 'later' }).status).toBe(400)
+    expect(doInstance.updateHook(data.id + 1, { code: 'return null' }).status).toBe(404)
+    expect(doInstance.getHook(data.id).data).toMatchObject({ verb: 'close', phase: 'before', code: 'return null' })
+  })
+
+  it('should delete a hook, then answer 404', () => {
+    const { data } = doInstance.registerHook('Deal', { verb: 'close', phase: 'before', code: 'return null' })
+
+    expect(doInstance.deleteHook(data.id)).toEqual({ success: true, status: 200 })
+    expect(doInstance.listHooks().data).toEqual([])
+    expect(doInstance.deleteHook(data.id).status).toBe(404)
+  })
+
+  // -------------------------------------------------------------------------
+  // Dry run
+  // -------------------------------------------------------------------------
+
+  it('should report the veto and payload of a before hook without writing', async () => {
+    const { data } = doInstance.registerHook('Deal', {
+      verb: 'close',
+      phase: 'before',
+      code: "if (ctx.entity.value < 100) return { veto: 'Too small' }\nreturn { payload: { ...ctx.payload, reason: 'auto' } }",
+    })
+
+    const vetoed = await doInstance.testHook(data.id, { entity: { $id: 'deal_abc', value: 10 } })
+    const passed = await doInstance.testHook(data.id, { entity: { value: 500 }, payload: { note: 'big' } })
+
+    expect(vetoed).toEqual({ success: true, data: { ok: true, result: { veto: 'Too small' } }, status: 200 })
+    expect(passed.data).toEqual({ ok: true, result: { payload: { note: 'big', reason: 'auto' } } })
+    expect(doInstance.sql.exec('SELECT COUNT(*) AS n FROM events').toArray()[0].n).toBe(0)
+  })
+
+  it('should report the emitted verbs and thrown errors of after hooks', async () => {
+    const emitting = doInstance.registerHook('Deal', {
+      verb: 'close',
+      phase: 'after',
+      code: "return { emit: [{ verb: 'qualify', type: 'Contact', id: ctx.id }] }",
+    })
+    const throwing = doInstance.registerHook('Deal', { verb: 'close', phase: 'after', code: "throw new Error('boom')" })
+
+    const emitted = await doInstance.testHook(emitting.data.id, {})
+    const thrown = await doInstance.testHook(throwing.data.id, {})
+
+    expect(emitted.data).toEqual({ ok: true, result: { emit: [{ verb: 'qualify', type: 'Contact', id: 'deal_sample' }] } })
+    expect(thrown.data).toEqual({ ok: false, error: 'boom' })
+    expect(doInstance.sql.exec('SELECT COUNT(*) AS n FROM events').toArray()[0].n).toBe(0)
+  })
+
+  it('should answer 404 for unknown hooks and 503 without a LOADER binding', async () => {
+    expect((await doInstance.testHook(999, {})).status).toBe(404)
+
+    doInstance = await createTestDO()
+    doInstance.defineNoun({ name: 'Deal', definition: { name: 'string!', stage: 'Open | Won', close: 'Open => Won' } })
+    const { data } = doInstance.registerHook('Deal', { verb: 'close', phase: 'before', code: 'return null' })
+
+    expect(await doInstance.testHook(data.id, {})).toMatchObject({ success: false, status: 503 })
+  })
+})
+
+describe('ObjectsDO verb hooks', () => {
+  let doInstance: any
+  let meanwhile: (() => Promise<unknown>) | undefined
+  let dealId: string
+
+  /** Hook.fail events logged so far, oldest first */
+  async function hookFailures(): Promise<Array<Record<string, any>>> {
+    return (await doInstance.queryEvents({ type: 'Hook' })).data.reverse()
+  }
+
+  beforeEach(async () => {
+    meanwhile = undefined
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    doInstance = await createTestDO({ LOADER: fakeLoader(async () => meanwhile?.()) })
+    doInstance.defineNoun({
+      name: 'Deal',
+      definition: { name: 'string!', value: 'number', stage: 'Open | Won', close: 'Open => Won', 'close.value': 'number', ping: 'Pinged' },
+    })
+    dealId = (await doInstance.createEntity('Deal', { name: 'Acme', value: 10, stage: 'Open' })).data.$id
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should reject the verb with 409 when a before hook vetoes it', async () => {
+    const { data } = doInstance.registerHook('Deal', { verb: 'close', phase: 'before', code: "return { veto: 'Needs approval' }" })
+
+    const result = await doInstance.executeVerb('Deal', dealId, 'close')
+
+    expect(result).toEqual({ success: false, error: 'Needs approval', meta: { hookId: data.id }, status: 409 })
+    expect((await doInstance.getEntity('Deal', dealId)).data).toMatchObject({ stage: 'Open', $version: 1 })
+  })
+
+  it('should apply the payload rewritten by a before hook', async () => {
+    doInstance.registerHook('Deal', { verb: 'close', phase: 'before', code: 'return { payload: { value: ctx.payload.value * 100 } }' })
+
+    const result = await doInstance.executeVerb('Deal', dealId, 'close', { value: 5 })
+
+    expect(result.data).toMatchObject({ stage: 'Won', value: 500 })
+    expect(result.meta.event.data).toEqual({ value: 500 })
+  })
+
+  it('should fail the verb with 500 and log Hook.fail when a before hook throws', async () => {
+    const { data } = doInstance.registerHook('Deal', { verb: 'close', phase: 'before', code: "throw new Error('CRM unreachable')" })
+
+    const result = await doInstance.executeVerb('Deal', dealId, 'close')
+
+    expect(result).toMatchObject({ success: false, status: 500, meta: { hookId: data.id } })
+    expect(result.error).toContain('CRM unreachable')
+    expect(await hookFailures()).toEqual([
+      expect.objectContaining({ $type: 'Hook.fail', entityId: String(data.id), data: expect.objectContaining({ entityId: dealId, error: 'CRM unreachable' }) }),
+    ])
+    expect((await doInstance.getEntity('Deal', dealId)).data.stage).toBe('Open')
+  })
+
+  it('should fail the verb with 503 when a before hook cannot run', async () => {
+    doInstance = await createTestDO()
+    doInstance.defineNoun({ name: 'Deal', definition: { name: 'string!', stage: 'Open | Won', close: 'Open => Won' } })
+    const deal = (await doInstance.createEntity('Deal', { name: 'Acme', stage: 'Open' })).data
+    doInstance.registerHook('Deal', { verb: 'close', phase: 'before', code: 'return null' })
+
+    const result = await doInstance.executeVerb('Deal', deal.$id, 'close')
+
+    expect(result).toMatchObject({ success: false, status: 503 })
+    expect((await doInstance.getEntity('Deal', deal.$id)).data.stage).toBe('Open')
+  })
+
+  it('should reject the verb with 409 when the entity changed while hooks ran', async () => {
+    doInstance.registerHook('Deal', { verb: 'close', phase: 'before', code: 'return null' })
+    meanwhile = () => doInstance.updateEntity('Deal', dealId, { value: 20 })
+
+    const result = await doInstance.executeVerb('Deal', dealId, 'close')
+
+    expect(result).toMatchObject({ success: false, status: 409 })
+    expect(result.error).toContain('was modified while hooks ran')
+    expect((await doInstance.getEntity('Deal', dealId)).data).toMatchObject({ stage: 'Open', value: 20, $version: 2 })
+  })
+
+  // -------------------------------------------------------------------------
+  // After hooks
+  // -------------------------------------------------------------------------
+
+  it('should run the verbs emitted by an after hook', async () => {
+    const { data } = doInstance.registerHook('Deal', { verb: 'close', phase: 'after', code: "return { emit: [{ verb: 'ping' }] }" })
+
+    const result = await doInstance.executeVerb('Deal', dealId, 'close')
+
+    expect(result.data.stage).toBe('Won')
+    const deal = (await doInstance.getEntity('Deal', dealId)).data
+    expect(deal).toMatchObject({ $version: 3, pingedBy: `hook:${data.id}` })
+  })
+
+  it('should stop emitting at the hook depth limit and log Hook.fail', async () => {
+    const { data } = doInstance.registerHook('Deal', { verb: 'ping', phase: 'after', code: "return { emit: [{ verb: 'ping' }] }" })
+
+    const result = await doInstance.executeVerb('Deal', dealId, 'ping')
+
+    expect(result.success).toBe(true)
+    // The ping requested here plus three emitted ones (MAX_HOOK_DEPTH)
+    const pings = (await doInstance.queryEvents({ entityId: dealId, verb: 'ping' })).data
+    expect(pings).toHaveLength(4)
+    expect(await hookFailures()).toEqual([
+      expect.objectContaining({ entityId: String(data.id), data: expect.objectContaining({ error: 'Not emitting Deal.ping: hook depth limit (3) reached' }) }),
+    ])
+  })
+
+  it('should log Hook.fail without undoing the verb when an after hook throws', async () => {
+    doInstance.registerHook('Deal', { verb: 'close', phase: 'after', code: "throw new Error('boom')" })
+
+    const result = await doInstance.executeVerb('Deal', dealId, 'close')
+
+    expect(result).toMatchObject({ success: true, status: 200, data: { stage: 'Won' } })
+    expect((await hookFailures()).map((e) => e.data.error)).toEqual(['boom'])
+  })
+})
@@ -4,152 +4,21 @@
  * Validates that filters are pushed into SQL via json_extract() instead of
  * being applied in JS after LIMIT. This prevents the old bug where entities
  * matching a filter but beyond the LIMIT boundary were silently dropped.
+ * Also covers keyset cursors, point-in-time (asOf) listing and fields/expand
+ * shaping on reads. Lists come from SQLite even when the R2 mirror is bound.
  *
- * Uses better-sqlite3 as a stand-in for Cloudflare's SqlStorage so that the
- * real ObjectsDO SQL queries execute against a genuine SQLite engine.
+ * Runs against the better-sqlite3 harness in helpers/objects-do.ts.
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest'
-import Database from 'better-sqlite3'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createTestDO } from './helpers/objects-do'
 
 // ---------------------------------------------------------------------------
-// Mock cloudflare:workers — ObjectsDO extends DurableObject which is only
-// available in the Workers runtime. We provide a minimal stub.
+// Mocks — cloudflare:workers is only available in the Workers runtime
 // ---------------------------------------------------------------------------
 
-vi.mock('cloudflare:workers', () => ({
-  DurableObject: class DurableObject {
-    ctx: unknown
-    env: unknown
-    constructor(ctx: unknown, env: unknown) {
-      this.ctx = ctx
-      this.env = env
-    }
-  },
-}))
-
-// ---------------------------------------------------------------------------
-// Mock EventEmitter — the emitter reaches out to events.do which is
-// irrelevant for these tests.
-// ---------------------------------------------------------------------------
-
-vi.mock('../../../events/core/src/emitter', () => ({
-  EventEmitter: class EventEmitter {
-    constructor() {}
-    emitChange() {}
-    handleAlarm() {}
-  },
-}))
-
-// ---------------------------------------------------------------------------
-// SqlStorage mock backed by better-sqlite3
-// ---------------------------------------------------------------------------
-
-function createMockSqlStorage(db: InstanceType<typeof Database>) {
-  // better-sqlite3 does not accept booleans — coerce to 0/1 like real SQLite
-  const coerceBindings = (bindings: unknown[]) =>
-    bindings.map((b) => (typeof b === 'boolean' ? (b ? 1 : 0) : b))
-
-  return {
-    exec(query: string, ...bindings: unknown[]) {
-      // Cloudflare's SqlStorage.exec handles both read and write queries.
-      // For writes (INSERT, UPDATE, DELETE, CREATE, ALTER, DROP), we use run().
-      // For reads (SELECT), we use all().
-      const trimmed = query.trim()
-
-      // Handle multi-statement SQL (CREATE TABLE + CREATE INDEX, etc.)
-      // by splitting on semicolons and executing each statement.
-      const statements = trimmed
-        .split(/;\s*/)
-        .map((s) => s.trim())
-        .filter((s) => s.length > 0)
-
-      if (statements.length > 1 && bindings.length === 0) {
-        for (const stmt of statements) {
-          db.exec(stmt)
-        }
-        return {
-          toArray() {
-            return []
-          },
-          one() {
-            return undefined
-          },
-          columnNames: [],
-          rowsRead: 0,
-          rowsWritten: 0,
-        }
-      }
-
-      const isRead = /^\s*(SELECT|PRAGMA)/i.test(trimmed)
-
-      if (isRead) {
-        const stmt = db.prepare(trimmed)
-        const rows = stmt.all(...coerceBindings(bindings))
-        return {
-          toArray() {
-            return rows
-          },
-          one() {
-            return rows[0]
-          },
-          columnNames: rows.length > 0 ? Object.keys(rows[0] as object) : [],
-          rowsRead: rows.length,
-          rowsWritten: 0,
-        }
-      } else {
-        const stmt = db.prepare(trimmed)
-        const info = stmt.run(...coerceBindings(bindings))
-        return {
-          toArray() {
-            return []
-          },
-          one() {
-            return undefined
-          },
-          columnNames: [],
-          rowsRead: 0,
-          rowsWritten: info.changes,
-        }
-      }
-    },
-  }
-}
-
-// ---------------------------------------------------------------------------
-// Helper: create a fresh ObjectsDO instance with an in-memory SQLite backend
-// ---------------------------------------------------------------------------
-
-async function createTestDO() {
-  const db = new Database(':memory:')
-
-  const sqlStorage = createMockSqlStorage(db)
-
-  const mockCtx = {
-    storage: {
-      sql: sqlStorage,
-      getAlarm: () => null,
-      setAlarm: () => {},
-      get: () => undefined,
-      put: () => {},
-      delete: () => {},
-      deleteAll: () => {},
-      list: () => new Map(),
-    },
-    id: { toString: () => 'test-do-id' },
-    waitUntil: () => {},
-  }
-
-  const mockEnv = {}
-
-  // Dynamic import so vi.mock directives are applied before the module loads
-  const { ObjectsDO } = await import('../src/do/objects-do')
-
-  // Construct the DO — the constructor calls initSchema() which creates all tables
-  const doInstance = new ObjectsDO(mockCtx as any, mockEnv as any)
-
-  return doInstance
-}
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
 
 // ---------------------------------------------------------------------------
 // Helper: define a Contact noun on the DO
@@ -172,10 +41,10 @@ function defineContactNoun(doInstance: any) {
 // Helper: create N entities with a given stage
 // ---------------------------------------------------------------------------
 
-function createContacts(doInstance: any, count: number, stage: string, namePrefix?: string) {
+async function createContacts(doInstance: any, count: number, stage: string, namePrefix?: string) {
   const entities = []
   for (let i = 0; i < count; i++) {
-    const result = doInstance.createEntity('Contact', {
+    const result = await doInstance.createEntity('Contact', {
       name: `${namePrefix ?? stage} ${i + 1}`,
       email: `${stage.toLowerCase()}${i + 1}@test.com`,
       stage,
@@ -202,11 +71,11 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   // 1. Basic filter returns only matching entities
   // -------------------------------------------------------------------------
 
-  it('should return only matching entities when filter is provided', () => {
-    createContacts(doInstance, 5, 'Lead')
-    createContacts(doInstance, 5, 'Customer')
+  it('should return only matching entities when filter is provided', async () => {
+    await createContacts(doInstance, 5, 'Lead')
+    await createContacts(doInstance, 5, 'Customer')
 
-    const result = doInstance.listEntities('Contact', {
+    const result = await doInstance.listEntities('Contact', {
       filter: '{"stage":"Lead"}',
       limit: 100,
     })
@@ -223,12 +92,12 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   // 2. Filter + pagination returns correct page with correct total
   // -------------------------------------------------------------------------
 
-  it('should paginate correctly within filtered results', () => {
-    createContacts(doInstance, 20, 'Lead')
-    createContacts(doInstance, 10, 'Customer')
+  it('should paginate correctly within filtered results', async () => {
+    await createContacts(doInstance, 20, 'Lead')
+    await createContacts(doInstance, 10, 'Customer')
 
     // First page
-    const page1 = doInstance.listEntities('Contact', {
+    const page1 = await doInstance.listEntities('Contact', {
       filter: '{"stage":"Lead"}',
       limit: 5,
       offset: 0,
@@ -243,7 +112,7 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
     expect(page1.meta!.hasMore).toBe(true)
 
     // Second page
-    const page2 = doInstance.listEntities('Contact', {
+    const page2 = await doInstance.listEntities('Contact', {
       filter: '{"stage":"Lead"}',
       limit: 5,
       offset: 5,
@@ -277,13 +146,13 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   //   (returns up to 10 Leads regardless of where they sit in the table)
   // -------------------------------------------------------------------------
 
-  it('should find all matching entities even when buried after non-matching rows', () => {
+  it('should find all matching entities even when buried after non-matching rows', async () => {
     // Create 95 Customers first — they'll have earlier rowids
-    createContacts(doInstance, 95, 'Customer')
+    await createContacts(doInstance, 95, 'Customer')
     // Create 5 Leads — they're "buried" at the end of the table
-    createContacts(doInstance, 5, 'Lead')
+    await createContacts(doInstance, 5, 'Lead')
 
-    const result = doInstance.listEntities('Contact', {
+    const result = await doInstance.listEntities('Contact', {
       filter: '{"stage":"Lead"}',
       limit: 10,
     })
@@ -303,14 +172,14 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   // 4. Sort pushed to SQL via json_extract
   // -------------------------------------------------------------------------
 
-  it('should sort by a data field using json_extract', () => {
+  it('should sort by a data field using json_extract', async () => {
     // Create contacts with specific names to verify sort order
     const names = ['Charlie', 'Alice', 'Eve', 'Bob', 'Diana']
     for (const name of names) {
-      doInstance.createEntity('Contact', { name, stage: 'Lead' })
+      await doInstance.createEntity('Contact', { name, stage: 'Lead' })
     }
 
-    const result = doInstance.listEntities('Contact', {
+    const result = await doInstance.listEntities('Contact', {
       sort: '{"name":1}',
       limit: 100,
     })
@@ -322,13 +191,13 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
     expect(returnedNames).toEqual(['Alice', 'Bob', 'Charlie', 'Diana', 'Eve'])
   })
 
-  it('should sort descending when direction is -1', () => {
+  it('should sort descending when direction is -1', async () => {
     const names = ['Charlie', 'Alice', 'Eve', 'Bob', 'Diana']
     for (const name of names) {
-      doInstance.createEntity('Contact', { name, stage: 'Lead' })
+      await doInstance.createEntity('Contact', { name, stage: 'Lead' })
     }
 
-    const result = doInstance.listEntities('Contact', {
+    const result = await doInstance.listEntities('Contact', {
       sort: '{"name":-1}',
       limit: 100,
     })
@@ -342,11 +211,11 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   // 5. No filter returns all entities (regression)
   // -------------------------------------------------------------------------
 
-  it('should return all entities when no filter is provided', () => {
-    createContacts(doInstance, 5, 'Lead')
-    createContacts(doInstance, 5, 'Customer')
+  it('should return all entities when no filter is provided', async () => {
+    await createContacts(doInstance, 5, 'Lead')
+    await createContacts(doInstance, 5, 'Customer')
 
-    const result = doInstance.listEntities('Contact', { limit: 100 })
+    const result = await doInstance.listEntities('Contact', { limit: 100 })
 
     expect(result.success).toBe(true)
     expect(result.data).toHaveLength(10)
@@ -357,11 +226,11 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   // 6. Empty filter object returns all entities
   // -------------------------------------------------------------------------
 
-  it('should return all entities when filter is an empty object', () => {
-    createContacts(doInstance, 3, 'Lead')
-    createContacts(doInstance, 3, 'Customer')
+  it('should return all entities when filter is an empty object', async () => {
+    await createContacts(doInstance, 3, 'Lead')
+    await createContacts(doInstance, 3, 'Customer')
 
-    const result = doInstance.listEntities('Contact', {
+    const result = await doInstance.listEntities('Contact', {
       filter: '{}',
       limit: 100,
     })
@@ -375,10 +244,10 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   // 7. Invalid filter JSON returns error
   // -------------------------------------------------------------------------
 
-  it('should return error for invalid filter JSON', () => {
-    createContacts(doInstance, 3, 'Lead')
+  it('should return error for invalid filter JSON', async () => {
+    await createContacts(doInstance, 3, 'Lead')
 
-    const result = doInstance.listEntities('Contact', {
+    const result = await doInstance.listEntities('Contact', {
       filter: 'not-valid-json',
       limit: 100,
     })
@@ -392,13 +261,13 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   // 8. Filter with multiple fields (AND logic)
   // -------------------------------------------------------------------------
 
-  it('should apply multiple filter fields with AND logic', () => {
-    doInstance.createEntity('Contact', { name: 'Alice', stage: 'Lead' })
-    doInstance.createEntity('Contact', { name: 'Bob', stage: 'Lead' })
-    doInstance.createEntity('Contact', { name: 'Alice', stage: 'Customer' })
-    doInstance.createEntity('Contact', { name: 'Bob', stage: 'Customer' })
+  it('should apply multiple filter fields with AND logic', async () => {
+    await doInstance.createEntity('Contact', { name: 'Alice', stage: 'Lead' })
+    await doInstance.createEntity('Contact', { name: 'Bob', stage: 'Lead' })
+    await doInstance.createEntity('Contact', { name: 'Alice', stage: 'Customer' })
+    await doInstance.createEntity('Contact', { name: 'Bob', stage: 'Customer' })
 
-    const result = doInstance.listEntities('Contact', {
+    const result = await doInstance.listEntities('Contact', {
       filter: '{"name":"Alice","stage":"Lead"}',
       limit: 100,
     })
@@ -414,13 +283,13 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   // 9. Filter + sort together
   // -------------------------------------------------------------------------
 
-  it('should filter and sort simultaneously', () => {
-    doInstance.createEntity('Contact', { name: 'Charlie', stage: 'Lead' })
-    doInstance.createEntity('Contact', { name: 'Alice', stage: 'Lead' })
-    doInstance.createEntity('Contact', { name: 'Eve', stage: 'Customer' })
-    doInstance.createEntity('Contact', { name: 'Bob', stage: 'Lead' })
+  it('should filter and sort simultaneously', async () => {
+    await doInstance.createEntity('Contact', { name: 'Charlie', stage: 'Lead' })
+    await doInstance.createEntity('Contact', { name: 'Alice', stage: 'Lead' })
+    await doInstance.createEntity('Contact', { name: 'Eve', stage: 'Customer' })
+    await doInstance.createEntity('Contact', { name: 'Bob', stage: 'Lead' })
 
-    const result = doInstance.listEntities('Contact', {
+    const result = await doInstance.listEntities('Contact', {
       filter: '{"stage":"Lead"}',
       sort: '{"name":1}',
       limit: 100,
@@ -436,11 +305,11 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   // 10. hasMore is false on the last page
   // -------------------------------------------------------------------------
 
-  it('should set hasMore to false when all results have been returned', () => {
-    createContacts(doInstance, 3, 'Lead')
-    createContacts(doInstance, 10, 'Customer')
+  it('should set hasMore to false when all results have been returned', async () => {
+    await createContacts(doInstance, 3, 'Lead')
+    await createContacts(doInstance, 10, 'Customer')
 
-    const result = doInstance.listEntities('Contact', {
+    const result = await doInstance.listEntities('Contact', {
       filter: '{"stage":"Lead"}',
       limit: 10,
       offset: 0,
@@ -456,14 +325,14 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   // 11. Deleted entities are excluded from filtered results
   // -------------------------------------------------------------------------
 
-  it('should exclude soft-deleted entities from filtered results', () => {
-    const leads = createContacts(doInstance, 5, 'Lead')
+  it('should exclude soft-deleted entities from filtered results', async () => {
+    const leads = await createContacts(doInstance, 5, 'Lead')
 
     // Soft-delete two of the five Leads
-    doInstance.deleteEntity('Contact', leads[0].$id)
-    doInstance.deleteEntity('Contact', leads[1].$id)
+    await doInstance.deleteEntity('Contact', leads[0].$id)
+    await doInstance.deleteEntity('Contact', leads[1].$id)
 
-    const result = doInstance.listEntities('Contact', {
+    const result = await doInstance.listEntities('Contact', {
       filter: '{"stage":"Lead"}',
       limit: 100,
     })
@@ -477,7 +346,7 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   // 12. Numeric filter value
   // -------------------------------------------------------------------------
 
-  it('should filter by numeric values', () => {
+  it('should filter by numeric values', async () => {
     // Define a Deal noun with a numeric field
     doInstance.defineNoun({
       name: 'Deal',
@@ -488,11 +357,11 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
       },
     })
 
-    doInstance.createEntity('Deal', { title: 'Small Deal', value: 1000, stage: 'Open' })
-    doInstance.createEntity('Deal', { title: 'Big Deal', value: 50000, stage: 'Open' })
-    doInstance.createEntity('Deal', { title: 'Another Small', value: 1000, stage: 'Won' })
+    await doInstance.createEntity('Deal', { title: 'Small Deal', value: 1000, stage: 'Open' })
+    await doInstance.createEntity('Deal', { title: 'Big Deal', value: 50000, stage: 'Open' })
+    await doInstance.createEntity('Deal', { title: 'Another Small', value: 1000, stage: 'Won' })
 
-    const result = doInstance.listEntities('Deal', {
+    const result = await doInstance.listEntities('Deal', {
       filter: '{"value":1000}',
       limit: 100,
     })
@@ -509,7 +378,7 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   // 13. Boolean filter value
   // -------------------------------------------------------------------------
 
-  it('should filter by boolean values', () => {
+  it('should filter by boolean values', async () => {
     doInstance.defineNoun({
       name: 'FeatureFlag',
       definition: {
@@ -518,11 +387,11 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
       },
     })
 
-    doInstance.createEntity('FeatureFlag', { key: 'dark-mode', enabled: true })
-    doInstance.createEntity('FeatureFlag', { key: 'new-ui', enabled: false })
-    doInstance.createEntity('FeatureFlag', { key: 'beta', enabled: true })
+    await doInstance.createEntity('FeatureFlag', { key: 'dark-mode', enabled: true })
+    await doInstance.createEntity('FeatureFlag', { key: 'new-ui', enabled: false })
+    await doInstance.createEntity('FeatureFlag', { key: 'beta', enabled: true })
 
-    const result = doInstance.listEntities('FeatureFlag', {
+    const result = await doInstance.listEntities('FeatureFlag', {
       filter: '{"enabled":true}',
       limit: 100,
     })
@@ -538,15 +407,15 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   // 14. Stress test — filter with large dataset
   // -------------------------------------------------------------------------
 
-  it('should handle filter + pagination across a large dataset', () => {
+  it('should handle filter + pagination across a large dataset', async () => {
     // Create 200 Customers and 50 Leads interleaved in batches
     for (let batch = 0; batch < 10; batch++) {
-      createContacts(doInstance, 20, 'Customer', `Batch${batch}Customer`)
-      createContacts(doInstance, 5, 'Lead', `Batch${batch}Lead`)
+      await createContacts(doInstance, 20, 'Customer', `Batch${batch}Customer`)
+      await createContacts(doInstance, 5, 'Lead', `Batch${batch}Lead`)
     }
 
     // Fetch page 1 of Leads (limit 10)
-    const page1 = doInstance.listEntities('Contact', {
+    const page1 = await doInstance.listEntities('Contact', {
       filter: '{"stage":"Lead"}',
       limit: 10,
       offset: 0,
@@ -558,7 +427,7 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
     expect(page1.meta!.hasMore).toBe(true)
 
     // Fetch remaining Leads
-    const page2 = doInstance.listEntities('Contact', {
+    const page2 = await doInstance.listEntities('Contact', {
       filter: '{"stage":"Lead"}',
       limit: 100,
       offset: 10,
@@ -574,10 +443,10 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
   // 15. Sort by $createdAt (built-in column)
   // -------------------------------------------------------------------------
 
-  it('should sort by $createdAt ascending', () => {
-    createContacts(doInstance, 5, 'Lead')
+  it('should sort by $createdAt ascending', async () => {
+    await createContacts(doInstance, 5, 'Lead')
 
-    const result = doInstance.listEntities('Contact', {
+    const result = await doInstance.listEntities('Contact', {
       sort: '{"$createdAt":1}',
       limit: 100,
     })
@@ -590,4 +459,393 @@ describe('ObjectsDO.listEntities — filter + pagination', () => {
       expect(result.data![i].$createdAt >= result.data![i - 1].$createdAt).toBe(true)
     }
   })
+
+  // -------------------------------------------------------------------------
+  // 16. Operator filters are applied in SQL before LIMIT
+  // -------------------------------------------------------------------------
+
+  it('should paginate operator filters with correct totals', async () => {
+    await createContacts(doInstance, 15, 'Lead')
+    await createContacts(doInstance, 10, 'Qualified')
+    await createContacts(doInstance, 20, 'Churned')
+
+    const page1 = await doInstance.listEntities('Contact', {
+      filter: '{"stage":{"$in":["Lead","Qualified"]}}',
+      limit: 10,
+      offset: 0,
+    })
+
+    expect(page1.success).toBe(true)
+    expect(page1.data).toHaveLength(10)
+    expect(page1.meta!.total).toBe(25)
+    expect(page1.meta!.hasMore).toBe(true)
+
+    const page3 = await doInstance.listEntities('Contact', {
+      filter: '{"stage":{"$in":["Lead","Qualified"]}}',
+      limit: 10,
+      offset: 20,
+    })
+
+    expect(page3.data).toHaveLength(5)
+    expect(page3.meta!.hasMore).toBe(false)
+    for (const entity of [...page1.data!, ...page3.data!]) {
+      expect(['Lead', 'Qualified']).toContain(entity.stage)
+    }
+  })
+
+  // -------------------------------------------------------------------------
+  // 17. $or / comparison operators
+  // -------------------------------------------------------------------------
+
+  it('should combine $or with comparison operators', async () => {
+    doInstance.defineNoun({ name: 'Deal', definition: { title: 'string!', value: 'number', stage: 'Open | Won | Lost' } })
+    await doInstance.createEntity('Deal', { title: 'Small', value: 1000, stage: 'Open' })
+    await doInstance.createEntity('Deal', { title: 'Big', value: 50000, stage: 'Open' })
+    await doInstance.createEntity('Deal', { title: 'Won', value: 500, stage: 'Won' })
+    await doInstance.createEntity('Deal', { title: 'Lost', value: 90000, stage: 'Lost' })
+
+    const result = await doInstance.listEntities('Deal', {
+      filter: '{"$or":[{"stage":"Won"},{"value":{"$gte":10000}}],"stage":{"$ne":"Lost"}}',
+      limit: 100,
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.data!.map((d: any) => d.title).sort()).toEqual(['Big', 'Won'])
+    expect(result.meta!.total).toBe(2)
+  })
+
+  // -------------------------------------------------------------------------
+  // 18. Unsupported operators are rejected, not ignored
+  // -------------------------------------------------------------------------
+
+  it('should return 400 for unsupported filter operators', async () => {
+    await createContacts(doInstance, 3, 'Lead')
+
+    const result = await doInstance.listEntities('Contact', {
+      filter: '{"stage":{"$near":"Lead"}}',
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.status).toBe(400)
+    expect(result.error).toContain('$near')
+  })
+
+  it('should return 400 for array and object filter values', async () => {
+    const arrayResult = await doInstance.listEntities('Contact', { filter: '{"stage":["Lead"]}' })
+    expect(arrayResult.status).toBe(400)
+
+    const objectResult = await doInstance.listEntities('Contact', { filter: '{"stage":{"value":"Lead"}}' })
+    expect(objectResult.status).toBe(400)
+  })
+
+  // -------------------------------------------------------------------------
+  // 19. Keyset pagination with cursors
+  // -------------------------------------------------------------------------
+
+  it('should page through every row exactly once with nextCursor', async () => {
+    await createContacts(doInstance, 12, 'Lead')
+    await createContacts(doInstance, 5, 'Churned')
+
+    const seen: string[] = []
+    let cursor: string | undefined
+    let pages = 0
+    do {
+      const page = await doInstance.listEntities('Contact', { filter: '{"stage":"Lead"}', limit: 5, cursor, count: false })
+      expect(page.success).toBe(true)
+      expect(page.meta!.total).toBeUndefined()
+      seen.push(...page.data!.map((e: any) => e.$id))
+      cursor = page.meta!.nextCursor
+      expect(page.meta!.hasMore).toBe(cursor !== undefined)
+      pages++
+    } while (cursor)
+
+    expect(pages).toBe(3)
+    expect(seen).toHaveLength(12)
+    expect(new Set(seen).size).toBe(12)
+  })
+
+  it('should resume after the cursor when rows are added mid-way', async () => {
+    doInstance.defineNoun({ name: 'Deal', definition: { title: 'string!', value: 'number' } })
+    for (const value of [10, 20, 20, 30, 40]) {
+      await doInstance.createEntity('Deal', { title: `Deal ${value}`, value })
+    }
+
+    const page1 = await doInstance.listEntities('Deal', { sort: '{"value":1}', limit: 2 })
+    expect(page1.data!.map((d: any) => d.value)).toEqual([10, 20])
+    expect(page1.meta!.total).toBe(5)
+
+    await doInstance.createEntity('Deal', { title: 'Early', value: 5 })
+
+    const page2 = await doInstance.listEntities('Deal', { sort: '{"value":1}', limit: 2, cursor: page1.meta!.nextCursor })
+    expect(page2.data!.map((d: any) => d.value)).toEqual([20, 30])
+    expect(page2.data![0].$id).not.toBe(page1.data![1].$id)
+
+    const page3 = await doInstance.listEntities('Deal', { sort: '{"value":1}', limit: 2, cursor: page2.meta!.nextCursor })
+    expect(page3.data!.map((d: any) => d.value)).toEqual([40])
+    expect(page3.meta!.hasMore).toBe(false)
+    expect(page3.meta!.nextCursor).toBeUndefined()
+  })
+
+  it('should return 400 for invalid or mismatched cursors', async () => {
+    await createContacts(doInstance, 3, 'Lead')
+    const page = await doInstance.listEntities('Contact', { limit: 1 })
+    const cursor = page.meta!.nextCursor
+
+    const invalid = await doInstance.listEntities('Contact', { cursor: 'garbage' })
+    expect(invalid.status).toBe(400)
+
+    const mismatched = await doInstance.listEntities('Contact', { cursor, sort: '{"name":1}' })
+    expect(mismatched.status).toBe(400)
+    expect(mismatched.error).toContain('sort')
+
+    const withOffset = await doInstance.listEntities('Contact', { cursor, offset: 1 })
+    expect(withOffset.status).toBe(400)
+  })
+
+  it('should return 400 for invalid sort JSON or fields', async () => {
+    await createContacts(doInstance, 2, 'Lead')
+
+    expect(await doInstance.listEntities('Contact', { sort: '{name:1}' })).toMatchObject({ success: false, status: 400, error: 'Invalid sort JSON' })
+    expect(await doInstance.listEntities('Contact', { sort: '{"a..b":1}' })).toMatchObject({ success: false, status: 400, error: "Invalid field name 'a..b'" })
+  })
+
+  // -------------------------------------------------------------------------
+  // 20. The R2 mirror never serves lists
+  // -------------------------------------------------------------------------
+
+  it('should sort and hand out cursors from SQLite when the R2 mirror is bound', async () => {
+    await createContacts(doInstance, 3, 'Lead')
+    // Stand-in for @dotdo/db: a mirror that would answer every list with a stale page
+    const find = vi.fn(async () => ({ items: [{ $id: 'contact_stale', name: 'Stale' }], total: 1, hasMore: false }))
+    doInstance.db = { Contact: { find, findOne: async () => null, create: async () => {}, update: async () => {} } }
+
+    const page1 = await doInstance.listEntities('Contact', { sort: '{"name":-1}', limit: 2 })
+    const page2 = await doInstance.listEntities('Contact', { sort: '{"name":-1}', limit: 2, cursor: page1.meta!.nextCursor })
+
+    expect(find).not.toHaveBeenCalled()
+    expect(page1.data!.map((e: any) => e.name)).toEqual(['Lead 3', 'Lead 2'])
+    expect(page1.meta!.nextCursor).toBeDefined()
+    expect(page2.data!.map((e: any) => e.name)).toEqual(['Lead 1'])
+  })
+})
+
+// ===========================================================================
+// Field projection and relationship expansion
+// ===========================================================================
+
+describe('ObjectsDO — fields and expand', () => {
+  let doInstance: any
+
+  beforeEach(async () => {
+    doInstance = await createTestDO()
+    doInstance.defineNoun({
+      name: 'Company',
+      definition: { name: 'string!', domain: 'string', contacts: '<- Contact.company[]', owner: '-> User' },
+    })
+    doInstance.defineNoun({ name: 'User', definition: { email: 'string!' } })
+    doInstance.defineNoun({
+      name: 'Contact',
+      definition: { name: 'string!', email: 'string', company: '-> Company.contacts', deals: '-> Deal[]' },
+    })
+    doInstance.defineNoun({ name: 'Deal', definition: { title: 'string!', value: 'number' } })
+  })
+
+  async function seed() {
+    const user = (await doInstance.createEntity('User', { email: 'owner@acme.com' })).data
+    const acme = (await doInstance.createEntity('Company', { name: 'Acme', domain: 'acme.com', owner: user.$id })).data
+    const deal1 = (await doInstance.createEntity('Deal', { title: 'Big', value: 100 })).data
+    const deal2 = (await doInstance.createEntity('Deal', { title: 'Small', value: 10 })).data
+    const alice = (await doInstance.createEntity('Contact', { name: 'Alice', email: 'a@acme.com', company: acme.$id, deals: [deal1.$id, deal2.$id] })).data
+    const bob = (await doInstance.createEntity('Contact', { name: 'Bob', email: 'b@acme.com', company: acme.$id })).data
+    return { user, acme, deal1, deal2, alice, bob }
+  }
+
+  it('should project fields and keep meta-fields', async () => {
+    const { alice } = await seed()
+
+    const result = await doInstance.getEntity('Contact', alice.$id, { fields: 'name' })
+
+    expect(result.success).toBe(true)
+    expect(result.data.name).toBe('Alice')
+    expect(result.data.$id).toBe(alice.$id)
+    expect(result.data.email).toBeUndefined()
+    expect(result.data.company).toBeUndefined()
+  })
+
+  it('should inline forward relationships', async () => {
+    const { alice, acme } = await seed()
+
+    const result = await doInstance.getEntity('Contact', alice.$id, { expand: 'company,deals' })
+
+    expect(result.data.company.$id).toBe(acme.$id)
+    expect(result.data.company.name).toBe('Acme')
+    expect(result.data.deals.map((d: any) => d.title)).toEqual(['Big', 'Small'])
+  })
+
+  it('should inline backward relationships through the backref field', async () => {
+    const { acme } = await seed()
+
+    const result = await doInstance.getEntity('Company', acme.$id, { expand: 'contacts', fields: 'name,contacts.name' })
+
+    expect(result.data.domain).toBeUndefined()
+    expect(result.data.contacts.map((c: any) => c.name).sort()).toEqual(['Alice', 'Bob'])
+    expect(Object.keys(result.data.contacts[0]).filter((k) => !k.startsWith('$'))).toEqual(['name'])
+  })
+
+  it('should follow _rels edges and nested paths', async () => {
+    const { alice, bob, deal1 } = await seed()
+    doInstance.createRelationship('Contact', bob.$id, { type: 'deals', targetType: 'Deal', targetId: deal1.$id })
+
+    const result = await doInstance.listEntities('Contact', { sort: '{"name":1}', expand: 'deals,company.owner' })
+
+    expect(result.success).toBe(true)
+    const [a, b] = result.data
+    expect(a.$id).toBe(alice.$id)
+    expect(b.deals.map((d: any) => d.$id)).toEqual([deal1.$id])
+    expect(a.company.owner.email).toBe('owner@acme.com')
+    expect(b.company.owner.email).toBe('owner@acme.com')
+  })
+
+  it('should skip soft-deleted related entities', async () => {
+    const { alice, acme, deal2 } = await seed()
+    await doInstance.deleteEntity('Deal', deal2.$id)
+    await doInstance.deleteEntity('Company', acme.$id)
+
+    const result = await doInstance.getEntity('Contact', alice.$id, { expand: 'company,deals' })
+
+    expect(result.data.company).toBeNull()
+    expect(result.data.deals.map((d: any) => d.title)).toEqual(['Big'])
+  })
+
+  it('should reject unknown relationships and paths past the depth limit', async () => {
+    const { alice } = await seed()
+
+    const unknown = await doInstance.getEntity('Contact', alice.$id, { expand: 'email' })
+    expect(unknown.status).toBe(400)
+    expect(unknown.error).toContain("Unknown relationship 'email' on Contact")
+
+    const deep = await doInstance.listEntities('Contact', { expand: 'company.contacts.company.owner' })
+    expect(deep.status).toBe(400)
+  })
+})
+
+// ===========================================================================
+// Aggregation
+// ===========================================================================
+
+describe('ObjectsDO.aggregateEntities', () => {
+  let doInstance: any
+
+  beforeEach(async () => {
+    doInstance = await createTestDO()
+    defineContactNoun(doInstance)
+    await createContacts(doInstance, 3, 'Lead')
+    await createContacts(doInstance, 2, 'Customer')
+  })
+
+  it('should count live entities grouped by a field', async () => {
+    const [lead] = await createContacts(doInstance, 1, 'Lead', 'Deleted')
+    await doInstance.deleteEntity('Contact', lead.$id)
+
+    const result = doInstance.aggregateEntities('Contact', { metrics: 'count,count_distinct:email', groupBy: 'stage' })
+
+    expect(result.success).toBe(true)
+    expect(result.data).toEqual([
+      { stage: 'Customer', count: 2, 'count_distinct:email': 2 },
+      { stage: 'Lead', count: 3, 'count_distinct:email': 3 },
+    ])
+    expect(result.meta).toEqual({ groups: 2, hasMore: false })
+  })
+
+  it('should apply the listEntities filter syntax', async () => {
+    const result = doInstance.aggregateEntities('Contact', { filter: JSON.stringify({ stage: { $in: ['Lead'] } }) })
+
+    expect(result.data).toEqual([{ count: 3 }])
+  })
+
+  it('should cap the number of groups', async () => {
+    const result = doInstance.aggregateEntities('Contact', { groupBy: 'email', limit: 2 })
+
+    expect(result.data).toHaveLength(2)
+    expect(result.meta.hasMore).toBe(true)
+  })
+
+  it('should reject invalid metrics, buckets and filters with 400', async () => {
+    expect(doInstance.aggregateEntities('Contact', { metrics: 'median:score' }).status).toBe(400)
+    expect(doInstance.aggregateEntities('Contact', { groupBy: '$createdAt:decade' }).status).toBe(400)
+    expect(doInstance.aggregateEntities('Contact', { filter: '{bad' }).error).toBe('Invalid filter JSON')
+  })
+})
+
+describe('ObjectsDO.listEntities — asOf', () => {
+  let doInstance: any
+  let contacts: { $id: string }[]
+
+  /** Names listed as of a timestamp, sorted */
+  async function namesAsOf(asOf: string, params: Record<string, unknown> = {}): Promise<string[]> {
+    const result = await doInstance.listEntities('Contact', { asOf, ...params })
+    expect(result.success).toBe(true)
+    return result.data.map((c: { name: string }) => c.name).sort()
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    doInstance = await createTestDO()
+    defineContactNoun(doInstance)
+
+    vi.setSystemTime(new Date('2026-06-01T09:00:00Z'))
+    contacts = await createContacts(doInstance, 3, 'Lead')
+
+    vi.setSystemTime(new Date('2026-06-15T09:00:00Z'))
+    await doInstance.updateEntity('Contact', contacts[0].$id, { stage: 'Customer' })
+    await doInstance.deleteEntity('Contact', contacts[1].$id)
+
+    vi.setSystemTime(new Date('2026-07-01T09:00:00Z'))
+    await doInstance.restoreEntity('Contact', contacts[1].$id)
+    await doInstance.purgeEntity('Contact', contacts[2].$id)
+    await createContacts(doInstance, 1, 'Partner')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should list the collection as it stood at the timestamp', async () => {
+    expect(await namesAsOf('2026-01-01T00:00:00Z')).toEqual([])
+    expect(await namesAsOf('2026-06-10T00:00:00Z')).toEqual(['Lead 1', 'Lead 2', 'Lead 3'])
+    expect(await namesAsOf('2026-06-30T00:00:00Z')).toEqual(['Lead 1', 'Lead 3'])
+    expect(await namesAsOf('2026-07-02T00:00:00Z')).toEqual(['Lead 1', 'Lead 2', 'Partner 1'])
+  })
+
+  it('should filter on the historical state', async () => {
+    expect(await namesAsOf('2026-06-10T00:00:00Z', { filter: JSON.stringify({ stage: 'Customer' }) })).toEqual([])
+    expect(await namesAsOf('2026-06-30T00:00:00Z', { filter: JSON.stringify({ stage: 'Customer' }) })).toEqual(['Lead 1'])
+  })
+
+  it('should list entities deleted at the time with includeDeleted', async () => {
+    const result = await doInstance.listEntities('Contact', {
+      asOf: '2026-06-30T00:00:00Z',
+      includeDeleted: true,
+      filter: JSON.stringify({ $id: contacts[1].$id }),
+    })
+
+    expect(result.data).toHaveLength(1)
+    expect(result.data[0]).toMatchObject({ name: 'Lead 2', stage: 'Lead', $deletedAt: '2026-06-15T09:00:00.000Z' })
+  })
+
+  it('should sort and page with cursors, reporting the normalized asOf', async () => {
+    const first = await doInstance.listEntities('Contact', { asOf: '2026-06-10', sort: JSON.stringify({ name: -1 }), limit: 2 })
+
+    expect(first.data.map((c: { name: string }) => c.name)).toEqual(['Lead 3', 'Lead 2'])
+    expect(first.meta).toMatchObject({ total: 3, hasMore: true, asOf: '2026-06-10T00:00:00.000Z' })
+
+    const second = await doInstance.listEntities('Contact', { asOf: '2026-06-10', sort: JSON.stringify({ name: -1 }), cursor: first.meta.nextCursor })
+    expect(second.data.map((c: { name: string }) => c.name)).toEqual(['Lead 1'])
+    expect(second.meta.hasMore).toBe(false)
+  })
+
+  it('should reject invalid timestamps and full-text queries', async () => {
+    expect((await doInstance.listEntities('Contact', { asOf: 'last tuesday' })).status).toBe(400)
+    expect((await doInstance.listEntities('Contact', { asOf: '2026-06-10', q: 'lead' })).error).toBe('q cannot be combined with asOf')
+  })
 })
@@ -0,0 +1,112 @@
+/**
+ * Tests for field projection and expansion path parsing
+ *
+ * Verifies:
+ * - Comma-separated dotted paths parse into trees, with a depth limit
+ * - Invalid paths, including ones reaching Object.prototype, are rejected
+ * - Projections are widened to include expanded relationships
+ * - Projection keeps meta-fields, skips inherited properties and applies nested
+ *   selections to objects and arrays
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parsePathList, includeExpanded, projectFields, MAX_EXPAND_DEPTH } from '../src/lib/projection'
+
+// ---------------------------------------------------------------------------
+// parsePathList
+// ---------------------------------------------------------------------------
+
+describe('parsePathList', () => {
+  it('should parse dotted paths into a tree', () => {
+    expect(parsePathList('name, company.name,company.owner.email,deals')).toEqual({
+      name: {},
+      company: { name: {}, owner: { email: {} } },
+      deals: {},
+    })
+  })
+
+  it('should ignore empty entries', () => {
+    expect(parsePathList('name,,email,')).toEqual({ name: {}, email: {} })
+  })
+
+  it('should reject invalid segments', () => {
+    expect(() => parsePathList('company..name')).toThrow("Invalid path 'company..name'")
+    expect(() => parsePathList('na me')).toThrow('Invalid path')
+  })
+
+  it('should reject segments that reach Object.prototype', () => {
+    for (const path of ['__proto__.polluted', 'constructor.prototype.polluted', 'company.__proto__']) {
+      expect(() => parsePathList(path)).toThrow('Invalid path')
+    }
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+
+  it('should enforce the depth limit', () => {
+    expect(() => parsePathList('a.b.c', MAX_EXPAND_DEPTH)).not.toThrow()
+    expect(() => parsePathList('a.b.c.d', MAX_EXPAND_DEPTH)).toThrow('nested more than 3 levels')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// includeExpanded
+// ---------------------------------------------------------------------------
+
+describe('includeExpanded', () => {
+  it('should include unmentioned relationships whole', () => {
+    expect(includeExpanded({ name: {} }, { company: { owner: {} }, deals: {} })).toEqual({ name: {}, company: {}, deals: {} })
+  })
+
+  it('should keep narrowed relationships narrowed and add nested expansions', () => {
+    expect(includeExpanded({ contacts: { name: {} } }, { contacts: {} })).toEqual({ contacts: { name: {} } })
+    expect(includeExpanded({ company: { name: {} } }, { company: { owner: {} } })).toEqual({ company: { name: {}, owner: {} } })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// projectFields
+// ---------------------------------------------------------------------------
+
+describe('projectFields', () => {
+  const entity = {
+    $id: 'contact_1',
+    $type: 'Contact',
+    $version: 2,
+    name: 'Alice',
+    email: 'alice@example.com',
+    phone: '555',
+    company: { $id: 'company_1', $type: 'Company', name: 'Acme', domain: 'acme.com' },
+    deals: [
+      { $id: 'deal_1', $type: 'Deal', title: 'A', value: 1 },
+      { $id: 'deal_2', $type: 'Deal', title: 'B', value: 2 },
+    ],
+  }
+
+  it('should keep selected fields and meta-fields', () => {
+    expect(projectFields(entity, { name: {}, email: {} })).toEqual({
+      $id: 'contact_1',
+      $type: 'Contact',
+      $version: 2,
+      name: 'Alice',
+      email: 'alice@example.com',
+    })
+  })
+
+  it('should project nested objects and arrays', () => {
+    const projected = projectFields(entity, { company: { name: {} }, deals: { title: {} } })
+    expect(projected.company).toEqual({ $id: 'company_1', $type: 'Company', name: 'Acme' })
+    expect(projected.deals).toEqual([
+      { $id: 'deal_1', $type: 'Deal', title: 'A' },
+      { $id: 'deal_2', $type: 'Deal', title: 'B' },
+    ])
+  })
+
+  it('should skip missing fields and leave scalars under nested selections alone', () => {
+    const projected = projectFields({ $id: 'x', company: 'company_1' }, { company: { name: {} }, missing: {} })
+    expect(projected).toEqual({ $id: 'x', company: 'company_1' })
+  })
+
+  it('should not select inherited properties', () => {
+    const projected = projectFields({ $id: 'x', name: 'Alice' }, { name: {}, toString: {}, hasOwnProperty: {} })
+    expect(projected).toEqual({ $id: 'x', name: 'Alice' })
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * Tests for data-subject redaction
+ *
+ * Verifies:
+ * - containsValue finds needles at any depth
+ * - redactState removes all fields or only those holding a needle
+ * - Meta fields survive and removed fields are listed under $redacted
+ */
+
+import { describe, it, expect } from 'vitest'
+import { containsValue, redactState, REDACTED_KEY } from '../src/lib/redact'
+
+// ---------------------------------------------------------------------------
+// containsValue
+// ---------------------------------------------------------------------------
+
+describe('containsValue', () => {
+  const needles = new Set<string | number>(['alice@acme.com', 42])
+
+  it('should match scalars', () => {
+    expect(containsValue('alice@acme.com', needles)).toBe(true)
+    expect(containsValue(42, needles)).toBe(true)
+    expect(containsValue('42', needles)).toBe(false)
+    expect(containsValue(null, needles)).toBe(false)
+  })
+
+  it('should match inside objects and arrays', () => {
+    expect(containsValue({ contact: { emails: ['x@y.com', 'alice@acme.com'] } }, needles)).toBe(true)
+    expect(containsValue({ contact: { emails: ['x@y.com'] } }, needles)).toBe(false)
+  })
+
+  it('should not match substrings', () => {
+    expect(containsValue('cc: alice@acme.com', needles)).toBe(false)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// redactState
+// ---------------------------------------------------------------------------
+
+describe('redactState', () => {
+  const state = { $id: 'contact_abc', $version: 3, name: 'Alice', email: 'alice@acme.com', stage: 'Lead', notes: { cc: ['alice@acme.com'] } }
+
+  it('should remove every field with all', () => {
+    expect(redactState(state, { all: true })).toEqual({ $id: 'contact_abc', $version: 3, [REDACTED_KEY]: ['email', 'name', 'notes', 'stage'] })
+  })
+
+  it('should remove only fields holding a value', () => {
+    expect(redactState(state, { values: ['alice@acme.com'] })).toEqual({
+      $id: 'contact_abc',
+      $version: 3,
+      name: 'Alice',
+      stage: 'Lead',
+      [REDACTED_KEY]: ['email', 'notes'],
+    })
+  })
+
+  it('should return the same object when nothing matches', () => {
+    expect(redactState(state, { values: ['bob@acme.com'] })).toBe(state)
+    expect(redactState(null, { all: true })).toBeNull()
+  })
+
+  it('should merge with an existing $redacted list', () => {
+    const once = redactState(state, { values: ['alice@acme.com'] })
+    expect(redactState(once, { all: true })[REDACTED_KEY]).toEqual(['email', 'name', 'notes', 'stage'])
+  })
+})
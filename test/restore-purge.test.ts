@@ -0,0 +1,137 @@
+/**
+ * Integration tests for restoring and purging soft-deleted entities
+ *
+ * Verifies:
+ * - restoreEntity emits a restore event, bumps $version and makes the entity readable again
+ * - Restoring fails for live entities and when a unique value was taken meanwhile
+ * - includeDeleted lists soft-deleted entities with $deletedAt
+ * - purgeEntity removes the row and its relationships, optionally redacting event payloads
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createTestDO } from './helpers/objects-do'
+
+// ---------------------------------------------------------------------------
+// Mocks — cloudflare:workers is only available in the Workers runtime
+// ---------------------------------------------------------------------------
+
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe('ObjectsDO restore and purge', () => {
+  let doInstance: any
+  let aliceId: string
+
+  beforeEach(async () => {
+    doInstance = await createTestDO()
+    doInstance.defineNoun({ name: 'Contact', definition: { name: 'string!', email: 'string##' } })
+    const alice = await doInstance.createEntity('Contact', { name: 'Alice', email: 'alice@test.com' })
+    aliceId = alice.data.$id
+  })
+
+  // -------------------------------------------------------------------------
+  // Restore
+  // -------------------------------------------------------------------------
+
+  it('should restore a soft-deleted entity with a restore event and a new version', async () => {
+    await doInstance.deleteEntity('Contact', aliceId)
+
+    const result = await doInstance.restoreEntity('Contact', aliceId)
+
+    expect(result.success).toBe(true)
+    expect(result.data.$version).toBe(2)
+    expect(result.data.$deletedAt).toBeUndefined()
+    expect((await doInstance.getEntity('Contact', aliceId)).data.name).toBe('Alice')
+
+    const [event] = (await doInstance.queryEvents({ verb: 'restore' })).data
+    expect(event.$id).toBe(result.meta.eventId)
+    expect(event.before.$deletedAt).toBeDefined()
+    expect(event.after.$version).toBe(2)
+  })
+
+  it('should refuse to restore a live entity', async () => {
+    const result = await doInstance.restoreEntity('Contact', aliceId)
+
+    expect(result.status).toBe(409)
+    expect(result.error).toContain('is not deleted')
+  })
+
+  it('should refuse to restore when a unique value was taken meanwhile', async () => {
+    await doInstance.deleteEntity('Contact', aliceId)
+    const other = await doInstance.createEntity('Contact', { name: 'Alice 2', email: 'alice@test.com' })
+
+    const result = await doInstance.restoreEntity('Contact', aliceId)
+
+    expect(result.status).toBe(409)
+    expect(result.meta).toEqual({ field: 'email', conflictId: other.data.$id })
+  })
+
+  it('should return 404 when restoring an unknown entity', async () => {
+    expect((await doInstance.restoreEntity('Contact', 'contact_missing')).status).toBe(404)
+  })
+
+  // -------------------------------------------------------------------------
+  // Trash view
+  // -------------------------------------------------------------------------
+
+  it('should list soft-deleted entities only with includeDeleted', async () => {
+    await doInstance.createEntity('Contact', { name: 'Bob' })
+    await doInstance.deleteEntity('Contact', aliceId)
+
+    const live = await doInstance.listEntities('Contact', {})
+    expect(live.data.map((e: any) => e.name)).toEqual(['Bob'])
+
+    const all = await doInstance.listEntities('Contact', { includeDeleted: true })
+    expect(all.meta.total).toBe(2)
+    expect(all.data.find((e: any) => e.$id === aliceId).$deletedAt).toBeDefined()
+
+    const trash = await doInstance.listEntities('Contact', { includeDeleted: true, filter: JSON.stringify({ name: 'Alice' }) })
+    expect(trash.data).toHaveLength(1)
+  })
+
+  // -------------------------------------------------------------------------
+  // Purge
+  // -------------------------------------------------------------------------
+
+  it('should physically remove the entity and its relationships', async () => {
+    const bob = await doInstance.createEntity('Contact', { name: 'Bob' })
+    doInstance.createRelationship('Contact', aliceId, { type: 'knows', targetType: 'Contact', targetId: bob.data.$id })
+    doInstance.createRelationship('Contact', bob.data.$id, { type: 'knows', targetType: 'Contact', targetId: aliceId })
+
+    const result = await doInstance.purgeEntity('Contact', aliceId)
+
+    expect(result.success).toBe(true)
+    expect(result.data).toEqual({ relationships: 2, redactedEvents: 0 })
+    expect((await doInstance.listEntities('Contact', { includeDeleted: true })).meta.total).toBe(1)
+    expect(doInstance.getRelationships('Contact', bob.data.$id).data).toHaveLength(0)
+    expect((await doInstance.restoreEntity('Contact', aliceId)).status).toBe(404)
+
+    const history = (await doInstance.entityHistory('Contact', aliceId)).data
+    expect(history.map((e: any) => e.verb)).toEqual(['create', 'purge'])
+    expect(history[0].after.email).toBe('alice@test.com')
+  })
+
+  it('should redact event payloads when asked to', async () => {
+    await doInstance.updateEntity('Contact', aliceId, { name: 'Alice Smith' })
+    await doInstance.deleteEntity('Contact', aliceId)
+
+    const result = await doInstance.purgeEntity('Contact', aliceId, { redactEvents: true })
+
+    expect(result.data.redactedEvents).toBe(3)
+    const history = (await doInstance.entityHistory('Contact', aliceId)).data
+    expect(history.map((e: any) => e.verb)).toEqual(['create', 'update', 'delete', 'purge'])
+    for (const event of history) {
+      expect(event.before).toBeNull()
+      expect(event.after).toBeNull()
+    }
+    expect(JSON.stringify(history)).not.toContain('alice@test.com')
+  })
+
+  it('should return 404 when purging an unknown entity', async () => {
+    expect((await doInstance.purgeEntity('Contact', 'contact_missing')).status).toBe(404)
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Integration tests for reverting entities to an earlier version
+ *
+ * Verifies:
+ * - revertEntity writes the old state back as a new version with a revert event
+ * - If-Match and toVersion are checked before anything is written
+ * - Reverting across a delete needs restore, which also undoes the delete
+ * - The old state must pass current validation and unique constraints
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createTestDO } from './helpers/objects-do'
+
+// ---------------------------------------------------------------------------
+// Mocks — cloudflare:workers is only available in the Workers runtime
+// ---------------------------------------------------------------------------
+
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe('ObjectsDO.revertEntity', () => {
+  let doInstance: any
+  let id: string
+
+  beforeEach(async () => {
+    doInstance = await createTestDO()
+    doInstance.defineNoun({ name: 'Contact', definition: { name: 'string!', email: 'string##', phone: 'string' } })
+    const created = await doInstance.createEntity('Contact', { name: 'Alice', email: 'alice@test.com' })
+    id = created.data.$id
+    await doInstance.updateEntity('Contact', id, { phone: '555-0100' })
+    await doInstance.updateEntity('Contact', id, { name: 'Alicia', email: 'alicia@test.com' })
+  })
+
+  it('should write the old state back as a new version with a revert event', async () => {
+    const result = await doInstance.revertEntity('Contact', id, 1)
+
+    expect(result.success).toBe(true)
+    expect(result.data).toMatchObject({ name: 'Alice', email: 'alice@test.com', $version: 4 })
+    expect(result.data.phone).toBeUndefined()
+    expect(result.etag).toBe('"4"')
+
+    const [event] = (await doInstance.queryEvents({ verb: 'revert' })).data
+    const [source] = (await doInstance.entityHistory('Contact', id)).data
+    expect(event.$id).toBe(result.meta.eventId)
+    expect(event.data).toEqual({ toVersion: 1, eventId: source.$id })
+    expect(event.before.name).toBe('Alicia')
+    expect((await doInstance.getEntity('Contact', id)).data).toMatchObject({ name: 'Alice', $version: 4 })
+  })
+
+  it('should honour If-Match', async () => {
+    const stale = await doInstance.revertEntity('Contact', id, 1, { ifMatch: '"2"' })
+    expect(stale.status).toBe(409)
+    expect(stale.meta).toEqual({ currentVersion: 3, expectedVersion: 2 })
+
+    const current = await doInstance.revertEntity('Contact', id, 2, { ifMatch: '"3"' })
+    expect(current.success).toBe(true)
+    expect(current.data).toMatchObject({ name: 'Alice', phone: '555-0100' })
+  })
+
+  it('should reject versions that are not earlier than the current one', async () => {
+    for (const toVersion of [0, 3, 7, 1.5, NaN]) {
+      const result = await doInstance.revertEntity('Contact', id, toVersion)
+      expect(result.status).toBe(400)
+    }
+    expect((await doInstance.revertEntity('Contact', 'contact_missing', 1)).status).toBe(404)
+  })
+
+  it('should refuse to revert across a delete unless restore is requested', async () => {
+    await doInstance.deleteEntity('Contact', id)
+
+    const refused = await doInstance.revertEntity('Contact', id, 2)
+    expect(refused.status).toBe(409)
+    expect(refused.error).toMatch(/deleted after version 2/)
+
+    const restored = await doInstance.revertEntity('Contact', id, 2, { restore: true })
+    expect(restored.success).toBe(true)
+    expect(restored.data.$deletedAt).toBeUndefined()
+    expect((await doInstance.getEntity('Contact', id)).data).toMatchObject({ name: 'Alice', $version: 4 })
+  })
+
+  it('should still count a delete that was later restored', async () => {
+    await doInstance.deleteEntity('Contact', id)
+    await doInstance.restoreEntity('Contact', id)
+
+    expect((await doInstance.revertEntity('Contact', id, 3)).status).toBe(409)
+    expect((await doInstance.revertEntity('Contact', id, 4)).status).toBe(400)
+    expect((await doInstance.revertEntity('Contact', id, 3, { restore: true })).data.$version).toBe(5)
+  })
+
+  it('should reject old states that break unique constraints or current validation', async () => {
+    await doInstance.createEntity('Contact', { name: 'Other', email: 'alice@test.com' })
+    const taken = await doInstance.revertEntity('Contact', id, 1)
+    expect(taken.status).toBe(409)
+    expect(taken.meta.field).toBe('email')
+
+    doInstance.defineNoun({ name: 'Contact', definition: { name: 'string!', email: 'string##', phone: 'string!' } })
+    const invalid = await doInstance.revertEntity('Contact', id, 1)
+    expect(invalid.status).toBe(422)
+    expect(invalid.meta.errors[0].field).toBe('phone')
+  })
+})
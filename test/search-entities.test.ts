@@ -0,0 +1,182 @@
+/**
+ * Integration tests for full-text search over entities
+ *
+ * Verifies:
+ * - The FTS5 index follows creates, updates, verbs, deletes, restores and purges
+ * - listEntities narrows by q alongside filters and pagination
+ * - search() ranks hits across nouns with highlighted snippets
+ * - Redefining a noun's searchable fields rebuilds its index
+ * - GDPR erasure removes erased text from the index
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createTestDO } from './helpers/objects-do'
+
+// ---------------------------------------------------------------------------
+// Mocks — cloudflare:workers is only available in the Workers runtime
+// ---------------------------------------------------------------------------
+
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe('ObjectsDO full-text search', () => {
+  let doInstance: any
+
+  /** IDs of the Tickets a query lists, sorted */
+  async function listMatches(q: string, params: Record<string, unknown> = {}): Promise<string[]> {
+    const result = await doInstance.listEntities('Ticket', { q, ...params })
+    expect(result.success).toBe(true)
+    return result.data.map((t: { $id: string }) => t.$id).sort()
+  }
+
+  beforeEach(async () => {
+    doInstance = await createTestDO()
+    doInstance.defineNoun({
+      name: 'Ticket',
+      definition: { subject: 'string#', description: 'markdown', channel: 'string', status: 'Open | Solved', solve: 'Solved', 'solve.description': 'markdown' },
+    })
+    doInstance.defineNoun({ name: 'Article', definition: { title: 'string!', body: 'text' } })
+  })
+
+  // -------------------------------------------------------------------------
+  // Index maintenance
+  // -------------------------------------------------------------------------
+
+  it('should find entities by their searchable fields only', async () => {
+    const ticket = await doInstance.createEntity('Ticket', { subject: 'Refund not received', description: 'Paid with **Stripe**', channel: 'email' })
+
+    expect(await listMatches('stripe')).toEqual([ticket.data.$id])
+    expect(await listMatches('refunds')).toEqual([ticket.data.$id])
+    expect(await listMatches('email')).toEqual([])
+  })
+
+  it('should follow updates and verbs', async () => {
+    const ticket = await doInstance.createEntity('Ticket', { subject: 'Login broken', status: 'Open' })
+    const id = ticket.data.$id
+
+    await doInstance.updateEntity('Ticket', id, { subject: 'Password reset loop' })
+    expect(await listMatches('login')).toEqual([])
+    expect(await listMatches('password')).toEqual([id])
+
+    await doInstance.executeVerb('Ticket', id, 'solve', { description: 'Cleared the session cookie' })
+    expect(await listMatches('cookie')).toEqual([id])
+  })
+
+  it('should drop deleted entities, re-add restored ones and forget purged ones', async () => {
+    const ticket = await doInstance.createEntity('Ticket', { subject: 'Invoice missing' })
+    const id = ticket.data.$id
+
+    await doInstance.deleteEntity('Ticket', id)
+    expect(await listMatches('invoice')).toEqual([])
+    expect(await listMatches('invoice', { includeDeleted: true })).toEqual([])
+
+    await doInstance.restoreEntity('Ticket', id)
+    expect(await listMatches('invoice')).toEqual([id])
+
+    await doInstance.purgeEntity('Ticket', id)
+    expect(doInstance.search('invoice').data).toEqual([])
+  })
+
+  it('should roll the index back with a failed atomic batch', async () => {
+    const result = await doInstance.batch([
+      { op: 'create', type: 'Ticket', data: { subject: 'Printer jammed' } },
+      { op: 'update', type: 'Ticket', id: 'ticket_missing', data: { subject: 'x' } },
+    ])
+
+    expect(result.meta.committed).toBe(false)
+    expect(await listMatches('printer')).toEqual([])
+  })
+
+  // -------------------------------------------------------------------------
+  // Listing with q
+  // -------------------------------------------------------------------------
+
+  it('should combine q with filters, counts and paging', async () => {
+    for (const [subject, status] of [
+      ['Refund for order 1', 'Open'],
+      ['Refund for order 2', 'Solved'],
+      ['Refund for order 3', 'Open'],
+      ['Shipping delay', 'Open'],
+    ]) {
+      await doInstance.createEntity('Ticket', { subject, status })
+    }
+
+    const result = await doInstance.listEntities('Ticket', { q: 'refund', filter: JSON.stringify({ status: 'Open' }), limit: 1 })
+
+    expect(result.meta.total).toBe(2)
+    expect(result.meta.hasMore).toBe(true)
+    const next = await doInstance.listEntities('Ticket', { q: 'refund', filter: JSON.stringify({ status: 'Open' }), cursor: result.meta.nextCursor })
+    expect(next.data).toHaveLength(1)
+    expect(next.data[0].$id).not.toBe(result.data[0].$id)
+  })
+
+  it('should reject queries without words', async () => {
+    const result = await doInstance.listEntities('Ticket', { q: '"" *' })
+
+    expect(result.success).toBe(false)
+    expect(result.status).toBe(400)
+  })
+
+  // -------------------------------------------------------------------------
+  // Tenant-wide search
+  // -------------------------------------------------------------------------
+
+  it('should rank hits across nouns with highlighted snippets', async () => {
+    const article = await doInstance.createEntity('Article', {
+      title: 'Handling refunds',
+      body: 'Refund policy: refund within 30 days. Refunds go to the original card.',
+    })
+    const ticket = await doInstance.createEntity('Ticket', { subject: 'Printer jammed', description: 'Customer also asked about a refund <urgent>' })
+
+    const result = doInstance.search('refund')
+
+    expect(result.success).toBe(true)
+    expect(result.data.map((h: { $id: string }) => h.$id)).toEqual([article.data.$id, ticket.data.$id])
+    expect(result.data[0].score).toBeGreaterThan(result.data[1].score)
+    expect(result.data[1]).toMatchObject({ $type: 'Ticket', entity: { subject: 'Printer jammed' } })
+    expect(result.data[1].snippet).toContain('<mark>refund</mark> &lt;urgent&gt;')
+
+    const tickets = doInstance.search('refund', { type: 'Ticket' })
+    expect(tickets.data.map((h: { $id: string }) => h.$id)).toEqual([ticket.data.$id])
+  })
+
+  it('should page search results', async () => {
+    for (let i = 0; i < 3; i++) await doInstance.createEntity('Article', { title: `Guide ${i}`, body: 'setup guide' })
+
+    const first = doInstance.search('guide', { limit: 2 })
+    const second = doInstance.search('guide', { limit: 2, offset: 2 })
+
+    expect(first.meta).toEqual({ limit: 2, offset: 0, hasMore: true })
+    expect(second.data).toHaveLength(1)
+    expect(second.meta.hasMore).toBe(false)
+  })
+
+  // -------------------------------------------------------------------------
+  // Schema changes and erasure
+  // -------------------------------------------------------------------------
+
+  it('should reindex when a noun changes its searchable fields', async () => {
+    const ticket = await doInstance.createEntity('Ticket', { subject: 'Slow dashboard', channel: 'chat' })
+    expect(await listMatches('chat')).toEqual([])
+
+    doInstance.defineNoun({ name: 'Ticket', definition: { subject: 'string', channel: 'string#' } })
+
+    expect(await listMatches('chat')).toEqual([ticket.data.$id])
+    expect(await listMatches('dashboard')).toEqual([])
+  })
+
+  it('should remove erased text from the index', async () => {
+    doInstance.defineNoun({ name: 'Contact', definition: { name: 'string', email: 'string##' } })
+    await doInstance.createEntity('Contact', { name: 'Alice', email: 'alice@acme.com' })
+    const ticket = await doInstance.createEntity('Ticket', { subject: 'Cannot log in', description: 'alice@acme.com' })
+
+    await doInstance.eraseSubject({ field: 'email', value: 'alice@acme.com' })
+
+    expect(doInstance.search('alice').data).toEqual([])
+    expect(await listMatches('log')).toEqual([ticket.data.$id])
+  })
+})
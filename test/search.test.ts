@@ -0,0 +1,114 @@
+/**
+ * Tests for the full-text search helpers
+ *
+ * Verifies:
+ * - Which noun fields are searchable (text, markdown, indexed strings)
+ * - Indexed documents collect string values and string array elements
+ * - User queries become valid FTS5 MATCH expressions (words, prefixes, phrases)
+ * - Snippets are HTML-escaped with matches wrapped in <mark>
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import Database from 'better-sqlite3'
+import { parseNounDefinition } from '../src/lib/parse'
+import { highlightSnippet, parseSearchQuery, searchableFields, searchDocument, SNIPPET_CLOSE, SNIPPET_OPEN, MAX_SEARCH_TERMS } from '../src/lib/search'
+
+let db: InstanceType<typeof Database>
+
+/** Run a user query against the fixture documents and return matching rowids */
+function run(q: string): number[] {
+  return db
+    .prepare('SELECT rowid FROM docs WHERE docs MATCH ? ORDER BY rowid')
+    .all(parseSearchQuery(q))
+    .map((r) => (r as { rowid: number }).rowid)
+}
+
+beforeAll(() => {
+  db = new Database(':memory:')
+  db.exec("CREATE VIRTUAL TABLE docs USING fts5(body, tokenize = 'porter unicode61')")
+  const insert = db.prepare('INSERT INTO docs (rowid, body) VALUES (?, ?)')
+  insert.run(1, 'Refund requested after the card was declined')
+  insert.run(2, 'Stripe webhook failing for refunds')
+  insert.run(3, 'Declined: card expired')
+})
+
+// ---------------------------------------------------------------------------
+// Searchable fields and documents
+// ---------------------------------------------------------------------------
+
+describe('searchableFields', () => {
+  it('should include text, markdown and indexed string fields', () => {
+    const noun = parseNounDefinition('Ticket', {
+      subject: 'string#',
+      description: 'markdown',
+      notes: 'text',
+      reference: 'string##',
+      channel: 'string',
+      priority: 'number#',
+      status: 'Open | Closed',
+    })
+    expect(searchableFields(noun)).toEqual(['subject', 'description', 'notes', 'reference'])
+  })
+
+  it('should return nothing for nouns without text fields', () => {
+    expect(searchableFields(parseNounDefinition('Deal', { value: 'number', name: 'string' }))).toEqual([])
+  })
+})
+
+describe('searchDocument', () => {
+  it('should join string values and string array elements, skipping the rest', () => {
+    const entity = { subject: 'Refund', tags: ['billing', 3, 'urgent'], notes: '  ', body: null, count: 4 }
+    expect(searchDocument(entity, ['subject', 'tags', 'notes', 'body', 'count', 'missing'])).toBe('Refund\nbilling\nurgent')
+  })
+
+  it('should strip snippet markers from indexed text', () => {
+    expect(searchDocument({ subject: `a${SNIPPET_OPEN}b${SNIPPET_CLOSE}c` }, ['subject'])).toBe('abc')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Query parsing
+// ---------------------------------------------------------------------------
+
+describe('parseSearchQuery', () => {
+  it('should quote each word so all of them must match', () => {
+    expect(parseSearchQuery('card declined')).toBe('"card" "declined"')
+    expect(run('card declined')).toEqual([1, 3])
+  })
+
+  it('should keep a trailing * as a prefix match', () => {
+    expect(parseSearchQuery('strip*')).toBe('"strip"*')
+    expect(run('strip*')).toEqual([2])
+  })
+
+  it('should match quoted phrases', () => {
+    expect(parseSearchQuery('"card was declined"')).toBe('"card was declined"')
+    expect(run('"card was declined"')).toEqual([1])
+  })
+
+  it('should stem words with the porter tokenizer', () => {
+    expect(run('refund')).toEqual([1, 2])
+  })
+
+  it('should neutralize FTS5 operators and quotes', () => {
+    expect(parseSearchQuery('card OR NOT -declined')).toBe('"card" "OR" "NOT" "-declined"')
+    expect(parseSearchQuery('a"b')).toBe('"a""b"')
+    expect(() => run('declined: NEAR(card')).not.toThrow()
+  })
+
+  it('should reject queries without words or with too many terms', () => {
+    expect(() => parseSearchQuery('')).toThrow(/at least one word/)
+    expect(() => parseSearchQuery('* "" -- ')).toThrow(/at least one word/)
+    expect(() => parseSearchQuery(Array.from({ length: MAX_SEARCH_TERMS + 1 }, (_, i) => `w${i}`).join(' '))).toThrow(/too many terms/)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Snippets
+// ---------------------------------------------------------------------------
+
+describe('highlightSnippet', () => {
+  it('should escape HTML and wrap matches in <mark>', () => {
+    expect(highlightSnippet(`<b>${SNIPPET_OPEN}refund${SNIPPET_CLOSE}</b> & "more"`)).toBe('&lt;b&gt;<mark>refund</mark>&lt;/b&gt; &amp; &quot;more&quot;')
+  })
+})
@@ -0,0 +1,188 @@
+/**
+ * Integration tests for entity snapshots
+ *
+ * Verifies:
+ * - A snapshot is taken every SNAPSHOT_INTERVAL events and rolls back with its write
+ * - Time travel and diffs replay from the nearest snapshot, not from sequence 1
+ * - snapshotEntity() snapshots the latest event on demand
+ * - With SNAPSHOT_OFFLOAD, superseded snapshots move to BUCKET and are read back from it
+ * - Purging an entity drops its snapshots, in SQLite and in R2
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createTestDO } from './helpers/objects-do'
+
+// ---------------------------------------------------------------------------
+// Mocks — cloudflare:workers is only available in the Workers runtime
+// ---------------------------------------------------------------------------
+
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+
+/** In-memory stand-in for the R2 bucket, enough for snapshot offloading */
+function createMockBucket() {
+  const objects = new Map<string, string>()
+  return {
+    objects,
+    async put(key: string, value: string) {
+      objects.set(key, value)
+    },
+    async get(key: string) {
+      const value = objects.get(key)
+      return value === undefined ? null : { json: async () => JSON.parse(value) }
+    },
+    async delete(keys: string | string[]) {
+      for (const key of Array.isArray(keys) ? keys : [keys]) objects.delete(key)
+    },
+  }
+}
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe('ObjectsDO entity snapshots', () => {
+  let doInstance: any
+  let id: string
+
+  /** Sequences of the entity's snapshots, with whether each is still held in SQLite */
+  function snapshots(): Array<{ sequence: number; local: boolean }> {
+    return doInstance.sql
+      .exec('SELECT sequence, state IS NOT NULL AS local FROM snapshots WHERE entity_id = ? ORDER BY sequence', id)
+      .toArray()
+      .map((r: { sequence: number; local: number }) => ({ sequence: r.sequence, local: r.local === 1 }))
+  }
+
+  /** Blank out events up to a sequence, so only a snapshot can still reconstruct them */
+  function forgetEvents(upTo: number): void {
+    doInstance.sql.exec('UPDATE events SET before_state = NULL, after_state = NULL WHERE entity_id = ? AND sequence <= ?', id, upTo)
+  }
+
+  async function setup(env: Record<string, unknown> = {}): Promise<void> {
+    doInstance = await createTestDO({ SNAPSHOT_INTERVAL: '3', ...env })
+    doInstance.defineNoun({ name: 'Deal', definition: { name: 'string!', value: 'number' } })
+    const created = await doInstance.createEntity('Deal', { name: 'Acme', value: 1 })
+    id = created.data.$id
+  }
+
+  /** Update the deal's value once per entry, each a day apart */
+  async function updateValues(values: number[]): Promise<void> {
+    for (const [i, value] of values.entries()) {
+      vi.setSystemTime(new Date(Date.UTC(2026, 2, 2 + i)))
+      await doInstance.updateEntity('Deal', id, { value })
+    }
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-03-01T00:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should snapshot every SNAPSHOT_INTERVAL events', async () => {
+    await setup()
+    await updateValues([2, 3, 4, 5, 6, 7])
+
+    expect(snapshots()).toEqual([
+      { sequence: 3, local: true },
+      { sequence: 6, local: true },
+    ])
+  })
+
+  it('should not snapshot when SNAPSHOT_INTERVAL is 0', async () => {
+    await setup({ SNAPSHOT_INTERVAL: '0' })
+    await updateValues([2, 3, 4])
+
+    expect(snapshots()).toEqual([])
+  })
+
+  it('should roll a snapshot back with a failed atomic batch', async () => {
+    await setup()
+    await updateValues([2])
+
+    const result = await doInstance.batch([
+      { op: 'update', type: 'Deal', id, data: { value: 3 } },
+      { op: 'update', type: 'Deal', id: 'deal_missing', data: { value: 0 } },
+    ])
+
+    expect(result.meta.committed).toBe(false)
+    expect(snapshots()).toEqual([])
+  })
+
+  it('should replay time travel from the nearest snapshot', async () => {
+    await setup()
+    await updateValues([2, 3, 4, 5, 6, 7])
+    forgetEvents(6)
+
+    expect((await doInstance.timeTravelGet('Deal', id, { atVersion: '3' })).data).toMatchObject({ name: 'Acme', value: 3, $version: 3 })
+    expect((await doInstance.timeTravelGet('Deal', id, { atVersion: '7' })).data).toMatchObject({ name: 'Acme', value: 7, $version: 7 })
+    expect((await doInstance.timeTravelGet('Deal', id, { asOf: '2026-03-06T12:00:00Z' })).data).toMatchObject({ value: 6, $version: 6 })
+  })
+
+  it('should diff across snapshots', async () => {
+    await setup()
+    await updateValues([2, 3, 4, 5, 6, 7])
+    forgetEvents(6)
+
+    const diff = await doInstance.entityDiff('Deal', id, { from: '3', to: '7' })
+
+    expect(diff.data.changes).toEqual([{ field: 'value', from: 3, to: 7 }])
+    expect(diff.data.events.map((e: { sequence: number }) => e.sequence)).toEqual([4, 5, 6, 7])
+  })
+
+  it('should snapshot the latest event on demand', async () => {
+    await setup({ SNAPSHOT_INTERVAL: '0' })
+    vi.setSystemTime(new Date('2026-03-02T00:00:00Z'))
+    await updateValues([2])
+
+    const first = await doInstance.snapshotEntity('Deal', id)
+    const again = await doInstance.snapshotEntity('Deal', id)
+
+    expect(first).toMatchObject({ success: true, status: 201, data: { sequence: 2, timestamp: '2026-03-02T00:00:00.000Z' } })
+    expect(again.status).toBe(200)
+    expect((await doInstance.snapshotEntity('Deal', 'deal_missing')).status).toBe(404)
+
+    forgetEvents(2)
+    expect((await doInstance.timeTravelGet('Deal', id, { atVersion: '2' })).data.value).toBe(2)
+  })
+
+  // -------------------------------------------------------------------------
+  // R2 offload
+  // -------------------------------------------------------------------------
+
+  it('should offload superseded snapshots to BUCKET and read them back', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const bucket = createMockBucket()
+    await setup({ BUCKET: bucket, SNAPSHOT_OFFLOAD: 'true' })
+    await updateValues([2, 3, 4, 5, 6, 7])
+    await doInstance.snapshotEntity('Deal', id)
+
+    expect(snapshots()).toEqual([
+      { sequence: 3, local: false },
+      { sequence: 6, local: false },
+      { sequence: 7, local: true },
+    ])
+    expect([...bucket.objects.keys()].sort()).toEqual([`test-do-id/_snapshots/Deal/${id}/3.json`, `test-do-id/_snapshots/Deal/${id}/6.json`])
+
+    forgetEvents(6)
+    expect((await doInstance.timeTravelGet('Deal', id, { atVersion: '3' })).data).toMatchObject({ value: 3, $version: 3 })
+    expect((await doInstance.timeTravelGet('Deal', id, { atVersion: '6' })).data).toMatchObject({ value: 6, $version: 6 })
+  })
+
+  it('should drop snapshots and their R2 copies when the entity is purged', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const bucket = createMockBucket()
+    await setup({ BUCKET: bucket, SNAPSHOT_OFFLOAD: 'true' })
+    await updateValues([2, 3, 4, 5, 6])
+    await doInstance.snapshotEntity('Deal', id)
+
+    await doInstance.purgeEntity('Deal', id, { redactEvents: true })
+
+    expect(snapshots()).toEqual([])
+    expect(bucket.objects.size).toBe(0)
+  })
+})
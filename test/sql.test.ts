@@ -0,0 +1,91 @@
+/**
+ * Tests for SQL helpers used to address entity JSON fields
+ *
+ * Verifies:
+ * - Literal and identifier quoting
+ * - JSON path construction (top-level and dotted paths)
+ * - json_extract() expressions are deterministic (required for index matching)
+ * - Boolean coercion and UNIQUE violation detection
+ */
+
+import { describe, it, expect } from 'vitest'
+import { sqlLiteral, sqlIdentifier, jsonPath, jsonField, sqlValue, isUniqueViolation } from '../src/lib/sql'
+
+describe('sqlLiteral', () => {
+  it('should wrap a value in single quotes', () => {
+    expect(sqlLiteral('Contact')).toBe("'Contact'")
+  })
+
+  it('should escape embedded single quotes', () => {
+    expect(sqlLiteral("O'Brien")).toBe("'O''Brien'")
+  })
+})
+
+describe('sqlIdentifier', () => {
+  it('should wrap a name in double quotes and escape embedded quotes', () => {
+    expect(sqlIdentifier('idx_field_Contact_email')).toBe('"idx_field_Contact_email"')
+    expect(sqlIdentifier('a"b')).toBe('"a""b"')
+  })
+})
+
+describe('jsonPath', () => {
+  it('should quote a top-level field', () => {
+    expect(jsonPath('email')).toBe('$."email"')
+  })
+
+  it('should quote meta-fields', () => {
+    expect(jsonPath('$createdAt')).toBe('$."$createdAt"')
+  })
+
+  it('should split dotted paths into nested segments', () => {
+    expect(jsonPath('address.city')).toBe('$."address"."city"')
+  })
+
+  it('should reject empty segments and double quotes', () => {
+    expect(() => jsonPath('')).toThrow()
+    expect(() => jsonPath('address..city')).toThrow()
+    expect(() => jsonPath('a"b')).toThrow()
+  })
+})
+
+describe('jsonField', () => {
+  it('should inline the path as a literal', () => {
+    expect(jsonField('email')).toBe(`json_extract(data, '$."email"')`)
+  })
+
+  it('should produce identical text for identical fields', () => {
+    expect(jsonField('stage')).toBe(jsonField('stage'))
+  })
+
+  it('should escape single quotes in field names', () => {
+    expect(jsonField("o'clock")).toBe(`json_extract(data, '$."o''clock"')`)
+  })
+
+  it('should accept a custom column', () => {
+    expect(jsonField('email', 'after_state')).toBe(`json_extract(after_state, '$."email"')`)
+  })
+})
+
+describe('sqlValue', () => {
+  it('should convert booleans to integers', () => {
+    expect(sqlValue(true)).toBe(1)
+    expect(sqlValue(false)).toBe(0)
+  })
+
+  it('should pass other values through', () => {
+    expect(sqlValue('x')).toBe('x')
+    expect(sqlValue(42)).toBe(42)
+    expect(sqlValue(null)).toBeNull()
+  })
+})
+
+describe('isUniqueViolation', () => {
+  it('should detect SQLite UNIQUE constraint errors', () => {
+    expect(isUniqueViolation(new Error('UNIQUE constraint failed: index uidx_field_Contact_email'))).toBe(true)
+  })
+
+  it('should ignore other errors', () => {
+    expect(isUniqueViolation(new Error('no such table: entities'))).toBe(false)
+    expect(isUniqueViolation('UNIQUE constraint failed')).toBe(false)
+  })
+})
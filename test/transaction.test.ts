@@ -0,0 +1,139 @@
+/**
+ * Integration tests for ObjectsDO.transaction
+ *
+ * Verifies:
+ * - Verbs, creates and relationship links across entities commit together
+ * - `as` names a created entity so later steps can refer to it as `$name`
+ * - All events of a transaction, relationship links included, share one
+ *   correlation id
+ * - The first failing step rolls back every write and publishes nothing;
+ *   unrelating an unknown relationship is such a failure
+ * - Malformed steps are rejected
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createTestDO, published } from './helpers/objects-do'
+
+// ---------------------------------------------------------------------------
+// Mocks — cloudflare:workers is only available in the Workers runtime; the
+// emitter records CDC changes in `published` so tests can check them
+// ---------------------------------------------------------------------------
+
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe('ObjectsDO.transaction', () => {
+  let doInstance: any
+  let dealId: string
+
+  beforeEach(async () => {
+    published.length = 0
+    doInstance = await createTestDO()
+    doInstance.defineNoun({ name: 'Deal', definition: { title: 'string!', stage: 'Open | Closed', close: 'Open => Closed' } })
+    doInstance.defineNoun({ name: 'Invoice', definition: { amount: 'number!', deal: 'string' } })
+    const deal = await doInstance.createEntity('Deal', { title: 'Acme renewal', stage: 'Open' })
+    dealId = deal.data.$id
+    published.length = 0
+  })
+
+  function closeAndInvoice(invoice: Record<string, unknown>) {
+    return [
+      { op: 'verb', type: 'Deal', id: dealId, verb: 'close' },
+      { op: 'create', type: 'Invoice', data: invoice, as: 'invoice' },
+      { op: 'relate', type: 'Deal', id: dealId, relationship: 'invoice', targetType: 'Invoice', targetId: '$invoice' },
+    ]
+  }
+
+  it('should close a deal, create its invoice and link them in one transaction', async () => {
+    const result = await doInstance.transaction(closeAndInvoice({ amount: 5000, deal: dealId }))
+
+    expect(result.success).toBe(true)
+    expect(result.status).toBe(200)
+    expect(result.meta.committed).toBe(true)
+    expect(result.data.map((r: any) => r.status)).toEqual([200, 201, 201])
+
+    const invoiceId = result.data[1].data.$id
+    const relationship = result.data[2].data
+    expect(relationship).toEqual(expect.objectContaining({ from: `Deal_${dealId}`, predicate: 'invoice', to: `Invoice_${invoiceId}` }))
+    expect((await doInstance.getEntity('Deal', dealId)).data.stage).toBe('Closed')
+    expect(doInstance.getRelationships('Deal', dealId, { direction: 'outgoing' }).data).toHaveLength(1)
+    expect(published).toEqual([`Deal.update:${dealId}`, `Invoice.insert:${invoiceId}`, `Relationship.update:${relationship.id}`])
+  })
+
+  it('should stamp every event with the same correlation id', async () => {
+    const result = await doInstance.transaction(closeAndInvoice({ amount: 5000 }), { correlationId: 'close-acme' })
+
+    expect(result.meta.correlationId).toBe('close-acme')
+    const events = (await doInstance.queryEvents({ correlationId: 'close-acme' })).data
+    expect(events.map((e: any) => `${e.entityType}.${e.verb}`).sort()).toEqual(['Deal.close', 'Invoice.create', 'Relationship.relate'])
+    expect(events.every((e: any) => e.correlationId === 'close-acme')).toBe(true)
+  })
+
+  it('should generate a correlation id when none is given', async () => {
+    const result = await doInstance.transaction(closeAndInvoice({ amount: 5000 }))
+
+    expect(result.meta.correlationId).toMatch(/^corr_/)
+    expect((await doInstance.queryEvents({ correlationId: result.meta.correlationId })).data).toHaveLength(3)
+  })
+
+  it('should roll back every step and publish nothing when a step fails', async () => {
+    const result = await doInstance.transaction(closeAndInvoice({ deal: dealId }))
+
+    expect(result.success).toBe(false)
+    expect(result.status).toBe(422)
+    expect(result.meta.committed).toBe(false)
+    expect(result.error).toMatch(/^Step 1 failed: .* — transaction rolled back$/)
+    expect((await doInstance.getEntity('Deal', dealId)).data.stage).toBe('Open')
+    expect((await doInstance.listEntities('Invoice', {})).meta.total).toBe(0)
+    expect(doInstance.getRelationships('Deal', dealId).data).toHaveLength(0)
+    expect((await doInstance.queryEvents({ verb: 'close' })).data).toHaveLength(0)
+    expect(published).toEqual([])
+  })
+
+  it('should roll back when a relate step targets a missing entity', async () => {
+    const result = await doInstance.transaction([
+      { op: 'verb', type: 'Deal', id: dealId, verb: 'close' },
+      { op: 'relate', type: 'Deal', id: dealId, relationship: 'invoice', targetType: 'Invoice', targetId: 'invoice_missing' },
+    ])
+
+    expect(result.status).toBe(404)
+    expect(result.error).toContain('Invoice invoice_missing not found')
+    expect((await doInstance.getEntity('Deal', dealId)).data.stage).toBe('Open')
+  })
+
+  it('should remove a relationship with an unrelate step', async () => {
+    const rel = doInstance.createRelationship('Deal', dealId, { type: 'owner', targetType: 'Deal', targetId: dealId })
+
+    const result = await doInstance.transaction([{ op: 'unrelate', relationshipId: rel.data.id }], { correlationId: 'unlink' })
+
+    expect(result.success).toBe(true)
+    expect(doInstance.getRelationships('Deal', dealId).data).toHaveLength(0)
+    const [event] = (await doInstance.queryEvents({ correlationId: 'unlink' })).data
+    expect(event).toMatchObject({ $id: result.data[0].meta.eventId, $type: 'Relationship.unrelate', entityId: rel.data.id })
+    expect(event.data).toEqual({ from: `Deal_${dealId}`, predicate: 'owner', to: `Deal_${dealId}` })
+  })
+
+  it('should roll back when an unrelate step names an unknown relationship', async () => {
+    const result = await doInstance.transaction([
+      { op: 'verb', type: 'Deal', id: dealId, verb: 'close' },
+      { op: 'unrelate', relationshipId: 'rel_missing' },
+    ])
+
+    expect(result).toMatchObject({ success: false, status: 404, meta: { committed: false } })
+    expect(result.error).toContain('Relationship rel_missing not found')
+    expect((await doInstance.getEntity('Deal', dealId)).data.stage).toBe('Open')
+    expect(published).toEqual([])
+  })
+
+  it('should reject malformed steps', async () => {
+    expect((await doInstance.transaction([])).status).toBe(400)
+    expect((await doInstance.transaction([{ op: 'relate', type: 'Deal', id: dealId }])).error).toContain('relationship is required for relate')
+    expect((await doInstance.transaction([{ op: 'verb', type: 'Deal', id: dealId, verb: 'close', as: 'deal' }])).error).toContain('as must be an identifier')
+    expect((await doInstance.transaction([{ op: 'merge', type: 'Deal' }])).error).toContain('op must be one of: create, update, delete, verb, relate, unrelate')
+    expect((await doInstance.transaction([{ op: 'verb', type: 'Deal', id: dealId, verb: 'close' }], { correlationId: '' })).status).toBe(400)
+  })
+})
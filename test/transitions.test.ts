@@ -0,0 +1,84 @@
+/**
+ * Tests for verb state transitions declared on nouns
+ *
+ * Verifies:
+ * - `verb: 'From | Other => To'` declares the verb and its transition
+ * - The enum field is inferred, or named explicitly with `field: From => To`
+ * - `*` allows the verb from any state
+ * - Unknown states, non-enum fields and ambiguous fields are rejected
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseNounDefinition } from '../src/lib/parse'
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+describe('parseNounDefinition — transitions', () => {
+  const deal = parseNounDefinition('Deal', {
+    title: 'string!',
+    stage: 'Prospect | Negotiation | Proposal | Closed | Lost',
+    close: 'Negotiation | Proposal => Closed',
+    reopen: 'Closed | Lost => Prospect',
+    lose: '* => Lost',
+    qualify: 'Qualified',
+  })
+
+  it('should declare the verb and conjugate it', () => {
+    expect(deal.verbs.close).toEqual(expect.objectContaining({ action: 'close' }))
+    expect(deal.verbs.reopen).toBeDefined()
+  })
+
+  it('should infer the enum field containing every state', () => {
+    expect(deal.transitions!.close).toEqual({ field: 'stage', from: ['Negotiation', 'Proposal'], to: 'Closed' })
+    expect(deal.transitions!.reopen).toEqual({ field: 'stage', from: ['Closed', 'Lost'], to: 'Prospect' })
+  })
+
+  it('should accept a wildcard source state', () => {
+    expect(deal.transitions!.lose).toEqual({ field: 'stage', from: ['*'], to: 'Lost' })
+  })
+
+  it('should not treat plain verb declarations as transitions', () => {
+    expect(deal.verbs.qualify).toBeDefined()
+    expect(deal.transitions!.qualify).toBeUndefined()
+    expect(deal.fields.close).toBeUndefined()
+  })
+
+  it('should use an explicitly named field', () => {
+    const ticket = parseNounDefinition('Ticket', {
+      status: 'Open | Closed',
+      resolution: 'Open | Closed | Duplicate',
+      resolve: 'resolution: Open => Closed',
+    })
+    expect(ticket.transitions!.resolve).toEqual({ field: 'resolution', from: ['Open'], to: 'Closed' })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+describe('parseNounDefinition — invalid transitions', () => {
+  it('should reject states that are not enum values', () => {
+    expect(() => parseNounDefinition('Deal', { stage: 'Open | Closed', close: 'Open => Archived' })).toThrow(/not values of any enum field/)
+  })
+
+  it('should reject ambiguous fields', () => {
+    expect(() =>
+      parseNounDefinition('Ticket', {
+        status: 'Open | Closed',
+        resolution: 'Open | Closed',
+        close: 'Open => Closed',
+      }),
+    ).toThrow(/ambiguous/)
+  })
+
+  it('should reject an explicit field that is not an enum', () => {
+    expect(() => parseNounDefinition('Deal', { title: 'string', close: 'title: Open => Closed' })).toThrow(/not an enum field/)
+  })
+
+  it('should reject an explicit field missing a state', () => {
+    expect(() => parseNounDefinition('Deal', { stage: 'Open | Closed', close: 'stage: Open => Archived' })).toThrow(/not values of 'stage'/)
+  })
+})
@@ -0,0 +1,259 @@
+/**
+ * Integration tests for upserts and Idempotency-Key handling in ObjectsDO
+ *
+ * Verifies:
+ * - A create with an existing $id is a 409, not an unhandled error
+ * - upsertEntity creates on a miss and updates on a hit, keyed on unique fields
+ * - upsertOn only accepts unique fields (or $id) present in the body; matches
+ *   are looked up through the field's unique index
+ * - A replayed Idempotency-Key returns the original response and event id
+ * - Reusing a key for a different request is rejected; failures free the key
+ * - A key left in progress (e.g. by an eviction) is only held for its lease;
+ *   the lease is renewed while the request is still running
+ * - Upserts replay under an Idempotency-Key too
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createTestDO } from './helpers/objects-do'
+
+// ---------------------------------------------------------------------------
+// Mocks — cloudflare:workers is only available in the Workers runtime
+// ---------------------------------------------------------------------------
+
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe('ObjectsDO upserts and idempotency', () => {
+  let doInstance: any
+
+  beforeEach(async () => {
+    doInstance = await createTestDO()
+    doInstance.defineNoun({
+      name: 'Contact',
+      definition: { name: 'string!', email: 'string##', stage: 'Lead | Qualified', qualify: 'Lead => Qualified' },
+    })
+  })
+
+  async function createEvents() {
+    return (await doInstance.queryEvents({ type: 'Contact', verb: 'create' })).data
+  }
+
+  // -------------------------------------------------------------------------
+  // Caller-supplied $id
+  // -------------------------------------------------------------------------
+
+  it('should reject a create that reuses an existing $id with 409', async () => {
+    await doInstance.createEntity('Contact', { $id: 'contact_alice', name: 'Alice' })
+
+    const result = await doInstance.createEntity('Contact', { $id: 'contact_alice', name: 'Alice again' })
+
+    expect(result.status).toBe(409)
+    expect(result.error).toBe('Contact contact_alice already exists')
+    expect(result.meta.conflictId).toBe('contact_alice')
+  })
+
+  it('should not reuse the $id of a soft-deleted entity', async () => {
+    await doInstance.createEntity('Contact', { $id: 'contact_alice', name: 'Alice' })
+    await doInstance.deleteEntity('Contact', 'contact_alice')
+
+    const result = await doInstance.createEntity('Contact', { $id: 'contact_alice', name: 'Alice' })
+
+    expect(result.status).toBe(409)
+    expect(result.error).toContain('(deleted)')
+  })
+
+  // -------------------------------------------------------------------------
+  // Upsert
+  // -------------------------------------------------------------------------
+
+  it('should create on a miss and update the same entity on a hit', async () => {
+    const created = await doInstance.upsertEntity('Contact', { name: 'Alice', email: 'alice@test.com' }, { upsertOn: 'email' })
+    expect(created.status).toBe(201)
+    expect(created.meta.created).toBe(true)
+
+    const updated = await doInstance.upsertEntity('Contact', { name: 'Alice Smith', email: 'alice@test.com' }, { upsertOn: 'email' })
+    expect(updated.status).toBe(200)
+    expect(updated.meta.created).toBe(false)
+    expect(updated.data.$id).toBe(created.data.$id)
+    expect(updated.data.$version).toBe(2)
+    expect(updated.etag).toBe('"2"')
+
+    expect((await doInstance.listEntities('Contact', {})).meta.total).toBe(1)
+  })
+
+  it('should upsert on $id', async () => {
+    await doInstance.upsertEntity('Contact', { $id: 'contact_bob', name: 'Bob' }, { upsertOn: '$id' })
+    const result = await doInstance.upsertEntity('Contact', { $id: 'contact_bob', name: 'Robert' }, { upsertOn: '$id' })
+
+    expect(result.status).toBe(200)
+    expect(result.data.name).toBe('Robert')
+  })
+
+  it('should honour If-Match when the upsert updates', async () => {
+    await doInstance.upsertEntity('Contact', { name: 'Alice', email: 'alice@test.com' }, { upsertOn: 'email' })
+
+    const result = await doInstance.upsertEntity('Contact', { name: 'Alice', email: 'alice@test.com' }, { upsertOn: 'email', ifMatch: '"7"' })
+
+    expect(result.status).toBe(409)
+    expect(result.meta.currentVersion).toBe(1)
+  })
+
+  it('should look matches up through the unique index', async () => {
+    const exec = vi.spyOn(doInstance.sql, 'exec')
+
+    await doInstance.upsertEntity('Contact', { name: 'Alice', email: 'alice@test.com' }, { upsertOn: 'email' })
+
+    const [query, ...values] = exec.mock.calls.find(([q]: [string]) => q.startsWith('SELECT id FROM entities'))!
+    // Inlined so the partial index applies even where bound values are not used for planning
+    expect(query).toContain("type = 'Contact'")
+    const plan = doInstance.sql.exec(`EXPLAIN QUERY PLAN ${query}`, ...values).toArray()
+    expect(plan.map((row: { detail: string }) => row.detail).join('\n')).toContain('uidx_field_Contact_email')
+  })
+
+  it('should reject upsertOn fields that are not unique or missing from the body', async () => {
+    const notUnique = await doInstance.upsertEntity('Contact', { name: 'Alice' }, { upsertOn: 'name' })
+    expect(notUnique.status).toBe(400)
+    expect(notUnique.error).toContain("'name' is not a unique (##) field")
+
+    const missing = await doInstance.upsertEntity('Contact', { name: 'Alice' }, { upsertOn: 'email' })
+    expect(missing.status).toBe(400)
+    expect(missing.error).toContain("'email' needs a value")
+  })
+
+  // -------------------------------------------------------------------------
+  // Idempotency keys
+  // -------------------------------------------------------------------------
+
+  it('should replay a create with the same Idempotency-Key instead of creating again', async () => {
+    const first = await doInstance.createEntity('Contact', { name: 'Alice' }, { idempotencyKey: 'key-1' })
+    const second = await doInstance.createEntity('Contact', { name: 'Alice' }, { idempotencyKey: 'key-1' })
+
+    expect(first.replayed).toBeUndefined()
+    expect(second.replayed).toBe(true)
+    expect(second.status).toBe(201)
+    expect(second.data.$id).toBe(first.data.$id)
+    expect(second.meta.eventId).toBe(first.meta.eventId)
+    expect(await createEvents()).toHaveLength(1)
+  })
+
+  it('should replay a verb with the same Idempotency-Key', async () => {
+    const contact = await doInstance.createEntity('Contact', { name: 'Alice', stage: 'Lead' })
+
+    const first = await doInstance.executeVerb('Contact', contact.data.$id, 'qualify', undefined, { idempotencyKey: 'qualify-1' })
+    const second = await doInstance.executeVerb('Contact', contact.data.$id, 'qualify', undefined, { idempotencyKey: 'qualify-1' })
+
+    expect(first.success).toBe(true)
+    expect(second.replayed).toBe(true)
+    expect(second.meta.event.$id).toBe(first.meta.event.$id)
+    expect((await doInstance.queryEvents({ verb: 'qualify' })).data).toHaveLength(1)
+  })
+
+  it('should reject a key reused for a different request', async () => {
+    await doInstance.createEntity('Contact', { name: 'Alice' }, { idempotencyKey: 'key-1' })
+
+    const result = await doInstance.createEntity('Contact', { name: 'Bob' }, { idempotencyKey: 'key-1' })
+
+    expect(result.status).toBe(422)
+    expect(result.error).toContain('different request')
+    expect(await createEvents()).toHaveLength(1)
+  })
+
+  it('should release the key when the request fails so it can be retried', async () => {
+    const failed = await doInstance.createEntity('Contact', { stage: 'Lead' }, { idempotencyKey: 'key-2' })
+    expect(failed.status).toBe(422)
+
+    const retried = await doInstance.createEntity('Contact', { stage: 'Lead' }, { idempotencyKey: 'key-2' })
+    expect(retried.status).toBe(422)
+    expect(retried.replayed).toBeUndefined()
+  })
+
+  it('should forget keys once they expire', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    try {
+      await doInstance.createEntity('Contact', { name: 'Alice' }, { idempotencyKey: 'key-3' })
+      vi.setSystemTime(Date.now() + 25 * 60 * 60 * 1000)
+
+      const result = await doInstance.createEntity('Contact', { name: 'Alice' }, { idempotencyKey: 'key-3' })
+
+      expect(result.replayed).toBeUndefined()
+      expect(await createEvents()).toHaveLength(2)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should hold a key left in progress only for its lease', async () => {
+    // Lease renewals never fire, as for a request cut short by an eviction
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] })
+    try {
+      // An R2 mirror write that never settles stands in for the evicted request
+      doInstance.db = { Contact: { create: () => new Promise(() => {}) } }
+      void doInstance.createEntity('Contact', { name: 'Alice' }, { idempotencyKey: 'key-4' })
+      await vi.waitFor(() => expect(doInstance.sql.exec('SELECT response FROM idempotency_keys').toArray()).toEqual([{ response: null }]))
+      doInstance.db = null
+
+      expect((await doInstance.createEntity('Contact', { name: 'Alice' }, { idempotencyKey: 'key-4' })).status).toBe(409)
+
+      vi.setSystemTime(Date.now() + 61 * 1000)
+      const retried = await doInstance.createEntity('Contact', { name: 'Alice' }, { idempotencyKey: 'key-4' })
+
+      expect(retried.status).toBe(201)
+      expect(retried.replayed).toBeUndefined()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should renew the lease of a request that outlives it', async () => {
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] })
+    try {
+      // A slow R2 mirror write keeps the first request running past its lease
+      let finishMirror!: () => void
+      doInstance.db = { Contact: { create: () => new Promise<void>((resolve) => (finishMirror = resolve)) } }
+      const first = doInstance.createEntity('Contact', { name: 'Alice' }, { idempotencyKey: 'key-6' })
+      await vi.waitFor(() => expect(finishMirror).toBeDefined())
+
+      vi.advanceTimersByTime(5 * 60 * 1000)
+      expect((await doInstance.createEntity('Contact', { name: 'Alice' }, { idempotencyKey: 'key-6' })).status).toBe(409)
+
+      finishMirror()
+      expect((await first).status).toBe(201)
+      const retried = await doInstance.createEntity('Contact', { name: 'Alice' }, { idempotencyKey: 'key-6' })
+
+      expect(retried).toMatchObject({ replayed: true, data: { $id: (await first).data.$id } })
+      expect(await createEvents()).toHaveLength(1)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should keep a stored response for the full TTL after its lease', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    try {
+      const first = await doInstance.createEntity('Contact', { name: 'Alice' }, { idempotencyKey: 'key-5' })
+      vi.setSystemTime(Date.now() + 23 * 60 * 60 * 1000)
+
+      const second = await doInstance.createEntity('Contact', { name: 'Alice' }, { idempotencyKey: 'key-5' })
+
+      expect(second.replayed).toBe(true)
+      expect(second.data.$id).toBe(first.data.$id)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should replay an upsert with the same Idempotency-Key', async () => {
+    await doInstance.upsertEntity('Contact', { name: 'Alice', email: 'alice@test.com' }, { upsertOn: 'email' })
+    const body = { name: 'Alice Smith', email: 'alice@test.com' }
+
+    const first = await doInstance.upsertEntity('Contact', body, { upsertOn: 'email', idempotencyKey: 'upsert-1' })
+    const second = await doInstance.upsertEntity('Contact', body, { upsertOn: 'email', idempotencyKey: 'upsert-1' })
+
+    expect(second).toMatchObject({ replayed: true, status: 200, etag: '"2"', meta: { eventId: first.meta.eventId, created: false } })
+    expect((await doInstance.getEntity('Contact', first.data.$id)).data.$version).toBe(2)
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * Tests for noun field validation
+ *
+ * Verifies:
+ * - Required fields on full (create) and partial (update) validation
+ * - Built-in field types (email, url, int, datetime, ...)
+ * - Enum membership
+ * - Array modifier
+ * - Undeclared fields and meta-fields are ignored
+ */
+
+import { describe, it, expect } from 'vitest'
+import { validateFields, validateValue, formatFieldErrors } from '../src/lib/validate'
+import { parseNounDefinition } from '../src/lib/parse'
+
+const contact = parseNounDefinition('Contact', {
+  name: 'string!',
+  email: 'email?#',
+  website: 'url',
+  age: 'int',
+  score: 'number',
+  active: 'boolean',
+  birthday: 'date',
+  lastSeenAt: 'datetime',
+  tags: 'string[]',
+  stage: 'Lead | Qualified | Customer',
+  priority: 'enum(low, medium, high)',
+})
+
+// ---------------------------------------------------------------------------
+// Required fields
+// ---------------------------------------------------------------------------
+
+describe('validateFields — required', () => {
+  it('should report missing required fields on full validation', () => {
+    const errors = validateFields(contact.fields, { email: 'alice@example.com' })
+    expect(errors).toEqual([{ field: 'name', message: 'is required' }])
+  })
+
+  it('should treat null and empty string as missing', () => {
+    expect(validateFields(contact.fields, { name: null })).toHaveLength(1)
+    expect(validateFields(contact.fields, { name: '' })).toHaveLength(1)
+  })
+
+  it('should skip absent required fields on partial validation', () => {
+    expect(validateFields(contact.fields, { age: 30 }, { partial: true })).toEqual([])
+  })
+
+  it('should reject clearing a required field on partial validation', () => {
+    const errors = validateFields(contact.fields, { name: null }, { partial: true })
+    expect(errors).toEqual([{ field: 'name', message: 'is required' }])
+  })
+
+  it('should allow clearing an optional field', () => {
+    expect(validateFields(contact.fields, { name: 'Alice', email: null })).toEqual([])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Field types
+// ---------------------------------------------------------------------------
+
+describe('validateFields — types', () => {
+  it('should accept a fully valid entity', () => {
+    const errors = validateFields(contact.fields, {
+      name: 'Alice',
+      email: 'alice@example.com',
+      website: 'https://example.com',
+      age: 30,
+      score: 4.5,
+      active: true,
+      birthday: '1990-04-01',
+      lastSeenAt: '2026-01-01T12:00:00.000Z',
+      tags: ['vip', 'beta'],
+      stage: 'Lead',
+      priority: 'high',
+    })
+    expect(errors).toEqual([])
+  })
+
+  it('should reject an invalid email', () => {
+    const errors = validateFields(contact.fields, { name: 'Alice', email: 'not-an-email' })
+    expect(errors).toEqual([{ field: 'email', message: 'must be a valid email address' }])
+  })
+
+  it('should reject an invalid url', () => {
+    const errors = validateFields(contact.fields, { name: 'Alice', website: 'example dot com' })
+    expect(errors[0]!.field).toBe('website')
+  })
+
+  it('should reject non-integer values for int fields', () => {
+    const errors = validateFields(contact.fields, { name: 'Alice', age: 30.5 })
+    expect(errors).toEqual([{ field: 'age', message: 'must be an integer' }])
+  })
+
+  it('should reject strings for number fields', () => {
+    const errors = validateFields(contact.fields, { name: 'Alice', score: '4.5' })
+    expect(errors).toEqual([{ field: 'score', message: 'must be a number' }])
+  })
+
+  it('should reject unparseable datetimes', () => {
+    const errors = validateFields(contact.fields, { name: 'Alice', lastSeenAt: 'yesterday' })
+    expect(errors[0]!.field).toBe('lastSeenAt')
+  })
+
+  it('should accept unknown field types without checking', () => {
+    expect(validateValue({ name: 'geo', kind: 'field', type: 'Point' }, { lat: 1, lng: 2 })).toBeNull()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Enums and arrays
+// ---------------------------------------------------------------------------
+
+describe('validateFields — enums and arrays', () => {
+  it('should reject values outside a pipe enum', () => {
+    const errors = validateFields(contact.fields, { name: 'Alice', stage: 'Leed' })
+    expect(errors).toEqual([{ field: 'stage', message: 'must be one of: Lead, Qualified, Customer' }])
+  })
+
+  it('should reject values outside an explicit enum()', () => {
+    const errors = validateFields(contact.fields, { name: 'Alice', priority: 'urgent' })
+    expect(errors[0]!.field).toBe('priority')
+  })
+
+  it('should require an array for array fields', () => {
+    const errors = validateFields(contact.fields, { name: 'Alice', tags: 'vip' })
+    expect(errors).toEqual([{ field: 'tags', message: 'must be an array' }])
+  })
+
+  it('should report the offending array element', () => {
+    const errors = validateFields(contact.fields, { name: 'Alice', tags: ['vip', 42] })
+    expect(errors).toEqual([{ field: 'tags', message: '[1] must be a string' }])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Ignored keys
+// ---------------------------------------------------------------------------
+
+describe('validateFields — ignored keys', () => {
+  it('should ignore undeclared fields and meta-fields', () => {
+    const errors = validateFields(contact.fields, { name: 'Alice', nickname: 42, $id: 'contact_abc', $version: 'x' })
+    expect(errors).toEqual([])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// formatFieldErrors
+// ---------------------------------------------------------------------------
+
+describe('formatFieldErrors', () => {
+  it('should join errors into a single message', () => {
+    expect(
+      formatFieldErrors([
+        { field: 'name', message: 'is required' },
+        { field: 'age', message: 'must be an integer' },
+      ]),
+    ).toBe('name is required; age must be an integer')
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * Tests for typed verb input declarations
+ *
+ * Verifies:
+ * - `'verb.param': 'type'` declares an input with field type/modifier syntax
+ * - Declaring an input also declares the verb
+ * - Inputs reuse field validation (required, types, enums)
+ * - Relationship inputs and inputs on CRUD verbs are rejected
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseNounDefinition } from '../src/lib/parse'
+import { validateFields } from '../src/lib/validate'
+
+const deal = parseNounDefinition('Deal', {
+  title: 'string!',
+  value: 'number',
+  stage: 'Open | Closed | Lost',
+  close: 'Open => Closed',
+  'close.value': 'number!',
+  'close.reason': 'string',
+  'lose.reason': 'Price | Timing | Competitor = "Price"',
+})
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+describe('parseNounDefinition — verb inputs', () => {
+  it('should parse inputs with field syntax', () => {
+    expect(deal.verbInputs!.close!.value).toEqual(expect.objectContaining({ kind: 'field', type: 'number' }))
+    expect(deal.verbInputs!.close!.value!.modifiers!.required).toBe(true)
+    expect(deal.verbInputs!.close!.reason!.type).toBe('string')
+  })
+
+  it('should parse enum inputs with defaults', () => {
+    expect(deal.verbInputs!.lose!.reason).toEqual(
+      expect.objectContaining({ kind: 'enum', enumValues: ['Price', 'Timing', 'Competitor'], defaultValue: 'Price' }),
+    )
+  })
+
+  it('should declare the verb when only inputs are given', () => {
+    expect(deal.verbs.lose).toEqual(expect.objectContaining({ action: 'lose' }))
+  })
+
+  it('should keep inputs out of the entity fields', () => {
+    expect(deal.fields['close.value']).toBeUndefined()
+    expect(deal.fields.reason).toBeUndefined()
+  })
+
+  it('should keep the transition alongside the inputs', () => {
+    expect(deal.transitions!.close).toEqual({ field: 'stage', from: ['Open'], to: 'Closed' })
+  })
+
+  it('should reject relationship inputs', () => {
+    expect(() => parseNounDefinition('Deal', { 'assign.owner': '-> User' })).toThrow(/must be a field type or enum/)
+  })
+
+  it('should reject inputs on CRUD verbs', () => {
+    expect(() => parseNounDefinition('Deal', { 'update.note': 'string' })).toThrow(/built-in verb 'update'/)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+describe('validateFields — verb inputs', () => {
+  it('should require required inputs', () => {
+    expect(validateFields(deal.verbInputs!.close!, { reason: 'Signed' })).toEqual([{ field: 'value', message: 'is required' }])
+  })
+
+  it('should check input types', () => {
+    expect(validateFields(deal.verbInputs!.close!, { value: 'lots' })).toEqual([{ field: 'value', message: 'must be a number' }])
+  })
+
+  it('should check enum inputs', () => {
+    expect(validateFields(deal.verbInputs!.lose!, { reason: 'Budget' })[0]!.field).toBe('reason')
+  })
+})
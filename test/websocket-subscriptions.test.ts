@@ -0,0 +1,224 @@
+/**
+ * Integration tests for WebSocket subscriptions
+ *
+ * Verifies:
+ * - fetch() rejects non-upgrade requests and subscriptions without patterns
+ * - Accepted sockets use the hibernation API and receive matching events live
+ * - since replays the matching events after a cursor before going live
+ * - Subscribers can change their patterns and resume with a subscribe message
+ * - Stored websocket-mode subscriptions are connected to by id and closed when deleted
+ * - Subscriptions live in the socket attachment, surviving hibernation
+ * - Client closes are echoed, with reserved close codes mapped to 1000
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createTestDO } from './helpers/objects-do'
+
+// ---------------------------------------------------------------------------
+// Mocks — cloudflare:workers is only available in the Workers runtime
+// ---------------------------------------------------------------------------
+
+vi.mock('cloudflare:workers', () => import('./helpers/objects-do'))
+vi.mock('../../events/core/src/emitter', () => import('./helpers/objects-do'))
+
+/** Server side of a WebSocketPair: records what the DO sends and its attachment */
+class MockSocket {
+  sent: Array<Record<string, any>> = []
+  closed: { code: number; reason: string } | null = null
+  private attachment: unknown = null
+
+  send(message: string) {
+    this.sent.push(JSON.parse(message))
+  }
+
+  close(code: number, reason: string) {
+    // Like the runtime, reject codes that only report a closure
+    if ([1005, 1006, 1015].includes(code)) throw new TypeError(`Invalid WebSocket close code: ${code}`)
+    this.closed = { code, reason }
+  }
+
+  serializeAttachment(value: unknown) {
+    this.attachment = structuredClone(value)
+  }
+
+  deserializeAttachment() {
+    return this.attachment
+  }
+
+  /** Messages received since the last call */
+  take(): Array<Record<string, any>> {
+    return this.sent.splice(0)
+  }
+}
+
+class MockWebSocketPair {
+  0 = new MockSocket()
+  1 = new MockSocket()
+}
+
+/** Node's Response rejects status 101, which the Workers runtime allows for upgrades */
+class UpgradeResponse extends Response {
+  webSocket: unknown
+  constructor(body: BodyInit | null, init: ResponseInit & { webSocket?: unknown } = {}) {
+    super(body, { ...init, status: init.status === 101 ? 200 : init.status })
+    this.webSocket = init.webSocket
+  }
+}
+
+// ===========================================================================
+// Tests
+// ===========================================================================
+
+describe('ObjectsDO WebSocket subscriptions', () => {
+  let doInstance: any
+  let pairs: MockWebSocketPair[]
+
+  /** Connect a subscriber and return the server side of its socket */
+  async function connect(query: string): Promise<MockSocket> {
+    const response = await doInstance.fetch(new Request(`https://objects.do/subscriptions/ws?${query}`, { headers: { Upgrade: 'websocket' } }))
+    expect(response.webSocket).toBe(pairs.at(-1)![0])
+    return pairs.at(-1)![1]
+  }
+
+  beforeEach(async () => {
+    pairs = []
+    vi.stubGlobal(
+      'WebSocketPair',
+      class extends MockWebSocketPair {
+        constructor() {
+          super()
+          pairs.push(this)
+        }
+      },
+    )
+    vi.stubGlobal('WebSocketRequestResponsePair', class {})
+    vi.stubGlobal('Response', UpgradeResponse)
+
+    doInstance = await createTestDO()
+    doInstance.defineNoun({ name: 'Contact', definition: { name: 'string!', stage: 'Lead | Qualified', qualify: 'Lead => Qualified' } })
+    doInstance.defineNoun({ name: 'Deal', definition: { name: 'string!' } })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should reject requests that are not usable subscriptions', async () => {
+    const plain = await doInstance.fetch(new Request('https://objects.do/subscriptions/ws?patterns=*'))
+    const noPatterns = await doInstance.fetch(new Request('https://objects.do/subscriptions/ws', { headers: { Upgrade: 'websocket' } }))
+    const unknown = await doInstance.fetch(new Request('https://objects.do/subscriptions/ws?subscription=sub_missing', { headers: { Upgrade: 'websocket' } }))
+
+    expect(plain.status).toBe(426)
+    expect(noPatterns.status).toBe(400)
+    expect(unknown.status).toBe(404)
+    expect(pairs).toHaveLength(0)
+  })
+
+  it('should accept a hibernatable socket and push matching events', async () => {
+    const acceptWebSocket = vi.spyOn(doInstance.ctx, 'acceptWebSocket')
+    const ws = await connect('patterns=Contact.*,*.qualify')
+
+    expect(acceptWebSocket).toHaveBeenCalledWith(ws, [])
+    expect(ws.take()).toEqual([{ type: 'subscribed', patterns: ['Contact.*', '*.qualify'], cursor: null, more: false }])
+
+    const contact = await doInstance.createEntity('Contact', { name: 'Alice', stage: 'Lead' })
+    await doInstance.createEntity('Deal', { name: 'Acme' })
+
+    const [message, ...rest] = ws.take()
+    expect(rest).toEqual([])
+    expect(message).toMatchObject({ type: 'event', event: { $id: contact.meta.eventId, $type: 'Contact.create', after: { name: 'Alice' } } })
+  })
+
+  it('should replay matching events after the since cursor', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-03-01T00:00:00Z'))
+    const first = await doInstance.createEntity('Contact', { name: 'Alice', stage: 'Lead' })
+    vi.setSystemTime(new Date('2026-03-02T00:00:00Z'))
+    await doInstance.createEntity('Deal', { name: 'Acme' })
+    vi.setSystemTime(new Date('2026-03-03T00:00:00Z'))
+    const qualified = await doInstance.executeVerb('Contact', first.data.$id, 'qualify')
+    vi.useRealTimers()
+
+    const ws = await connect(`patterns=Contact.*&since=${first.meta.eventId}`)
+
+    expect(ws.take()).toEqual([
+      expect.objectContaining({ type: 'event', event: expect.objectContaining({ $id: qualified.meta.event.$id }) }),
+      { type: 'subscribed', patterns: ['Contact.*'], cursor: qualified.meta.event.$id, more: false },
+    ])
+  })
+
+  it('should change patterns and replay on a subscribe message', async () => {
+    const deal = await doInstance.createEntity('Deal', { name: 'Acme' })
+    const ws = await connect('patterns=Contact.create')
+    ws.take()
+
+    await doInstance.webSocketMessage(ws, JSON.stringify({ type: 'subscribe', patterns: ['Deal.*'], since: 'evt_unknown' }))
+
+    expect(ws.take()).toEqual([
+      expect.objectContaining({ type: 'event', event: expect.objectContaining({ $id: deal.meta.eventId }) }),
+      { type: 'subscribed', patterns: ['Deal.*'], cursor: deal.meta.eventId, more: false },
+    ])
+
+    await doInstance.createEntity('Contact', { name: 'Alice', stage: 'Lead' })
+    expect(ws.take()).toEqual([])
+  })
+
+  it('should answer invalid messages with an error', async () => {
+    const ws = await connect('patterns=*')
+    ws.take()
+
+    await doInstance.webSocketMessage(ws, 'not json')
+    await doInstance.webSocketMessage(ws, JSON.stringify({ type: 'unsubscribe' }))
+    await doInstance.webSocketMessage(ws, JSON.stringify({ type: 'subscribe', patterns: [] }))
+
+    expect(ws.take().map((m) => m.type)).toEqual(['error', 'error', 'error'])
+  })
+
+  // -------------------------------------------------------------------------
+  // Stored subscriptions
+  // -------------------------------------------------------------------------
+
+  it('should connect to a stored websocket subscription and close it on delete', async () => {
+    const created = doInstance.createSubscription({ pattern: 'Deal.create', mode: 'websocket' })
+    expect(created.data.endpoint).toBe(`/subscriptions/ws?subscription=${created.data.id}`)
+
+    const ws = await connect(`subscription=${created.data.id}`)
+    expect(ws.take()).toEqual([{ type: 'subscribed', patterns: ['Deal.create'], cursor: null, more: false }])
+
+    await doInstance.webSocketMessage(ws, JSON.stringify({ type: 'subscribe', patterns: ['*'] }))
+    expect(ws.take()[0]).toMatchObject({ type: 'error', error: 'The patterns of a stored subscription cannot be changed' })
+
+    await doInstance.createEntity('Deal', { name: 'Acme' })
+    expect(ws.take()).toEqual([expect.objectContaining({ type: 'event' })])
+
+    doInstance.deleteSubscription(created.data.id)
+    expect(ws.closed).toEqual({ code: 1000, reason: 'Subscription deleted' })
+  })
+
+  it('should deliver after hibernation from the socket attachment alone', async () => {
+    const ws = await connect('patterns=Deal.*')
+    ws.take()
+
+    // A fresh instance over the same storage and sockets, as after waking from hibernation
+    const woken = new doInstance.constructor(doInstance.ctx, doInstance.env)
+    const deal = await woken.createEntity('Deal', { name: 'Acme' })
+
+    expect(ws.take()).toEqual([expect.objectContaining({ type: 'event', event: expect.objectContaining({ $id: deal.meta.eventId }) })])
+  })
+
+  it('should finish closing the socket when the client closes', async () => {
+    const ws = await connect('patterns=*')
+
+    await doInstance.webSocketClose(ws, 1001, 'Going away')
+
+    expect(ws.closed).toEqual({ code: 1001, reason: 'Going away' })
+  })
+
+  it('should close with 1000 when the client disconnects abnormally', async () => {
+    const ws = await connect('patterns=*')
+
+    await doInstance.webSocketClose(ws, 1006, '')
+
+    expect(ws.closed).toEqual({ code: 1000, reason: '' })
+  })
+})